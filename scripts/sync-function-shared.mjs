@@ -0,0 +1,36 @@
+// Copy the generation code the edge functions run into supabase/functions/_shared.
+// Functions are deployed from supabase/functions alone, so they cannot import
+// from src. Run after changing any of the copied modules; --check only reports
+// whether the copies are out of date.
+import { cpSync, existsSync, readFileSync, readdirSync, rmSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+
+const SHARED_DIR = 'supabase/functions/_shared';
+const SOURCES = ['src/types', 'src/lib/generation', 'src/lib/layout', 'src/lib/llm'];
+
+const listFiles = (dir) =>
+  readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+
+const sharedPath = (source) => join(SHARED_DIR, relative('src', source));
+
+if (process.argv.includes('--check')) {
+  const stale = SOURCES.flatMap((source) => {
+    const copies = existsSync(sharedPath(source)) ? listFiles(sharedPath(source)) : [];
+    const originals = listFiles(source);
+    const changed = originals.filter((file) => !existsSync(sharedPath(file)) || readFileSync(file, 'utf8') !== readFileSync(sharedPath(file), 'utf8'));
+    const removed = copies.filter((copy) => !originals.some((file) => sharedPath(file) === copy));
+    return [...changed, ...removed];
+  });
+  if (stale.length > 0) {
+    console.error(`Out of date in ${SHARED_DIR}:\n  ${stale.join('\n  ')}\nRun npm run functions:sync.`);
+    process.exit(1);
+  }
+} else {
+  SOURCES.forEach((source) => {
+    rmSync(sharedPath(source), { recursive: true, force: true });
+    cpSync(source, sharedPath(source), { recursive: true });
+  });
+}
@@ -0,0 +1,44 @@
+import { CheckCircle2, MinusCircle, XCircle } from "lucide-react";
+import { AdjacencyCheck, describeAdjacencyEdge } from "@/lib/layout/adjacency";
+
+interface AdjacencyReportProps {
+  checks: AdjacencyCheck[];
+}
+
+const AdjacencyReport = ({ checks }: AdjacencyReportProps) => {
+  const unmet = checks.filter((check) => check.status === "unmet").length;
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="font-medium text-foreground">
+        Room relationships: {checks.length - unmet} of {checks.length} met
+      </div>
+      <ul className="space-y-1">
+        {checks.map((check, index) => (
+          <li key={index}>
+            <div className="flex items-center gap-1">
+              {check.status === "met" && <CheckCircle2 className="w-3 h-3 text-green-600 flex-shrink-0" />}
+              {check.status === "unmet" && (
+                <XCircle className={`w-3 h-3 flex-shrink-0 ${check.edge.kind === "prefer" ? "text-amber-500" : "text-red-600"}`} />
+              )}
+              {check.status === "not-applicable" && <MinusCircle className="w-3 h-3 text-muted-foreground flex-shrink-0" />}
+              <span className={check.status === "unmet" ? "text-foreground" : "text-muted-foreground"}>
+                {describeAdjacencyEdge(check.edge)}
+                {check.status === "not-applicable" && " (no such room in this plan)"}
+              </span>
+            </div>
+            {check.problems.length > 0 && (
+              <ul className="ml-4 text-muted-foreground">
+                {check.problems.map((problem, problemIndex) => (
+                  <li key={problemIndex}>{problem}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AdjacencyReport;
@@ -1,12 +1,18 @@
-import { Room } from '@/types/floorPlan';
+import { FloorProgram, ROOM_NAMES, Room } from '@/types/floorPlan';
+import { AreaMetrics, getCarpetArea } from '@/lib/layout/areaMetrics';
+import { PROGRAM_ROOM_TYPES, getProgramCount } from '@/lib/layout/floorPrograms';
 
 interface AreaScheduleProps {
-  rooms: Room[];
-  totalArea: number;
-  efficiency: number;
+  rooms: Room[]; // rooms on the floor on screen
+  floor: number;
+  metrics: AreaMetrics; // whole building
+  wallThickness?: number;
+  program?: FloorProgram; // requested rooms for this floor, when planned per floor
 }
 
-const AreaSchedule = ({ rooms, totalArea, efficiency }: AreaScheduleProps) => {
+const percent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+const AreaSchedule = ({ rooms, floor, metrics, wallThickness, program }: AreaScheduleProps) => {
   // Group rooms by type and calculate areas
   const roomSummary = rooms.reduce((acc, room) => {
     const area = room.width * room.height;
@@ -20,7 +26,14 @@ const AreaSchedule = ({ rooms, totalArea, efficiency }: AreaScheduleProps) => {
   }, {} as Record<string, { count: number; totalArea: number; rooms: { name: string; area: number; dimensions: string }[] }>);
 
   const sortedTypes = Object.entries(roomSummary).sort((a, b) => b[1].totalArea - a[1].totalArea);
-  const builtUpArea = rooms.reduce((sum, r) => sum + r.width * r.height, 0);
+  const floorMetrics = metrics.floors.find((entry) => entry.floor === floor);
+
+  // Requested against placed counts for the types this floor's program mentions
+  const programRows = program
+    ? PROGRAM_ROOM_TYPES
+        .map((type) => ({ type, requested: getProgramCount(program, type), placed: rooms.filter((room) => room.type === type).length }))
+        .filter((row) => row.requested > 0 || row.placed > 0)
+    : [];
 
   return (
     <div className="bg-white border-2 border-neutral-900 p-4 font-mono text-xs">
@@ -35,6 +48,7 @@ const AreaSchedule = ({ rooms, totalArea, efficiency }: AreaScheduleProps) => {
             <th className="text-left py-1 text-neutral-700 font-medium">Room</th>
             <th className="text-center py-1 text-neutral-700 font-medium">Size</th>
             <th className="text-right py-1 text-neutral-700 font-medium">Area (sq.ft)</th>
+            <th className="text-right py-1 text-neutral-700 font-medium">Carpet</th>
           </tr>
         </thead>
         <tbody>
@@ -44,24 +58,70 @@ const AreaSchedule = ({ rooms, totalArea, efficiency }: AreaScheduleProps) => {
               <td className="py-1 text-neutral-900 font-medium">{room.name}</td>
               <td className="py-1 text-center text-neutral-600">{room.width.toFixed(0)}' × {room.height.toFixed(0)}'</td>
               <td className="py-1 text-right text-neutral-900">{(room.width * room.height).toFixed(0)}</td>
+              <td className="py-1 text-right text-neutral-600">{getCarpetArea(room, wallThickness).toFixed(0)}</td>
             </tr>
           ))}
         </tbody>
         <tfoot>
           <tr className="border-t-2 border-neutral-900">
             <td colSpan={3} className="py-2 font-bold text-neutral-900">Built-Up Area</td>
-            <td className="py-2 text-right font-bold text-neutral-900">{builtUpArea.toFixed(0)} sq.ft</td>
+            <td colSpan={2} className="py-2 text-right font-bold text-neutral-900">{(floorMetrics?.builtUpArea ?? 0).toFixed(0)} sq.ft</td>
+          </tr>
+          <tr>
+            <td colSpan={3} className="py-1 text-neutral-700">Carpet Area</td>
+            <td colSpan={2} className="py-1 text-right text-neutral-700">{(floorMetrics?.carpetArea ?? 0).toFixed(0)} sq.ft</td>
+          </tr>
+          <tr>
+            <td colSpan={3} className="py-1 text-neutral-700">Efficiency (carpet / built-up)</td>
+            <td colSpan={2} className="py-1 text-right text-neutral-700">{percent(floorMetrics?.efficiency ?? 0)}</td>
+          </tr>
+          <tr>
+            <td colSpan={3} className="py-1 text-neutral-700">Circulation</td>
+            <td colSpan={2} className="py-1 text-right text-neutral-700">{percent(floorMetrics?.circulationRatio ?? 0)}</td>
+          </tr>
+          <tr className="border-t border-neutral-400">
+            <td colSpan={3} className="pt-2 pb-1 font-bold text-neutral-900">All Floors</td>
+            <td colSpan={2} />
+          </tr>
+          <tr>
+            <td colSpan={3} className="py-1 text-neutral-700">Built-Up / Super Built-Up</td>
+            <td colSpan={2} className="py-1 text-right text-neutral-700">{metrics.builtUpArea.toFixed(0)} / {metrics.superBuiltUpArea.toFixed(0)}</td>
           </tr>
           <tr>
             <td colSpan={3} className="py-1 text-neutral-700">Plot Area</td>
-            <td className="py-1 text-right text-neutral-700">{totalArea.toFixed(0)} sq.ft</td>
+            <td colSpan={2} className="py-1 text-right text-neutral-700">{metrics.plotArea.toFixed(0)} sq.ft</td>
           </tr>
           <tr>
-            <td colSpan={3} className="py-1 text-neutral-700">Coverage Efficiency</td>
-            <td className="py-1 text-right text-neutral-700">{(efficiency * 100).toFixed(1)}%</td>
+            <td colSpan={3} className="py-1 text-neutral-700">FSI / FAR</td>
+            <td colSpan={2} className="py-1 text-right text-neutral-700">{metrics.fsi.toFixed(2)}</td>
+          </tr>
+          <tr>
+            <td colSpan={3} className="py-1 text-neutral-700">Ground Coverage</td>
+            <td colSpan={2} className="py-1 text-right text-neutral-700">{percent(metrics.groundCoverage)}</td>
           </tr>
         </tfoot>
       </table>
+
+      {programRows.length > 0 && (
+        <table className="w-full border-collapse mt-4">
+          <thead>
+            <tr className="border-b border-neutral-400">
+              <th className="text-left py-1 text-neutral-700 font-medium">Floor Program</th>
+              <th className="text-right py-1 text-neutral-700 font-medium">Req.</th>
+              <th className="text-right py-1 text-neutral-700 font-medium">Placed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {programRows.map(({ type, requested, placed }) => (
+              <tr key={type} className="border-b border-neutral-200">
+                <td className="py-1 text-neutral-900">{ROOM_NAMES[type]}</td>
+                <td className="py-1 text-right text-neutral-600">{requested}</td>
+                <td className={`py-1 text-right ${placed < requested ? 'text-red-600 font-bold' : 'text-neutral-900'}`}>{placed}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
     </div>
   );
 };
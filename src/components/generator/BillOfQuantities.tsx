@@ -0,0 +1,78 @@
+import { useMemo, useState } from "react";
+import { FileSpreadsheet, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { GeneratedLayout } from "@/types/floorPlan";
+import { DEFAULT_BOQ_OPTIONS, buildBillOfQuantities } from "@/lib/cost/billOfQuantities";
+import { boqToCsv, boqToSpreadsheet } from "@/lib/cost/boqExport";
+
+interface BillOfQuantitiesProps {
+  layout: GeneratedLayout;
+  fileName: string; // without extension
+}
+
+const download = (content: string, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Contractor quantities for the whole building, exportable as CSV or a spreadsheet
+const BillOfQuantities = ({ layout, fileName }: BillOfQuantitiesProps) => {
+  const [floorHeight, setFloorHeight] = useState(DEFAULT_BOQ_OPTIONS.floorHeight);
+  const items = useMemo(() => buildBillOfQuantities(layout, { floorHeight }), [layout, floorHeight]);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="font-medium text-foreground">Bill of quantities</div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="boq-floor-height" className="text-xs">Floor height (ft)</Label>
+          <Input
+            id="boq-floor-height"
+            type="number"
+            min={7}
+            max={20}
+            step={0.5}
+            className="h-8 w-20 text-xs"
+            value={floorHeight}
+            onChange={(event) => setFloorHeight(Math.max(7, parseFloat(event.target.value) || DEFAULT_BOQ_OPTIONS.floorHeight))}
+          />
+          <Button variant="outline" size="sm" onClick={() => download(boqToCsv(items), "text/csv;charset=utf-8", `${fileName}.csv`)}>
+            <FileText className="w-4 h-4 mr-1" /> CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => download(boqToSpreadsheet(items), "application/vnd.ms-excel", `${fileName}.xls`)}>
+            <FileSpreadsheet className="w-4 h-4 mr-1" /> Excel
+          </Button>
+        </div>
+      </div>
+
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-border text-left text-muted-foreground">
+            <th className="py-1 font-medium">Section</th>
+            <th className="py-1 font-medium">Description</th>
+            <th className="py-1 font-medium text-right">Quantity</th>
+            <th className="py-1 font-medium pl-2">Unit</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item, index) => (
+            <tr key={index} className="border-b border-border/50">
+              <td className="py-0.5 text-muted-foreground">{index === 0 || items[index - 1].section !== item.section ? item.section : ""}</td>
+              <td className="py-0.5">{item.description}</td>
+              <td className="py-0.5 text-right font-mono">{item.quantity.toLocaleString()}</td>
+              <td className="py-0.5 pl-2 text-muted-foreground">{item.unit}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default BillOfQuantities;
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { AdjacencyEdge, AdjacencyKind, AdjacencyNode } from "@/types/floorPlan";
+import { ADJACENCY_NODES, describeAdjacencyEdge, getAdjacencyNodeName } from "@/lib/layout/adjacency";
+
+interface BubbleDiagramEditorProps {
+  edges?: AdjacencyEdge[];
+  onChange: (edges: AdjacencyEdge[]) => void;
+}
+
+const SIZE = 340;
+const RADIUS = 130;
+const BUBBLE_RADIUS = 24;
+
+const KIND_STYLES: Record<AdjacencyKind, { label: string; stroke: string; dash?: string }> = {
+  must: { label: "Must adjoin", stroke: "#16a34a" },
+  prefer: { label: "Prefer adjoining", stroke: "#2563eb", dash: "6 4" },
+  forbid: { label: "Must not adjoin", stroke: "#dc2626", dash: "2 3" },
+};
+
+const COMMON_EDGES: AdjacencyEdge[] = [
+  { from: "master-bedroom", to: "bathroom", kind: "must" },
+  { from: "pooja", to: "bathroom", kind: "forbid" },
+  { from: "kitchen", to: "dining", kind: "must" },
+];
+
+const bubblePosition = (index: number) => {
+  const angle = (index / ADJACENCY_NODES.length) * Math.PI * 2 - Math.PI / 2;
+  return { x: SIZE / 2 + Math.cos(angle) * RADIUS, y: SIZE / 2 + Math.sin(angle) * RADIUS };
+};
+
+const sameEdge = (a: AdjacencyEdge, b: Pick<AdjacencyEdge, "from" | "to">) => a.from === b.from && a.to === b.to;
+
+// Pick a kind, then click the room that has the requirement and the room it refers to
+const BubbleDiagramEditor = ({ edges = [], onChange }: BubbleDiagramEditorProps) => {
+  const [kind, setKind] = useState<AdjacencyKind>("must");
+  const [pending, setPending] = useState<AdjacencyNode | null>(null);
+
+  const positions = new Map(ADJACENCY_NODES.map((node, index) => [node, bubblePosition(index)]));
+
+  const handleBubbleClick = (node: AdjacencyNode) => {
+    if (!pending) {
+      setPending(node);
+      return;
+    }
+    if (pending !== node) {
+      const edge = { from: pending, to: node, kind };
+      onChange([...edges.filter((existing) => !sameEdge(existing, edge)), edge]);
+    }
+    setPending(null);
+  };
+
+  const addCommonEdges = () => {
+    onChange([...edges.filter((edge) => !COMMON_EDGES.some((common) => sameEdge(edge, common))), ...COMMON_EDGES]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label>Room Relationships</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addCommonEdges}>Add common requirements</Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(KIND_STYLES) as AdjacencyKind[]).map((option) => (
+          <Button key={option} type="button" size="sm" variant={kind === option ? "default" : "outline"} onClick={() => setKind(option)}>
+            <span className="inline-block w-4 h-0.5 mr-2" style={{ backgroundColor: KIND_STYLES[option].stroke }} />
+            {KIND_STYLES[option].label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-sm bg-white border border-neutral-300">
+          <defs>
+            {(Object.keys(KIND_STYLES) as AdjacencyKind[]).map((option) => (
+              <marker key={option} id={`bubble-arrow-${option}`} viewBox="0 0 10 10" refX={10} refY={5} markerWidth={6} markerHeight={6} orient="auto">
+                <path d="M0,0 L10,5 L0,10 z" fill={KIND_STYLES[option].stroke} />
+              </marker>
+            ))}
+          </defs>
+
+          {edges.map((edge, index) => {
+            const from = positions.get(edge.from);
+            const to = positions.get(edge.to);
+            if (!from || !to) return null;
+            // Stop the line at the edge of the target bubble so the arrow head shows
+            const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+            const end = { x: to.x - ((to.x - from.x) / length) * BUBBLE_RADIUS, y: to.y - ((to.y - from.y) / length) * BUBBLE_RADIUS };
+            return (
+              <line
+                key={index}
+                x1={from.x}
+                y1={from.y}
+                x2={end.x}
+                y2={end.y}
+                stroke={KIND_STYLES[edge.kind].stroke}
+                strokeWidth={2}
+                strokeDasharray={KIND_STYLES[edge.kind].dash}
+                markerEnd={`url(#bubble-arrow-${edge.kind})`}
+              />
+            );
+          })}
+
+          {ADJACENCY_NODES.map((node) => {
+            const { x, y } = positions.get(node);
+            const isPending = pending === node;
+            return (
+              <g key={node} className="cursor-pointer" onClick={() => handleBubbleClick(node)}>
+                <circle cx={x} cy={y} r={BUBBLE_RADIUS} fill={isPending ? "#fef3c7" : "#f5f5f4"} stroke={isPending ? "#d97706" : "#525252"} strokeWidth={isPending ? 2 : 1} />
+                <text x={x} y={y} textAnchor="middle" dominantBaseline="middle" fontSize={8} fill="#1a1a1a">
+                  {getAdjacencyNodeName(node).replace(" Room", "")}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+
+        <div className="space-y-2 text-sm">
+          <p className="text-xs text-muted-foreground">
+            {pending
+              ? `Now click the room ${getAdjacencyNodeName(pending)} relates to, or click it again to cancel.`
+              : "Click a room, then the room it relates to. Each requirement is checked after generation."}
+          </p>
+          {edges.length === 0 ? (
+            <p className="text-muted-foreground">No relationships yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {edges.map((edge, index) => (
+                <li key={index} className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <span className="inline-block w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: KIND_STYLES[edge.kind].stroke }} />
+                    {describeAdjacencyEdge(edge)}
+                  </span>
+                  <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Remove" onClick={() => onChange(edges.filter((_, i) => i !== index))}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BubbleDiagramEditor;
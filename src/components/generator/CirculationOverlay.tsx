@@ -0,0 +1,62 @@
+import { Room } from "@/types/floorPlan";
+import { CirculationIssue } from "@/lib/layout/circulation";
+
+interface CirculationOverlayProps {
+  rooms: Room[]; // rooms on the floor on screen
+  graph: Map<string, string[]>;
+  issues: CirculationIssue[]; // already filtered to the floor on screen
+  scale: number;
+  zoom: number;
+}
+
+const ISSUE_STYLES: Record<CirculationIssue["kind"], { fill: string; stroke: string }> = {
+  "no-entrance": { fill: "none", stroke: "none" },
+  unreachable: { fill: "rgba(220, 38, 38, 0.15)", stroke: "#dc2626" },
+  "through-bedroom": { fill: "rgba(217, 119, 6, 0.12)", stroke: "#d97706" },
+  "bathroom-off-kitchen": { fill: "rgba(147, 51, 234, 0.1)", stroke: "#9333ea" },
+};
+
+// Door connections drawn between room centers, with flagged rooms shaded by problem
+const CirculationOverlay = ({ rooms, graph, issues, scale, zoom }: CirculationOverlayProps) => {
+  const px = scale * zoom;
+  const byId = new Map(rooms.map((room) => [room.id, room]));
+  const center = (room: Room) => ({ x: (room.x + room.width / 2) * px, y: (room.y + room.height / 2) * px });
+  const links = rooms.flatMap((room) =>
+    (graph.get(room.id) ?? [])
+      .filter((id) => id > room.id && byId.has(id))
+      .map((id) => ({ key: `${room.id}-${id}`, from: center(room), to: center(byId.get(id)) }))
+  );
+
+  return (
+    <g className="circulation" pointerEvents="none">
+      {issues.map((issue, index) => {
+        const room = byId.get(issue.roomId);
+        if (!room) return null;
+        return (
+          <g key={index}>
+            <title>{issue.message}</title>
+            <rect
+              x={room.x * px}
+              y={room.y * px}
+              width={room.width * px}
+              height={room.height * px}
+              fill={ISSUE_STYLES[issue.kind].fill}
+              stroke={ISSUE_STYLES[issue.kind].stroke}
+              strokeWidth={2}
+            />
+          </g>
+        );
+      })}
+
+      {links.map((link) => (
+        <line key={link.key} x1={link.from.x} y1={link.from.y} x2={link.to.x} y2={link.to.y} stroke="#16a34a" strokeWidth={1.5} strokeDasharray="4 3" />
+      ))}
+      {rooms.map((room) => {
+        const { x, y } = center(room);
+        return <circle key={room.id} cx={x} cy={y} r={3} fill={room.doors?.some((door) => door.isMain) ? "#16a34a" : "#ffffff"} stroke="#16a34a" strokeWidth={1.5} />;
+      })}
+    </g>
+  );
+};
+
+export default CirculationOverlay;
@@ -0,0 +1,88 @@
+import { ChangeEvent } from "react";
+import { AlertTriangle, CheckCircle2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CodePack, CodeViolation, parseCodePack } from "@/lib/codes/buildingCode";
+import { toast } from "sonner";
+
+interface CodeViolationsPanelProps {
+  packs: CodePack[];
+  pack: CodePack;
+  violations: CodeViolation[];
+  highlightedRoomId: string | null;
+  onPackChange: (packId: string) => void;
+  onLoadPack: (pack: CodePack) => void;
+  onSelect: (violation: CodeViolation) => void;
+}
+
+// Building-code results for the chosen rule pack; clicking one highlights its room
+const CodeViolationsPanel = ({ packs, pack, violations, highlightedRoomId, onPackChange, onLoadPack, onSelect }: CodeViolationsPanelProps) => {
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const { pack: loaded, errors } = parseCodePack(await file.text());
+    if (!loaded) {
+      toast.error(`Could not load ${file.name}: ${errors.slice(0, 3).join("; ")}`);
+      return;
+    }
+    onLoadPack(loaded);
+    toast.success(`Loaded rule pack "${loaded.name}"`);
+  };
+
+  const sorted = [...violations].sort((a, b) => a.floor - b.floor);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="font-medium text-foreground">
+          Building code: {violations.length === 0 ? "no violations" : `${violations.length} violation${violations.length === 1 ? "" : "s"}`}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={pack.id} onValueChange={onPackChange}>
+            <SelectTrigger className="h-8 w-56 text-xs">
+              <SelectValue placeholder="Rule pack" />
+            </SelectTrigger>
+            <SelectContent>
+              {packs.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" asChild>
+            <label className="cursor-pointer">
+              <Upload className="w-4 h-4 mr-1" /> Load Pack
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+            </label>
+          </Button>
+        </div>
+      </div>
+      {pack.source && <div className="text-muted-foreground">{pack.source}</div>}
+
+      {violations.length === 0 ? (
+        <div className="flex items-center gap-1 text-muted-foreground">
+          <CheckCircle2 className="w-3 h-3 text-green-600 flex-shrink-0" />
+          Every room meets the {pack.name} minimums checked here.
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {sorted.map((violation, index) => (
+            <li key={index} className="flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3 text-red-600 flex-shrink-0" />
+              <button
+                type="button"
+                className={`text-left hover:text-foreground ${violation.roomId === highlightedRoomId ? "text-foreground font-medium" : "text-muted-foreground"}`}
+                onClick={() => onSelect(violation)}
+              >
+                {violation.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CodeViolationsPanel;
@@ -0,0 +1,43 @@
+import { Room } from "@/types/floorPlan";
+import { CoreViolation } from "@/lib/layout/verticalCores";
+
+interface CoreViolationOverlayProps {
+  violations: CoreViolation[]; // already filtered to the floor on screen
+  rooms: Room[];
+  scale: number;
+  zoom: number;
+}
+
+// Dashed outlines where a core should be, and around wet rooms without a stack below
+const CoreViolationOverlay = ({ violations, rooms, scale, zoom }: CoreViolationOverlayProps) => {
+  const px = scale * zoom;
+
+  return (
+    <g className="core-violations" pointerEvents="none">
+      {violations.map((violation, index) => {
+        const room = rooms.find((candidate) => candidate.id === violation.roomId);
+        const rect = violation.expected ?? room;
+        if (!rect) return null;
+        const isCore = violation.kind !== "wet-unstacked";
+
+        return (
+          <g key={index}>
+            <title>{violation.message}</title>
+            <rect
+              x={rect.x * px}
+              y={rect.y * px}
+              width={rect.width * px}
+              height={rect.height * px}
+              fill={isCore ? "rgba(220, 38, 38, 0.08)" : "none"}
+              stroke={isCore ? "#dc2626" : "#2563eb"}
+              strokeWidth={1.5}
+              strokeDasharray="5 3"
+            />
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default CoreViolationOverlay;
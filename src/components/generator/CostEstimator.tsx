@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Pencil, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { COST_CATEGORY_NAMES, CostEstimate, formatCost } from "@/lib/cost/costEstimate";
+import { BUDGET_TIERS, BUDGET_TIER_NAMES, BudgetTier, CostRates } from "@/lib/cost/rateTables";
+
+interface CostEstimatorProps {
+  estimate: CostEstimate;
+  rates: CostRates; // rates of the tier on screen
+  onTierChange: (tier: BudgetTier) => void;
+  onRatesChange: (rates: CostRates) => void;
+  onReset: () => void;
+}
+
+const RATE_FIELDS: { key: Exclude<keyof CostRates, "currency">; label: string }[] = [
+  { key: "structure", label: "Structure / sq.ft floor" },
+  { key: "exteriorWall", label: "Exterior wall / sq.ft" },
+  { key: "interiorWall", label: "Interior wall / sq.ft" },
+  { key: "flooring", label: "Flooring / sq.ft" },
+  { key: "wallFinish", label: "Plaster & paint / sq.ft" },
+  { key: "door", label: "Door, each" },
+  { key: "window", label: "Window, each" },
+  { key: "electrical", label: "Electrical / sq.ft floor" },
+  { key: "plumbing", label: "Plumbing / wet room" },
+  { key: "wallHeight", label: "Wall height (ft)" },
+];
+
+const chartConfig = {
+  amount: { label: "Cost", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Cost breakdown by trade at editable rates for the chosen budget range
+const CostEstimator = ({ estimate, rates, onTierChange, onRatesChange, onReset }: CostEstimatorProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const data = estimate.categories.map((entry) => ({ name: COST_CATEGORY_NAMES[entry.category], amount: entry.amount }));
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="font-medium text-foreground">
+          Estimated cost: {formatCost(estimate.total, estimate.currency)}
+          <span className="ml-2 font-normal text-muted-foreground">
+            ({formatCost(estimate.perSqFt, estimate.currency)} per sq.ft, {estimate.style} style)
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={estimate.tier} onValueChange={(value) => onTierChange(value as BudgetTier)}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue placeholder="Budget" />
+            </SelectTrigger>
+            <SelectContent>
+              {BUDGET_TIERS.map((tier) => (
+                <SelectItem key={tier} value={tier}>{BUDGET_TIER_NAMES[tier]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant={isEditing ? "default" : "outline"} size="sm" onClick={() => setIsEditing((editing) => !editing)}>
+            <Pencil className="w-4 h-4 mr-1" /> Rates
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+          <BarChart data={data} margin={{ left: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="name" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} tickFormatter={(value: number) => `${Math.round(value / 1000)}k`} />
+            <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatCost(Number(value), estimate.currency)} />} />
+            <Bar dataKey="amount" fill="var(--color-amount)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+
+        <table className="w-full self-start">
+          <tbody>
+            {estimate.lines.map((line, index) => (
+              <tr key={index} className="border-b border-border/50">
+                <td className="py-0.5 text-muted-foreground">{line.item}</td>
+                <td className="py-0.5 text-right font-mono">{line.quantity} {line.unit}</td>
+                <td className="py-0.5 text-right font-mono">{formatCost(line.amount, estimate.currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {isEditing && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            {RATE_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`rate-${key}`} className="text-xs">{label}</Label>
+                <Input
+                  id={`rate-${key}`}
+                  type="number"
+                  min={0}
+                  className="h-8 text-xs"
+                  value={rates[key]}
+                  onChange={(event) => onRatesChange({ ...rates, [key]: Math.max(0, parseFloat(event.target.value) || 0) })}
+                />
+              </div>
+            ))}
+          </div>
+          <Button variant="ghost" size="sm" onClick={onReset}>
+            <RotateCcw className="w-4 h-4 mr-1" /> Default {BUDGET_TIER_NAMES[estimate.tier]} rates
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CostEstimator;
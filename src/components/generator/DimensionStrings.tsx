@@ -1,3 +1,6 @@
+import { PlotVertex } from "@/types/floorPlan";
+import { getPolygonEdges, isRectangularPolygon } from "@/lib/layout/plotPolygon";
+
 interface DimensionStringsProps {
   plotLength: number;
   plotWidth: number;
@@ -5,12 +8,65 @@ interface DimensionStringsProps {
   zoom: number;
   svgWidth: number;
   svgHeight: number;
+  polygon?: PlotVertex[]; // non-rectangular plots get one dimension per edge
 }
 
-const DimensionStrings = ({ plotLength, plotWidth, scale, zoom, svgWidth, svgHeight }: DimensionStringsProps) => {
+const formatFeetInches = (feet: number) => {
+  const inches = Math.round(feet * 12);
+  return `${Math.floor(inches / 12)}'-${inches % 12}"`;
+};
+
+const DimensionStrings = ({ plotLength, plotWidth, scale, zoom, svgWidth, svgHeight, polygon }: DimensionStringsProps) => {
   const dimOffset = 25; // Distance from edge
   const tickSize = 6;
   const fontSize = 10;
+
+  if (polygon && !isRectangularPolygon(polygon)) {
+    const px = scale * zoom;
+
+    return (
+      <g className="dimension-strings">
+        {getPolygonEdges(polygon).map(({ start, end, length, normal }, index) => {
+          if (length === 0) return null;
+
+          // Push the dimension line away from the plot
+          const ux = (end.x - start.x) / length;
+          const uy = (end.y - start.y) / length;
+          const { x: nx, y: ny } = normal;
+
+          const x1 = start.x * px + nx * dimOffset;
+          const y1 = start.y * px + ny * dimOffset;
+          const x2 = end.x * px + nx * dimOffset;
+          const y2 = end.y * px + ny * dimOffset;
+          let angle = (Math.atan2(uy, ux) * 180) / Math.PI;
+          if (angle > 90 || angle <= -90) angle += 180;
+
+          return (
+            <g key={index}>
+              <line x1={start.x * px} y1={start.y * px} x2={x1 + nx * tickSize} y2={y1 + ny * tickSize} stroke="#1a1a1a" strokeWidth={0.5} />
+              <line x1={end.x * px} y1={end.y * px} x2={x2 + nx * tickSize} y2={y2 + ny * tickSize} stroke="#1a1a1a" strokeWidth={0.5} />
+              <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#1a1a1a" strokeWidth={0.5} />
+              <g transform={`translate(${(x1 + x2) / 2}, ${(y1 + y2) / 2}) rotate(${angle})`}>
+                <rect x={-25} y={-6} width={50} height={12} fill="white" />
+                <text
+                  x={0}
+                  y={0}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  fill="#1a1a1a"
+                  fontFamily="Arial, sans-serif"
+                  fontSize={fontSize}
+                  fontWeight="500"
+                >
+                  {formatFeetInches(length)}
+                </text>
+              </g>
+            </g>
+          );
+        })}
+      </g>
+    );
+  }
   
   return (
     <g className="dimension-strings">
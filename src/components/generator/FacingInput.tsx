@@ -0,0 +1,57 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PlotSide } from "@/types/floorPlan";
+import { COMPASS_NAMES, COMPASS_POINTS, getCompassPoint, getFacing, getFrontSide, getNorthAngle, normalizeBearing } from "@/lib/layout/orientation";
+import NorthArrow from "./NorthArrow";
+
+interface FacingInputProps {
+  facing?: number;
+  roadSides?: PlotSide[];
+  onChange: (facing: number) => void;
+}
+
+const SIDE_LABELS: Record<PlotSide, string> = { top: "back", bottom: "front", left: "left", right: "right" };
+
+const FacingInput = ({ facing, roadSides, onChange }: FacingInputProps) => {
+  const bearing = getFacing({ facing, roadSides });
+  const point = getCompassPoint(bearing);
+
+  return (
+    <div className="space-y-3">
+      <Label>Plot Facing</Label>
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="facing-direction" className="text-xs text-muted-foreground">Direction</Label>
+          <Select value={bearing % 45 === 0 ? point : ""} onValueChange={(value) => onChange(COMPASS_POINTS.indexOf(value as typeof point) * 45)}>
+            <SelectTrigger id="facing-direction">
+              <SelectValue placeholder={`Near ${COMPASS_NAMES[point]}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {COMPASS_POINTS.map((compassPoint) => (
+                <SelectItem key={compassPoint} value={compassPoint}>{COMPASS_NAMES[compassPoint]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="facing-bearing" className="text-xs text-muted-foreground">Bearing (°)</Label>
+          <Input
+            id="facing-bearing"
+            type="number"
+            min={0}
+            max={359}
+            value={bearing}
+            onChange={(e) => onChange(normalizeBearing(parseFloat(e.target.value) || 0))}
+          />
+        </div>
+        <NorthArrow angle={getNorthAngle({ facing, roadSides })} size={36} />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The direction the {SIDE_LABELS[getFrontSide({ roadSides })]} road side faces. Vastu zones and the north arrow follow it.
+      </p>
+    </div>
+  );
+};
+
+export default FacingInput;
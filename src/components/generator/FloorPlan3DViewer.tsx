@@ -1,7 +1,12 @@
 import { Suspense, useRef, useMemo, useState, createContext, useContext } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Text } from '@react-three/drei';
-import { Room, GeneratedLayout, RoomType } from '@/types/floorPlan';
+import { Room, GeneratedLayout, PlotSetbacks, PlotVertex, RoomType, Door, Window, FurnitureType } from '@/types/floorPlan';
+import { BAY_PROJECTION, ResolvedOpening, getOpeningLeaves, resolveDoor, resolveWindow } from '@/lib/layout/openingCatalog';
+import { getBuildableEnvelope, hasSetbacks } from '@/lib/layout/envelope';
+import { getRoomFurniture } from '@/lib/layout/furniture';
+import { getFurnitureSpec, normalizeRotation } from '@/lib/layout/furnitureCatalog';
+import { getPlotPolygon, getPolygonEdges } from '@/lib/layout/plotPolygon';
 import * as THREE from 'three';
 
 const WALL_HEIGHT = 3; // meters
@@ -189,42 +194,40 @@ interface WallWithOpeningsProps {
   height: number;
   thickness: number;
   color: string;
-  doors: { offset: number; width: number }[];
-  windows: { offset: number; width: number }[];
+  doors: Door[];
+  windows: Window[];
   isInterior: boolean;
+  inward: 1 | -1; // which way the wall's local z axis points into the room
   debugColor?: string;
   debugLabel?: string;
 }
 
-function WallWithOpenings({ start, end, height, thickness, color, doors, windows, isInterior, debugColor, debugLabel }: WallWithOpeningsProps) {
+function WallWithOpenings({ start, end, height, thickness, color, doors, windows, isInterior, inward, debugColor, debugLabel }: WallWithOpeningsProps) {
   const { debugMode } = useContext(DebugContext);
   const length = Math.sqrt(Math.pow(end[0] - start[0], 2) + Math.pow(end[1] - start[1], 2));
   const angle = Math.atan2(end[1] - start[1], end[0] - start[0]);
   const midX = (start[0] + end[0]) / 2;
   const midZ = (start[1] + end[1]) / 2;
   
-  const doorHeight = 2.2;
-  const windowHeight = 1.0;
-  const windowBottom = 1.0;
   const wallThick = isInterior ? thickness * 0.7 : thickness;
   
   // Use debug color if in debug mode
   const wallColor = debugMode && debugColor ? debugColor : color;
   
-  // Collect all openings
-  type Opening = { start: number; end: number; type: 'door' | 'window' };
+  // Collect all openings, with sill and head heights from the catalog
+  type Opening = { start: number; end: number; kind: 'door' | 'window'; resolved: ResolvedOpening<string> };
   const openings: Opening[] = [];
   
   doors.forEach(d => {
     const doorW = d.width * SCALE;
     const doorStart = (d.offset / 100) * length;
-    openings.push({ start: doorStart, end: doorStart + doorW, type: 'door' });
+    openings.push({ start: doorStart, end: doorStart + doorW, kind: 'door', resolved: resolveDoor(d) });
   });
   
   windows.forEach(w => {
     const winW = w.width * SCALE;
-    const winStart = (w.offset / 100) * length - winW / 2;
-    openings.push({ start: winStart, end: winStart + winW, type: 'window' });
+    const winStart = (w.offset / 100) * length;
+    openings.push({ start: winStart, end: winStart + winW, kind: 'window', resolved: resolveWindow(w) });
   });
   
   // Sort openings by position
@@ -248,71 +251,125 @@ function WallWithOpenings({ start, end, height, thickness, color, doors, windows
     }
     
     const openingWidth = opening.end - opening.start;
+    const centerX = -(length / 2) + opening.start + openingWidth / 2;
+    const { resolved } = opening;
+    const sill = Math.min(resolved.sillHeight * SCALE, height);
+    const head = Math.min(resolved.headHeight * SCALE, height);
+    const openHeight = Math.max(head - sill, 0.1);
+    const swingZ = inward * (resolved.swing === 'in' ? 1 : -1);
     
-    if (opening.type === 'door') {
-      // Wall above door
-      const aboveHeight = height - doorHeight;
-      if (aboveHeight > 0.1) {
-        segments.push(
-          <WallSegment
-            key={`door-above-${i}`}
-            position={[-(length / 2) + opening.start + openingWidth / 2, height - aboveHeight / 2, 0]}
-            size={[openingWidth, aboveHeight, wallThick]}
-            color={wallColor}
-          />
-        );
-      }
-      // Door frame
-      segments.push(
-        <mesh key={`door-frame-${i}`} position={[-(length / 2) + opening.start + openingWidth / 2, doorHeight / 2, 0]}>
-          <boxGeometry args={[openingWidth + 0.04, doorHeight + 0.02, wallThick + 0.02]} />
-          <meshStandardMaterial color="#6b4423" />
-        </mesh>
-      );
-      // Door panel (slightly open)
+    // Wall below the sill and above the head
+    if (sill > 0.05) {
       segments.push(
-        <mesh 
-          key={`door-panel-${i}`} 
-          position={[-(length / 2) + opening.start + openingWidth * 0.8, doorHeight / 2, wallThick * 0.4]}
-          rotation={[0, -0.4, 0]}
-        >
-          <boxGeometry args={[openingWidth * 0.95, doorHeight - 0.1, 0.04]} />
-          <meshStandardMaterial color="#8b5a2b" />
-        </mesh>
+        <WallSegment
+          key={`opening-below-${i}`}
+          position={[centerX, sill / 2, 0]}
+          size={[openingWidth, sill, wallThick]}
+          color={wallColor}
+        />
       );
-    } else {
-      // Wall below window
+    }
+    const aboveHeight = height - head;
+    if (aboveHeight > 0.1) {
       segments.push(
         <WallSegment
-          key={`win-below-${i}`}
-          position={[-(length / 2) + opening.start + openingWidth / 2, windowBottom / 2, 0]}
-          size={[openingWidth, windowBottom, wallThick]}
+          key={`opening-above-${i}`}
+          position={[centerX, head + aboveHeight / 2, 0]}
+          size={[openingWidth, aboveHeight, wallThick]}
           color={wallColor}
         />
       );
-      // Wall above window
-      const aboveHeight = height - windowBottom - windowHeight;
-      if (aboveHeight > 0.1) {
+    }
+    
+    const isDoor = opening.kind === 'door';
+    const panelColor = resolved.spec.glazed ? '#87ceeb' : '#8b5a2b';
+    const panelOpacity = resolved.spec.glazed ? 0.5 : 1;
+    
+    if (resolved.spec.operation === 'bay') {
+      // Glass front standing out from the wall, joined back to both jambs
+      const depthOut = -inward * BAY_PROJECTION * SCALE;
+      const sideRun = openingWidth * 0.2;
+      const sideLength = Math.hypot(sideRun, depthOut);
+      const sideAngle = Math.atan2(depthOut, sideRun);
+      segments.push(
+        <mesh key={`bay-front-${i}`} position={[centerX, sill + openHeight / 2, depthOut]}>
+          <boxGeometry args={[openingWidth * 0.6, openHeight, 0.02]} />
+          <meshStandardMaterial color="#87ceeb" transparent opacity={0.5} />
+        </mesh>,
+        <mesh key={`bay-start-${i}`} position={[centerX - openingWidth * 0.4, sill + openHeight / 2, depthOut / 2]} rotation={[0, -sideAngle, 0]}>
+          <boxGeometry args={[sideLength, openHeight, 0.02]} />
+          <meshStandardMaterial color="#87ceeb" transparent opacity={0.5} />
+        </mesh>,
+        <mesh key={`bay-end-${i}`} position={[centerX + openingWidth * 0.4, sill + openHeight / 2, depthOut / 2]} rotation={[0, sideAngle, 0]}>
+          <boxGeometry args={[sideLength, openHeight, 0.02]} />
+          <meshStandardMaterial color="#87ceeb" transparent opacity={0.5} />
+        </mesh>,
+        <mesh key={`bay-seat-${i}`} position={[centerX, sill - 0.03, depthOut / 2]}>
+          <boxGeometry args={[openingWidth, 0.06, Math.abs(depthOut) + wallThick]} />
+          <meshStandardMaterial color="#f5f5f5" />
+        </mesh>
+      );
+    } else if (resolved.spec.operation === 'fixed') {
+      segments.push(
+        <mesh key={`fixed-glass-${i}`} position={[centerX, sill + openHeight / 2, 0]}>
+          <boxGeometry args={[openingWidth - 0.05, openHeight - 0.05, 0.02]} />
+          <meshStandardMaterial color="#87ceeb" transparent opacity={0.5} />
+        </mesh>
+      );
+    } else {
+      getOpeningLeaves(resolved).forEach((leaf, leafIndex) => {
+        const leafWidth = (leaf.to - leaf.from) * openingWidth;
+        const pivotX = -(length / 2) + opening.start + leaf.pivot * openingWidth;
+        const material = <meshStandardMaterial color={isDoor ? panelColor : '#87ceeb'} transparent={!isDoor || panelOpacity < 1} opacity={isDoor ? panelOpacity : 0.5} />;
+        
+        if (resolved.spec.operation === 'swing') {
+          // Leaf turned about its hinge, partly open towards the swing side
+          const toward = leaf.pivot === leaf.from ? 1 : -1;
+          const angle = -swingZ * toward * (isDoor ? 0.6 : 0.3);
+          segments.push(
+            <group key={`leaf-${i}-${leafIndex}`} position={[pivotX, sill + openHeight / 2, 0]} rotation={[0, angle, 0]}>
+              <mesh position={[(toward * leafWidth) / 2, 0, 0]}>
+                <boxGeometry args={[leafWidth * 0.97, openHeight - 0.05, 0.04]} />
+                {material}
+              </mesh>
+            </group>
+          );
+        } else {
+          // Sliding panels sit one behind the other; a pocket leaf is half run into the wall
+          const panelX = resolved.spec.operation === 'pocket'
+            ? pivotX
+            : -(length / 2) + opening.start + ((leaf.from + leaf.to) / 2) * openingWidth;
+          const panelZ = resolved.spec.operation === 'pocket' ? 0 : (leafIndex === 0 ? -1 : 1) * wallThick * 0.25;
+          segments.push(
+            <mesh key={`leaf-${i}-${leafIndex}`} position={[panelX, sill + openHeight / 2, panelZ]}>
+              <boxGeometry args={[leafWidth, openHeight - 0.05, 0.03]} />
+              {material}
+            </mesh>
+          );
+        }
+      });
+    }
+    
+    // Frame: jambs and head for doors, a light outline for windows
+    if (isDoor) {
+      [opening.start, opening.end].forEach((jamb, jambIndex) => {
         segments.push(
-          <WallSegment
-            key={`win-above-${i}`}
-            position={[-(length / 2) + opening.start + openingWidth / 2, windowBottom + windowHeight + aboveHeight / 2, 0]}
-            size={[openingWidth, aboveHeight, wallThick]}
-            color={wallColor}
-          />
+          <mesh key={`door-jamb-${i}-${jambIndex}`} position={[-(length / 2) + jamb, head / 2, 0]}>
+            <boxGeometry args={[0.04, head, wallThick + 0.02]} />
+            <meshStandardMaterial color="#6b4423" />
+          </mesh>
         );
-      }
-      // Window glass
+      });
       segments.push(
-        <mesh key={`window-glass-${i}`} position={[-(length / 2) + opening.start + openingWidth / 2, windowBottom + windowHeight / 2, 0]}>
-          <boxGeometry args={[openingWidth - 0.05, windowHeight - 0.05, 0.02]} />
-          <meshStandardMaterial color="#87ceeb" transparent opacity={0.5} />
+        <mesh key={`door-head-${i}`} position={[centerX, head, 0]}>
+          <boxGeometry args={[openingWidth + 0.04, 0.04, wallThick + 0.02]} />
+          <meshStandardMaterial color="#6b4423" />
         </mesh>
       );
-      // Window frame
+    } else if (resolved.spec.operation !== 'bay') {
       segments.push(
-        <mesh key={`window-frame-${i}`} position={[-(length / 2) + opening.start + openingWidth / 2, windowBottom + windowHeight / 2, 0]}>
-          <boxGeometry args={[openingWidth, windowHeight, wallThick * 0.5]} />
+        <mesh key={`window-frame-${i}`} position={[centerX, sill + openHeight / 2, 0]}>
+          <boxGeometry args={[openingWidth, openHeight, wallThick * 0.5]} />
           <meshStandardMaterial color="#f5f5f5" wireframe />
         </mesh>
       );
@@ -380,6 +437,7 @@ interface Room3DProps {
   plotLength: number;
   floorHeight: number;
   allRooms: Room[];
+  wallThickness: number; // feet
 }
 
 // Component to render a single wall segment
@@ -392,8 +450,8 @@ interface SegmentedWallProps {
   depth: number;
   floorHeight: number;
   color: string;
-  doors: { offset: number; width: number }[];
-  windows: { offset: number; width: number }[];
+  doors: Door[];
+  windows: Window[];
 }
 
 function SegmentedWall({ 
@@ -434,8 +492,8 @@ function SegmentedWall({
     const doorPos = (d.offset / 100) * wallLength;
     return doorPos >= segment.start && doorPos <= segment.end;
   }).map(d => ({
+    ...d,
     offset: ((d.offset / 100) * wallLength - segment.start) / (segment.end - segment.start) * 100,
-    width: d.width,
   }));
   
   // Only include windows on exterior segments
@@ -443,8 +501,8 @@ function SegmentedWall({
     const winPos = (w.offset / 100) * wallLength;
     return winPos >= segment.start && winPos <= segment.end;
   }).map(w => ({
+    ...w,
     offset: ((w.offset / 100) * wallLength - segment.start) / (segment.end - segment.start) * 100,
-    width: w.width,
   }));
   
   // Calculate position based on side
@@ -480,6 +538,7 @@ function SegmentedWall({
       doors={segmentDoors}
       windows={segmentWindows}
       isInterior={segment.isShared}
+      inward={side === 'top' || side === 'right' ? 1 : -1}
       debugColor={debugColor}
       debugLabel={debugLabel}
     />
@@ -545,7 +604,7 @@ function Railing3D({
   );
 }
 
-function Room3D({ room, plotWidth, plotLength, floorHeight, allRooms }: Room3DProps) {
+function Room3D({ room, plotWidth, plotLength, floorHeight, allRooms, wallThickness }: Room3DProps) {
   const materials = getRoomMaterial(room.type);
   
   const x = (room.x - plotLength / 2) * SCALE;
@@ -564,8 +623,8 @@ function Room3D({ room, plotWidth, plotLength, floorHeight, allRooms }: Room3DPr
   
   // Get doors and windows for each wall
   const getDoorWindowsForWall = (position: 'top' | 'bottom' | 'left' | 'right') => {
-    const doors = (room.doors || []).filter(d => d.position === position).map(d => ({ offset: d.offset, width: d.width }));
-    const windows = (room.windows || []).filter(w => w.position === position).map(w => ({ offset: w.offset, width: w.width }));
+    const doors = (room.doors || []).filter(d => d.position === position);
+    const windows = (room.windows || []).filter(w => w.position === position);
     return { doors, windows };
   };
   
@@ -742,676 +801,381 @@ function Room3D({ room, plotWidth, plotLength, floorHeight, allRooms }: Room3DPr
       </Text>
       
       {/* Furniture */}
-      <RoomFurniture type={room.type} width={width} depth={depth} />
+      <RoomFurniture room={room} allRooms={allRooms} width={width} depth={depth} wallThickness={wallThickness} />
     </group>
   );
 }
 
-// Realistic room-specific 3D elements
-function RoomFurniture({ type, width, depth }: { type: RoomType; width: number; depth: number }) {
+// Catalog furniture at its saved places, plus fittings that are not furniture
+function RoomFurniture({ room, allRooms, width, depth, wallThickness }: { room: Room; allRooms: Room[]; width: number; depth: number; wallThickness: number }) {
+  const furniture = getRoomFurniture(room, wallThickness, allRooms);
+
+  return (
+    <group>
+      <RoomFittings type={room.type} width={width} depth={depth} />
+      {furniture.map((piece, index) => {
+        const spec = getFurnitureSpec(piece);
+        return (
+          <group
+            key={`${piece.type}-${index}`}
+            position={[((piece.x / 100) * room.width - room.width / 2) * SCALE, 0, ((piece.y / 100) * room.height - room.height / 2) * SCALE]}
+            rotation={[0, (-normalizeRotation(piece.rotation) * Math.PI) / 180, 0]}
+          >
+            <FurniturePiece3D type={piece.type} width={spec.width * SCALE} depth={spec.depth * SCALE} height={spec.height * SCALE} />
+          </group>
+        );
+      })}
+    </group>
+  );
+}
+
+// One piece centred on its footprint with its back towards -z
+function FurniturePiece3D({ type, width, depth, height }: { type: FurnitureType; width: number; depth: number; height: number }) {
   switch (type) {
-    case 'bedroom':
+    case 'bed':
       return (
         <group>
-          {/* Bed frame */}
-          <mesh position={[0, 0.15, depth * 0.1]} castShadow>
-            <boxGeometry args={[width * 0.45, 0.3, depth * 0.55]} />
+          {/* Frame and mattress */}
+          <mesh position={[0, height * 0.15, 0]} castShadow>
+            <boxGeometry args={[width, height * 0.3, depth]} />
             <meshStandardMaterial color="#8b7355" />
           </mesh>
-          {/* Mattress */}
-          <mesh position={[0, 0.35, depth * 0.08]} castShadow>
-            <boxGeometry args={[width * 0.42, 0.15, depth * 0.5]} />
+          <mesh position={[0, height * 0.38, 0.02]} castShadow>
+            <boxGeometry args={[width * 0.94, height * 0.16, depth * 0.94]} />
             <meshStandardMaterial color="#f5f5f5" />
           </mesh>
           {/* Headboard */}
-          <mesh position={[0, 0.55, depth * 0.32]}>
-            <boxGeometry args={[width * 0.45, 0.6, 0.04]} />
+          <mesh position={[0, height * 0.5, -depth / 2 + 0.02]}>
+            <boxGeometry args={[width, height, 0.04]} />
             <meshStandardMaterial color="#5c4033" />
           </mesh>
           {/* Pillows */}
-          <mesh position={[-width * 0.1, 0.48, depth * 0.22]}>
-            <boxGeometry args={[0.35, 0.08, 0.25]} />
-            <meshStandardMaterial color="#e8e8e8" />
-          </mesh>
-          <mesh position={[width * 0.1, 0.48, depth * 0.22]}>
-            <boxGeometry args={[0.35, 0.08, 0.25]} />
-            <meshStandardMaterial color="#e8e8e8" />
-          </mesh>
-          {/* Nightstand */}
-          <mesh position={[-width * 0.35, 0.25, depth * 0.2]} castShadow>
-            <boxGeometry args={[0.4, 0.5, 0.4]} />
-            <meshStandardMaterial color="#6b4423" />
-          </mesh>
-          {/* Lamp on nightstand */}
-          <mesh position={[-width * 0.35, 0.55, depth * 0.2]}>
-            <cylinderGeometry args={[0.05, 0.08, 0.15, 12]} />
-            <meshStandardMaterial color="#d4a574" />
+          {[-1, 1].map((side) => (
+            <mesh key={side} position={[(side * width) / 4, height * 0.5, -depth / 2 + 0.2]}>
+              <boxGeometry args={[width * 0.38, 0.08, 0.25]} />
+              <meshStandardMaterial color="#e8e8e8" />
+            </mesh>
+          ))}
+        </group>
+      );
+
+    case 'sofa':
+      return (
+        <group>
+          {/* Seat */}
+          <mesh position={[0, 0.2, 0.05]} castShadow>
+            <boxGeometry args={[width, 0.4, depth - 0.1]} />
+            <meshStandardMaterial color="#4a6fa5" />
           </mesh>
-          <mesh position={[-width * 0.35, 0.68, depth * 0.2]}>
-            <coneGeometry args={[0.12, 0.15, 12]} />
-            <meshStandardMaterial color="#fef9e7" />
+          {/* Back */}
+          <mesh position={[0, height / 2, -depth / 2 + 0.1]} castShadow>
+            <boxGeometry args={[width, height, 0.2]} />
+            <meshStandardMaterial color="#3d5a80" />
           </mesh>
+          {/* Arms */}
+          {[-1, 1].map((side) => (
+            <mesh key={side} position={[(side * (width - 0.15)) / 2, 0.3, 0]}>
+              <boxGeometry args={[0.15, 0.6, depth]} />
+              <meshStandardMaterial color="#3d5a80" />
+            </mesh>
+          ))}
         </group>
       );
 
-    case 'bathroom':
+    case 'dining-table': {
+      const seats = width > 2 ? 3 : 2;
       return (
         <group>
-          {/* Toilet */}
-          <group position={[-width * 0.3, 0, -depth * 0.3]}>
-            <mesh position={[0, 0.2, 0]}>
-              <boxGeometry args={[0.4, 0.4, 0.55]} />
-              <meshStandardMaterial color="#f8f8f8" />
-            </mesh>
-            <mesh position={[0, 0.45, -0.15]}>
-              <boxGeometry args={[0.35, 0.5, 0.15]} />
-              <meshStandardMaterial color="#f8f8f8" />
-            </mesh>
-            {/* Toilet seat */}
-            <mesh position={[0, 0.42, 0.05]} rotation={[-0.1, 0, 0]}>
-              <boxGeometry args={[0.38, 0.03, 0.35]} />
-              <meshStandardMaterial color="#e0e0e0" />
-            </mesh>
-          </group>
-          {/* Sink with vanity */}
-          <group position={[width * 0.25, 0, -depth * 0.35]}>
-            <mesh position={[0, 0.4, 0]}>
-              <boxGeometry args={[0.6, 0.8, 0.45]} />
+          {/* Top and legs */}
+          <mesh position={[0, height - 0.02, 0]} castShadow>
+            <boxGeometry args={[width * 0.6, 0.04, depth * 0.45]} />
+            <meshStandardMaterial color="#8b4513" />
+          </mesh>
+          {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([dx, dz], i) => (
+            <mesh key={i} position={[dx * width * 0.27, (height - 0.04) / 2, dz * depth * 0.19]}>
+              <boxGeometry args={[0.05, height - 0.04, 0.05]} />
               <meshStandardMaterial color="#5c4033" />
             </mesh>
-            <mesh position={[0, 0.82, 0]}>
-              <boxGeometry args={[0.58, 0.04, 0.43]} />
-              <meshStandardMaterial color="#d4d4d4" />
-            </mesh>
-            {/* Basin */}
-            <mesh position={[0, 0.78, 0]}>
-              <cylinderGeometry args={[0.18, 0.15, 0.12, 24]} />
-              <meshStandardMaterial color="#ffffff" />
-            </mesh>
-            {/* Faucet */}
-            <mesh position={[0, 0.9, -0.12]}>
-              <cylinderGeometry args={[0.02, 0.02, 0.15, 8]} />
-              <meshStandardMaterial color="#c0c0c0" metalness={0.8} roughness={0.2} />
-            </mesh>
-            {/* Mirror */}
-            <mesh position={[0, 1.4, -0.2]}>
-              <boxGeometry args={[0.5, 0.6, 0.02]} />
-              <meshStandardMaterial color="#b8d4e8" metalness={0.5} roughness={0.1} />
-            </mesh>
-          </group>
-          {/* Shower enclosure */}
-          <group position={[width * 0.25, 0, depth * 0.25]}>
-            {/* Shower tray */}
-            <mesh position={[0, 0.05, 0]} rotation={[-Math.PI / 2, 0, 0]}>
-              <planeGeometry args={[width * 0.4, depth * 0.4]} />
-              <meshStandardMaterial color="#e8f0f8" />
-            </mesh>
-            {/* Glass panels */}
-            <mesh position={[-width * 0.2, WALL_HEIGHT / 2, 0]}>
-              <boxGeometry args={[0.02, WALL_HEIGHT * 0.7, depth * 0.38]} />
-              <meshStandardMaterial color="#a8d0e8" transparent opacity={0.3} />
-            </mesh>
-            <mesh position={[0, WALL_HEIGHT / 2, -depth * 0.2]}>
-              <boxGeometry args={[width * 0.38, WALL_HEIGHT * 0.7, 0.02]} />
-              <meshStandardMaterial color="#a8d0e8" transparent opacity={0.3} />
-            </mesh>
-            {/* Shower head */}
-            <mesh position={[0, WALL_HEIGHT * 0.7, -depth * 0.18]}>
-              <cylinderGeometry args={[0.1, 0.08, 0.05, 12]} />
-              <meshStandardMaterial color="#c0c0c0" metalness={0.8} roughness={0.2} />
-            </mesh>
-          </group>
+          ))}
+          {/* Chairs along both long sides */}
+          {[-1, 1].flatMap((side) =>
+            Array.from({ length: seats }).map((_, i) => (
+              <mesh key={`${side}-${i}`} position={[(i - (seats - 1) / 2) * (width * 0.55 / seats), 0.22, side * depth * 0.36]} castShadow>
+                <boxGeometry args={[0.4, 0.44, 0.4]} />
+                <meshStandardMaterial color="#654321" />
+              </mesh>
+            ))
+          )}
         </group>
       );
+    }
 
-    case 'kitchen':
+    case 'kitchen-counter':
       return (
         <group>
-          {/* L-shaped counter */}
-          <mesh position={[0, 0.45, -depth * 0.38]} castShadow>
-            <boxGeometry args={[width * 0.85, 0.9, 0.55]} />
-            <meshStandardMaterial color="#5c4033" />
-          </mesh>
-          <mesh position={[-width * 0.38, 0.45, 0]} castShadow>
-            <boxGeometry args={[0.55, 0.9, depth * 0.6]} />
-            <meshStandardMaterial color="#5c4033" />
-          </mesh>
-          {/* Counter tops */}
-          <mesh position={[0, 0.91, -depth * 0.38]}>
-            <boxGeometry args={[width * 0.87, 0.03, 0.58]} />
-            <meshStandardMaterial color="#2d2d2d" />
-          </mesh>
-          <mesh position={[-width * 0.38, 0.91, 0]}>
-            <boxGeometry args={[0.58, 0.03, depth * 0.62]} />
-            <meshStandardMaterial color="#2d2d2d" />
+          {/* Cabinets and top */}
+          <mesh position={[0, (height - 0.04) / 2, 0]} castShadow>
+            <boxGeometry args={[width, height - 0.04, depth]} />
+            <meshStandardMaterial color="#f5f5dc" />
           </mesh>
-          {/* Stove with burners */}
-          <mesh position={[width * 0.15, 0.93, -depth * 0.38]}>
-            <boxGeometry args={[0.6, 0.02, 0.5]} />
-            <meshStandardMaterial color="#1f2937" />
+          <mesh position={[0, height - 0.02, 0]}>
+            <boxGeometry args={[width, 0.04, depth]} />
+            <meshStandardMaterial color="#2f2f2f" />
           </mesh>
-          {/* Burner rings */}
-          {[[-0.12, -0.1], [0.12, -0.1], [-0.12, 0.1], [0.12, 0.1]].map(([dx, dz], i) => (
-            <mesh key={i} position={[width * 0.15 + dx, 0.95, -depth * 0.38 + dz]} rotation={[-Math.PI / 2, 0, 0]}>
-              <torusGeometry args={[0.06, 0.01, 8, 24]} />
-              <meshStandardMaterial color="#4a4a4a" />
-            </mesh>
-          ))}
-          {/* Sink */}
-          <mesh position={[-width * 0.15, 0.88, -depth * 0.38]}>
-            <boxGeometry args={[0.5, 0.15, 0.4]} />
-            <meshStandardMaterial color="#c0c0c0" metalness={0.6} roughness={0.3} />
+          {/* Sink and hob */}
+          <mesh position={[-width * 0.25, height + 0.005, 0]}>
+            <boxGeometry args={[0.45, 0.01, depth * 0.6]} />
+            <meshStandardMaterial color="#c0c0c0" metalness={0.8} roughness={0.2} />
           </mesh>
-          {/* Fridge */}
-          <mesh position={[width * 0.35, 0.9, depth * 0.3]} castShadow>
-            <boxGeometry args={[0.7, 1.8, 0.65]} />
-            <meshStandardMaterial color="#e0e0e0" />
-          </mesh>
-          {/* Fridge handle */}
-          <mesh position={[width * 0.35 + 0.32, 1.0, depth * 0.3]}>
-            <boxGeometry args={[0.02, 0.4, 0.03]} />
-            <meshStandardMaterial color="#a0a0a0" />
+          <mesh position={[width * 0.25, height + 0.01, 0]}>
+            <boxGeometry args={[0.55, 0.02, depth * 0.7]} />
+            <meshStandardMaterial color="#1a1a1a" />
           </mesh>
-          {/* Upper cabinets */}
-          <mesh position={[0, 2.0, -depth * 0.42]}>
-            <boxGeometry args={[width * 0.8, 0.5, 0.35]} />
-            <meshStandardMaterial color="#6b4423" />
+          {/* Wall cabinets */}
+          <mesh position={[0, height + 0.9, -depth / 2 + 0.17]}>
+            <boxGeometry args={[width, 0.6, 0.34]} />
+            <meshStandardMaterial color="#deb887" />
           </mesh>
         </group>
       );
 
-    case 'living':
+    case 'toilet':
       return (
         <group>
-          {/* L-shaped sofa */}
-          <mesh position={[0, 0.2, depth * 0.25]} castShadow>
-            <boxGeometry args={[width * 0.55, 0.4, 0.7]} />
-            <meshStandardMaterial color="#4a6741" />
-          </mesh>
-          <mesh position={[0, 0.5, depth * 0.38]}>
-            <boxGeometry args={[width * 0.55, 0.45, 0.12]} />
-            <meshStandardMaterial color="#4a6741" />
-          </mesh>
-          <mesh position={[-width * 0.28, 0.35, depth * 0.25]}>
-            <boxGeometry args={[0.08, 0.3, 0.7]} />
-            <meshStandardMaterial color="#4a6741" />
+          {/* Bowl, cistern and seat */}
+          <mesh position={[0, 0.2, depth * 0.1]}>
+            <boxGeometry args={[width * 0.8, 0.4, depth * 0.7]} />
+            <meshStandardMaterial color="#f8f8f8" />
           </mesh>
-          <mesh position={[width * 0.28, 0.35, depth * 0.25]}>
-            <boxGeometry args={[0.08, 0.3, 0.7]} />
-            <meshStandardMaterial color="#4a6741" />
+          <mesh position={[0, height / 2, -depth / 2 + 0.08]}>
+            <boxGeometry args={[width * 0.75, height, 0.15]} />
+            <meshStandardMaterial color="#f8f8f8" />
           </mesh>
-          {/* Cushions */}
-          {[-0.2, 0, 0.2].map((dx, i) => (
-            <mesh key={i} position={[dx * width, 0.48, depth * 0.2]}>
-              <boxGeometry args={[0.35, 0.12, 0.35]} />
-              <meshStandardMaterial color="#5d8254" />
-            </mesh>
-          ))}
-          {/* Coffee table with glass top */}
-          <mesh position={[0, 0.25, -depth * 0.1]} castShadow>
-            <boxGeometry args={[0.9, 0.04, 0.5]} />
-            <meshStandardMaterial color="#87ceeb" transparent opacity={0.4} />
-          </mesh>
-          {[[-0.4, -0.2], [0.4, -0.2], [-0.4, 0.2], [0.4, 0.2]].map(([dx, dz], i) => (
-            <mesh key={i} position={[dx, 0.12, -depth * 0.1 + dz]}>
-              <boxGeometry args={[0.03, 0.22, 0.03]} />
-              <meshStandardMaterial color="#5c4033" />
-            </mesh>
-          ))}
-          {/* TV unit */}
-          <mesh position={[0, 0.25, -depth * 0.42]} castShadow>
-            <boxGeometry args={[width * 0.5, 0.5, 0.35]} />
-            <meshStandardMaterial color="#3d3d3d" />
-          </mesh>
-          {/* TV screen */}
-          <mesh position={[0, 0.8, -depth * 0.43]}>
-            <boxGeometry args={[width * 0.45, 0.5, 0.03]} />
-            <meshStandardMaterial color="#1a1a1a" />
+          <mesh position={[0, 0.42, depth * 0.1]}>
+            <boxGeometry args={[width * 0.78, 0.03, depth * 0.6]} />
+            <meshStandardMaterial color="#e0e0e0" />
           </mesh>
-          {/* Indoor plant */}
-          <group position={[width * 0.38, 0, depth * 0.35]}>
-            <mesh position={[0, 0.2, 0]}>
-              <cylinderGeometry args={[0.15, 0.12, 0.4, 12]} />
-              <meshStandardMaterial color="#8b4513" />
-            </mesh>
-            <mesh position={[0, 0.5, 0]}>
-              <sphereGeometry args={[0.25, 12, 12]} />
-              <meshStandardMaterial color="#228b22" />
-            </mesh>
-          </group>
         </group>
       );
 
-    case 'dining':
+    case 'sink':
       return (
         <group>
-          {/* Table */}
-          <mesh position={[0, 0.38, 0]} castShadow>
-            <boxGeometry args={[width * 0.5, 0.04, depth * 0.4]} />
-            <meshStandardMaterial color="#8b6914" />
+          {/* Vanity, top and basin */}
+          <mesh position={[0, (height - 0.04) / 2, 0]}>
+            <boxGeometry args={[width, height - 0.04, depth]} />
+            <meshStandardMaterial color="#5c4033" />
           </mesh>
-          {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([dx, dz], i) => (
-            <mesh key={i} position={[dx * width * 0.2, 0.19, dz * depth * 0.16]}>
-              <boxGeometry args={[0.04, 0.38, 0.04]} />
-              <meshStandardMaterial color="#5c4033" />
-            </mesh>
-          ))}
-          {/* Chairs with cushions */}
-          {[[-1, 0], [1, 0], [0, -1], [0, 1]].map(([dx, dz], i) => (
-            <group key={`chair-${i}`} position={[dx * width * 0.35, 0, dz * depth * 0.32]}>
-              <mesh position={[0, 0.22, 0]} castShadow>
-                <boxGeometry args={[0.38, 0.03, 0.38]} />
-                <meshStandardMaterial color="#6b4423" />
-              </mesh>
-              <mesh position={[0, 0.26, 0]}>
-                <boxGeometry args={[0.32, 0.04, 0.32]} />
-                <meshStandardMaterial color="#c49a6c" />
-              </mesh>
-              <mesh position={[0, 0.48, dz === 0 ? 0.16 * (dx || 1) : 0.16 * dz]}>
-                <boxGeometry args={[0.38, 0.48, 0.03]} />
-                <meshStandardMaterial color="#6b4423" />
-              </mesh>
-              {[[-0.16, -0.16], [0.16, -0.16], [-0.16, 0.16], [0.16, 0.16]].map(([lx, lz], li) => (
-                <mesh key={li} position={[lx, 0.11, lz]}>
-                  <boxGeometry args={[0.03, 0.22, 0.03]} />
-                  <meshStandardMaterial color="#5c4033" />
-                </mesh>
-              ))}
-            </group>
-          ))}
-          {/* Centerpiece */}
-          <mesh position={[0, 0.45, 0]}>
-            <cylinderGeometry args={[0.08, 0.06, 0.15, 12]} />
-            <meshStandardMaterial color="#4a90a4" />
+          <mesh position={[0, height - 0.02, 0]}>
+            <boxGeometry args={[width, 0.04, depth]} />
+            <meshStandardMaterial color="#d4d4d4" />
           </mesh>
-          <mesh position={[0, 0.58, 0]}>
-            <sphereGeometry args={[0.12, 8, 8]} />
-            <meshStandardMaterial color="#228b22" />
+          <mesh position={[0, height - 0.04, 0.02]}>
+            <cylinderGeometry args={[Math.min(width, depth) * 0.35, Math.min(width, depth) * 0.3, 0.12, 24]} />
+            <meshStandardMaterial color="#ffffff" />
+          </mesh>
+          {/* Mirror */}
+          <mesh position={[0, height + 0.6, -depth / 2 + 0.01]}>
+            <boxGeometry args={[width * 0.8, 0.6, 0.02]} />
+            <meshStandardMaterial color="#b8d4e8" metalness={0.5} roughness={0.1} />
           </mesh>
         </group>
       );
 
-    case 'garage':
+    case 'shower':
       return (
         <group>
-          {/* Car body */}
-          <mesh position={[0, 0.5, 0]} castShadow>
-            <boxGeometry args={[width * 0.5, 0.7, depth * 0.7]} />
-            <meshStandardMaterial color="#2c3e50" />
+          {/* Tray, head and glass */}
+          <mesh position={[0, 0.03, 0]}>
+            <boxGeometry args={[width, 0.06, depth]} />
+            <meshStandardMaterial color="#e8e8e8" />
           </mesh>
-          {/* Car cabin/roof */}
-          <mesh position={[0, 0.95, -depth * 0.05]}>
-            <boxGeometry args={[width * 0.42, 0.4, depth * 0.4]} />
-            <meshStandardMaterial color="#2c3e50" />
+          <mesh position={[0, height * 0.85, -depth / 2 + 0.15]}>
+            <cylinderGeometry args={[0.1, 0.1, 0.02, 16]} />
+            <meshStandardMaterial color="#c0c0c0" metalness={0.8} roughness={0.2} />
           </mesh>
-          {/* Windshield */}
-          <mesh position={[0, 0.9, -depth * 0.18]} rotation={[0.3, 0, 0]}>
-            <boxGeometry args={[width * 0.38, 0.3, 0.02]} />
-            <meshStandardMaterial color="#87ceeb" transparent opacity={0.5} />
-          </mesh>
-          {/* Headlights */}
-          {[-1, 1].map((dx, i) => (
-            <mesh key={i} position={[dx * width * 0.18, 0.5, -depth * 0.36]}>
-              <boxGeometry args={[0.12, 0.08, 0.02]} />
-              <meshStandardMaterial color="#ffeaa7" emissive="#ffeaa7" emissiveIntensity={0.3} />
-            </mesh>
-          ))}
-          {/* Wheels */}
-          {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([dx, dz], i) => (
-            <group key={i}>
-              <mesh position={[dx * width * 0.22, 0.2, dz * depth * 0.25]} rotation={[0, 0, Math.PI / 2]}>
-                <cylinderGeometry args={[0.18, 0.18, 0.1, 16]} />
-                <meshStandardMaterial color="#1a1a1a" />
-              </mesh>
-              <mesh position={[dx * width * 0.22, 0.2, dz * depth * 0.25]} rotation={[0, 0, Math.PI / 2]}>
-                <cylinderGeometry args={[0.1, 0.1, 0.12, 16]} />
-                <meshStandardMaterial color="#c0c0c0" metalness={0.7} roughness={0.3} />
-              </mesh>
-            </group>
-          ))}
-          {/* Tool rack on wall */}
-          <mesh position={[-width * 0.42, 1.2, 0]}>
-            <boxGeometry args={[0.1, 0.8, depth * 0.5]} />
-            <meshStandardMaterial color="#8b4513" />
+          <mesh position={[0, height * 0.45, depth / 2]}>
+            <boxGeometry args={[width, height * 0.9, 0.01]} />
+            <meshStandardMaterial color="#a8d8ea" transparent opacity={0.3} />
           </mesh>
         </group>
       );
 
-    case 'balcony':
-      // Railings are now handled by the wall system, just add furniture
+    case 'bathtub':
       return (
         <group>
-          {/* Potted plants along the edges */}
-          {[[-width * 0.35, -depth * 0.3], [width * 0.35, -depth * 0.3], [-width * 0.35, depth * 0.3], [width * 0.35, depth * 0.3]].map(([px, pz], i) => (
-            <group key={`plant-${i}`} position={[px, 0, pz]}>
-              <mesh position={[0, 0.15, 0]}>
-                <cylinderGeometry args={[0.12, 0.1, 0.3, 12]} />
-                <meshStandardMaterial color="#8b4513" />
-              </mesh>
-              <mesh position={[0, 0.4, 0]}>
-                <sphereGeometry args={[0.18, 8, 8]} />
-                <meshStandardMaterial color="#228b22" />
-              </mesh>
-            </group>
-          ))}
-          {/* Outdoor chair */}
-          <group position={[0, 0, 0]}>
-            <mesh position={[0, 0.2, 0]}>
-              <boxGeometry args={[0.5, 0.04, 0.5]} />
-              <meshStandardMaterial color="#deb887" />
-            </mesh>
-            <mesh position={[0, 0.4, 0.22]}>
-              <boxGeometry args={[0.5, 0.38, 0.04]} />
-              <meshStandardMaterial color="#deb887" />
-            </mesh>
-            {/* Chair legs */}
-            {[[-0.2, -0.2], [0.2, -0.2], [-0.2, 0.2], [0.2, 0.2]].map(([lx, lz], li) => (
-              <mesh key={li} position={[lx, 0.1, lz]}>
-                <boxGeometry args={[0.03, 0.2, 0.03]} />
-                <meshStandardMaterial color="#c4a574" />
-              </mesh>
-            ))}
-          </group>
-          {/* Small side table */}
-          <group position={[width * 0.2, 0, 0]}>
-            <mesh position={[0, 0.25, 0]}>
-              <cylinderGeometry args={[0.15, 0.15, 0.02, 16]} />
-              <meshStandardMaterial color="#8b4513" />
-            </mesh>
-            <mesh position={[0, 0.12, 0]}>
-              <cylinderGeometry args={[0.03, 0.03, 0.24, 8]} />
-              <meshStandardMaterial color="#6b4423" />
-            </mesh>
-          </group>
+          {/* Shell and water */}
+          <mesh position={[0, height / 2, 0]} castShadow>
+            <boxGeometry args={[width, height, depth]} />
+            <meshStandardMaterial color="#fafafa" />
+          </mesh>
+          <mesh position={[0, height + 0.001, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+            <planeGeometry args={[width * 0.85, depth * 0.75]} />
+            <meshStandardMaterial color="#a8d8ea" />
+          </mesh>
         </group>
       );
 
-    case 'garden':
+    case 'wardrobe':
+    case 'shelves': {
+      const closed = type === 'wardrobe';
       return (
         <group>
-          {/* Grass patches with varying heights */}
-          {Array.from({ length: 8 }).map((_, i) => {
-            const px = (Math.random() - 0.5) * width * 0.8;
-            const pz = (Math.random() - 0.5) * depth * 0.8;
-            return (
-              <mesh key={`grass-${i}`} position={[px, 0.03, pz]} rotation={[-Math.PI / 2, 0, Math.random() * Math.PI]}>
-                <circleGeometry args={[0.15 + Math.random() * 0.1, 8]} />
-                <meshStandardMaterial color={`hsl(${100 + Math.random() * 30}, ${50 + Math.random() * 20}%, ${35 + Math.random() * 15}%)`} />
-              </mesh>
-            );
-          })}
-          {/* Trees/bushes */}
-          {[[-width * 0.3, -depth * 0.3], [width * 0.3, depth * 0.25], [-width * 0.25, depth * 0.3]].map(([tx, tz], i) => (
-            <group key={`tree-${i}`} position={[tx, 0, tz]}>
-              {/* Trunk */}
-              <mesh position={[0, 0.3, 0]}>
-                <cylinderGeometry args={[0.08, 0.1, 0.6, 8]} />
-                <meshStandardMaterial color="#8b4513" />
-              </mesh>
-              {/* Foliage layers */}
-              <mesh position={[0, 0.7, 0]}>
-                <sphereGeometry args={[0.35, 8, 8]} />
-                <meshStandardMaterial color="#228b22" />
-              </mesh>
-              <mesh position={[0, 0.95, 0]}>
-                <sphereGeometry args={[0.25, 8, 8]} />
-                <meshStandardMaterial color="#2e8b2e" />
-              </mesh>
-            </group>
-          ))}
-          {/* Flower beds */}
-          <mesh position={[width * 0.25, 0.08, -depth * 0.3]} rotation={[-Math.PI / 2, 0, 0]}>
-            <boxGeometry args={[0.5, 0.4, 0.12]} />
-            <meshStandardMaterial color="#5c4033" />
+          <mesh position={[0, height / 2, 0]} castShadow>
+            <boxGeometry args={[width, height, closed ? depth : 0.04]} />
+            <meshStandardMaterial color={closed ? '#8b7355' : '#6b4423'} />
           </mesh>
-          {/* Flowers */}
-          {[[-0.1, 0], [0.1, 0], [0, 0.1], [0, -0.1]].map(([fx, fz], i) => (
-            <mesh key={`flower-${i}`} position={[width * 0.25 + fx, 0.2, -depth * 0.3 + fz]}>
-              <sphereGeometry args={[0.06, 6, 6]} />
-              <meshStandardMaterial color={['#ff6b6b', '#feca57', '#ff9ff3', '#54a0ff'][i]} />
-            </mesh>
-          ))}
-          {/* Stone path */}
-          {Array.from({ length: 4 }).map((_, i) => (
-            <mesh key={`stone-${i}`} position={[0, 0.02, -depth * 0.35 + i * 0.35]} rotation={[-Math.PI / 2, 0, Math.random() * 0.3]}>
-              <circleGeometry args={[0.12, 6]} />
-              <meshStandardMaterial color="#808080" />
-            </mesh>
-          ))}
+          {/* Door handles, or shelves standing out from a back board */}
+          {closed
+            ? Array.from({ length: Math.max(1, Math.round(width / 0.45) - 1) }).map((_, i, all) => (
+                <mesh key={i} position={[(i + 1 - (all.length + 1) / 2) * (width / (all.length + 1)), height * 0.5, depth / 2 + 0.01]}>
+                  <boxGeometry args={[0.02, 0.15, 0.02]} />
+                  <meshStandardMaterial color="#c0c0c0" metalness={0.8} />
+                </mesh>
+              ))
+            : Array.from({ length: 5 }).map((_, i) => (
+                <mesh key={i} position={[0, 0.05 + (i * (height - 0.1)) / 4, 0]}>
+                  <boxGeometry args={[width, 0.03, depth]} />
+                  <meshStandardMaterial color="#8b7355" />
+                </mesh>
+              ))}
         </group>
       );
+    }
 
-    case 'pooja':
+    case 'desk':
       return (
         <group>
-          {/* Wooden platform/mandir */}
-          <mesh position={[0, 0.5, -depth * 0.3]} castShadow>
-            <boxGeometry args={[width * 0.6, 1.0, 0.5]} />
+          {/* Desk along the back, chair in front */}
+          <mesh position={[0, height - 0.02, -depth / 4]} castShadow>
+            <boxGeometry args={[width, 0.04, depth / 2]} />
             <meshStandardMaterial color="#8b4513" />
           </mesh>
-          {/* Decorative top */}
-          <mesh position={[0, 1.1, -depth * 0.3]}>
-            <boxGeometry args={[width * 0.65, 0.15, 0.55]} />
-            <meshStandardMaterial color="#a0522d" />
-          </mesh>
-          {/* Temple dome shape */}
-          <mesh position={[0, 1.4, -depth * 0.3]}>
-            <coneGeometry args={[0.25, 0.4, 8]} />
-            <meshStandardMaterial color="#d4af37" metalness={0.5} roughness={0.5} />
-          </mesh>
-          {/* Deity space */}
-          <mesh position={[0, 0.7, -depth * 0.25]}>
-            <boxGeometry args={[0.3, 0.4, 0.02]} />
-            <meshStandardMaterial color="#ffd700" metalness={0.3} roughness={0.6} />
-          </mesh>
-          {/* Diyas (oil lamps) */}
-          {[-0.25, 0.25].map((dx, i) => (
-            <group key={`diya-${i}`} position={[dx, 0.55, -depth * 0.15]}>
-              <mesh position={[0, 0, 0]}>
-                <cylinderGeometry args={[0.04, 0.06, 0.03, 12]} />
-                <meshStandardMaterial color="#d4af37" metalness={0.6} roughness={0.4} />
-              </mesh>
-              {/* Flame */}
-              <mesh position={[0, 0.05, 0]}>
-                <coneGeometry args={[0.015, 0.04, 8]} />
-                <meshStandardMaterial color="#ff6600" emissive="#ff4400" emissiveIntensity={0.8} />
-              </mesh>
-            </group>
+          {[-1, 1].map((side) => (
+            <mesh key={side} position={[(side * (width - 0.04)) / 2, (height - 0.04) / 2, -depth / 4]}>
+              <boxGeometry args={[0.04, height - 0.04, depth / 2]} />
+              <meshStandardMaterial color="#5c4033" />
+            </mesh>
           ))}
-          {/* Incense holder */}
-          <mesh position={[0, 0.55, -depth * 0.1]}>
-            <cylinderGeometry args={[0.03, 0.05, 0.08, 8]} />
-            <meshStandardMaterial color="#8b4513" />
-          </mesh>
-          {/* Floor mat */}
-          <mesh position={[0, 0.01, depth * 0.15]} rotation={[-Math.PI / 2, 0, 0]}>
-            <planeGeometry args={[width * 0.5, 0.4]} />
-            <meshStandardMaterial color="#8b0000" />
+          <mesh position={[0, 0.22, depth / 4]} castShadow>
+            <boxGeometry args={[0.45, 0.44, 0.45]} />
+            <meshStandardMaterial color="#2f2f2f" />
           </mesh>
         </group>
       );
 
-    case 'study':
+    case 'tv':
       return (
         <group>
-          {/* Desk */}
-          <mesh position={[0, 0.38, -depth * 0.3]} castShadow>
-            <boxGeometry args={[width * 0.6, 0.04, 0.6]} />
+          <mesh position={[0, height * 0.3, 0]} castShadow>
+            <boxGeometry args={[width, height * 0.6, depth]} />
             <meshStandardMaterial color="#5c4033" />
           </mesh>
-          {/* Desk legs */}
-          {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([dx, dz], i) => (
-            <mesh key={i} position={[dx * width * 0.27, 0.19, -depth * 0.3 + dz * 0.25]}>
-              <boxGeometry args={[0.04, 0.38, 0.04]} />
-              <meshStandardMaterial color="#4a3728" />
-            </mesh>
-          ))}
-          {/* Office chair */}
-          <group position={[0, 0, 0]}>
-            <mesh position={[0, 0.25, 0]}>
-              <cylinderGeometry args={[0.03, 0.15, 0.25, 8]} />
-              <meshStandardMaterial color="#1a1a1a" />
-            </mesh>
-            <mesh position={[0, 0.42, 0]}>
-              <boxGeometry args={[0.45, 0.08, 0.45]} />
-              <meshStandardMaterial color="#1f1f1f" />
-            </mesh>
-            <mesh position={[0, 0.65, 0.18]}>
-              <boxGeometry args={[0.45, 0.5, 0.08]} />
-              <meshStandardMaterial color="#1f1f1f" />
-            </mesh>
-          </group>
-          {/* Monitor */}
-          <mesh position={[0, 0.65, -depth * 0.4]}>
-            <boxGeometry args={[0.6, 0.4, 0.03]} />
+          {/* Screen on the wall above */}
+          <mesh position={[0, height + 0.5, -depth / 2 + 0.03]}>
+            <boxGeometry args={[width * 0.7, 0.6, 0.04]} />
             <meshStandardMaterial color="#1a1a1a" />
           </mesh>
-          <mesh position={[0, 0.45, -depth * 0.38]}>
-            <boxGeometry args={[0.15, 0.1, 0.1]} />
-            <meshStandardMaterial color="#2d2d2d" />
-          </mesh>
-          {/* Keyboard */}
-          <mesh position={[0, 0.41, -depth * 0.2]}>
-            <boxGeometry args={[0.4, 0.02, 0.15]} />
-            <meshStandardMaterial color="#2d2d2d" />
+        </group>
+      );
+
+    case 'car':
+      return (
+        <group>
+          {/* Body, cabin and wheels */}
+          <mesh position={[0, height * 0.3, 0]} castShadow>
+            <boxGeometry args={[width * 0.9, height * 0.35, depth * 0.95]} />
+            <meshStandardMaterial color="#4a5568" metalness={0.6} roughness={0.3} />
           </mesh>
-          {/* Bookshelf */}
-          <mesh position={[-width * 0.4, 0.8, 0]} castShadow>
-            <boxGeometry args={[0.3, 1.6, depth * 0.4]} />
-            <meshStandardMaterial color="#6b4423" />
+          <mesh position={[0, height * 0.65, -depth * 0.05]} castShadow>
+            <boxGeometry args={[width * 0.8, height * 0.35, depth * 0.5]} />
+            <meshStandardMaterial color="#2d3748" metalness={0.6} roughness={0.3} />
           </mesh>
-          {/* Books */}
-          {[0.2, 0.5, 0.8, 1.1].map((by, i) => (
-            <mesh key={i} position={[-width * 0.4, by, 0]}>
-              <boxGeometry args={[0.25, 0.2, depth * 0.35]} />
-              <meshStandardMaterial color={['#c0392b', '#2980b9', '#27ae60', '#8e44ad'][i]} />
+          {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([dx, dz], i) => (
+            <mesh key={i} position={[dx * width * 0.45, height * 0.12, dz * depth * 0.32]} rotation={[0, 0, Math.PI / 2]}>
+              <cylinderGeometry args={[height * 0.12, height * 0.12, 0.15, 16]} />
+              <meshStandardMaterial color="#1a1a1a" />
             </mesh>
           ))}
         </group>
       );
 
-    case 'utility':
+    case 'plants':
       return (
         <group>
-          {/* Washing machine */}
-          <mesh position={[-width * 0.25, 0.45, -depth * 0.3]} castShadow>
-            <boxGeometry args={[0.6, 0.9, 0.6]} />
-            <meshStandardMaterial color="#e0e0e0" />
-          </mesh>
-          {/* Washing machine door */}
-          <mesh position={[-width * 0.25, 0.5, -depth * 0.3 + 0.31]}>
-            <cylinderGeometry args={[0.2, 0.2, 0.02, 24]} />
-            <meshStandardMaterial color="#87ceeb" transparent opacity={0.5} />
-          </mesh>
-          {/* Dryer */}
-          <mesh position={[width * 0.25, 0.45, -depth * 0.3]} castShadow>
-            <boxGeometry args={[0.6, 0.9, 0.6]} />
-            <meshStandardMaterial color="#d0d0d0" />
-          </mesh>
-          {/* Utility sink */}
-          <mesh position={[0, 0.45, depth * 0.25]}>
-            <boxGeometry args={[0.6, 0.9, 0.5]} />
-            <meshStandardMaterial color="#f5f5f5" />
-          </mesh>
-          <mesh position={[0, 0.85, depth * 0.25]}>
-            <boxGeometry args={[0.5, 0.2, 0.4]} />
-            <meshStandardMaterial color="#c0c0c0" />
-          </mesh>
-          {/* Shelving */}
-          <mesh position={[width * 0.35, 1.2, 0]}>
-            <boxGeometry args={[0.4, 0.04, depth * 0.4]} />
-            <meshStandardMaterial color="#8b4513" />
-          </mesh>
-          <mesh position={[width * 0.35, 1.6, 0]}>
-            <boxGeometry args={[0.4, 0.04, depth * 0.4]} />
+          {/* Pot and foliage */}
+          <mesh position={[0, height * 0.2, 0]}>
+            <cylinderGeometry args={[width * 0.35, width * 0.25, height * 0.4, 12]} />
             <meshStandardMaterial color="#8b4513" />
           </mesh>
-          {/* Cleaning supplies */}
-          <mesh position={[width * 0.35, 1.35, 0]}>
-            <boxGeometry args={[0.15, 0.25, 0.1]} />
-            <meshStandardMaterial color="#3498db" />
+          <mesh position={[0, height * 0.65, 0]}>
+            <sphereGeometry args={[width * 0.45, 8, 8]} />
+            <meshStandardMaterial color="#228b22" />
           </mesh>
         </group>
       );
 
-    case 'store':
+    case 'mandir':
       return (
         <group>
-          {/* Storage shelves */}
-          {[-0.25, 0, 0.25].map((dz, i) => (
-            <group key={`shelf-unit-${i}`} position={[-width * 0.35, 0, dz * depth]}>
-              {/* Vertical supports */}
-              {[-1, 1].map((dx, j) => (
-                <mesh key={j} position={[dx * 0.2, 1.0, 0]}>
-                  <boxGeometry args={[0.04, 2.0, 0.04]} />
-                  <meshStandardMaterial color="#6b6b6b" metalness={0.5} roughness={0.5} />
-                </mesh>
-              ))}
-              {/* Shelves */}
-              {[0.4, 0.9, 1.4, 1.9].map((sy, k) => (
-                <mesh key={k} position={[0, sy, 0]}>
-                  <boxGeometry args={[0.45, 0.03, 0.35]} />
-                  <meshStandardMaterial color="#808080" />
-                </mesh>
-              ))}
-            </group>
-          ))}
-          {/* Boxes on shelves */}
-          {[
-            [-width * 0.35, 0.55, -depth * 0.25],
-            [-width * 0.35, 1.05, 0],
-            [-width * 0.35, 1.55, depth * 0.25],
-          ].map(([bx, by, bz], i) => (
-            <mesh key={`box-${i}`} position={[bx, by, bz]}>
-              <boxGeometry args={[0.3, 0.25, 0.25]} />
-              <meshStandardMaterial color={['#c49a6c', '#8b7355', '#a0522d'][i]} />
-            </mesh>
-          ))}
-          {/* Large storage bins */}
-          <mesh position={[width * 0.2, 0.25, 0]} castShadow>
-            <boxGeometry args={[0.5, 0.5, 0.4]} />
-            <meshStandardMaterial color="#4a90a4" />
+          {/* Base, shrine and dome */}
+          <mesh position={[0, height * 0.15, 0]}>
+            <boxGeometry args={[width, height * 0.3, depth]} />
+            <meshStandardMaterial color="#f5f5dc" />
+          </mesh>
+          <mesh position={[0, height * 0.5, -depth * 0.1]}>
+            <boxGeometry args={[width * 0.8, height * 0.4, depth * 0.7]} />
+            <meshStandardMaterial color="#daa520" metalness={0.4} roughness={0.4} />
+          </mesh>
+          <mesh position={[0, height * 0.8, -depth * 0.1]}>
+            <coneGeometry args={[width * 0.35, height * 0.2, 8]} />
+            <meshStandardMaterial color="#ff8c00" />
           </mesh>
         </group>
       );
 
-    case 'wardrobe':
+    case 'washing-machine':
       return (
         <group>
-          {/* Built-in wardrobe */}
-          <mesh position={[0, 1.1, -depth * 0.35]} castShadow>
-            <boxGeometry args={[width * 0.8, 2.2, 0.55]} />
-            <meshStandardMaterial color="#6b4423" />
-          </mesh>
-          {/* Wardrobe doors */}
-          {[-0.25, 0.25].map((dx, i) => (
-            <mesh key={i} position={[dx * width, 1.1, -depth * 0.35 + 0.28]}>
-              <boxGeometry args={[width * 0.38, 2.15, 0.02]} />
-              <meshStandardMaterial color="#8b6914" />
-            </mesh>
-          ))}
-          {/* Door handles */}
-          {[-0.05, 0.05].map((dx, i) => (
-            <mesh key={`handle-${i}`} position={[dx * width, 1.1, -depth * 0.35 + 0.3]}>
-              <boxGeometry args={[0.02, 0.15, 0.02]} />
-              <meshStandardMaterial color="#c0c0c0" metalness={0.7} roughness={0.3} />
-            </mesh>
-          ))}
-          {/* Mirror */}
-          <mesh position={[width * 0.35, 1.2, depth * 0.2]} rotation={[0, 0.1, 0]}>
-            <boxGeometry args={[0.02, 1.6, 0.5]} />
-            <meshStandardMaterial color="#b8d4e8" metalness={0.8} roughness={0.1} />
+          <mesh position={[0, height / 2, 0]} castShadow>
+            <boxGeometry args={[width, height, depth]} />
+            <meshStandardMaterial color="#f0f0f0" />
           </mesh>
-          {/* Dresser */}
-          <mesh position={[-width * 0.3, 0.35, depth * 0.2]} castShadow>
-            <boxGeometry args={[0.5, 0.7, 0.4]} />
-            <meshStandardMaterial color="#5c4033" />
+          {/* Door */}
+          <mesh position={[0, height * 0.45, depth / 2 + 0.01]} rotation={[Math.PI / 2, 0, 0]}>
+            <cylinderGeometry args={[width * 0.3, width * 0.3, 0.02, 24]} />
+            <meshStandardMaterial color="#708090" metalness={0.5} roughness={0.2} />
           </mesh>
-          {/* Dresser drawers */}
-          {[0.15, 0.4, 0.55].map((dy, i) => (
-            <mesh key={i} position={[-width * 0.3, dy, depth * 0.2 + 0.21]}>
-              <boxGeometry args={[0.45, 0.18, 0.02]} />
-              <meshStandardMaterial color="#6b4423" />
+        </group>
+      );
+
+    default:
+      return null;
+  }
+}
+
+// Fittings built into a room rather than placed as furniture
+function RoomFittings({ type, width, depth }: { type: RoomType; width: number; depth: number }) {
+  switch (type) {
+    case 'garden':
+      return (
+        <group>
+          {/* Grass patches with varying heights */}
+          {Array.from({ length: 8 }).map((_, i) => {
+            const px = (Math.random() - 0.5) * width * 0.8;
+            const pz = (Math.random() - 0.5) * depth * 0.8;
+            return (
+              <mesh key={`grass-${i}`} position={[px, 0.03, pz]} rotation={[-Math.PI / 2, 0, Math.random() * Math.PI]}>
+                <circleGeometry args={[0.15 + Math.random() * 0.1, 8]} />
+                <meshStandardMaterial color={`hsl(${100 + Math.random() * 30}, ${50 + Math.random() * 20}%, ${35 + Math.random() * 15}%)`} />
+              </mesh>
+            );
+          })}
+          {/* Stone path */}
+          {Array.from({ length: 4 }).map((_, i) => (
+            <mesh key={`stone-${i}`} position={[0, 0.02, -depth * 0.35 + i * 0.35]} rotation={[-Math.PI / 2, 0, Math.random() * 0.3]}>
+              <circleGeometry args={[0.12, 6]} />
+              <meshStandardMaterial color="#808080" />
             </mesh>
           ))}
         </group>
@@ -1482,10 +1246,63 @@ function RoomFurniture({ type, width, depth }: { type: RoomType; width: number;
   }
 }
 
-function Ground({ plotWidth, plotLength }: { plotWidth: number; plotLength: number }) {
+interface GroundProps {
+  plotWidth: number;
+  plotLength: number;
+  plotPolygon?: PlotVertex[];
+  setbacks?: PlotSetbacks;
+  northAngle?: number; // degrees clockwise from the plan's top
+}
+
+// Flat north arrow off the plot's back right corner
+function NorthMarker({ plotWidth, plotLength, northAngle }: { plotWidth: number; plotLength: number; northAngle: number }) {
+  const arrow = useMemo(() => new THREE.Shape([
+    new THREE.Vector2(0, 0.9),
+    new THREE.Vector2(0.45, -0.7),
+    new THREE.Vector2(0, -0.35),
+    new THREE.Vector2(-0.45, -0.7),
+  ]), []);
+
+  return (
+    <group position={[(plotLength / 2 + 3) * SCALE, 0.03, -(plotWidth / 2 + 3) * SCALE]}>
+      <mesh rotation={[-Math.PI / 2, 0, (-northAngle * Math.PI) / 180]}>
+        <shapeGeometry args={[arrow]} />
+        <meshStandardMaterial color="#1f2937" />
+      </mesh>
+      <Text
+        position={[Math.sin((northAngle * Math.PI) / 180) * 1.3, 0.01, -Math.cos((northAngle * Math.PI) / 180) * 1.3]}
+        rotation={[-Math.PI / 2, 0, 0]}
+        fontSize={0.5}
+        color="#1f2937"
+        anchorX="center"
+        anchorY="middle"
+      >
+        N
+      </Text>
+    </group>
+  );
+}
+
+function Ground({ plotWidth, plotLength, plotPolygon, setbacks, northAngle = 0 }: GroundProps) {
   const width = plotLength * SCALE;
   const depth = plotWidth * SCALE;
-  
+  const vertices = useMemo(() => getPlotPolygon({ plotLength, plotWidth, plotPolygon }), [plotLength, plotWidth, plotPolygon]);
+  const envelope = useMemo(
+    () => (hasSetbacks({ setbacks }) ? getBuildableEnvelope({ plotLength, plotWidth, plotPolygon, setbacks }) : null),
+    [plotLength, plotWidth, plotPolygon, setbacks]
+  );
+
+  // Shapes are drawn in XY and laid flat, so plan y maps to -Y before the rotation
+  const { shape, envelopeShape, outline } = useMemo(() => {
+    const toGround = (vertex: PlotVertex) => new THREE.Vector2((vertex.x - plotLength / 2) * SCALE, -(vertex.y - plotWidth / 2) * SCALE);
+    const points = vertices.map(toGround);
+    return {
+      shape: new THREE.Shape(points),
+      envelopeShape: envelope ? new THREE.Shape(envelope.map(toGround)) : null,
+      outline: new THREE.BufferGeometry().setFromPoints(points.map((point) => new THREE.Vector3(point.x, point.y, 0))),
+    };
+  }, [vertices, envelope, plotLength, plotWidth]);
+
   return (
     <group>
       {/* Surrounding ground */}
@@ -1494,17 +1311,47 @@ function Ground({ plotWidth, plotLength }: { plotWidth: number; plotLength: numb
         <meshStandardMaterial color="#7cb342" />
       </mesh>
       
-      {/* Plot boundary / foundation */}
+      {/* Plot boundary / foundation; with setbacks the plot is lawn and only the envelope is built on */}
       <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]} receiveShadow>
-        <planeGeometry args={[width + 0.3, depth + 0.3]} />
-        <meshStandardMaterial color="#d4c4a8" />
+        <shapeGeometry args={[shape]} />
+        <meshStandardMaterial color={envelopeShape ? "#9ccc65" : "#d4c4a8"} />
       </mesh>
+      {envelopeShape && (
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.01, 0]} receiveShadow>
+          <shapeGeometry args={[envelopeShape]} />
+          <meshStandardMaterial color="#d4c4a8" />
+        </mesh>
+      )}
       
       {/* Plot edge outline */}
-      <lineSegments position={[0, 0.02, 0]}>
-        <edgesGeometry args={[new THREE.PlaneGeometry(width, depth)]} />
+      <lineLoop geometry={outline} rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]}>
         <lineBasicMaterial color="#6b7280" linewidth={2} />
-      </lineSegments>
+      </lineLoop>
+
+      {/* Edge lengths, laid flat just outside the boundary */}
+      {getPolygonEdges(vertices).map(({ start, end, length, normal }, index) => {
+        if (length === 0) return null;
+        const labelX = (start.x + end.x) / 2 + normal.x * 2;
+        const labelY = (start.y + end.y) / 2 + normal.y * 2;
+        let angle = -Math.atan2(end.y - start.y, end.x - start.x);
+        if (angle > Math.PI / 2 || angle <= -Math.PI / 2) angle += Math.PI;
+
+        return (
+          <Text
+            key={index}
+            position={[(labelX - plotLength / 2) * SCALE, 0.03, (labelY - plotWidth / 2) * SCALE]}
+            rotation={[-Math.PI / 2, 0, angle]}
+            fontSize={0.35}
+            color="#1f2937"
+            anchorX="center"
+            anchorY="middle"
+          >
+            {`${length.toFixed(1)} ft`}
+          </Text>
+        );
+      })}
+
+      <NorthMarker plotWidth={plotWidth} plotLength={plotLength} northAngle={northAngle} />
     </group>
   );
 }
@@ -1513,15 +1360,18 @@ interface BuildingProps {
   layout: GeneratedLayout;
   plotWidth: number;
   plotLength: number;
+  plotPolygon?: PlotVertex[];
+  setbacks?: PlotSetbacks;
+  northAngle?: number;
   floors: number;
 }
 
-function Building({ layout, plotWidth, plotLength, floors }: BuildingProps) {
+function Building({ layout, plotWidth, plotLength, plotPolygon, setbacks, northAngle, floors }: BuildingProps) {
   const groupRef = useRef<THREE.Group>(null);
 
   return (
     <group ref={groupRef}>
-      <Ground plotWidth={plotWidth} plotLength={plotLength} />
+      <Ground plotWidth={plotWidth} plotLength={plotLength} plotPolygon={plotPolygon} setbacks={setbacks} northAngle={northAngle} />
       
       {/* All rooms */}
       {layout.rooms.map((room) => (
@@ -1532,6 +1382,7 @@ function Building({ layout, plotWidth, plotLength, floors }: BuildingProps) {
           plotLength={plotLength}
           floorHeight={WALL_HEIGHT}
           allRooms={layout.rooms}
+          wallThickness={layout.wallThickness}
         />
       ))}
     </group>
@@ -1542,10 +1393,13 @@ interface FloorPlan3DViewerProps {
   layout: GeneratedLayout;
   plotWidth: number;
   plotLength: number;
+  plotPolygon?: PlotVertex[];
+  setbacks?: PlotSetbacks;
+  northAngle?: number; // degrees clockwise from the plan's top
   floors: number;
 }
 
-const FloorPlan3DViewer = ({ layout, plotWidth, plotLength, floors }: FloorPlan3DViewerProps) => {
+const FloorPlan3DViewer = ({ layout, plotWidth, plotLength, plotPolygon, setbacks, northAngle, floors }: FloorPlan3DViewerProps) => {
   const [debugMode, setDebugMode] = useState(false);
   const cameraDistance = Math.max(plotWidth, plotLength) * SCALE * 1.5;
   
@@ -1590,6 +1444,9 @@ const FloorPlan3DViewer = ({ layout, plotWidth, plotLength, floors }: FloorPlan3
               layout={layout} 
               plotWidth={plotWidth} 
               plotLength={plotLength}
+              plotPolygon={plotPolygon}
+              setbacks={setbacks}
+              northAngle={northAngle}
               floors={floors}
             />
           </Suspense>
@@ -1,16 +1,69 @@
-import { useState, lazy, Suspense, useMemo } from "react";
+import { useState, lazy, Suspense, useMemo, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Download, RotateCcw, ZoomIn, ZoomOut, Save, Box, Grid2X2 } from "lucide-react";
-import { FormData, GeneratedLayout } from "@/types/floorPlan";
+import { Download, RotateCcw, ZoomIn, ZoomOut, Save, Box, Grid2X2, Lock, RefreshCw, Route, Compass, Move, Undo2, Redo2 } from "lucide-react";
+import { DoorType, FormData, FurnitureItem, GeneratedLayout, LayoutVariant, ROOM_NAMES, Room, RoomType, WindowType } from "@/types/floorPlan";
 import { generateBlueprintPDF } from "@/lib/generatePDF";
+import { getBuildableEnvelope, getRoadSides, hasSetbacks } from "@/lib/layout/envelope";
+import { getFloorPrograms } from "@/lib/layout/floorPrograms";
+import { COMPASS_NAMES, getCompassPoint, getFacing, getNorthAngle } from "@/lib/layout/orientation";
+import { getPlotPolygon, getPolygonArea } from "@/lib/layout/plotPolygon";
+import { computeAreaMetrics } from "@/lib/layout/areaMetrics";
+import { WallSide } from "@/lib/layout/geometry";
+import { MIN_EDIT_DIMENSION } from "@/lib/layout/planEditing";
+import {
+  OpeningKind,
+  PlanCommandKind,
+  addDoor,
+  addWindow,
+  createPlanCommand,
+  flipOpening,
+  getMergeCandidates,
+  mergeRooms,
+  removeDoor,
+  removeWindow,
+  renameRoom,
+  retypeRoom,
+  setOpeningType,
+  slideOpening,
+  splitRoom,
+} from "@/lib/layout/planCommands";
+import { DOOR_CATALOG, WINDOW_CATALOG } from "@/lib/layout/openingCatalog";
+import { FurnitureEdit, addFurniture, getRoomFurniture, removeFurniture, resizeFurniture, rotateFurniture } from "@/lib/layout/furniture";
+import { FURNITURE_CATALOG, getFurnitureSpec } from "@/lib/layout/furnitureCatalog";
+import { buildVastuReport, getVastuZones } from "@/lib/layout/vastu";
+import { findCoreViolations } from "@/lib/layout/verticalCores";
+import { checkAdjacency } from "@/lib/layout/adjacency";
+import { analyzeCirculation, buildDoorGraph } from "@/lib/layout/circulation";
+import { CodePack, CodeViolation, checkBuildingCode } from "@/lib/codes/buildingCode";
+import { CODE_PACKS, getCodePack } from "@/lib/codes/codePacks";
+import { estimateCost } from "@/lib/cost/costEstimate";
+import { BudgetTier, CostRateTables, DEFAULT_RATE_TABLES, getBudgetTier } from "@/lib/cost/rateTables";
 import { useAuth } from "@/hooks/useAuth";
-import { useSavedPlans } from "@/hooks/useSavedPlans";
+import { PlanHistory } from "@/hooks/usePlanHistory";
 import { toast } from "sonner";
 import RoomSVGProfessional from "./RoomSVGProfessional";
 import AreaSchedule from "./AreaSchedule";
 import PlanLegend from "./PlanLegend";
 import DimensionStrings from "./DimensionStrings";
+import SetbackZones from "./SetbackZones";
+import NorthArrow from "./NorthArrow";
+import VariantPicker from "./VariantPicker";
+import CoreViolationOverlay from "./CoreViolationOverlay";
+import VerticalCoreReport from "./VerticalCoreReport";
+import AdjacencyReport from "./AdjacencyReport";
+import RoomLockOverlay from "./RoomLockOverlay";
+import CirculationOverlay from "./CirculationOverlay";
+import VastuReport from "./VastuReport";
+import VastuZoneOverlay from "./VastuZoneOverlay";
+import CodeViolationsPanel from "./CodeViolationsPanel";
+import RoomHighlightOverlay from "./RoomHighlightOverlay";
+import CostEstimator from "./CostEstimator";
+import BillOfQuantities from "./BillOfQuantities";
+import PlanEditorOverlay from "./PlanEditorOverlay";
+import FurnitureEditorOverlay from "./FurnitureEditorOverlay";
+import PlanHistoryPanel from "./PlanHistoryPanel";
+import RoomInspector from "./RoomInspector";
 import {
   Dialog,
   DialogContent,
@@ -24,20 +77,42 @@ const FloorPlan3DViewer = lazy(() => import("./FloorPlan3DViewer"));
 interface FloorPlanViewerProps {
   planData: FormData;
   layout: GeneratedLayout;
+  variants?: LayoutVariant[];
+  selectedVariantId?: string;
+  onSelectVariant?: (variantId: string) => void;
   onReset: () => void;
+  onRegenerate?: (lockedRooms: Room[]) => void; // plan again, keeping the locked rooms as they are
+  history: PlanHistory; // hand edits, undo and redo, and saving the edited plan
 }
 
-const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) => {
+const SNAP_GRIDS = [0.5, 1, 2];
+
+const FloorPlanViewer = ({ planData, layout, variants = [], selectedVariantId, onSelectVariant, onReset, onRegenerate, history }: FloorPlanViewerProps) => {
   const [zoom, setZoom] = useState(1);
   const [view, setView] = useState<'2d' | '3d'>('2d');
   const [planName, setPlanName] = useState('');
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [selectedFloor, setSelectedFloor] = useState(1);
+  const [isLocking, setIsLocking] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editRoomId, setEditRoomId] = useState<string | null>(null);
+  const [snapGrid, setSnapGrid] = useState(1);
+  const [lockedIds, setLockedIds] = useState<string[]>([]);
+  const [showCirculation, setShowCirculation] = useState(false);
+  const [showVastu, setShowVastu] = useState(false);
+  const [codePacks, setCodePacks] = useState<CodePack[]>(CODE_PACKS);
+  const [codePackId, setCodePackId] = useState(CODE_PACKS[0].id);
+  const [highlightedRoomId, setHighlightedRoomId] = useState<string | null>(null);
+  const [costTier, setCostTier] = useState<BudgetTier>(getBudgetTier(planData.budgetRange));
+  const [costRates, setCostRates] = useState<CostRateTables>(DEFAULT_RATE_TABLES);
   const { user } = useAuth();
-  const { savePlan } = useSavedPlans();
 
-  const plotWidth = parseInt(planData.plotWidth) || 40;
-  const plotLength = parseInt(planData.plotLength) || 60;
+  const plotWidth = parseFloat(planData.plotWidth) || 40;
+  const plotLength = parseFloat(planData.plotLength) || 60;
+  const plotPolygon = getPlotPolygon({ plotLength, plotWidth, plotPolygon: planData.plotPolygon });
+  const setbackEnvelope = hasSetbacks(planData)
+    ? getBuildableEnvelope({ plotLength, plotWidth, plotPolygon: planData.plotPolygon, setbacks: planData.setbacks })
+    : null;
   const floors = parseInt(planData.floors) || 1;
   
   // Professional scale for cleaner rendering
@@ -56,8 +131,112 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
     [layout.rooms, selectedFloor]
   );
 
+  // Staircases that drift between floors and wet rooms without a stack below
+  const coreViolations = useMemo(() => findCoreViolations(layout.rooms), [layout.rooms]);
+  const doorGraph = useMemo(() => buildDoorGraph(layout.rooms), [layout.rooms]);
+  const circulationIssues = useMemo(() => analyzeCirculation(layout.rooms), [layout.rooms]);
+  const vastuChecks = useMemo(
+    () => buildVastuReport(layout.rooms, { plotLength, plotWidth, facing: planData.facing, roadSides: planData.roadSides }),
+    [layout.rooms, plotLength, plotWidth, planData.facing, planData.roadSides]
+  );
+  const codePack = getCodePack(codePackId, codePacks);
+  const codeViolations = useMemo(() => checkBuildingCode(layout.rooms, codePack), [layout.rooms, codePack]);
+  const areaMetrics = useMemo(
+    () => computeAreaMetrics(
+      layout.rooms,
+      getPolygonArea(getPlotPolygon({ plotLength, plotWidth, plotPolygon: planData.plotPolygon })),
+      { wallThickness: layout.wallThickness }
+    ),
+    [layout.rooms, layout.wallThickness, plotLength, plotWidth, planData.plotPolygon]
+  );
+  const costEstimate = useMemo(
+    () => estimateCost(layout.rooms, { budgetRange: costTier, style: planData.style }, costRates),
+    [layout.rooms, costTier, planData.style, costRates]
+  );
+  const adjacencyChecks = useMemo(() => checkAdjacency(layout.rooms, planData.adjacency), [layout.rooms, planData.adjacency]);
+
+  useEffect(() => {
+    setCostTier(getBudgetTier(planData.budgetRange));
+  }, [planData.budgetRange]);
+
+  // Rooms kept by the last regeneration start out locked again. Hand edits keep
+  // the same rooms, so they leave the picked locks alone.
+  const flaggedLocks = layout.rooms.filter((room) => room.locked).map((room) => room.id).join(',');
+  useEffect(() => {
+    setLockedIds(flaggedLocks ? flaggedLocks.split(',') : []);
+  }, [flaggedLocks, selectedVariantId]);
+
+  // A loaded pack with a built-in id replaces it
+  const handleLoadCodePack = (pack: CodePack) => {
+    setCodePacks((packs) => [...packs.filter((existing) => existing.id !== pack.id), pack]);
+    setCodePackId(pack.id);
+  };
+
+  const handleSelectViolation = (violation: CodeViolation) => {
+    setView('2d');
+    setSelectedFloor(violation.floor);
+    setHighlightedRoomId((id) => (id === violation.roomId ? null : violation.roomId));
+  };
+
+  const highlightedRoom = floorRooms.find((room) => room.id === highlightedRoomId);
+
+  const toggleLock = (roomId: string) => {
+    setLockedIds((ids) => (ids.includes(roomId) ? ids.filter((id) => id !== roomId) : [...ids, roomId]));
+  };
+
+  const roomName = (roomId: string) => layout.rooms.find((room) => room.id === roomId)?.name ?? roomId;
+
+  const recordEdit = (kind: PlanCommandKind, label: string, rooms: Room[]) => {
+    const command = createPlanCommand(kind, label, selectedVariantId ?? variants[0]?.id ?? '', layout.rooms, rooms);
+    if (command) history.execute(command);
+  };
+
+  const handleRoomsEdited = (rooms: Room[], roomId: string, kind: 'move' | 'resize') => {
+    recordEdit(kind, `${kind === 'move' ? 'Move' : 'Resize'} ${roomName(roomId)}`, rooms);
+  };
+
+  const editRoom = floorRooms.find((room) => room.id === editRoomId);
+  const editFurniture = editRoom ? getRoomFurniture(editRoom, layout.wallThickness, layout.rooms) : [];
+
+  // A turn or resize that leaves a piece clashing is refused with the reason
+  const recordFurnitureEdit = (label: string, edit: FurnitureEdit) => {
+    if (edit.clashes.length > 0) toast.error(edit.clashes[0].message);
+    else recordEdit('furniture', label, edit.rooms);
+  };
+
+  const handleAddFurniture = (room: Room, item: FurnitureItem) => {
+    const rooms = addFurniture(layout.rooms, room.id, item, layout.wallThickness);
+    const name = FURNITURE_CATALOG[item].name;
+    if (rooms) recordEdit('furniture', `Add ${name.toLowerCase()} to ${room.name}`, rooms);
+    else toast.error(`No clear space for a ${name.toLowerCase()} in ${room.name}`);
+  };
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes, except while typing
+  const { undo, redo } = history;
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (!(event.ctrlKey || event.metaKey) || target.closest('input, textarea, [contenteditable="true"]')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const handleRegenerate = () => {
+    setIsLocking(false);
+    onRegenerate?.(layout.rooms.filter((room) => lockedIds.includes(room.id)));
+  };
+
   const handleExportPDF = () => {
-    generateBlueprintPDF(planData, layout, selectedFloor);
+    generateBlueprintPDF(planData, layout, selectedFloor, costEstimate);
     toast.success('Blueprint PDF downloaded!');
   };
 
@@ -66,7 +245,7 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
       toast.error('Please enter a plan name');
       return;
     }
-    await savePlan(planName, planData, layout);
+    await history.save(planName);
     setSaveDialogOpen(false);
     setPlanName('');
   };
@@ -99,6 +278,19 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
               <Button variant="outline" size="sm" onClick={() => setZoom(z => Math.min(2, z + 0.1))}>
                 <ZoomIn className="w-4 h-4" />
               </Button>
+              <Button
+                variant={showCirculation ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setShowCirculation((show) => !show)}
+                title={circulationIssues.length > 0 ? circulationIssues.map((issue) => issue.message).join('\n') : 'Every room can be reached from the main entrance'}
+              >
+                <Route className="w-4 h-4 mr-1" /> Circulation{circulationIssues.length > 0 && ` (${circulationIssues.length})`}
+              </Button>
+              {planData.vastuCompliant && (
+                <Button variant={showVastu ? 'default' : 'outline'} size="sm" onClick={() => setShowVastu((show) => !show)}>
+                  <Compass className="w-4 h-4 mr-1" /> Vastu Zones
+                </Button>
+              )}
               
               {floors > 1 && (
                 <>
@@ -119,6 +311,56 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
           )}
         </div>
         <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          {view === '2d' && (
+            <>
+              <Button
+                variant={isEditing ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => {
+                  setIsEditing((editing) => !editing);
+                  setIsLocking(false);
+                  setEditRoomId(null);
+                }}
+                title="Drag rooms to move them, or drag a wall of the selected room to resize it and its neighbours"
+              >
+                <Move className="w-4 h-4 mr-2" /> Edit Plan
+              </Button>
+              {isEditing && (
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  Snap
+                  {SNAP_GRIDS.map((grid) => (
+                    <Button key={grid} variant={snapGrid === grid ? 'default' : 'outline'} size="sm" className="px-2" onClick={() => setSnapGrid(grid)}>
+                      {grid}'
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+          {onRegenerate && view === '2d' && (
+            <Button
+              variant={isLocking ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => {
+                setIsLocking((locking) => !locking);
+                setIsEditing(false);
+              }}
+              title="Click rooms on the plan to keep them when regenerating"
+            >
+              <Lock className="w-4 h-4 mr-2" /> Lock Rooms
+            </Button>
+          )}
+          {onRegenerate && lockedIds.length > 0 && (
+            <Button variant="outline" size="sm" onClick={handleRegenerate}>
+              <RefreshCw className="w-4 h-4 mr-2" /> Regenerate Rest ({lockedIds.length} locked)
+            </Button>
+          )}
           <Button variant="outline" size="sm" onClick={onReset}>
             <RotateCcw className="w-4 h-4 mr-2" /> New
           </Button>
@@ -148,6 +390,18 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
         </div>
       </div>
 
+      {variants.length > 1 && onSelectVariant && (
+        <VariantPicker
+          variants={variants}
+          selectedVariantId={selectedVariantId}
+          floor={selectedFloor}
+          plotLength={plotLength}
+          plotWidth={plotWidth}
+          plotPolygon={planData.plotPolygon}
+          onSelect={onSelectVariant}
+        />
+      )}
+
       {/* Viewer */}
       {view === '3d' ? (
         <Suspense fallback={
@@ -162,6 +416,9 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
             layout={layout} 
             plotWidth={plotWidth} 
             plotLength={plotLength} 
+            plotPolygon={planData.plotPolygon}
+            setbacks={planData.setbacks}
+            northAngle={getNorthAngle(planData)}
             floors={floors} 
           />
         </Suspense>
@@ -188,11 +445,8 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
                   </div>
                   <div className="text-right">
                     <div className="flex items-center gap-2 text-xs text-neutral-600">
-                      <svg width="20" height="20" viewBox="0 0 20 20" className="flex-shrink-0">
-                        <polygon points="10,2 14,18 10,14 6,18" fill="none" stroke="#1a1a1a" strokeWidth="1" />
-                        <text x="10" y="10" textAnchor="middle" fontSize="6" fontWeight="bold" fill="#1a1a1a">N</text>
-                      </svg>
-                      <span>North</span>
+                      <NorthArrow angle={getNorthAngle(planData)} />
+                      <span>Facing {COMPASS_NAMES[getCompassPoint(getFacing(planData))]}</span>
                     </div>
                   </div>
                 </div>
@@ -216,15 +470,24 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
                       zoom={zoom}
                       svgWidth={svgWidth}
                       svgHeight={svgHeight}
+                      polygon={plotPolygon}
                     />
                     
+                    {/* Setback margins and road frontage */}
+                    <SetbackZones
+                      plot={plotPolygon}
+                      envelope={setbackEnvelope}
+                      roadSides={getRoadSides(planData)}
+                      scale={scale}
+                      zoom={zoom}
+                      svgWidth={svgWidth}
+                      svgHeight={svgHeight}
+                    />
+
                     {/* Plot boundary */}
-                    <rect 
-                      x={0} 
-                      y={0} 
-                      width={svgWidth} 
-                      height={svgHeight} 
-                      fill="#ffffff"
+                    <polygon
+                      points={plotPolygon.map((vertex) => `${vertex.x * scale * zoom},${vertex.y * scale * zoom}`).join(" ")}
+                      fill="none"
                       stroke="#1a1a1a" 
                       strokeWidth={2}
                     />
@@ -238,12 +501,140 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
                         zoom={zoom}
                         wallThickness={wallThickness}
                         allRooms={floorRooms}
+                        furniture={getRoomFurniture(room, layout.wallThickness, layout.rooms)}
                       />
                     ))}
+
+                    <CoreViolationOverlay
+                      violations={coreViolations.filter((violation) => violation.floor === selectedFloor)}
+                      rooms={floorRooms}
+                      scale={scale}
+                      zoom={zoom}
+                    />
+
+                    {showVastu && planData.vastuCompliant && (
+                      <VastuZoneOverlay
+                        zones={getVastuZones({ plotLength, plotWidth, facing: planData.facing, roadSides: planData.roadSides })}
+                        rooms={floorRooms}
+                        checks={vastuChecks.filter((check) => check.floor === selectedFloor)}
+                        scale={scale}
+                        zoom={zoom}
+                      />
+                    )}
+
+                    {showCirculation && (
+                      <CirculationOverlay
+                        rooms={floorRooms}
+                        graph={doorGraph}
+                        issues={circulationIssues.filter((issue) => issue.floor === selectedFloor)}
+                        scale={scale}
+                        zoom={zoom}
+                      />
+                    )}
+
+                    {highlightedRoom && <RoomHighlightOverlay room={highlightedRoom} scale={scale} zoom={zoom} />}
+
+                    {isEditing && (
+                      <PlanEditorOverlay
+                        rooms={layout.rooms}
+                        floor={selectedFloor}
+                        bounds={{ plotLength, plotWidth, grid: snapGrid, boundary: setbackEnvelope ?? plotPolygon }}
+                        scale={scale}
+                        zoom={zoom}
+                        selectedId={editRoomId}
+                        onSelect={setEditRoomId}
+                        onChange={handleRoomsEdited}
+                      />
+                    )}
+
+                    {isEditing && editRoom && (
+                      <FurnitureEditorOverlay
+                        rooms={layout.rooms}
+                        roomId={editRoom.id}
+                        wallThickness={layout.wallThickness}
+                        grid={snapGrid}
+                        scale={scale}
+                        zoom={zoom}
+                        onChange={(rooms, index) =>
+                          recordEdit('furniture', `Move ${getFurnitureSpec(editFurniture[index]).name.toLowerCase()} in ${editRoom.name}`, rooms)
+                        }
+                      />
+                    )}
+
+                    {!isEditing && (isLocking || lockedIds.length > 0) && (
+                      <RoomLockOverlay
+                        rooms={isLocking ? floorRooms : floorRooms.filter((room) => lockedIds.includes(room.id))}
+                        lockedIds={lockedIds}
+                        scale={scale}
+                        zoom={zoom}
+                        onToggle={toggleLock}
+                      />
+                    )}
                   </g>
                 </svg>
               </div>
               
+              {isEditing && editRoom && (
+                <RoomInspector
+                  room={editRoom}
+                  furniture={editFurniture}
+                  mergeCandidates={getMergeCandidates(layout.rooms, editRoom.id)}
+                  onRename={(name) => recordEdit('rename', `Rename ${editRoom.name} to ${name}`, renameRoom(layout.rooms, editRoom.id, name))}
+                  onRetype={(type: RoomType) =>
+                    recordEdit('retype', `Change ${editRoom.name} to ${ROOM_NAMES[type].toLowerCase()}`, retypeRoom(layout.rooms, editRoom.id, type))
+                  }
+                  onAddOpening={(kind: OpeningKind, side: WallSide) =>
+                    kind === 'door'
+                      ? recordEdit('add-door', `Add door to ${editRoom.name} (${side})`, addDoor(layout.rooms, editRoom.id, side))
+                      : recordEdit('add-window', `Add window to ${editRoom.name} (${side})`, addWindow(layout.rooms, editRoom.id, side))
+                  }
+                  onRemoveOpening={(kind, index) =>
+                    kind === 'door'
+                      ? recordEdit('remove-door', `Remove door from ${editRoom.name}`, removeDoor(layout.rooms, editRoom.id, index))
+                      : recordEdit('remove-window', `Remove window from ${editRoom.name}`, removeWindow(layout.rooms, editRoom.id, index))
+                  }
+                  onSetOpeningType={(kind, index, type) => {
+                    const spec = kind === 'door' ? DOOR_CATALOG[type as DoorType] : WINDOW_CATALOG[type as WindowType];
+                    recordEdit('edit-opening', `Make ${editRoom.name} ${kind} ${spec.name.toLowerCase()}`, setOpeningType(layout.rooms, editRoom.id, kind, index, type));
+                  }}
+                  onFlipOpening={(kind, index, part) =>
+                    recordEdit('edit-opening', `Flip ${editRoom.name} ${kind} ${part}`, flipOpening(layout.rooms, editRoom.id, kind, index, part))
+                  }
+                  onSlideOpening={(kind, index, offset) =>
+                    recordEdit('edit-opening', `Slide ${editRoom.name} ${kind} to ${offset}%`, slideOpening(layout.rooms, editRoom.id, kind, index, offset))
+                  }
+                  onAddFurniture={(item) => handleAddFurniture(editRoom, item)}
+                  onSplit={(axis, at, type) => {
+                    const rooms = splitRoom(layout.rooms, editRoom.id, axis, at, type, snapGrid);
+                    if (rooms) recordEdit('split', `Split a ${ROOM_NAMES[type].toLowerCase()} off ${editRoom.name}`, rooms);
+                    else toast.error(`Both parts of ${editRoom.name} must be at least ${MIN_EDIT_DIMENSION}' across`);
+                  }}
+                  onMerge={(otherId) => {
+                    const rooms = mergeRooms(layout.rooms, editRoom.id, otherId, undefined, layout.wallThickness);
+                    if (rooms) recordEdit('merge', `Merge ${roomName(otherId)} into ${editRoom.name}`, rooms);
+                  }}
+                  onRemoveFurniture={(index) =>
+                    recordEdit(
+                      'furniture',
+                      `Remove ${getFurnitureSpec(editFurniture[index]).name.toLowerCase()} from ${editRoom.name}`,
+                      removeFurniture(layout.rooms, editRoom.id, index, layout.wallThickness)
+                    )
+                  }
+                  onRotateFurniture={(index) =>
+                    recordFurnitureEdit(
+                      `Turn ${getFurnitureSpec(editFurniture[index]).name.toLowerCase()} in ${editRoom.name}`,
+                      rotateFurniture(layout.rooms, editRoom.id, index, layout.wallThickness)
+                    )
+                  }
+                  onResizeFurniture={(index, item) =>
+                    recordFurnitureEdit(
+                      `Make ${editRoom.name} ${getFurnitureSpec(editFurniture[index]).name.toLowerCase()} a ${FURNITURE_CATALOG[item].name.toLowerCase()}`,
+                      resizeFurniture(layout.rooms, editRoom.id, index, item, layout.wallThickness)
+                    )
+                  }
+                />
+              )}
+
               {/* Footer note */}
               <div className="mt-3 text-center">
                 <p className="text-[10px] text-neutral-500 font-mono">
@@ -256,8 +647,10 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
             <div className="w-full lg:w-64 flex-shrink-0">
               <AreaSchedule 
                 rooms={floorRooms}
-                totalArea={layout.totalArea}
-                efficiency={layout.efficiency}
+                floor={selectedFloor}
+                metrics={areaMetrics}
+                wallThickness={layout.wallThickness}
+                program={getFloorPrograms({ floors, floorPrograms: planData.floorPrograms })?.[selectedFloor - 1]}
               />
             </div>
           </div>
@@ -269,12 +662,20 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
         <div className="flex flex-wrap gap-6 justify-between items-center">
           <div className="flex flex-wrap gap-4 text-sm">
             <div className="flex items-center gap-2">
-              <span className="text-muted-foreground">Total Area:</span>
-              <strong className="text-foreground font-mono">{layout.totalArea} sq.ft</strong>
+              <span className="text-muted-foreground">Built-Up:</span>
+              <strong className="text-foreground font-mono">{areaMetrics.builtUpArea} sq.ft</strong>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">Carpet:</span>
+              <strong className="text-foreground font-mono">{areaMetrics.carpetArea} sq.ft</strong>
             </div>
             <div className="flex items-center gap-2">
               <span className="text-muted-foreground">Efficiency:</span>
-              <strong className="text-foreground font-mono">{(layout.efficiency * 100).toFixed(1)}%</strong>
+              <strong className="text-foreground font-mono">{(areaMetrics.efficiency * 100).toFixed(1)}%</strong>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">FSI:</span>
+              <strong className="text-foreground font-mono">{areaMetrics.fsi.toFixed(2)}</strong>
             </div>
             <div className="flex items-center gap-2">
               <span className="text-muted-foreground">Rooms:</span>
@@ -288,6 +689,68 @@ const FloorPlanViewer = ({ planData, layout, onReset }: FloorPlanViewerProps) =>
             </div>
           )}
         </div>
+
+        {history.draft && history.draft.past.length + history.draft.future.length > 0 && (
+          <div className="mt-3 pt-3 border-t border-border">
+            <PlanHistoryPanel past={history.draft.past} future={history.draft.future} onJump={history.jumpTo} />
+          </div>
+        )}
+
+        <div className="mt-3 pt-3 border-t border-border">
+          <CostEstimator
+            estimate={costEstimate}
+            rates={costRates[costTier]}
+            onTierChange={setCostTier}
+            onRatesChange={(rates) => setCostRates((tables) => ({ ...tables, [costTier]: rates }))}
+            onReset={() => setCostRates((tables) => ({ ...tables, [costTier]: DEFAULT_RATE_TABLES[costTier] }))}
+          />
+        </div>
+
+        <div className="mt-3 pt-3 border-t border-border">
+          <BillOfQuantities layout={layout} fileName={`BOQ_${planData.plotLength}x${planData.plotWidth}`} />
+        </div>
+
+        <div className="mt-3 pt-3 border-t border-border">
+          <CodeViolationsPanel
+            packs={codePacks}
+            pack={codePack}
+            violations={codeViolations}
+            highlightedRoomId={highlightedRoomId}
+            onPackChange={setCodePackId}
+            onLoadPack={handleLoadCodePack}
+            onSelect={handleSelectViolation}
+          />
+        </div>
+
+        {adjacencyChecks.length > 0 && (
+          <div className="mt-3 pt-3 border-t border-border">
+            <AdjacencyReport checks={adjacencyChecks} />
+          </div>
+        )}
+
+        {planData.vastuCompliant && vastuChecks.length > 0 && (
+          <div className="mt-3 pt-3 border-t border-border">
+            <VastuReport
+              checks={vastuChecks}
+              onSelectFloor={(floor) => {
+                setView('2d');
+                setSelectedFloor(floor);
+              }}
+            />
+          </div>
+        )}
+
+        {floors > 1 && (
+          <div className="mt-3 pt-3 border-t border-border">
+            <VerticalCoreReport
+              violations={coreViolations}
+              onSelectFloor={(floor) => {
+                setView('2d');
+                setSelectedFloor(floor);
+              }}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,75 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FloorProgram, ROOM_NAMES, RoomType } from "@/types/floorPlan";
+import { PROGRAM_ROOM_TYPES, getProgramCount } from "@/lib/layout/floorPrograms";
+
+interface FloorProgramEditorProps {
+  floors: number;
+  programs?: FloorProgram[]; // undefined while the whole-house counts are used
+  defaultPrograms: FloorProgram[]; // starting point when per-floor planning is switched on
+  onChange: (programs: FloorProgram[] | undefined) => void;
+}
+
+const floorLabel = (index: number) => (index === 0 ? "Ground" : `Floor ${index + 1}`);
+
+const FloorProgramEditor = ({ floors, programs, defaultPrograms, onChange }: FloorProgramEditorProps) => {
+  const updateCount = (floorIndex: number, type: RoomType, value: string) => {
+    const count = Math.max(0, Math.min(9, parseInt(value) || 0));
+    onChange(programs.map((program, index) => (index === floorIndex ? { ...program, [type]: count } : program)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="floor-programs"
+          checked={!!programs}
+          onCheckedChange={(checked) => onChange(checked ? defaultPrograms : undefined)}
+        />
+        <Label htmlFor="floor-programs" className="cursor-pointer">Plan each floor separately</Label>
+      </div>
+
+      {programs && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground">
+                <th className="text-left font-medium py-1">Room</th>
+                {programs.map((_, index) => (
+                  <th key={index} className="font-medium py-1 px-1 w-20">{floorLabel(index)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {PROGRAM_ROOM_TYPES.map((type) => (
+                <tr key={type}>
+                  <td className="py-1">{ROOM_NAMES[type]}</td>
+                  {programs.map((program, index) => (
+                    <td key={index} className="py-1 px-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={9}
+                        className="h-8"
+                        aria-label={`${ROOM_NAMES[type]} on ${floorLabel(index)}`}
+                        value={getProgramCount(program, type)}
+                        onChange={(e) => updateCount(index, type, e.target.value)}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground mt-2">
+            {floors > 1 ? "A staircase is added on every floor. " : ""}
+            The room counts above follow these totals. A living room upstairs becomes a family lounge.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FloorProgramEditor;
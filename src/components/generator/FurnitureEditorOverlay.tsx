@@ -0,0 +1,102 @@
+import { PointerEvent, useState } from "react";
+import { Room } from "@/types/floorPlan";
+import { FurnitureClash, getFurnitureFootprint, getRoomFurniture, moveFurniture } from "@/lib/layout/furniture";
+import { getFurnitureSpec } from "@/lib/layout/furnitureCatalog";
+
+interface FurnitureEditorOverlayProps {
+  rooms: Room[];
+  roomId: string; // the room whose furniture can be moved
+  wallThickness?: number;
+  grid: number;
+  scale: number;
+  zoom: number;
+  onChange: (rooms: Room[], index: number) => void; // called once per finished drag
+}
+
+interface Drag {
+  index: number;
+  startX: number;
+  startY: number;
+  unit: number; // screen pixels per foot
+}
+
+// Furniture of the room being edited; drag a piece to move it on the grid,
+// stopping where it would run into a wall, a door swing or another piece
+const FurnitureEditorOverlay = ({ rooms, roomId, wallThickness, grid, scale, zoom, onChange }: FurnitureEditorOverlayProps) => {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [draft, setDraft] = useState<Room[] | null>(null);
+  const [clash, setClash] = useState<FurnitureClash | null>(null);
+  const px = scale * zoom;
+
+  const room = (draft ?? rooms).find((candidate) => candidate.id === roomId);
+  if (!room) return null;
+  const furniture = getRoomFurniture(room, wallThickness, rooms);
+
+  const startDrag = (event: PointerEvent<SVGElement>, index: number) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const ctm = event.currentTarget.ownerSVGElement?.getScreenCTM();
+    setDrag({ index, startX: event.clientX, startY: event.clientY, unit: px * (ctm?.a || 1) });
+  };
+
+  const handleMove = (event: PointerEvent<SVGElement>) => {
+    if (!drag) return;
+    const dx = (event.clientX - drag.startX) / drag.unit;
+    const dy = (event.clientY - drag.startY) / drag.unit;
+    const edit = moveFurniture(rooms, roomId, drag.index, dx, dy, grid, wallThickness);
+    setClash(edit.clashes[0] ?? null);
+    if (edit.clashes.length === 0) setDraft(edit.rooms);
+  };
+
+  const endDrag = () => {
+    // A blocked move keeps the last place the piece fitted
+    if (draft && drag) onChange(draft, drag.index);
+    setDrag(null);
+    setDraft(null);
+    setClash(null);
+  };
+
+  return (
+    <g className="furniture-editor" onPointerMove={handleMove} onPointerUp={endDrag} onPointerCancel={endDrag}>
+      {furniture.map((piece, index) => {
+        const footprint = getFurnitureFootprint(room, piece);
+        const isDragged = drag?.index === index;
+        const stroke = isDragged && clash ? "#dc2626" : "#7c3aed";
+
+        return (
+          <g key={index}>
+            <rect
+              x={(room.x + footprint.x) * px}
+              y={(room.y + footprint.y) * px}
+              width={footprint.width * px}
+              height={footprint.height * px}
+              fill={isDragged ? "rgba(124, 58, 237, 0.15)" : "rgba(0, 0, 0, 0)"}
+              stroke={stroke}
+              strokeWidth={isDragged ? 2 : 1}
+              strokeDasharray={isDragged ? undefined : "3 2"}
+              className="cursor-move"
+              onPointerDown={(event) => startDrag(event, index)}
+            >
+              <title>{getFurnitureSpec(piece).name}</title>
+            </rect>
+            {isDragged && (
+              <text
+                x={(room.x + footprint.x + footprint.width / 2) * px}
+                y={(room.y + footprint.y) * px - 4}
+                textAnchor="middle"
+                fontSize={10}
+                fontWeight={600}
+                fill={stroke}
+                pointerEvents="none"
+              >
+                {clash ? clash.message : getFurnitureSpec(piece).name}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default FurnitureEditorOverlay;
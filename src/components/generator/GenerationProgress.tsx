@@ -0,0 +1,66 @@
+import { Check, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { GenerationProgressEvent, PlotVertex, Room } from "@/types/floorPlan";
+import PlanThumbnail from "./PlanThumbnail";
+
+type StepEvent = Extract<GenerationProgressEvent, { type: "step" }>;
+
+interface GenerationProgressProps {
+  steps: StepEvent[];
+  floors: { floor: number; rooms: Room[] }[];
+  plotLength: number;
+  plotWidth: number;
+  plotPolygon?: PlotVertex[];
+  onCancel: () => void;
+}
+
+const GenerationProgress = ({ steps, floors, plotLength, plotWidth, plotPolygon, onCancel }: GenerationProgressProps) => {
+  return (
+    <div className="bg-card border border-border p-10 flex flex-col items-center">
+      <div className="relative w-16 h-16 mb-6">
+        {[0, 2, 4, 6].map((inset, i) => (
+          <div key={i} className="absolute border-4 border-primary animate-pulse" style={{ inset: `${inset * 3}px`, animationDelay: `${i * 0.2}s`, opacity: 0.2 + i * 0.2 }} />
+        ))}
+      </div>
+      <h3 className="text-xl font-semibold text-foreground mb-4">AI is Generating Your Plan</h3>
+
+      <ol className="w-full max-w-md space-y-2 mb-6">
+        {steps.length === 0 && (
+          <li className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin text-primary" /> Sending your requirements...
+          </li>
+        )}
+        {steps.map((step, index) => {
+          const isActive = index === steps.length - 1;
+          return (
+            <li key={index} className="flex items-center gap-2 text-sm">
+              {isActive ? (
+                <Loader2 className="w-4 h-4 animate-spin text-primary" />
+              ) : (
+                <Check className="w-4 h-4 text-primary" />
+              )}
+              <span className={isActive ? "text-foreground font-medium" : "text-muted-foreground"}>{step.message}</span>
+            </li>
+          );
+        })}
+      </ol>
+
+      {floors.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-4 mb-6">
+          {floors.map(({ floor, rooms }) => (
+            <div key={floor} className="w-40">
+              <PlanThumbnail rooms={rooms} plotLength={plotLength} plotWidth={plotWidth} plotPolygon={plotPolygon} className="h-28" />
+              <p className="text-xs font-mono text-muted-foreground text-center mt-1">Floor {floor}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" onClick={onCancel}>
+        <X className="w-4 h-4 mr-2" /> Cancel
+      </Button>
+    </div>
+  );
+};
+
+export default GenerationProgress;
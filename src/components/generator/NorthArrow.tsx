@@ -0,0 +1,15 @@
+interface NorthArrowProps {
+  angle: number; // degrees clockwise from up
+  size?: number;
+}
+
+const NorthArrow = ({ angle, size = 20 }: NorthArrowProps) => (
+  <svg width={size} height={size} viewBox="0 0 20 20" className="flex-shrink-0">
+    <g transform={`rotate(${angle} 10 10)`}>
+      <polygon points="10,2 14,18 10,14 6,18" fill="none" stroke="#1a1a1a" strokeWidth="1" />
+      <text x="10" y="10" textAnchor="middle" fontSize="6" fontWeight="bold" fill="#1a1a1a">N</text>
+    </g>
+  </svg>
+);
+
+export default NorthArrow;
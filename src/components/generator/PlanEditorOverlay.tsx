@@ -0,0 +1,151 @@
+import { PointerEvent, useState } from "react";
+import { Room } from "@/types/floorPlan";
+import { WallSide } from "@/lib/layout/geometry";
+import { EditBounds, moveRoomBy, resizeRoomWall } from "@/lib/layout/planEditing";
+
+interface PlanEditorOverlayProps {
+  rooms: Room[]; // all rooms; only the floor on screen is drawn
+  floor: number;
+  bounds: EditBounds;
+  scale: number;
+  zoom: number;
+  selectedId: string | null;
+  onSelect: (roomId: string | null) => void;
+  onChange: (rooms: Room[], roomId: string, kind: "move" | "resize") => void; // called once per finished drag
+}
+
+interface Drag {
+  roomId: string;
+  side: WallSide | null; // null while moving the whole room
+  startX: number;
+  startY: number;
+  unit: number; // screen pixels per foot
+}
+
+const HANDLE = 8;
+
+const HANDLE_CURSORS: Record<WallSide, string> = {
+  top: "ns-resize",
+  bottom: "ns-resize",
+  left: "ew-resize",
+  right: "ew-resize",
+};
+
+const formatFeet = (feet: number) => `${Math.round(feet * 10) / 10}'`;
+
+// Select a room to get wall handles; drag the room to move it or a handle to
+// move that wall, with the neighbours across it following
+const PlanEditorOverlay = ({ rooms, floor, bounds, scale, zoom, selectedId, onSelect, onChange }: PlanEditorOverlayProps) => {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [draft, setDraft] = useState<Room[] | null>(null);
+  const [blocked, setBlocked] = useState(false);
+  const px = scale * zoom;
+
+  const shown = (draft ?? rooms).filter((room) => room.floor === floor);
+  const selected = shown.find((room) => room.id === selectedId);
+
+  const startDrag = (event: PointerEvent<SVGElement>, roomId: string, side: WallSide | null) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    onSelect(roomId);
+    const ctm = event.currentTarget.ownerSVGElement?.getScreenCTM();
+    setDrag({ roomId, side, startX: event.clientX, startY: event.clientY, unit: px * (ctm?.a || 1) });
+  };
+
+  const handleMove = (event: PointerEvent<SVGElement>) => {
+    if (!drag) return;
+    const dx = (event.clientX - drag.startX) / drag.unit;
+    const dy = (event.clientY - drag.startY) / drag.unit;
+
+    if (drag.side) {
+      const delta = drag.side === "left" || drag.side === "right" ? dx : dy;
+      setDraft(resizeRoomWall(rooms, drag.roomId, drag.side, delta, bounds));
+      return;
+    }
+    const moved = moveRoomBy(rooms, drag.roomId, dx, dy, bounds);
+    setBlocked(!moved);
+    if (moved) setDraft(moved);
+  };
+
+  const endDrag = () => {
+    // A blocked move keeps the last position that fitted
+    if (draft && drag) onChange(draft, drag.roomId, drag.side ? "resize" : "move");
+    setDrag(null);
+    setDraft(null);
+    setBlocked(false);
+  };
+
+  const handles = (room: Room): { side: WallSide; x: number; y: number; width: number; height: number }[] => {
+    const x = room.x * px;
+    const y = room.y * px;
+    const width = room.width * px;
+    const height = room.height * px;
+    return [
+      { side: "top", x, y: y - HANDLE / 2, width, height: HANDLE },
+      { side: "bottom", x, y: y + height - HANDLE / 2, width, height: HANDLE },
+      { side: "left", x: x - HANDLE / 2, y, width: HANDLE, height },
+      { side: "right", x: x + width - HANDLE / 2, y, width: HANDLE, height },
+    ];
+  };
+
+  return (
+    <g className="plan-editor" onPointerMove={handleMove} onPointerUp={endDrag} onPointerCancel={endDrag}>
+      {shown.map((room) => {
+        const isSelected = room.id === selectedId;
+        const original = rooms.find((candidate) => candidate.id === room.id);
+        const changed = !!draft && (original.x !== room.x || original.y !== room.y || original.width !== room.width || original.height !== room.height);
+
+        return (
+          <g key={room.id}>
+            <rect
+              x={room.x * px}
+              y={room.y * px}
+              width={room.width * px}
+              height={room.height * px}
+              fill={changed ? room.color : "rgba(0, 0, 0, 0)"}
+              fillOpacity={changed ? 0.85 : 1}
+              stroke={isSelected ? (blocked ? "#dc2626" : "#2563eb") : changed ? "#2563eb" : "none"}
+              strokeWidth={2}
+              strokeDasharray={changed && !isSelected ? "4 3" : undefined}
+              className="cursor-move"
+              onPointerDown={(event) => startDrag(event, room.id, null)}
+            />
+            {(changed || (drag && isSelected)) && (
+              <text
+                x={(room.x + room.width / 2) * px}
+                y={(room.y + room.height / 2) * px}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize={11}
+                fontWeight={600}
+                fill={blocked && isSelected ? "#dc2626" : "#1d4ed8"}
+                pointerEvents="none"
+              >
+                {formatFeet(room.width)} × {formatFeet(room.height)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {selected && (
+        <g>
+          {handles(selected).map((handle) => (
+            <rect
+              key={handle.side}
+              {...handle}
+              fill={drag?.side === handle.side ? "#2563eb" : "rgba(37, 99, 235, 0.35)"}
+              style={{ cursor: HANDLE_CURSORS[handle.side] }}
+              onPointerDown={(event) => startDrag(event, selected.id, handle.side)}
+            />
+          ))}
+          <text x={selected.x * px} y={selected.y * px - 6} fontSize={10} fill="#1d4ed8" pointerEvents="none">
+            {selected.name}: x {formatFeet(selected.x)}, y {formatFeet(selected.y)}
+          </text>
+        </g>
+      )}
+    </g>
+  );
+};
+
+export default PlanEditorOverlay;
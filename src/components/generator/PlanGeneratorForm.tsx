@@ -6,23 +6,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ArrowRight, ArrowLeft } from "lucide-react";
-
-interface FormData {
-  plotLength: string;
-  plotWidth: string;
-  floors: string;
-  bedrooms: number;
-  bathrooms: number;
-  kitchens: number;
-  livingRooms: number;
-  diningRooms: number;
-  garage: boolean;
-  balcony: boolean;
-  garden: boolean;
-  style: string;
-  budgetRange: string;
-  vastuCompliant: boolean;
-}
+import { FloorProgram, FormData, PlotVertex } from "@/types/floorPlan";
+import { getBuildableEnvelope } from "@/lib/layout/envelope";
+import { getProgramTotals, resizeFloorPrograms, toFloorProgram } from "@/lib/layout/floorPrograms";
+import { buildFloorPrograms } from "@/lib/layout/solveLayout";
+import { getPolygonBounds, normalizePolygon, scalePolygon } from "@/lib/layout/plotPolygon";
+import PlotShapeEditor from "./PlotShapeEditor";
+import SetbackInputs from "./SetbackInputs";
+import FacingInput from "./FacingInput";
+import FloorProgramEditor from "./FloorProgramEditor";
+import BubbleDiagramEditor from "./BubbleDiagramEditor";
 
 interface PlanGeneratorFormProps {
   onGenerate: (data: FormData) => void;
@@ -47,6 +40,51 @@ const PlanGeneratorForm = ({ onGenerate }: PlanGeneratorFormProps) => {
     vastuCompliant: false
   });
 
+  // A plot polygon stretches with the length and width inputs...
+  const handlePlotSizeChange = (key: "plotLength" | "plotWidth", value: string) => {
+    const next = { ...formData, [key]: value };
+    const length = parseFloat(next.plotLength);
+    const width = parseFloat(next.plotWidth);
+    if (next.plotPolygon && length > 0 && width > 0) {
+      next.plotPolygon = scalePolygon(next.plotPolygon, length, width);
+    }
+    setFormData(next);
+  };
+
+  // ...and editing its corners resizes them to its bounding box
+  const handlePolygonChange = (polygon: PlotVertex[] | undefined) => {
+    if (!polygon) {
+      setFormData({ ...formData, plotPolygon: undefined });
+      return;
+    }
+    const normalized = normalizePolygon(polygon);
+    const bounds = getPolygonBounds(normalized);
+    setFormData({ ...formData, plotPolygon: normalized, plotLength: String(bounds.width), plotWidth: String(bounds.height) });
+  };
+
+  const envelope = getBuildableEnvelope({
+    plotLength: parseFloat(formData.plotLength) || 60,
+    plotWidth: parseFloat(formData.plotWidth) || 40,
+    plotPolygon: formData.plotPolygon,
+    setbacks: formData.setbacks,
+  });
+
+  const floorCount = parseInt(formData.floors) || 1;
+
+  // Per-floor programs drive the whole-house counts while they are in use
+  const handleProgramsChange = (floorPrograms: FloorProgram[] | undefined) => {
+    setFormData(floorPrograms ? { ...formData, floorPrograms, ...getProgramTotals(floorPrograms) } : { ...formData, floorPrograms: undefined });
+  };
+
+  const handleFloorsChange = (floors: string) => {
+    const next = { ...formData, floors };
+    if (next.floorPrograms) {
+      next.floorPrograms = resizeFloorPrograms(next.floorPrograms, parseInt(floors) || 1);
+      Object.assign(next, getProgramTotals(next.floorPrograms));
+    }
+    setFormData(next);
+  };
+
   const handleNext = () => {
     if (step < 3) setStep(step + 1);
   };
@@ -99,7 +137,7 @@ const PlanGeneratorForm = ({ onGenerate }: PlanGeneratorFormProps) => {
                 type="number"
                 placeholder="e.g., 60"
                 value={formData.plotLength}
-                onChange={(e) => setFormData({ ...formData, plotLength: e.target.value })}
+                onChange={(e) => handlePlotSizeChange("plotLength", e.target.value)}
               />
             </div>
             <div className="space-y-2">
@@ -109,16 +147,39 @@ const PlanGeneratorForm = ({ onGenerate }: PlanGeneratorFormProps) => {
                 type="number"
                 placeholder="e.g., 40"
                 value={formData.plotWidth}
-                onChange={(e) => setFormData({ ...formData, plotWidth: e.target.value })}
+                onChange={(e) => handlePlotSizeChange("plotWidth", e.target.value)}
               />
             </div>
           </div>
 
+          <PlotShapeEditor
+            plotLength={parseFloat(formData.plotLength)}
+            plotWidth={parseFloat(formData.plotWidth)}
+            polygon={formData.plotPolygon}
+            envelope={envelope}
+            roadSides={formData.roadSides}
+            onChange={handlePolygonChange}
+          />
+
+          <SetbackInputs
+            setbacks={formData.setbacks}
+            roadSides={formData.roadSides}
+            hasBuildableArea={!!envelope}
+            onSetbacksChange={(setbacks) => setFormData({ ...formData, setbacks })}
+            onRoadSidesChange={(roadSides) => setFormData({ ...formData, roadSides })}
+          />
+
+          <FacingInput
+            facing={formData.facing}
+            roadSides={formData.roadSides}
+            onChange={(facing) => setFormData({ ...formData, facing })}
+          />
+
           <div className="space-y-2">
             <Label htmlFor="floors">Number of Floors</Label>
             <Select 
               value={formData.floors} 
-              onValueChange={(value) => setFormData({ ...formData, floors: value })}
+              onValueChange={handleFloorsChange}
             >
               <SelectTrigger>
                 <SelectValue placeholder="Select floors" />
@@ -145,6 +206,7 @@ const PlanGeneratorForm = ({ onGenerate }: PlanGeneratorFormProps) => {
               <Slider
                 value={[formData.bedrooms]}
                 onValueChange={(value) => setFormData({ ...formData, bedrooms: value[0] })}
+                disabled={!!formData.floorPrograms}
                 min={1}
                 max={6}
                 step={1}
@@ -155,6 +217,7 @@ const PlanGeneratorForm = ({ onGenerate }: PlanGeneratorFormProps) => {
               <Slider
                 value={[formData.bathrooms]}
                 onValueChange={(value) => setFormData({ ...formData, bathrooms: value[0] })}
+                disabled={!!formData.floorPrograms}
                 min={1}
                 max={6}
                 step={1}
@@ -165,6 +228,7 @@ const PlanGeneratorForm = ({ onGenerate }: PlanGeneratorFormProps) => {
               <Slider
                 value={[formData.kitchens]}
                 onValueChange={(value) => setFormData({ ...formData, kitchens: value[0] })}
+                disabled={!!formData.floorPrograms}
                 min={1}
                 max={3}
                 step={1}
@@ -175,6 +239,7 @@ const PlanGeneratorForm = ({ onGenerate }: PlanGeneratorFormProps) => {
               <Slider
                 value={[formData.livingRooms]}
                 onValueChange={(value) => setFormData({ ...formData, livingRooms: value[0] })}
+                disabled={!!formData.floorPrograms}
                 min={1}
                 max={3}
                 step={1}
@@ -190,6 +255,7 @@ const PlanGeneratorForm = ({ onGenerate }: PlanGeneratorFormProps) => {
                   id="garage" 
                   checked={formData.garage}
                   onCheckedChange={(checked) => setFormData({ ...formData, garage: checked as boolean })}
+                  disabled={!!formData.floorPrograms}
                 />
                 <Label htmlFor="garage" className="cursor-pointer">Garage</Label>
               </div>
@@ -198,6 +264,7 @@ const PlanGeneratorForm = ({ onGenerate }: PlanGeneratorFormProps) => {
                   id="balcony" 
                   checked={formData.balcony}
                   onCheckedChange={(checked) => setFormData({ ...formData, balcony: checked as boolean })}
+                  disabled={!!formData.floorPrograms}
                 />
                 <Label htmlFor="balcony" className="cursor-pointer">Balcony</Label>
               </div>
@@ -206,11 +273,28 @@ const PlanGeneratorForm = ({ onGenerate }: PlanGeneratorFormProps) => {
                   id="garden" 
                   checked={formData.garden}
                   onCheckedChange={(checked) => setFormData({ ...formData, garden: checked as boolean })}
+                  disabled={!!formData.floorPrograms}
                 />
                 <Label htmlFor="garden" className="cursor-pointer">Garden Area</Label>
               </div>
             </div>
           </div>
+
+          <div className="pt-4 border-t border-border">
+            <FloorProgramEditor
+              floors={floorCount}
+              programs={formData.floorPrograms}
+              defaultPrograms={buildFloorPrograms({ ...formData, floors: floorCount }).map(toFloorProgram)}
+              onChange={handleProgramsChange}
+            />
+          </div>
+
+          <div className="pt-4 border-t border-border">
+            <BubbleDiagramEditor
+              edges={formData.adjacency}
+              onChange={(adjacency) => setFormData({ ...formData, adjacency: adjacency.length > 0 ? adjacency : undefined })}
+            />
+          </div>
         </div>
       )}
 
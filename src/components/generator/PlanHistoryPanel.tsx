@@ -0,0 +1,43 @@
+import { History } from "lucide-react";
+import { PlanCommand } from "@/lib/layout/planCommands";
+
+interface PlanHistoryPanelProps {
+  past: PlanCommand[];
+  future: PlanCommand[];
+  onJump: (steps: number) => void; // number of steps to leave applied
+}
+
+// Named edit steps; clicking one undoes or redoes everything after it
+const PlanHistoryPanel = ({ past, future, onJump }: PlanHistoryPanelProps) => {
+  const steps = [...past, ...future];
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-1 font-medium text-foreground">
+        <History className="w-3 h-3" /> Edit history ({past.length} of {steps.length} applied, Ctrl+Z / Ctrl+Shift+Z)
+      </div>
+      <ol className="space-y-0.5">
+        <li>
+          <button type="button" className={`text-left hover:text-foreground ${past.length === 0 ? "font-medium text-foreground" : "text-muted-foreground"}`} onClick={() => onJump(0)}>
+            0. Generated plan
+          </button>
+        </li>
+        {steps.map((command, index) => (
+          <li key={index}>
+            <button
+              type="button"
+              className={`text-left hover:text-foreground ${
+                index === past.length - 1 ? "font-medium text-foreground" : index < past.length ? "text-muted-foreground" : "text-muted-foreground/50 line-through"
+              }`}
+              onClick={() => onJump(index + 1)}
+            >
+              {index + 1}. {command.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default PlanHistoryPanel;
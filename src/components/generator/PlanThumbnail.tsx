@@ -0,0 +1,44 @@
+import { PlotVertex, Room } from "@/types/floorPlan";
+import { cn } from "@/lib/utils";
+
+interface PlanThumbnailProps {
+  rooms: Room[];
+  plotLength: number;
+  plotWidth: number;
+  plotPolygon?: PlotVertex[];
+  className?: string;
+}
+
+const PlanThumbnail = ({ rooms, plotLength, plotWidth, plotPolygon, className }: PlanThumbnailProps) => {
+  return (
+    <svg
+      viewBox={`0 0 ${plotLength} ${plotWidth}`}
+      className={cn("w-full bg-white border border-neutral-300", className)}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {plotPolygon && (
+        <polygon
+          points={plotPolygon.map((vertex) => `${vertex.x},${vertex.y}`).join(" ")}
+          fill="none"
+          stroke="#a3a3a3"
+          strokeWidth={0.4}
+          strokeDasharray="1 1"
+        />
+      )}
+      {rooms.map((room) => (
+        <rect
+          key={room.id}
+          x={room.x}
+          y={room.y}
+          width={room.width}
+          height={room.height}
+          fill={room.color}
+          stroke="#1a1a1a"
+          strokeWidth={0.3}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default PlanThumbnail;
@@ -0,0 +1,191 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PlotSide, PlotVertex } from "@/types/floorPlan";
+import { getPlotPolygon, getPolygonArea, getPolygonEdges } from "@/lib/layout/plotPolygon";
+
+type PlotShape = "rectangle" | "l-shape" | "trapezoid" | "chamfered";
+
+interface PlotShapeEditorProps {
+  plotLength: number;
+  plotWidth: number;
+  polygon?: PlotVertex[];
+  envelope?: PlotVertex[] | null; // buildable area left by the setbacks
+  roadSides?: PlotSide[];
+  onChange: (polygon: PlotVertex[] | undefined) => void;
+}
+
+const SHAPE_LABELS: Record<PlotShape, string> = {
+  rectangle: "Rectangle",
+  "l-shape": "L-shape",
+  trapezoid: "Trapezoid",
+  chamfered: "Chamfered corner",
+};
+
+const half = (value: number) => Math.round(value * 2) / 2;
+
+// Presets keep the full plot width on the road-facing front (bottom) edge
+const buildPreset = (shape: PlotShape, length: number, width: number): PlotVertex[] | undefined => {
+  switch (shape) {
+    case "l-shape":
+      return [
+        { x: 0, y: 0 },
+        { x: half(length / 2), y: 0 },
+        { x: half(length / 2), y: half(width / 2) },
+        { x: length, y: half(width / 2) },
+        { x: length, y: width },
+        { x: 0, y: width },
+      ];
+    case "trapezoid":
+      return [
+        { x: half(length * 0.15), y: 0 },
+        { x: half(length * 0.85), y: 0 },
+        { x: length, y: width },
+        { x: 0, y: width },
+      ];
+    case "chamfered": {
+      const cut = half(Math.min(length, width) / 4);
+      return [
+        { x: 0, y: 0 },
+        { x: length - cut, y: 0 },
+        { x: length, y: cut },
+        { x: length, y: width },
+        { x: 0, y: width },
+      ];
+    }
+    default:
+      return undefined;
+  }
+};
+
+const PlotShapeEditor = ({ plotLength, plotWidth, polygon, envelope, roadSides = ["bottom"], onChange }: PlotShapeEditorProps) => {
+  const length = plotLength || 60;
+  const width = plotWidth || 40;
+  const outline = getPlotPolygon({ plotLength: length, plotWidth: width, plotPolygon: polygon });
+  const edges = getPolygonEdges(outline);
+  const labelSize = Math.max(length, width) / 30;
+  const roadLabels: Record<PlotSide, { x: number; y: number; rotate: number }> = {
+    top: { x: length / 2, y: -3, rotate: 0 },
+    bottom: { x: length / 2, y: width + 4, rotate: 0 },
+    left: { x: -3, y: width / 2, rotate: -90 },
+    right: { x: length + 3, y: width / 2, rotate: 90 },
+  };
+
+  const updateVertex = (index: number, key: keyof PlotVertex, value: string) => {
+    onChange(outline.map((vertex, i) => (i === index ? { ...vertex, [key]: parseFloat(value) || 0 } : vertex)));
+  };
+
+  const insertVertex = (index: number) => {
+    const { start, end } = edges[index];
+    const midpoint = { x: half((start.x + end.x) / 2), y: half((start.y + end.y) / 2) };
+    onChange([...outline.slice(0, index + 1), midpoint, ...outline.slice(index + 1)]);
+  };
+
+  const removeVertex = (index: number) => {
+    onChange(outline.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Plot Shape</Label>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(SHAPE_LABELS) as PlotShape[]).map((shape) => (
+            <Button key={shape} type="button" variant="outline" size="sm" onClick={() => onChange(buildPreset(shape, length, width))}>
+              {SHAPE_LABELS[shape]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <svg
+          viewBox={`-6 -6 ${length + 12} ${width + 12}`}
+          className="w-full h-48 bg-white border border-neutral-300"
+          preserveAspectRatio="xMidYMid meet"
+        >
+          <polygon
+            points={outline.map((vertex) => `${vertex.x},${vertex.y}`).join(" ")}
+            fill="#f5f5f4"
+            stroke="#1a1a1a"
+            strokeWidth={0.4}
+          />
+          {envelope && (
+            <polygon
+              points={envelope.map((vertex) => `${vertex.x},${vertex.y}`).join(" ")}
+              fill="#ffffff"
+              stroke="#2563eb"
+              strokeWidth={0.3}
+              strokeDasharray="1 0.6"
+            />
+          )}
+          {edges.map((edge, index) => (
+            <text
+              key={index}
+              x={(edge.start.x + edge.end.x) / 2}
+              y={(edge.start.y + edge.end.y) / 2}
+              fontSize={Math.max(length, width) / 25}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fill="#525252"
+            >
+              {edge.length.toFixed(1)}'
+            </text>
+          ))}
+          {roadSides.map((side) => (
+            <text
+              key={side}
+              x={roadLabels[side].x}
+              y={roadLabels[side].y}
+              fontSize={labelSize}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fill="#a3a3a3"
+              transform={`rotate(${roadLabels[side].rotate} ${roadLabels[side].x} ${roadLabels[side].y})`}
+            >
+              ROAD
+            </text>
+          ))}
+        </svg>
+
+        {polygon ? (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[2rem_1fr_1fr_4rem_4rem] gap-2 text-xs font-mono text-muted-foreground">
+              <span>#</span>
+              <span>X (ft)</span>
+              <span>Y (ft)</span>
+              <span>Edge</span>
+              <span />
+            </div>
+            {outline.map((vertex, index) => (
+              <div key={index} className="grid grid-cols-[2rem_1fr_1fr_4rem_4rem] gap-2 items-center">
+                <span className="text-xs font-mono text-muted-foreground">{index + 1}</span>
+                <Input type="number" step={0.5} value={vertex.x} onChange={(e) => updateVertex(index, "x", e.target.value)} />
+                <Input type="number" step={0.5} value={vertex.y} onChange={(e) => updateVertex(index, "y", e.target.value)} />
+                <span className="text-xs font-mono">{edges[index].length.toFixed(1)}'</span>
+                <div className="flex">
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Add a corner after this one" onClick={() => insertVertex(index)}>
+                    <Plus className="w-3 h-3" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Remove corner" disabled={outline.length <= 3} onClick={() => removeVertex(index)}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Plot area {getPolygonArea(outline).toFixed(0)} sq.ft. Y = 0 is the back of the plot and the largest Y is the front.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground self-center">
+            Pick a shape to enter the plot corners for irregular plots. Length and width then become the bounding box.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlotShapeEditor;
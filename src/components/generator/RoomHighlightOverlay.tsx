@@ -0,0 +1,28 @@
+import { Room } from "@/types/floorPlan";
+
+interface RoomHighlightOverlayProps {
+  room: Room;
+  scale: number;
+  zoom: number;
+}
+
+// Outline for the room picked from a report
+const RoomHighlightOverlay = ({ room, scale, zoom }: RoomHighlightOverlayProps) => {
+  const px = scale * zoom;
+
+  return (
+    <rect
+      x={room.x * px}
+      y={room.y * px}
+      width={room.width * px}
+      height={room.height * px}
+      fill="#dc2626"
+      fillOpacity={0.12}
+      stroke="#dc2626"
+      strokeWidth={3}
+      pointerEvents="none"
+    />
+  );
+};
+
+export default RoomHighlightOverlay;
@@ -0,0 +1,329 @@
+import { useEffect, useState } from "react";
+import { AppWindow, DoorOpen, FlipHorizontal2, FlipVertical2, Merge, Plus, RotateCw, Split, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Door, DoorType, Furniture, FurnitureItem, ROOM_NAMES, Room, RoomType, Window, WindowType } from "@/types/floorPlan";
+import { WallSide } from "@/lib/layout/geometry";
+import { FURNITURE_CATALOG, getFurnitureItem, getFurnitureSizes, getFurnitureSpec } from "@/lib/layout/furnitureCatalog";
+import { DOOR_CATALOG, WINDOW_CATALOG, resolveDoor, resolveWindow } from "@/lib/layout/openingCatalog";
+import { OpeningKind, SplitAxis } from "@/lib/layout/planCommands";
+import { MIN_EDIT_DIMENSION } from "@/lib/layout/planEditing";
+
+interface RoomInspectorProps {
+  room: Room;
+  furniture: Furniture[]; // saved, or the catalog's defaults
+  mergeCandidates: Room[]; // neighbours sharing a whole wall with the room
+  onRename: (name: string) => void;
+  onRetype: (type: RoomType) => void;
+  onAddOpening: (kind: OpeningKind, side: WallSide) => void;
+  onRemoveOpening: (kind: OpeningKind, index: number) => void;
+  onSetOpeningType: (kind: OpeningKind, index: number, type: DoorType | WindowType) => void;
+  onFlipOpening: (kind: OpeningKind, index: number, part: "hinge" | "swing") => void;
+  onSlideOpening: (kind: OpeningKind, index: number, offset: number) => void;
+  onAddFurniture: (item: FurnitureItem) => void;
+  onRemoveFurniture: (index: number) => void;
+  onRotateFurniture: (index: number) => void;
+  onResizeFurniture: (index: number, item: FurnitureItem) => void;
+  onSplit: (axis: SplitAxis, at: number, type: RoomType) => void;
+  onMerge: (otherId: string) => void;
+}
+
+type OpeningActions = Pick<RoomInspectorProps, "onRemoveOpening" | "onSetOpeningType" | "onFlipOpening" | "onSlideOpening">;
+
+type FurnitureActions = Pick<RoomInspectorProps, "onRemoveFurniture" | "onRotateFurniture" | "onResizeFurniture">;
+
+const SIDES: WallSide[] = ["top", "right", "bottom", "left"];
+
+// One door or window: its type, which way it hangs and opens, and where it sits on the wall
+const OpeningRow = ({ kind, index, opening, actions }: { kind: OpeningKind; index: number; opening: Door | Window; actions: OpeningActions }) => {
+  const [offset, setOffset] = useState(opening.offset);
+  const resolved = kind === "door" ? resolveDoor(opening as Door) : resolveWindow(opening as Window);
+  const catalog = kind === "door" ? DOOR_CATALOG : WINDOW_CATALOG;
+  const canFlip = resolved.spec.operation !== "fixed" && resolved.spec.operation !== "bay";
+  const Icon = kind === "door" ? DoorOpen : AppWindow;
+
+  useEffect(() => {
+    setOffset(opening.offset);
+  }, [opening.offset]);
+
+  return (
+    <li className="space-y-1 border-t border-neutral-200 pt-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1">
+          <Icon className="w-3 h-3" />
+          {kind === "door" && (opening as Door).isMain ? "Main door" : kind === "door" ? "Door" : "Window"} on {opening.position} wall, {opening.width}' wide
+        </span>
+        <Button type="button" variant="ghost" size="icon" className="h-6 w-6" title={`Remove ${kind}`} onClick={() => actions.onRemoveOpening(kind, index)}>
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-1">
+        <Select value={resolved.type} onValueChange={(value) => actions.onSetOpeningType(kind, index, value as DoorType | WindowType)}>
+          <SelectTrigger className="h-7 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(catalog).map(([type, spec]) => (
+              <SelectItem key={type} value={type}>{spec.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          title={resolved.spec.operation === "swing" ? "Flip hinge side" : "Flip sliding side"}
+          disabled={!canFlip}
+          onClick={() => actions.onFlipOpening(kind, index, "hinge")}
+        >
+          <FlipHorizontal2 className="w-3 h-3" />
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          title={`Open ${resolved.swing === "in" ? "outwards" : "inwards"}`}
+          disabled={resolved.spec.operation !== "swing"}
+          onClick={() => actions.onFlipOpening(kind, index, "swing")}
+        >
+          <FlipVertical2 className="w-3 h-3" />
+        </Button>
+      </div>
+      <Slider
+        min={0}
+        max={100}
+        step={1}
+        value={[offset]}
+        onValueChange={([value]) => setOffset(value)}
+        onValueCommit={([value]) => actions.onSlideOpening(kind, index, value)}
+        aria-label={`Position of ${kind} along the wall`}
+      />
+      <p className="text-muted-foreground">
+        {offset}% along the wall, sill {resolved.sillHeight}', head {resolved.headHeight}'
+      </p>
+    </li>
+  );
+};
+
+// One piece of furniture: its size, which way it faces, and a button to take it out
+const FurnitureRow = ({ index, piece, actions }: { index: number; piece: Furniture; actions: FurnitureActions }) => {
+  const spec = getFurnitureSpec(piece);
+  const sizes = getFurnitureSizes(piece.type);
+
+  return (
+    <li className="flex items-center gap-1 border-t border-neutral-200 pt-1">
+      {sizes.length > 1 ? (
+        <Select value={getFurnitureItem(piece)} onValueChange={(value) => actions.onResizeFurniture(index, value as FurnitureItem)}>
+          <SelectTrigger className="h-7 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sizes.map((item) => (
+              <SelectItem key={item} value={item}>
+                {FURNITURE_CATALOG[item].name} ({FURNITURE_CATALOG[item].width}' × {FURNITURE_CATALOG[item].depth}')
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <span className="flex-1">
+          {spec.name} ({spec.width}' × {spec.depth}')
+        </span>
+      )}
+      <Button type="button" variant="outline" size="icon" className="h-7 w-7" title="Turn a quarter clockwise" onClick={() => actions.onRotateFurniture(index)}>
+        <RotateCw className="w-3 h-3" />
+      </Button>
+      <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title={`Remove ${spec.name.toLowerCase()}`} onClick={() => actions.onRemoveFurniture(index)}>
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </li>
+  );
+};
+
+const formatFeet = (feet: number) => `${Math.round(feet * 10) / 10}'`;
+
+// Carve a new room off the far side of this one, or take down a wall to a neighbour
+const SplitMerge = ({ room, mergeCandidates, onSplit, onMerge }: Pick<RoomInspectorProps, "room" | "mergeCandidates" | "onSplit" | "onMerge">) => {
+  const [axis, setAxis] = useState<SplitAxis>("vertical");
+  const [type, setType] = useState<RoomType>("study");
+  const length = axis === "vertical" ? room.width : room.height;
+  const [at, setAt] = useState(Math.round(length / 2));
+  const canSplit = length >= MIN_EDIT_DIMENSION * 2;
+
+  useEffect(() => {
+    setAt(Math.round((axis === "vertical" ? room.width : room.height) / 2));
+  }, [room.id, room.width, room.height, axis]);
+
+  const kept = axis === "vertical" ? `${formatFeet(at)} × ${formatFeet(room.height)}` : `${formatFeet(room.width)} × ${formatFeet(at)}`;
+  const carved =
+    axis === "vertical" ? `${formatFeet(room.width - at)} × ${formatFeet(room.height)}` : `${formatFeet(room.width)} × ${formatFeet(room.height - at)}`;
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">Split and merge</Label>
+      <div className="flex items-center gap-1">
+        <Select value={axis} onValueChange={(value) => setAxis(value as SplitAxis)}>
+          <SelectTrigger className="h-7 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="vertical">Wall top to bottom</SelectItem>
+            <SelectItem value="horizontal">Wall left to right</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={type} onValueChange={(value) => setType(value as RoomType)}>
+          <SelectTrigger className="h-7 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ROOM_NAMES) as RoomType[]).map((option) => (
+              <SelectItem key={option} value={option}>{ROOM_NAMES[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" size="sm" className="h-7 px-2 text-xs" disabled={!canSplit} onClick={() => onSplit(axis, at, type)}>
+          <Split className="w-3 h-3 mr-1" /> Split
+        </Button>
+      </div>
+      {canSplit ? (
+        <>
+          <Slider
+            min={MIN_EDIT_DIMENSION}
+            max={length - MIN_EDIT_DIMENSION}
+            step={0.5}
+            value={[at]}
+            onValueChange={([value]) => setAt(value)}
+            aria-label="Position of the new wall"
+          />
+          <p className="text-muted-foreground">
+            {room.name} keeps {kept}, new {ROOM_NAMES[type].toLowerCase()} {carved}
+          </p>
+        </>
+      ) : (
+        <p className="text-muted-foreground">Too small to split this way.</p>
+      )}
+      <div className="flex flex-wrap items-center gap-1 pt-1">
+        <span className="text-muted-foreground">{mergeCandidates.length > 0 ? "Merge with:" : "No neighbour shares a whole wall."}</span>
+        {mergeCandidates.map((other) => (
+          <Button key={other.id} type="button" variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => onMerge(other.id)}>
+            <Merge className="w-3 h-3 mr-1" /> {other.name}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Name, type, doors, windows and furniture of the room selected in the plan editor
+const RoomInspector = ({
+  room,
+  furniture,
+  mergeCandidates,
+  onRename,
+  onRetype,
+  onAddOpening,
+  onAddFurniture,
+  onRemoveFurniture,
+  onRotateFurniture,
+  onResizeFurniture,
+  onSplit,
+  onMerge,
+  ...actions
+}: RoomInspectorProps) => {
+  const [name, setName] = useState(room.name);
+
+  useEffect(() => {
+    setName(room.name);
+  }, [room.id, room.name]);
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== room.name) onRename(trimmed);
+    else setName(room.name);
+  };
+
+  return (
+    <div className="bg-white border-2 border-neutral-900 p-3 mt-4 space-y-3 text-xs">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="room-name" className="text-xs">Name</Label>
+          <Input
+            id="room-name"
+            className="h-8 text-xs"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            onBlur={commitName}
+            onKeyDown={(event) => event.key === "Enter" && commitName()}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Type</Label>
+          <Select value={room.type} onValueChange={(value) => onRetype(value as RoomType)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ROOM_NAMES) as RoomType[]).map((type) => (
+                <SelectItem key={type} value={type}>{ROOM_NAMES[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {(["door", "window"] as OpeningKind[]).map((kind) => {
+        const openings: (Door | Window)[] = (kind === "door" ? room.doors : room.windows) ?? [];
+        return (
+          <div key={kind} className="space-y-1">
+            <Label className="text-xs">{kind === "door" ? "Doors" : "Windows"}</Label>
+            {openings.length === 0 && <p className="text-muted-foreground">No {kind}s.</p>}
+            <ul className="space-y-2">
+              {openings.map((opening, index) => (
+                <OpeningRow key={index} kind={kind} index={index} opening={opening} actions={actions} />
+              ))}
+            </ul>
+            <div className="flex flex-wrap items-center gap-1 pt-1">
+              <span className="text-muted-foreground">Add {kind}:</span>
+              {SIDES.map((side) => (
+                <Button key={side} type="button" variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => onAddOpening(kind, side)}>
+                  <Plus className="w-3 h-3 mr-1" /> {side}
+                </Button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="space-y-1">
+        <Label className="text-xs">Furniture</Label>
+        {furniture.length === 0 && <p className="text-muted-foreground">No furniture.</p>}
+        <ul className="space-y-1">
+          {furniture.map((piece, index) => (
+            <FurnitureRow key={index} index={index} piece={piece} actions={{ onRemoveFurniture, onRotateFurniture, onResizeFurniture }} />
+          ))}
+        </ul>
+        <Select value="" onValueChange={(value) => onAddFurniture(value as FurnitureItem)}>
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue placeholder="Add furniture" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(FURNITURE_CATALOG) as FurnitureItem[]).map((item) => (
+              <SelectItem key={item} value={item}>
+                {FURNITURE_CATALOG[item].name} ({FURNITURE_CATALOG[item].width}' × {FURNITURE_CATALOG[item].depth}')
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <SplitMerge room={room} mergeCandidates={mergeCandidates} onSplit={onSplit} onMerge={onMerge} />
+    </div>
+  );
+};
+
+export default RoomInspector;
@@ -0,0 +1,44 @@
+import { Lock } from "lucide-react";
+import { Room } from "@/types/floorPlan";
+
+interface RoomLockOverlayProps {
+  rooms: Room[]; // rooms on the floor on screen
+  lockedIds: string[];
+  scale: number;
+  zoom: number;
+  onToggle: (roomId: string) => void;
+}
+
+// Click targets over each room while picking rooms to keep; locked ones get an amber outline
+const RoomLockOverlay = ({ rooms, lockedIds, scale, zoom, onToggle }: RoomLockOverlayProps) => {
+  const px = scale * zoom;
+
+  return (
+    <g className="room-locks">
+      {rooms.map((room) => {
+        const isLocked = lockedIds.includes(room.id);
+        const iconSize = Math.min(14, room.width * px * 0.4, room.height * px * 0.4);
+
+        return (
+          <g key={room.id} className="cursor-pointer" onClick={() => onToggle(room.id)}>
+            <title>{isLocked ? `Unlock ${room.name}` : `Lock ${room.name}`}</title>
+            <rect
+              x={room.x * px}
+              y={room.y * px}
+              width={room.width * px}
+              height={room.height * px}
+              fill={isLocked ? "rgba(217, 119, 6, 0.12)" : "rgba(0, 0, 0, 0)"}
+              stroke={isLocked ? "#d97706" : "none"}
+              strokeWidth={2}
+            />
+            {isLocked && (
+              <Lock x={room.x * px + 4} y={room.y * px + 4} width={iconSize} height={iconSize} color="#d97706" />
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default RoomLockOverlay;
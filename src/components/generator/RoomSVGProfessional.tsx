@@ -1,4 +1,7 @@
 import { Room, Furniture, Door, Window, RoomType } from '@/types/floorPlan';
+import { getFurnitureFootprint } from '@/lib/layout/furniture';
+import { getFurnitureSpec, normalizeRotation } from '@/lib/layout/furnitureCatalog';
+import { OpeningFrame, OpeningPrimitive, SymbolStroke, getDoorSymbol, getWindowSymbol, isClockwiseArc } from '@/lib/layout/openingSymbols';
 
 interface RoomSVGProps {
   room: Room;
@@ -6,6 +9,7 @@ interface RoomSVGProps {
   zoom: number;
   wallThickness: number;
   allRooms: Room[];
+  furniture: Furniture[]; // saved or catalog furniture, see getRoomFurniture
 }
 
 // Minimal furniture icons - architectural style (thin lines)
@@ -116,57 +120,92 @@ const FurnitureIcon = ({ type, x, y, width, height, rotation = 0 }: {
           <rect x={0} y={height * 0.35} width={width} height={height * 0.3} fill="none" stroke={stroke} strokeWidth={strokeWidth} />
         </g>
       );
+    case 'bathtub':
+      return (
+        <g transform={transform}>
+          <rect x={0} y={0} width={width} height={height} fill="none" stroke={stroke} strokeWidth={strokeWidth} />
+          <rect x={width * 0.06} y={height * 0.12} width={width * 0.88} height={height * 0.76} fill="none" stroke={stroke} strokeWidth={strokeWidth} rx={Math.min(width, height) * 0.3} />
+          <circle cx={width * 0.15} cy={height * 0.5} r={1.5} fill={stroke} />
+        </g>
+      );
+    case 'mandir':
+      return (
+        <g transform={transform}>
+          <rect x={0} y={0} width={width} height={height * 0.6} fill="none" stroke={stroke} strokeWidth={strokeWidth} />
+          <path d={`M ${width * 0.2} ${height * 0.6} L ${width * 0.5} ${height * 0.2} L ${width * 0.8} ${height * 0.6}`} fill="none" stroke={stroke} strokeWidth={strokeWidth} />
+        </g>
+      );
+    case 'washing-machine':
+      return (
+        <g transform={transform}>
+          <rect x={0} y={0} width={width} height={height} fill="none" stroke={stroke} strokeWidth={strokeWidth} />
+          <circle cx={width / 2} cy={height / 2} r={Math.min(width, height) * 0.3} fill="none" stroke={stroke} strokeWidth={strokeWidth} />
+        </g>
+      );
+    case 'shelves':
+      return (
+        <g transform={transform}>
+          <rect x={0} y={0} width={width} height={height} fill="none" stroke={stroke} strokeWidth={strokeWidth} />
+          <line x1={0} y1={height} x2={width} y2={0} stroke={stroke} strokeWidth={strokeWidth} />
+        </g>
+      );
     default:
       return null;
   }
 };
 
-// Professional door arc - standard 3' door with swing
+const SYMBOL_STROKES: Record<SymbolStroke, number> = { frame: 1.5, leaf: 1, guide: 0.5 };
+
+// Door and window symbols from the catalog, as lines and arcs in room pixels
+const OpeningSymbolSVG = ({ shapes, emphasis = 1 }: { shapes: OpeningPrimitive[]; emphasis?: number }) => (
+  <g>
+    {shapes.map((shape, i) => {
+      const strokeWidth = SYMBOL_STROKES[shape.stroke] * emphasis;
+      const strokeDasharray = shape.dashed ? '2,2' : undefined;
+      if (shape.kind === 'arc') {
+        const sweep = isClockwiseArc(shape.center, shape.from, shape.to) ? 1 : 0;
+        const d = `M ${shape.from[0]} ${shape.from[1]} A ${shape.radius} ${shape.radius} 0 0 ${sweep} ${shape.to[0]} ${shape.to[1]}`;
+        return <path key={i} d={d} fill="none" stroke="#1a1a1a" strokeWidth={strokeWidth} strokeDasharray={strokeDasharray} />;
+      }
+      return (
+        <polyline
+          key={i}
+          points={shape.points.map((point) => point.join(',')).join(' ')}
+          fill="none"
+          stroke="#1a1a1a"
+          strokeWidth={strokeWidth}
+          strokeDasharray={strokeDasharray}
+        />
+      );
+    })}
+  </g>
+);
+
+const getOpeningFrame = (opening: Door | Window, roomWidth: number, roomHeight: number, scale: number, zoom: number): OpeningFrame => {
+  const px = scale * zoom;
+  const wallLength = opening.position === 'top' || opening.position === 'bottom' ? roomWidth : roomHeight;
+  return {
+    side: opening.position,
+    x: 0,
+    y: 0,
+    width: roomWidth * px,
+    height: roomHeight * px,
+    start: (opening.offset / 100) * wallLength * px,
+    length: opening.width * px,
+    unit: px,
+  };
+};
+
+// Professional door symbol - swing, sliding or pocket by door type
 const DoorSVG = ({ door, roomWidth, roomHeight, scale, zoom }: {
   door: Door;
   roomWidth: number;
   roomHeight: number;
   scale: number;
   zoom: number;
-}) => {
-  const doorWidthPx = door.width * scale * zoom;
-  const isHorizontal = door.position === 'top' || door.position === 'bottom';
-  const wallLength = isHorizontal ? roomWidth : roomHeight;
-  const offsetPx = (door.offset / 100) * wallLength * scale * zoom;
-  
-  let x = 0, y = 0, arcPath = '';
-  const arcRadius = doorWidthPx * 0.9;
-  
-  switch (door.position) {
-    case 'top':
-      x = offsetPx;
-      y = 0;
-      arcPath = `M ${x} ${y} L ${x} ${y + arcRadius} A ${arcRadius} ${arcRadius} 0 0 0 ${x + doorWidthPx} ${y}`;
-      break;
-    case 'bottom':
-      x = offsetPx;
-      y = roomHeight * scale * zoom;
-      arcPath = `M ${x} ${y} L ${x} ${y - arcRadius} A ${arcRadius} ${arcRadius} 0 0 1 ${x + doorWidthPx} ${y}`;
-      break;
-    case 'left':
-      x = 0;
-      y = offsetPx;
-      arcPath = `M ${x} ${y} L ${x + arcRadius} ${y} A ${arcRadius} ${arcRadius} 0 0 1 ${x} ${y + doorWidthPx}`;
-      break;
-    case 'right':
-      x = roomWidth * scale * zoom;
-      y = offsetPx;
-      arcPath = `M ${x} ${y} L ${x - arcRadius} ${y} A ${arcRadius} ${arcRadius} 0 0 0 ${x} ${y + doorWidthPx}`;
-      break;
-  }
-  
-  return (
-    <g>
-      {/* Door opening (white gap in wall) */}
-      <path d={arcPath} fill="none" stroke="#1a1a1a" strokeWidth={door.isMain ? 1.5 : 1} />
-    </g>
-  );
-};
+}) => (
+  <OpeningSymbolSVG shapes={getDoorSymbol(door, getOpeningFrame(door, roomWidth, roomHeight, scale, zoom))} emphasis={door.isMain ? 1.5 : 1} />
+);
 
 // Professional window mark
 const WindowSVG = ({ window, roomWidth, roomHeight, scale, zoom }: {
@@ -175,52 +214,9 @@ const WindowSVG = ({ window, roomWidth, roomHeight, scale, zoom }: {
   roomHeight: number;
   scale: number;
   zoom: number;
-}) => {
-  const windowWidthPx = window.width * scale * zoom;
-  const isHorizontal = window.position === 'top' || window.position === 'bottom';
-  const wallLength = isHorizontal ? roomWidth : roomHeight;
-  const offsetPx = (window.offset / 100) * wallLength * scale * zoom;
-  
-  let x1 = 0, y1 = 0, x2 = 0, y2 = 0;
-  
-  switch (window.position) {
-    case 'top':
-      x1 = offsetPx; y1 = 0; x2 = offsetPx + windowWidthPx; y2 = 0;
-      break;
-    case 'bottom':
-      x1 = offsetPx; y1 = roomHeight * scale * zoom; x2 = offsetPx + windowWidthPx; y2 = roomHeight * scale * zoom;
-      break;
-    case 'left':
-      x1 = 0; y1 = offsetPx; x2 = 0; y2 = offsetPx + windowWidthPx;
-      break;
-    case 'right':
-      x1 = roomWidth * scale * zoom; y1 = offsetPx; x2 = roomWidth * scale * zoom; y2 = offsetPx + windowWidthPx;
-      break;
-  }
-  
-  const midX = (x1 + x2) / 2;
-  const midY = (y1 + y2) / 2;
-  
-  return (
-    <g>
-      {/* Standard architectural window representation */}
-      <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#1a1a1a" strokeWidth={3} />
-      {isHorizontal ? (
-        <>
-          <line x1={x1 + 2} y1={y1 - 2} x2={x2 - 2} y2={y2 - 2} stroke="#1a1a1a" strokeWidth={0.5} />
-          <line x1={x1 + 2} y1={y1 + 2} x2={x2 - 2} y2={y2 + 2} stroke="#1a1a1a" strokeWidth={0.5} />
-          <line x1={midX} y1={y1 - 3} x2={midX} y2={y1 + 3} stroke="#1a1a1a" strokeWidth={0.5} />
-        </>
-      ) : (
-        <>
-          <line x1={x1 - 2} y1={y1 + 2} x2={x2 - 2} y2={y2 - 2} stroke="#1a1a1a" strokeWidth={0.5} />
-          <line x1={x1 + 2} y1={y1 + 2} x2={x2 + 2} y2={y2 - 2} stroke="#1a1a1a" strokeWidth={0.5} />
-          <line x1={x1 - 3} y1={midY} x2={x1 + 3} y2={midY} stroke="#1a1a1a" strokeWidth={0.5} />
-        </>
-      )}
-    </g>
-  );
-};
+}) => (
+  <OpeningSymbolSVG shapes={getWindowSymbol(window, getOpeningFrame(window, roomWidth, roomHeight, scale, zoom))} />
+);
 
 // Check if a wall is shared with another room
 const checkAdjacentWall = (room: Room, side: 'top' | 'bottom' | 'left' | 'right', allRooms: Room[]): boolean => {
@@ -263,69 +259,6 @@ const checkAdjacentWall = (room: Room, side: 'top' | 'bottom' | 'left' | 'right'
   return false;
 };
 
-// Default furniture by room type - now covers all room types with realistic layouts
-const getDefaultFurniture = (roomType: RoomType): { type: Furniture['type']; x: number; y: number; w: number; h: number; rotation?: number }[] => {
-  switch (roomType) {
-    case 'bedroom':
-      return [
-        { type: 'bed', x: 15, y: 25, w: 55, h: 50 },
-        { type: 'wardrobe', x: 5, y: 5, w: 30, h: 12 },
-      ];
-    case 'bathroom':
-      return [
-        { type: 'toilet', x: 10, y: 55, w: 28, h: 35 },
-        { type: 'shower', x: 55, y: 10, w: 38, h: 38 },
-        { type: 'sink', x: 10, y: 12, w: 30, h: 18 },
-      ];
-    case 'kitchen':
-      return [
-        { type: 'kitchen-counter', x: 5, y: 5, w: 90, h: 18 },
-      ];
-    case 'living':
-      return [
-        { type: 'sofa', x: 15, y: 50, w: 50, h: 25 },
-        { type: 'tv', x: 20, y: 8, w: 40, h: 8 },
-      ];
-    case 'dining':
-      return [
-        { type: 'dining-table', x: 20, y: 20, w: 60, h: 60 },
-      ];
-    case 'garage':
-      return [
-        { type: 'car', x: 15, y: 15, w: 70, h: 70 },
-      ];
-    case 'study':
-      return [
-        { type: 'desk', x: 15, y: 15, w: 55, h: 35 },
-      ];
-    case 'garden':
-      return [
-        { type: 'plants', x: 10, y: 10, w: 25, h: 25 },
-        { type: 'plants', x: 65, y: 65, w: 25, h: 25 },
-        { type: 'plants', x: 60, y: 15, w: 20, h: 20 },
-      ];
-    case 'balcony':
-      return [
-        { type: 'plants', x: 10, y: 60, w: 20, h: 20 },
-        { type: 'plants', x: 70, y: 60, w: 20, h: 20 },
-      ];
-    case 'pooja':
-      return [];
-    case 'utility':
-      return [];
-    case 'store':
-      return [];
-    case 'wardrobe':
-      return [
-        { type: 'wardrobe', x: 10, y: 10, w: 80, h: 25 },
-      ];
-    case 'hallway':
-    case 'staircase':
-    default:
-      return [];
-  }
-};
-
 // Check if a room type should have railings instead of walls on exterior edges
 const isRailingRoom = (type: RoomType): boolean => {
   return type === 'balcony' || type === 'garden';
@@ -367,7 +300,7 @@ const RailingSVG = ({
 };
 
 // Room component - professional monochrome style
-const RoomSVGProfessional = ({ room, scale, zoom, wallThickness, allRooms }: RoomSVGProps) => {
+const RoomSVGProfessional = ({ room, scale, zoom, wallThickness, allRooms, furniture }: RoomSVGProps) => {
   const x = room.x * scale * zoom;
   const y = room.y * scale * zoom;
   const width = room.width * scale * zoom;
@@ -380,8 +313,6 @@ const RoomSVGProfessional = ({ room, scale, zoom, wallThickness, allRooms }: Roo
   
   const isRailing = isRailingRoom(room.type);
   
-  const defaultFurnitureSizes = getDefaultFurniture(room.type);
-  
   // Professional wall thickness: 9" exterior, 6" interior (scaled)
   const exteriorWallWidth = wallThickness * 1.5;
   const interiorWallWidth = wallThickness;
@@ -584,18 +515,23 @@ const RoomSVGProfessional = ({ room, scale, zoom, wallThickness, allRooms }: Roo
         />
       ))}
       
-      {/* Furniture - minimal */}
-      {defaultFurnitureSizes.map((f, i) => (
-        <FurnitureIcon
-          key={`furniture-${i}`}
-          type={f.type}
-          x={(f.x / 100) * width}
-          y={(f.y / 100) * height}
-          width={(f.w / 100) * width}
-          height={(f.h / 100) * height}
-          rotation={f.rotation}
-        />
-      ))}
+      {/* Furniture - minimal, at catalog sizes */}
+      {furniture.map((piece, i) => {
+        const spec = getFurnitureSpec(piece);
+        const footprint = getFurnitureFootprint(room, piece);
+        const px = scale * zoom;
+        return (
+          <FurnitureIcon
+            key={`furniture-${i}`}
+            type={piece.type}
+            x={(footprint.x + footprint.width / 2 - spec.width / 2) * px}
+            y={(footprint.y + footprint.height / 2 - spec.depth / 2) * px}
+            width={spec.width * px}
+            height={spec.depth * px}
+            rotation={normalizeRotation(piece.rotation)}
+          />
+        );
+      })}
       
       {/* Room label - minimal text */}
       <text
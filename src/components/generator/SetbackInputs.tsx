@@ -0,0 +1,64 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PlotSetbacks, PlotSide } from "@/types/floorPlan";
+import { DEFAULT_ROAD_SIDES, PLOT_SIDES } from "@/lib/layout/envelope";
+
+interface SetbackInputsProps {
+  setbacks?: PlotSetbacks;
+  roadSides?: PlotSide[];
+  hasBuildableArea: boolean;
+  onSetbacksChange: (setbacks: PlotSetbacks) => void;
+  onRoadSidesChange: (roadSides: PlotSide[]) => void;
+}
+
+const SIDE_LABELS: Record<PlotSide, string> = {
+  top: "Back (top)",
+  bottom: "Front (bottom)",
+  left: "Left",
+  right: "Right",
+};
+
+const NO_SETBACKS: PlotSetbacks = { top: 0, bottom: 0, left: 0, right: 0 };
+
+const SetbackInputs = ({ setbacks = NO_SETBACKS, roadSides = DEFAULT_ROAD_SIDES, hasBuildableArea, onSetbacksChange, onRoadSidesChange }: SetbackInputsProps) => {
+  const toggleRoad = (side: PlotSide, checked: boolean) => {
+    const next = checked ? [...roadSides, side] : roadSides.filter((road) => road !== side);
+    // A plot always has at least one road side
+    if (next.length > 0) onRoadSidesChange(PLOT_SIDES.filter((plotSide) => next.includes(plotSide)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Setbacks (ft) and Road Frontage</Label>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {PLOT_SIDES.map((side) => (
+          <div key={side} className="space-y-2">
+            <Label htmlFor={`setback-${side}`} className="text-xs text-muted-foreground">{SIDE_LABELS[side]}</Label>
+            <Input
+              id={`setback-${side}`}
+              type="number"
+              min={0}
+              step={0.5}
+              value={setbacks[side]}
+              onChange={(e) => onSetbacksChange({ ...setbacks, [side]: Math.max(0, parseFloat(e.target.value) || 0) })}
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`road-${side}`}
+                checked={roadSides.includes(side)}
+                onCheckedChange={(checked) => toggleRoad(side, checked as boolean)}
+              />
+              <Label htmlFor={`road-${side}`} className="text-xs cursor-pointer">Road</Label>
+            </div>
+          </div>
+        ))}
+      </div>
+      {!hasBuildableArea && (
+        <p className="text-sm text-destructive">These setbacks leave no buildable area on the plot.</p>
+      )}
+    </div>
+  );
+};
+
+export default SetbackInputs;
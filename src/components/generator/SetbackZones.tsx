@@ -0,0 +1,72 @@
+import { PlotSide, PlotVertex } from "@/types/floorPlan";
+
+interface SetbackZonesProps {
+  plot: PlotVertex[];
+  envelope: PlotVertex[] | null; // null when there are no setbacks to draw
+  roadSides: PlotSide[];
+  scale: number;
+  zoom: number;
+  svgWidth: number;
+  svgHeight: number;
+}
+
+const HATCH_ID = "setback-hatch";
+
+// Plot fill with the open margins hatched, the buildable envelope over it and
+// the road labels outside the plot. The plot outline is drawn by the viewer.
+const SetbackZones = ({ plot, envelope, roadSides, scale, zoom, svgWidth, svgHeight }: SetbackZonesProps) => {
+  const px = scale * zoom;
+  const toPoints = (vertices: PlotVertex[]) => vertices.map((vertex) => `${vertex.x * px},${vertex.y * px}`).join(" ");
+  const roadLabels: Record<PlotSide, { x: number; y: number; rotate: number }> = {
+    top: { x: svgWidth / 2, y: -42, rotate: 0 },
+    bottom: { x: svgWidth / 2, y: svgHeight + 22, rotate: 0 },
+    left: { x: -42, y: svgHeight / 2, rotate: -90 },
+    right: { x: svgWidth + 22, y: svgHeight / 2, rotate: 90 },
+  };
+
+  return (
+    <g className="setback-zones">
+      <defs>
+        <pattern id={HATCH_ID} width={8} height={8} patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+          <rect width={8} height={8} fill="#f0fdf4" />
+          <line x1={0} y1={0} x2={0} y2={8} stroke="#86efac" strokeWidth={1.5} />
+        </pattern>
+      </defs>
+
+      <polygon points={toPoints(plot)} fill={envelope ? `url(#${HATCH_ID})` : "#ffffff"} />
+
+      {envelope && (
+        <polygon
+          points={toPoints(envelope)}
+          fill="#ffffff"
+          stroke="#64748b"
+          strokeWidth={0.75}
+          strokeDasharray="6 4"
+        />
+      )}
+
+      {roadSides.map((side) => {
+        const { x, y, rotate } = roadLabels[side];
+        return (
+          <text
+            key={side}
+            x={x}
+            y={y}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fill="#64748b"
+            fontFamily="Arial, sans-serif"
+            fontSize={10}
+            fontWeight="600"
+            letterSpacing={4}
+            transform={`rotate(${rotate} ${x} ${y})`}
+          >
+            ROAD
+          </text>
+        );
+      })}
+    </g>
+  );
+};
+
+export default SetbackZones;
@@ -0,0 +1,53 @@
+import { LayoutVariant, PlotVertex } from "@/types/floorPlan";
+import { cn } from "@/lib/utils";
+import PlanThumbnail from "./PlanThumbnail";
+
+interface VariantPickerProps {
+  variants: LayoutVariant[];
+  selectedVariantId: string;
+  floor: number;
+  plotLength: number;
+  plotWidth: number;
+  plotPolygon?: PlotVertex[];
+  onSelect: (variantId: string) => void;
+}
+
+const formatScore = (value: number) => `${Math.round(value * 100)}%`;
+
+const VariantPicker = ({ variants, selectedVariantId, floor, plotLength, plotWidth, plotPolygon, onSelect }: VariantPickerProps) => {
+  return (
+    <div className="flex gap-3 overflow-x-auto p-4 border-b border-border bg-muted/10">
+      {variants.map((variant, index) => {
+        const isSelected = variant.id === selectedVariantId;
+        const rooms = variant.layout.rooms.filter((room) => room.floor === floor);
+
+        return (
+          <button
+            key={variant.id}
+            type="button"
+            onClick={() => onSelect(variant.id)}
+            className={cn(
+              "flex-shrink-0 w-44 text-left border-2 rounded-md p-2 bg-card transition-colors",
+              isSelected ? "border-primary" : "border-border hover:border-primary/50"
+            )}
+          >
+            <PlanThumbnail rooms={rooms} plotLength={plotLength} plotWidth={plotWidth} plotPolygon={plotPolygon} className="h-24" />
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-xs font-semibold text-foreground truncate">
+                Option {String.fromCharCode(65 + index)} · {variant.label}
+              </span>
+              <span className="text-xs font-mono font-bold text-primary">{formatScore(variant.score.total)}</span>
+            </div>
+            <div className="grid grid-cols-3 gap-1 mt-1 text-[10px] font-mono text-muted-foreground">
+              <span title="Area utilization">Area {formatScore(variant.score.areaUtilization)}</span>
+              <span title="Adjacency satisfaction">Adj {formatScore(variant.score.adjacency)}</span>
+              <span title="Vastu score">Vastu {formatScore(variant.score.vastu)}</span>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default VariantPicker;
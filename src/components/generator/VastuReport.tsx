@@ -0,0 +1,37 @@
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import { VastuCheck, describeVastuReport } from "@/lib/layout/vastu";
+
+interface VastuReportProps {
+  checks: VastuCheck[];
+  onSelectFloor: (floor: number) => void;
+}
+
+// Per-room Vastu results, failures first
+const VastuReport = ({ checks, onSelectFloor }: VastuReportProps) => {
+  const order: VastuCheck["status"][] = ["fail", "warn", "pass"];
+  const sorted = [...checks].sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status) || a.floor - b.floor);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="font-medium text-foreground">Vastu: {describeVastuReport(checks)}</div>
+      <ul className="space-y-1">
+        {sorted.map((check, index) => (
+          <li key={index} className="flex items-center gap-1">
+            {check.status === "pass" && <CheckCircle2 className="w-3 h-3 text-green-600 flex-shrink-0" />}
+            {check.status === "warn" && <AlertTriangle className="w-3 h-3 text-amber-500 flex-shrink-0" />}
+            {check.status === "fail" && <XCircle className="w-3 h-3 text-red-600 flex-shrink-0" />}
+            <button
+              type="button"
+              className={`text-left hover:text-foreground ${check.status === "pass" ? "text-muted-foreground" : "text-foreground"}`}
+              onClick={() => onSelectFloor(check.floor)}
+            >
+              {check.message}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default VastuReport;
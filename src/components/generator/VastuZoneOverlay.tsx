@@ -0,0 +1,57 @@
+import { Room } from "@/types/floorPlan";
+import { VastuCheck, VastuZoneCell } from "@/lib/layout/vastu";
+
+interface VastuZoneOverlayProps {
+  zones: VastuZoneCell[];
+  rooms: Room[]; // rooms on the floor on screen
+  checks: VastuCheck[];
+  scale: number;
+  zoom: number;
+}
+
+const STATUS_COLORS: Record<VastuCheck["status"], string> = {
+  pass: "#16a34a",
+  warn: "#d97706",
+  fail: "#dc2626",
+};
+
+// The nine padas with their compass labels, and rooms outlined by their Vastu result
+const VastuZoneOverlay = ({ zones, rooms, checks, scale, zoom }: VastuZoneOverlayProps) => {
+  const px = scale * zoom;
+
+  return (
+    <g className="vastu-zones" pointerEvents="none">
+      {zones.map((cell) => (
+        <g key={cell.zone}>
+          <rect x={cell.x * px} y={cell.y * px} width={cell.width * px} height={cell.height * px} fill="none" stroke="#7c3aed" strokeWidth={0.75} strokeDasharray="6 4" />
+          <text x={(cell.x + cell.width / 2) * px} y={cell.y * px + 12} textAnchor="middle" fontSize={10} fontWeight={600} fill="#7c3aed" opacity={0.8}>
+            {cell.zone === "C" ? "Brahmasthan" : cell.zone}
+          </text>
+        </g>
+      ))}
+
+      {checks
+        .filter((check) => check.label !== "Main entrance")
+        .map((check, index) => {
+          const room = rooms.find((candidate) => candidate.id === check.roomId);
+          if (!room) return null;
+          return (
+            <g key={index}>
+              <title>{check.message}</title>
+              <rect
+                x={room.x * px + 3}
+                y={room.y * px + 3}
+                width={Math.max(0, room.width * px - 6)}
+                height={Math.max(0, room.height * px - 6)}
+                fill="none"
+                stroke={STATUS_COLORS[check.status]}
+                strokeWidth={2}
+              />
+            </g>
+          );
+        })}
+    </g>
+  );
+};
+
+export default VastuZoneOverlay;
@@ -0,0 +1,49 @@
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { CoreViolation } from "@/lib/layout/verticalCores";
+
+interface VerticalCoreReportProps {
+  violations: CoreViolation[];
+  onSelectFloor: (floor: number) => void;
+}
+
+const VerticalCoreReport = ({ violations, onSelectFloor }: VerticalCoreReportProps) => {
+  const cores = violations.filter((violation) => violation.kind !== "wet-unstacked");
+  const wet = violations.filter((violation) => violation.kind === "wet-unstacked");
+
+  if (violations.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <CheckCircle2 className="w-4 h-4 text-green-600" />
+        Staircases and wet areas line up on every floor.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      {[
+        { title: "Vertical cores", items: cores, className: "text-red-600" },
+        { title: "Plumbing stacks", items: wet, className: "text-blue-600" },
+      ]
+        .filter((group) => group.items.length > 0)
+        .map((group) => (
+          <div key={group.title}>
+            <div className={`flex items-center gap-1 font-medium ${group.className}`}>
+              <AlertTriangle className="w-3 h-3" /> {group.title}
+            </div>
+            <ul className="mt-1 space-y-0.5">
+              {group.items.map((violation, index) => (
+                <li key={index}>
+                  <button type="button" className="text-left text-muted-foreground hover:text-foreground" onClick={() => onSelectFloor(violation.floor)}>
+                    {violation.message}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default VerticalCoreReport;
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FormData, LayoutVariant } from '@/types/floorPlan';
+import { PlanCommand, applyPlanCommand } from '@/lib/layout/planCommands';
+import { useSavedPlans } from './useSavedPlans';
+
+const STORAGE_KEY = 'floor-plan-draft';
+const MAX_HISTORY = 100;
+
+// The plan on screen with every hand edit made to it. Variants hold the
+// current layouts; past and future hold the commands to undo and redo.
+export interface PlanDraft {
+  formData: FormData;
+  variants: LayoutVariant[];
+  selectedVariantId: string;
+  past: PlanCommand[];
+  future: PlanCommand[];
+  saved: boolean; // nothing changed since the last save
+}
+
+// A stored draft from an older version or cut short while writing is not
+// restored; with no draft the storage is cleared on the first render
+const isPlanDraft = (value: unknown): value is PlanDraft => {
+  const draft = value as PlanDraft;
+  return (
+    !!draft &&
+    typeof draft === 'object' &&
+    !!draft.formData &&
+    typeof draft.selectedVariantId === 'string' &&
+    Array.isArray(draft.variants) &&
+    draft.variants.length > 0 &&
+    draft.variants.every((variant) => typeof variant?.id === 'string' && Array.isArray(variant.layout?.rooms)) &&
+    Array.isArray(draft.past) &&
+    Array.isArray(draft.future)
+  );
+};
+
+const loadDraft = (): PlanDraft | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const draft: unknown = JSON.parse(stored);
+    return isPlanDraft(draft) ? draft : null;
+  } catch (error) {
+    console.error('Error restoring plan edits:', error);
+    return null;
+  }
+};
+
+const applyToVariant = (draft: PlanDraft, command: PlanCommand, direction: 'redo' | 'undo'): PlanDraft => ({
+  ...draft,
+  variants: draft.variants.map((variant) =>
+    variant.id === command.variantId ? { ...variant, layout: applyPlanCommand(variant.layout, command, direction) } : variant
+  ),
+  // Show the variant the step belongs to
+  selectedVariantId: command.variantId,
+  saved: false,
+});
+
+const stepBack = (draft: PlanDraft): PlanDraft => {
+  const command = draft.past[draft.past.length - 1];
+  if (!command) return draft;
+  return { ...applyToVariant(draft, command, 'undo'), past: draft.past.slice(0, -1), future: [command, ...draft.future] };
+};
+
+const stepForward = (draft: PlanDraft): PlanDraft => {
+  const [command, ...future] = draft.future;
+  if (!command) return draft;
+  return { ...applyToVariant(draft, command, 'redo'), past: [...draft.past, command], future };
+};
+
+// Sits between the viewer and savePlan: every edit goes through execute, and
+// unsaved edits are kept in localStorage so a reload does not lose them
+export function usePlanHistory() {
+  const { savePlan } = useSavedPlans();
+  const [draft, setDraft] = useState<PlanDraft | null>(loadDraft);
+  const [restored] = useState(() => draft !== null);
+
+  useEffect(() => {
+    try {
+      if (draft && !draft.saved && (draft.past.length > 0 || draft.future.length > 0)) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(draft));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Error keeping plan edits:', error);
+    }
+  }, [draft]);
+
+  const selectedVariant = draft?.variants.find((variant) => variant.id === draft.selectedVariantId) ?? draft?.variants[0];
+
+  const start = (formData: FormData, variants: LayoutVariant[]) => {
+    setDraft({ formData, variants, selectedVariantId: variants[0].id, past: [], future: [], saved: false });
+  };
+
+  const clear = () => setDraft(null);
+
+  const selectVariant = (variantId: string) => {
+    setDraft((current) => current && { ...current, selectedVariantId: variantId });
+  };
+
+  const execute = (command: PlanCommand) => {
+    setDraft((current) => current && {
+      ...applyToVariant(current, command, 'redo'),
+      past: [...current.past, command].slice(-MAX_HISTORY),
+      future: [],
+    });
+  };
+
+  // Stable across renders so keyboard shortcuts can subscribe once
+  const undo = useCallback(() => setDraft((current) => current && stepBack(current)), []);
+
+  const redo = useCallback(() => setDraft((current) => current && stepForward(current)), []);
+
+  // Undo or redo until the given number of steps is applied
+  const jumpTo = (steps: number) => {
+    setDraft((current) => {
+      let next = current;
+      while (next && next.past.length > steps && next.past.length > 0) next = stepBack(next);
+      while (next && next.past.length < steps && next.future.length > 0) next = stepForward(next);
+      return next;
+    });
+  };
+
+  const save = async (name: string) => {
+    if (!draft || !selectedVariant) return null;
+    const saved = await savePlan(name, draft.formData, selectedVariant.layout);
+    if (saved) setDraft((current) => current && { ...current, saved: true });
+    return saved;
+  };
+
+  return {
+    draft,
+    selectedVariant,
+    restored,
+    canUndo: (draft?.past.length ?? 0) > 0,
+    canRedo: (draft?.future.length ?? 0) > 0,
+    start,
+    clear,
+    selectVariant,
+    execute,
+    undo,
+    redo,
+    jumpTo,
+    save,
+  };
+}
+
+export type PlanHistory = ReturnType<typeof usePlanHistory>;
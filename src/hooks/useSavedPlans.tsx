@@ -45,6 +45,12 @@ export function useSavedPlans() {
         name,
         plot_length: parseInt(formData.plotLength) || 0,
         plot_width: parseInt(formData.plotWidth) || 0,
+        plot_polygon: formData.plotPolygon ?? null,
+        setbacks: formData.setbacks ?? null,
+        road_sides: formData.roadSides ?? null,
+        facing: formData.facing ?? null,
+        floor_programs: formData.floorPrograms ?? null,
+        adjacency: formData.adjacency ?? null,
         floors: parseInt(formData.floors) || 1,
         bedrooms: formData.bedrooms,
         bathrooms: formData.bathrooms,
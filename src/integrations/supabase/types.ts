@@ -16,12 +16,15 @@ export type Database = {
     Tables: {
       saved_plans: {
         Row: {
+          adjacency: Json | null
           balcony: boolean
           bathrooms: number
           bedrooms: number
           budget_range: string
           created_at: string
           dining_rooms: number
+          facing: number | null
+          floor_programs: Json | null
           floors: number
           garage: boolean
           garden: boolean
@@ -31,19 +34,25 @@ export type Database = {
           living_rooms: number
           name: string
           plot_length: number
+          plot_polygon: Json | null
           plot_width: number
+          road_sides: string[] | null
+          setbacks: Json | null
           style: string
           updated_at: string
           user_id: string
           vastu_compliant: boolean
         }
         Insert: {
+          adjacency?: Json | null
           balcony?: boolean
           bathrooms?: number
           bedrooms?: number
           budget_range?: string
           created_at?: string
           dining_rooms?: number
+          facing?: number | null
+          floor_programs?: Json | null
           floors?: number
           garage?: boolean
           garden?: boolean
@@ -53,19 +62,25 @@ export type Database = {
           living_rooms?: number
           name?: string
           plot_length: number
+          plot_polygon?: Json | null
           plot_width: number
+          road_sides?: string[] | null
+          setbacks?: Json | null
           style?: string
           updated_at?: string
           user_id: string
           vastu_compliant?: boolean
         }
         Update: {
+          adjacency?: Json | null
           balcony?: boolean
           bathrooms?: number
           bedrooms?: number
           budget_range?: string
           created_at?: string
           dining_rooms?: number
+          facing?: number | null
+          floor_programs?: Json | null
           floors?: number
           garage?: boolean
           garden?: boolean
@@ -75,7 +90,10 @@ export type Database = {
           living_rooms?: number
           name?: string
           plot_length?: number
+          plot_polygon?: Json | null
           plot_width?: number
+          road_sides?: string[] | null
+          setbacks?: Json | null
           style?: string
           updated_at?: string
           user_id?: string
@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { ROOM_COLORS, ROOM_NAMES, Room, RoomType } from '../../types/floorPlan.ts';
+
+// Regional building-code rules checked against a finished layout. Packs are
+// plain data so custom ones can be loaded from JSON with parseCodePack.
+
+export interface CodeRoomRule {
+  minArea?: number; // sq ft
+  minWidth?: number; // ft, the shorter side of the room
+}
+
+export interface CodePack {
+  id: string;
+  name: string;
+  source: string; // the code the values come from
+  rooms: Partial<Record<RoomType, CodeRoomRule>>;
+  habitableRooms: RoomType[]; // rooms that need daylight
+  minGlazingRatio: number; // window area over floor area in habitable rooms
+  windowHeight: number; // ft, turns window widths into areas
+  bathroomVentilation: number; // sq ft of window a bathroom needs, 0 when an exhaust fan is enough
+}
+
+export type CodeRuleKind = 'min-area' | 'min-width' | 'glazing' | 'bathroom-ventilation';
+
+export interface CodeViolation {
+  kind: CodeRuleKind;
+  roomId: string;
+  floor: number;
+  required: number;
+  actual: number;
+  message: string;
+}
+
+// pack is null whenever errors is non-empty
+export interface CodePackParseResult {
+  pack: CodePack | null;
+  errors: string[];
+}
+
+const ROOM_TYPES = Object.keys(ROOM_COLORS) as [RoomType, ...RoomType[]];
+const positive = z.number().finite().nonnegative();
+
+const codePackSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  source: z.string().default(''),
+  rooms: z.record(z.enum(ROOM_TYPES), z.object({ minArea: positive.optional(), minWidth: positive.optional() })),
+  habitableRooms: z.array(z.enum(ROOM_TYPES)).default([]),
+  minGlazingRatio: positive.max(1).default(0),
+  windowHeight: positive.default(4),
+  bathroomVentilation: positive.default(0),
+});
+
+export const parseCodePack = (json: string): CodePackParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { pack: null, errors: [`Rule pack is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = codePackSchema.safeParse(data);
+  if (!result.success) {
+    return { pack: null, errors: result.error.issues.map((issue) => `${issue.path.join('.') || 'pack'}: ${issue.message}`) };
+  }
+  return { pack: result.data as CodePack, errors: [] };
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const getWindowArea = (room: Room, pack: CodePack): number =>
+  (room.windows ?? []).reduce((sum, window) => sum + window.width * pack.windowHeight, 0);
+
+// Every rule of the pack against every room it covers, on all floors
+export const checkBuildingCode = (rooms: Room[], pack: CodePack): CodeViolation[] => {
+  const violations: CodeViolation[] = [];
+
+  for (const room of rooms) {
+    const label = `Floor ${room.floor}: ${room.name}`;
+    const rule = pack.rooms[room.type];
+    const area = room.width * room.height;
+    const width = Math.min(room.width, room.height);
+
+    if (rule?.minArea && area < rule.minArea) {
+      violations.push({
+        kind: 'min-area',
+        roomId: room.id,
+        floor: room.floor,
+        required: rule.minArea,
+        actual: round(area),
+        message: `${label} is ${round(area)} sq.ft; ${pack.name} asks for at least ${rule.minArea} sq.ft for a ${ROOM_NAMES[room.type].toLowerCase()}.`,
+      });
+    }
+    if (rule?.minWidth && width < rule.minWidth) {
+      violations.push({
+        kind: 'min-width',
+        roomId: room.id,
+        floor: room.floor,
+        required: rule.minWidth,
+        actual: round(width),
+        message: `${label} is ${round(width)}' wide; ${pack.name} asks for at least ${rule.minWidth}'.`,
+      });
+    }
+
+    if (pack.habitableRooms.includes(room.type) && pack.minGlazingRatio > 0) {
+      const required = area * pack.minGlazingRatio;
+      const glazing = getWindowArea(room, pack);
+      if (glazing < required) {
+        violations.push({
+          kind: 'glazing',
+          roomId: room.id,
+          floor: room.floor,
+          required: round(required),
+          actual: round(glazing),
+          message: `${label} has ${round(glazing)} sq.ft of windows; ${pack.name} asks for ${Math.round(pack.minGlazingRatio * 100)}% of the floor area (${round(required)} sq.ft).`,
+        });
+      }
+    }
+
+    if (room.type === 'bathroom' && pack.bathroomVentilation > 0) {
+      const opening = getWindowArea(room, pack);
+      if (opening < pack.bathroomVentilation) {
+        violations.push({
+          kind: 'bathroom-ventilation',
+          roomId: room.id,
+          floor: room.floor,
+          required: pack.bathroomVentilation,
+          actual: round(opening),
+          message: `${label} has ${round(opening)} sq.ft of window; ${pack.name} asks for ${pack.bathroomVentilation} sq.ft or a ducted exhaust.`,
+        });
+      }
+    }
+  }
+
+  return violations;
+};
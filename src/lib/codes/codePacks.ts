@@ -0,0 +1,8 @@
+import { CodePack } from './buildingCode.ts';
+import { GENERIC_RESIDENTIAL_PACK } from './genericResidential.ts';
+import { NBC_INDIA_PACK } from './nbcIndia.ts';
+
+// Built-in packs, the default first
+export const CODE_PACKS: CodePack[] = [NBC_INDIA_PACK, GENERIC_RESIDENTIAL_PACK];
+
+export const getCodePack = (id: string, packs: CodePack[] = CODE_PACKS): CodePack => packs.find((pack) => pack.id === id) ?? packs[0];
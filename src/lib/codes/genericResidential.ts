@@ -0,0 +1,25 @@
+import { MIN_ROOM_SIZES } from '../../types/floorPlan.ts';
+import { CodePack } from './buildingCode.ts';
+
+// IRC-style residential rules: the planner's own MIN_ROOM_SIZES as area
+// minimums, 7 ft for habitable rooms (R304.2), glazing of 8% of the floor
+// area (R303.1) and 3 sq ft of bathroom window unless there is an exhaust
+// fan (R303.3).
+export const GENERIC_RESIDENTIAL_PACK: CodePack = {
+  id: 'generic-residential',
+  name: 'Generic residential (IRC-like)',
+  source: 'International Residential Code, sections R303 and R304',
+  rooms: {
+    ...Object.fromEntries(Object.entries(MIN_ROOM_SIZES).map(([type, minArea]) => [type, { minArea }])),
+    bedroom: { minArea: MIN_ROOM_SIZES.bedroom, minWidth: 7 },
+    living: { minArea: MIN_ROOM_SIZES.living, minWidth: 7 },
+    dining: { minArea: MIN_ROOM_SIZES.dining, minWidth: 7 },
+    study: { minArea: MIN_ROOM_SIZES.study, minWidth: 7 },
+    hallway: { minArea: MIN_ROOM_SIZES.hallway, minWidth: 3 },
+    staircase: { minArea: MIN_ROOM_SIZES.staircase, minWidth: 3 },
+  },
+  habitableRooms: ['bedroom', 'living', 'dining', 'study'],
+  minGlazingRatio: 0.08,
+  windowHeight: 4,
+  bathroomVentilation: 3,
+};
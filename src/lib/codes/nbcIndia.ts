@@ -0,0 +1,26 @@
+import { CodePack } from './buildingCode.ts';
+
+// National Building Code of India 2016, Part 3 (Development Control Rules),
+// converted from metres: habitable rooms 9.5 m² and 2.4 m wide, kitchens
+// 5.0 m² and 1.8 m wide, bathrooms 1.8 m² and 1.2 m wide, openings of a
+// tenth of the floor area and 0.37 m² for bathrooms.
+export const NBC_INDIA_PACK: CodePack = {
+  id: 'nbc-india-2016',
+  name: 'NBC India',
+  source: 'National Building Code of India 2016, Part 3',
+  rooms: {
+    bedroom: { minArea: 102, minWidth: 7.9 },
+    living: { minArea: 102, minWidth: 7.9 },
+    dining: { minArea: 81, minWidth: 6.9 },
+    study: { minArea: 81, minWidth: 6.9 },
+    kitchen: { minArea: 54, minWidth: 5.9 },
+    bathroom: { minArea: 19.4, minWidth: 3.9 },
+    store: { minArea: 10.8, minWidth: 3.3 },
+    staircase: { minWidth: 3 },
+    hallway: { minWidth: 3.3 },
+  },
+  habitableRooms: ['bedroom', 'living', 'dining', 'study', 'kitchen'],
+  minGlazingRatio: 0.1,
+  windowHeight: 4,
+  bathroomVentilation: 4,
+};
@@ -0,0 +1,109 @@
+import { GeneratedLayout, ROOM_COLORS, ROOM_NAMES, RoomType } from '../../types/floorPlan.ts';
+import { DEFAULT_WALL_THICKNESS } from '../layout/areaMetrics.ts';
+import { isOnExterior } from '../layout/openings.ts';
+import { getUniqueDoors, measureQuantities } from '../layout/quantities.ts';
+
+// Bill of quantities for contractors, taken off the rooms, walls and openings
+// of a layout. Walls run floor to floor at the layout's wall thickness, with
+// door and window openings deducted.
+
+export type BoqSection = 'Masonry' | 'Plaster' | 'Flooring' | 'Doors' | 'Windows';
+
+export interface BoqItem {
+  section: BoqSection;
+  description: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface BoqOptions {
+  floorHeight: number; // ft
+  wallThickness: number; // ft
+  doorHeight: number; // ft
+  windowHeight: number; // ft
+  bricksPerCubicFoot: number; // with mortar joints
+  brickWastage: number; // fraction added to the brick count
+}
+
+// Modular 190 x 90 x 90 mm bricks with 10 mm joints are 500 to the cubic metre
+export const DEFAULT_BOQ_OPTIONS: BoqOptions = {
+  floorHeight: 10,
+  wallThickness: DEFAULT_WALL_THICKNESS,
+  doorHeight: 7,
+  windowHeight: 4,
+  bricksPerCubicFoot: 14.2,
+  brickWastage: 0.05,
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const formatFeet = (feet: number) => `${round(feet)}'`;
+
+// Opening sizes with how many of each, largest first
+const countBySize = (widths: number[], height: number, label: string, section: BoqSection): BoqItem[] => {
+  const counts = new Map<number, number>();
+  widths.forEach((width) => counts.set(round(width), (counts.get(round(width)) ?? 0) + 1));
+  return [...counts.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([width, count]) => ({ section, description: `${label} ${formatFeet(width)} x ${formatFeet(height)}`, quantity: count, unit: 'nos' }));
+};
+
+export const buildBillOfQuantities = (layout: GeneratedLayout, overrides: Partial<BoqOptions> = {}): BoqItem[] => {
+  const options: BoqOptions = {
+    ...DEFAULT_BOQ_OPTIONS,
+    ...(layout.wallThickness ? { wallThickness: layout.wallThickness } : {}),
+    ...overrides,
+  };
+  const { rooms } = layout;
+  const { total } = measureQuantities(rooms);
+
+  const doors = getUniqueDoors(rooms);
+  const windows = rooms.flatMap((room) => (room.windows ?? []).map((window) => ({ room, window })));
+
+  let exteriorOpenings = 0;
+  let interiorOpenings = 0;
+  for (const { room, door } of doors) {
+    const area = door.width * options.doorHeight;
+    if (isOnExterior(room, door, rooms)) exteriorOpenings += area;
+    else interiorOpenings += area;
+  }
+  for (const { room, window } of windows) {
+    const area = window.width * options.windowHeight;
+    if (isOnExterior(room, window, rooms)) exteriorOpenings += area;
+    else interiorOpenings += area;
+  }
+
+  const exteriorFace = Math.max(0, total.exteriorWallLength * options.floorHeight - exteriorOpenings);
+  const interiorFace = Math.max(0, total.interiorWallLength * options.floorHeight - interiorOpenings);
+  const exteriorVolume = exteriorFace * options.wallThickness;
+  const interiorVolume = interiorFace * options.wallThickness;
+  const thickness = `${round(options.wallThickness * 12)}" thick`;
+
+  const flooring = (Object.keys(ROOM_COLORS) as RoomType[])
+    .map((type) => ({
+      type,
+      area: rooms.filter((room) => room.type === type).reduce((sum, room) => sum + room.width * room.height, 0),
+    }))
+    .filter(({ area }) => area > 0);
+
+  const mainDoors = doors.filter(({ door }) => door.isMain).map(({ door }) => door.width);
+  const otherDoors = doors.filter(({ door }) => !door.isMain).map(({ door }) => door.width);
+
+  return [
+    { section: 'Masonry', description: `Exterior walls, ${thickness}`, quantity: round(exteriorVolume), unit: 'cu.ft' },
+    { section: 'Masonry', description: `Interior walls, ${thickness}`, quantity: round(interiorVolume), unit: 'cu.ft' },
+    {
+      section: 'Masonry',
+      description: `Bricks, incl. ${Math.round(options.brickWastage * 100)}% wastage`,
+      quantity: Math.ceil((exteriorVolume + interiorVolume) * options.bricksPerCubicFoot * (1 + options.brickWastage)),
+      unit: 'nos',
+    },
+    // Outside walls are plastered on their inner face here and on the outer face below
+    { section: 'Plaster', description: 'Internal plaster', quantity: round(exteriorFace + interiorFace * 2), unit: 'sq.ft' },
+    { section: 'Plaster', description: 'External plaster', quantity: round(exteriorFace), unit: 'sq.ft' },
+    ...flooring.map(({ type, area }): BoqItem => ({ section: 'Flooring', description: ROOM_NAMES[type], quantity: round(area), unit: 'sq.ft' })),
+    ...countBySize(mainDoors, options.doorHeight, 'Main door', 'Doors'),
+    ...countBySize(otherDoors, options.doorHeight, 'Door', 'Doors'),
+    ...countBySize(windows.map(({ window }) => window.width), options.windowHeight, 'Window', 'Windows'),
+  ];
+};
@@ -0,0 +1,41 @@
+import { BoqItem } from './billOfQuantities.ts';
+
+const HEADERS = ['Section', 'Description', 'Quantity', 'Unit'];
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const boqToCsv = (items: BoqItem[]): string =>
+  [HEADERS, ...items.map((item) => [item.section, item.description, item.quantity, item.unit])]
+    .map((row) => row.map(csvCell).join(','))
+    .join('\r\n');
+
+const xmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const xmlCell = (value: string | number) =>
+  typeof value === 'number'
+    ? `<Cell><Data ss:Type="Number">${value}</Data></Cell>`
+    : `<Cell><Data ss:Type="String">${xmlEscape(value)}</Data></Cell>`;
+
+// SpreadsheetML (Excel 2003 XML), which Excel and LibreOffice open as a
+// workbook with numeric quantity cells and no zip library needed
+export const boqToSpreadsheet = (items: BoqItem[], sheetName = 'Bill of Quantities'): string => {
+  const rows = [HEADERS, ...items.map((item) => [item.section, item.description, item.quantity, item.unit])]
+    .map((row) => `<Row>${row.map(xmlCell).join('')}</Row>`)
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    `<Worksheet ss:Name="${xmlEscape(sheetName.slice(0, 31))}">`,
+    '<Table>',
+    rows,
+    '</Table>',
+    '</Worksheet>',
+    '</Workbook>',
+  ].join('\n');
+};
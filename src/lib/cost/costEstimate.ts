@@ -0,0 +1,97 @@
+import { Room } from '../../types/floorPlan.ts';
+import { LayoutQuantities, measureQuantities } from '../layout/quantities.ts';
+import { BudgetTier, CostRateTables, DEFAULT_RATE_TABLES, STYLE_FINISH_FACTORS, getBudgetTier } from './rateTables.ts';
+
+export type CostCategory = 'structure' | 'masonry' | 'flooring' | 'finishes' | 'mep';
+
+export const COST_CATEGORIES: CostCategory[] = ['structure', 'masonry', 'flooring', 'finishes', 'mep'];
+
+export const COST_CATEGORY_NAMES: Record<CostCategory, string> = {
+  structure: 'Structure',
+  masonry: 'Masonry',
+  flooring: 'Flooring',
+  finishes: 'Finishes',
+  mep: 'MEP',
+};
+
+export interface CostLine {
+  category: CostCategory;
+  item: string;
+  quantity: number;
+  unit: string;
+  rate: number;
+  amount: number;
+}
+
+export interface CostEstimate {
+  tier: BudgetTier;
+  style: string;
+  currency: string;
+  quantities: LayoutQuantities;
+  lines: CostLine[];
+  categories: { category: CostCategory; amount: number }[];
+  total: number;
+  perSqFt: number;
+}
+
+export interface CostEstimateInput {
+  budgetRange: string;
+  style: string;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Cost of a layout at the rates for its budget range. Wall areas are gross;
+// openings are not deducted, which roughly pays for lintels and sills.
+export const estimateCost = (rooms: Room[], input: CostEstimateInput, tables: CostRateTables = DEFAULT_RATE_TABLES): CostEstimate => {
+  const tier = getBudgetTier(input.budgetRange);
+  const rates = tables[tier];
+  const styleFactor = STYLE_FINISH_FACTORS[input.style] ?? 1;
+  const quantities = measureQuantities(rooms);
+  const { total } = quantities;
+
+  const exteriorWallArea = round(total.exteriorWallLength * rates.wallHeight);
+  const interiorWallArea = round(total.interiorWallLength * rates.wallHeight);
+
+  const line = (category: CostCategory, item: string, quantity: number, unit: string, rate: number): CostLine => ({
+    category,
+    item,
+    quantity,
+    unit,
+    rate: Math.round(rate),
+    amount: Math.round(quantity * rate),
+  });
+
+  const lines = [
+    line('structure', 'Foundation, frame and slabs', total.floorArea, 'sq.ft', rates.structure),
+    line('masonry', 'Exterior walls', exteriorWallArea, 'sq.ft', rates.exteriorWall),
+    line('masonry', 'Interior walls', interiorWallArea, 'sq.ft', rates.interiorWall),
+    line('flooring', 'Floor finish', total.floorArea, 'sq.ft', rates.flooring * styleFactor),
+    // Both faces of every wall are plastered and painted
+    line('finishes', 'Plaster and paint', round((exteriorWallArea + interiorWallArea) * 2), 'sq.ft', rates.wallFinish * styleFactor),
+    line('finishes', 'Doors', total.doors, 'nos', rates.door * styleFactor),
+    line('finishes', 'Windows', total.windows, 'nos', rates.window * styleFactor),
+    line('mep', 'Electrical', total.floorArea, 'sq.ft', rates.electrical),
+    line('mep', 'Plumbing and sanitary', total.wetRooms, 'nos', rates.plumbing),
+  ];
+
+  const categories = COST_CATEGORIES.map((category) => ({
+    category,
+    amount: lines.filter((entry) => entry.category === category).reduce((sum, entry) => sum + entry.amount, 0),
+  }));
+  const sum = categories.reduce((acc, entry) => acc + entry.amount, 0);
+
+  return {
+    tier,
+    style: input.style,
+    currency: rates.currency,
+    quantities,
+    lines,
+    categories,
+    total: sum,
+    perSqFt: total.floorArea > 0 ? Math.round(sum / total.floorArea) : 0,
+  };
+};
+
+export const formatCost = (amount: number, currency: string): string =>
+  `${currency} ${Math.round(amount).toLocaleString(currency === 'INR' ? 'en-IN' : 'en-US')}`;
@@ -0,0 +1,95 @@
+// Per-unit construction rates for each budget range. Defaults are indicative
+// Indian rates for a framed RCC house; users edit them in the viewer.
+
+export type BudgetTier = 'economy' | 'medium' | 'premium' | 'luxury';
+
+export interface CostRates {
+  currency: string;
+  wallHeight: number; // ft, floor to floor
+  structure: number; // per sq ft of floor: foundation, frame and slab
+  exteriorWall: number; // per sq ft of exterior wall
+  interiorWall: number; // per sq ft of interior wall
+  flooring: number; // per sq ft of floor
+  wallFinish: number; // per sq ft of wall face: plaster and paint
+  door: number; // each, with frame and hardware
+  window: number; // each, glazed
+  electrical: number; // per sq ft of floor
+  plumbing: number; // per wet room, with fixtures
+}
+
+export type CostRateTables = Record<BudgetTier, CostRates>;
+
+export const BUDGET_TIERS: BudgetTier[] = ['economy', 'medium', 'premium', 'luxury'];
+
+export const BUDGET_TIER_NAMES: Record<BudgetTier, string> = {
+  economy: 'Economy',
+  medium: 'Medium',
+  premium: 'Premium',
+  luxury: 'Luxury',
+};
+
+export const DEFAULT_RATE_TABLES: CostRateTables = {
+  economy: {
+    currency: 'INR',
+    wallHeight: 10,
+    structure: 900,
+    exteriorWall: 95,
+    interiorWall: 70,
+    flooring: 80,
+    wallFinish: 45,
+    door: 9000,
+    window: 6000,
+    electrical: 120,
+    plumbing: 35000,
+  },
+  medium: {
+    currency: 'INR',
+    wallHeight: 10,
+    structure: 1100,
+    exteriorWall: 110,
+    interiorWall: 80,
+    flooring: 140,
+    wallFinish: 65,
+    door: 15000,
+    window: 10000,
+    electrical: 170,
+    plumbing: 60000,
+  },
+  premium: {
+    currency: 'INR',
+    wallHeight: 10.5,
+    structure: 1300,
+    exteriorWall: 130,
+    interiorWall: 95,
+    flooring: 260,
+    wallFinish: 95,
+    door: 28000,
+    window: 18000,
+    electrical: 240,
+    plumbing: 110000,
+  },
+  luxury: {
+    currency: 'INR',
+    wallHeight: 11,
+    structure: 1600,
+    exteriorWall: 160,
+    interiorWall: 115,
+    flooring: 480,
+    wallFinish: 150,
+    door: 55000,
+    window: 35000,
+    electrical: 360,
+    plumbing: 220000,
+  },
+};
+
+// Flooring, finishes and joinery cost more in some styles than others
+export const STYLE_FINISH_FACTORS: Record<string, number> = {
+  modern: 1,
+  contemporary: 1.05,
+  traditional: 1.15,
+  minimalist: 0.9,
+};
+
+export const getBudgetTier = (budgetRange: string): BudgetTier =>
+  BUDGET_TIERS.includes(budgetRange as BudgetTier) ? (budgetRange as BudgetTier) : 'medium';
@@ -1,5 +1,15 @@
 import jsPDF from 'jspdf';
-import { FormData, GeneratedLayout, Room } from '@/types/floorPlan';
+import { Door, FormData, Furniture, GeneratedLayout, PlotVertex, Room, Window } from '@/types/floorPlan';
+import { COST_CATEGORY_NAMES, CostEstimate, estimateCost, formatCost } from '@/lib/cost/costEstimate';
+import { BUDGET_TIER_NAMES } from '@/lib/cost/rateTables';
+import { computeAreaMetrics, getCarpetArea } from '@/lib/layout/areaMetrics';
+import { analyzeCirculation } from '@/lib/layout/circulation';
+import { getBuildableEnvelope, getRoadSides, hasSetbacks } from '@/lib/layout/envelope';
+import { getFurnitureBackSide, getFurnitureFootprint, getRoomFurniture } from '@/lib/layout/furniture';
+import { OpeningFrame, OpeningPrimitive, Point, SymbolStroke, getDoorSymbol, getWindowSymbol } from '@/lib/layout/openingSymbols';
+import { COMPASS_NAMES, getCompassPoint, getFacing, getNorthAngle } from '@/lib/layout/orientation';
+import { getPlotPolygon, getPolygonArea, getPolygonEdges, isRectangularPolygon } from '@/lib/layout/plotPolygon';
+import { VastuStatus, buildVastuReport, describeVastuReport } from '@/lib/layout/vastu';
 
 type WallSide = 'top' | 'bottom' | 'left' | 'right';
 
@@ -41,63 +51,69 @@ const hasAdjacentRoom = (room: Room, side: WallSide, rooms: Room[]): boolean =>
   });
 };
 
-const drawDoorMarker = (
-  doc: jsPDF,
-  options: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    scale: number;
-    door: NonNullable<Room['doors']>[number];
-    isExteriorTop: boolean;
-    isExteriorBottom: boolean;
-    isExteriorLeft: boolean;
-    isExteriorRight: boolean;
-  }
-): void => {
-  const { x, y, width, height, scale, door, isExteriorTop, isExteriorBottom, isExteriorLeft, isExteriorRight } = options;
-  const openingLength = Math.max(door.width * scale, 2.2);
-
-  const getWallWidth = (isExterior: boolean) => (isExterior ? 0.65 : 0.35);
-
-  doc.setDrawColor(240, 248, 255);
+const SYMBOL_LINE_WIDTHS: Record<SymbolStroke, number> = { frame: 0.3, leaf: 0.2, guide: 0.12 };
 
-  if (door.position === 'top' || door.position === 'bottom') {
-    const maxStart = Math.max(0, width - openingLength);
-    const openingStart = Math.max(0, Math.min((door.offset / 100) * width, maxStart));
-    const sx = x + openingStart;
-    const ex = sx + Math.min(openingLength, width);
-    const yEdge = door.position === 'top' ? y : y + height;
-    const wallWidth = getWallWidth(door.position === 'top' ? isExteriorTop : isExteriorBottom);
+// Door and window symbols from the catalog; arcs go in as short straight runs
+const drawOpeningSymbol = (doc: jsPDF, shapes: OpeningPrimitive[], emphasis = 1): void => {
+  shapes.forEach((shape) => {
+    doc.setDrawColor(70, 80, 100);
+    doc.setLineWidth(SYMBOL_LINE_WIDTHS[shape.stroke] * emphasis);
+    if (shape.dashed) doc.setLineDashPattern([0.6, 0.5], 0);
+
+    let points: Point[] = shape.kind === 'line' ? shape.points : [];
+    if (shape.kind === 'arc') {
+      const { center, from, to } = shape;
+      const startAngle = Math.atan2(from[1] - center[1], from[0] - center[0]);
+      let sweep = Math.atan2(to[1] - center[1], to[0] - center[0]) - startAngle;
+      if (sweep > Math.PI) sweep -= Math.PI * 2;
+      if (sweep < -Math.PI) sweep += Math.PI * 2;
+      points = Array.from({ length: 9 }, (_, i): Point => {
+        const angle = startAngle + (sweep * i) / 8;
+        return [center[0] + Math.cos(angle) * shape.radius, center[1] + Math.sin(angle) * shape.radius];
+      });
+    }
+    points.slice(1).forEach((point, i) => doc.line(points[i][0], points[i][1], point[0], point[1]));
 
-    doc.setLineWidth(wallWidth + 0.3);
-    doc.line(sx, yEdge, ex, yEdge);
+    if (shape.dashed) doc.setLineDashPattern([], 0);
+  });
+};
 
-    doc.setDrawColor(70, 80, 100);
-    doc.setLineWidth(0.2);
-    const swingY = door.position === 'top' ? yEdge + openingLength * 0.45 : yEdge - openingLength * 0.45;
-    doc.line(sx, yEdge, sx + openingLength * 0.7, swingY);
+// Furniture outlines at catalog size, with a line across the back so the
+// way a piece faces reads on paper
+const drawFurnitureMarker = (doc: jsPDF, options: { x: number; y: number; scale: number; room: Room; piece: Furniture }): void => {
+  const { x, y, scale, room, piece } = options;
+  const footprint = getFurnitureFootprint(room, piece);
+  const fx = x + footprint.x * scale;
+  const fy = y + footprint.y * scale;
+  const fw = footprint.width * scale;
+  const fh = footprint.height * scale;
+
+  doc.setDrawColor(150, 160, 175);
+  doc.setLineWidth(0.12);
+  if (piece.type === 'plants') {
+    doc.circle(fx + fw / 2, fy + fh / 2, Math.min(fw, fh) / 2);
     return;
   }
-
-  const maxStart = Math.max(0, height - openingLength);
-  const openingStart = Math.max(0, Math.min((door.offset / 100) * height, maxStart));
-  const sy = y + openingStart;
-  const ey = sy + Math.min(openingLength, height);
-  const xEdge = door.position === 'left' ? x : x + width;
-  const wallWidth = getWallWidth(door.position === 'left' ? isExteriorLeft : isExteriorRight);
-
-  doc.setLineWidth(wallWidth + 0.3);
-  doc.line(xEdge, sy, xEdge, ey);
-
-  doc.setDrawColor(70, 80, 100);
-  doc.setLineWidth(0.2);
-  const swingX = door.position === 'left' ? xEdge + openingLength * 0.45 : xEdge - openingLength * 0.45;
-  doc.line(xEdge, sy, swingX, sy + openingLength * 0.7);
+  doc.rect(fx, fy, fw, fh);
+
+  const band = 0.2;
+  switch (getFurnitureBackSide(piece)) {
+    case 'top':
+      doc.line(fx, fy + fh * band, fx + fw, fy + fh * band);
+      break;
+    case 'bottom':
+      doc.line(fx, fy + fh * (1 - band), fx + fw, fy + fh * (1 - band));
+      break;
+    case 'left':
+      doc.line(fx + fw * band, fy, fx + fw * band, fy + fh);
+      break;
+    case 'right':
+      doc.line(fx + fw * (1 - band), fy, fx + fw * (1 - band), fy + fh);
+      break;
+  }
 };
 
-const drawWindowMarker = (
+const drawOpeningMarker = (
   doc: jsPDF,
   options: {
     x: number;
@@ -105,58 +121,48 @@ const drawWindowMarker = (
     width: number;
     height: number;
     scale: number;
-    window: NonNullable<Room['windows']>[number];
+    opening: Door | Window;
+    kind: 'door' | 'window';
     isExteriorTop: boolean;
     isExteriorBottom: boolean;
     isExteriorLeft: boolean;
     isExteriorRight: boolean;
   }
 ): void => {
-  const { x, y, width, height, scale, window, isExteriorTop, isExteriorBottom, isExteriorLeft, isExteriorRight } = options;
-  const openingLength = Math.max(window.width * scale, 2.4);
-
-  const getWallWidth = (isExterior: boolean) => (isExterior ? 0.65 : 0.35);
-
+  const { x, y, width, height, scale, opening, kind, isExteriorTop, isExteriorBottom, isExteriorLeft, isExteriorRight } = options;
+  const isHorizontal = opening.position === 'top' || opening.position === 'bottom';
+  const wallLength = isHorizontal ? width : height;
+  const openingLength = Math.min(Math.max(opening.width * scale, kind === 'door' ? 2.2 : 2.4), wallLength);
+  const maxStart = Math.max(0, wallLength - openingLength);
+  const openingStart = Math.max(0, Math.min((opening.offset / 100) * wallLength, maxStart));
+
+  const exterior = {
+    top: isExteriorTop,
+    bottom: isExteriorBottom,
+    left: isExteriorLeft,
+    right: isExteriorRight,
+  }[opening.position];
+
+  // Clear the wall across the opening before drawing its symbol
+  const sx = isHorizontal ? x + openingStart : opening.position === 'left' ? x : x + width;
+  const sy = isHorizontal ? (opening.position === 'top' ? y : y + height) : y + openingStart;
   doc.setDrawColor(240, 248, 255);
-
-  if (window.position === 'top' || window.position === 'bottom') {
-    const maxStart = Math.max(0, width - openingLength);
-    const openingStart = Math.max(0, Math.min((window.offset / 100) * width, maxStart));
-    const sx = x + openingStart;
-    const ex = sx + Math.min(openingLength, width);
-    const yEdge = window.position === 'top' ? y : y + height;
-    const wallWidth = getWallWidth(window.position === 'top' ? isExteriorTop : isExteriorBottom);
-
-    doc.setLineWidth(wallWidth + 0.25);
-    doc.line(sx, yEdge, ex, yEdge);
-
-    doc.setDrawColor(80, 90, 110);
-    doc.setLineWidth(0.15);
-    doc.line(sx, yEdge - 0.35, ex, yEdge - 0.35);
-    doc.line(sx, yEdge + 0.35, ex, yEdge + 0.35);
-    return;
+  doc.setLineWidth((exterior ? 0.65 : 0.35) + (kind === 'door' ? 0.3 : 0.25));
+  doc.line(sx, sy, isHorizontal ? sx + openingLength : sx, isHorizontal ? sy : sy + openingLength);
+
+  const frame: OpeningFrame = { side: opening.position, x, y, width, height, start: openingStart, length: openingLength, unit: scale };
+  if (kind === 'door') {
+    drawOpeningSymbol(doc, getDoorSymbol(opening as Door, frame), (opening as Door).isMain ? 1.5 : 1);
+  } else {
+    drawOpeningSymbol(doc, getWindowSymbol(opening as Window, frame));
   }
-
-  const maxStart = Math.max(0, height - openingLength);
-  const openingStart = Math.max(0, Math.min((window.offset / 100) * height, maxStart));
-  const sy = y + openingStart;
-  const ey = sy + Math.min(openingLength, height);
-  const xEdge = window.position === 'left' ? x : x + width;
-  const wallWidth = getWallWidth(window.position === 'left' ? isExteriorLeft : isExteriorRight);
-
-  doc.setLineWidth(wallWidth + 0.25);
-  doc.line(xEdge, sy, xEdge, ey);
-
-  doc.setDrawColor(80, 90, 110);
-  doc.setLineWidth(0.15);
-  doc.line(xEdge - 0.35, sy, xEdge - 0.35, ey);
-  doc.line(xEdge + 0.35, sy, xEdge + 0.35, ey);
 };
 
 export function generateBlueprintPDF(
   formData: FormData,
   layout: GeneratedLayout,
-  selectedFloor?: number
+  selectedFloor?: number,
+  costEstimate?: CostEstimate
 ): void {
   const doc = new jsPDF({
     orientation: 'landscape',
@@ -173,6 +179,11 @@ export function generateBlueprintPDF(
     ? selectedFloor
     : (availableFloors[0] ?? 1);
   const floorRooms = layout.rooms.filter((room) => (room.floor ?? 1) === activeFloor);
+  const metrics = computeAreaMetrics(
+    layout.rooms,
+    getPolygonArea(getPlotPolygon({ plotLength: parseFloat(formData.plotLength) || 60, plotWidth: parseFloat(formData.plotWidth) || 40, plotPolygon: formData.plotPolygon })),
+    { wallThickness: layout.wallThickness }
+  );
   doc.setFillColor(250, 250, 252);
   doc.rect(0, 0, pageWidth, pageHeight, 'F');
 
@@ -207,7 +218,10 @@ export function generateBlueprintPDF(
     `Floors: ${formData.floors} | PDF Floor: ${activeFloor}`,
     `Style: ${formData.style.charAt(0).toUpperCase() + formData.style.slice(1)}`,
     `Budget: ${formData.budgetRange.charAt(0).toUpperCase() + formData.budgetRange.slice(1)}`,
-    `Vastu: ${formData.vastuCompliant ? 'Yes' : 'No'}`,
+    `Vastu: ${formData.vastuCompliant ? 'Yes' : 'No'} | Facing: ${COMPASS_NAMES[getCompassPoint(getFacing(formData))]} (${getFacing(formData)}°)`,
+    ...(hasSetbacks(formData)
+      ? [`Setbacks: back ${formData.setbacks.top}, front ${formData.setbacks.bottom}, sides ${formData.setbacks.left}/${formData.setbacks.right} ft`]
+      : []),
   ];
   
   specs.forEach((spec, i) => {
@@ -226,6 +240,7 @@ export function generateBlueprintPDF(
   doc.text('Room', margin, scheduleY + 12);
   doc.text('Size (ft)', margin + 40, scheduleY + 12);
   doc.text('Area (sq.ft)', margin + 65, scheduleY + 12);
+  doc.text('Carpet', margin + 85, scheduleY + 12);
 
   doc.setFont('helvetica', 'normal');
   floorRooms.forEach((room, i) => {
@@ -234,6 +249,7 @@ export function generateBlueprintPDF(
       doc.text(room.name, margin, y);
       doc.text(`${room.width.toFixed(1)} × ${room.height.toFixed(1)}`, margin + 40, y);
       doc.text((room.width * room.height).toFixed(1), margin + 65, y);
+      doc.text(getCarpetArea(room, layout.wallThickness).toFixed(1), margin + 85, y);
     }
   });
 
@@ -259,8 +275,10 @@ export function generateBlueprintPDF(
   }
 
   // Calculate scale
-  const plotWidth = parseInt(formData.plotWidth) || 40;
-  const plotLength = parseInt(formData.plotLength) || 60;
+  const plotWidth = parseFloat(formData.plotWidth) || 40;
+  const plotLength = parseFloat(formData.plotLength) || 60;
+  const plotPolygon = getPlotPolygon({ plotLength, plotWidth, plotPolygon: formData.plotPolygon });
+  const plotEdges = getPolygonEdges(plotPolygon);
   const scaleX = (planWidth - 20) / plotLength;
   const scaleY = (planHeight - 20) / plotWidth;
   const scale = Math.min(scaleX, scaleY);
@@ -268,10 +286,45 @@ export function generateBlueprintPDF(
   const offsetX = planX + 10 + (planWidth - 20 - plotLength * scale) / 2;
   const offsetY = planY + 10 + (planHeight - 20 - plotWidth * scale) / 2;
 
+  // Setback margins drawn as landscaped zones around the buildable envelope
+  const toPage = (vertex: PlotVertex) => ({ x: offsetX + vertex.x * scale, y: offsetY + vertex.y * scale });
+  const fillPolygon = (vertices: PlotVertex[], style: 'F' | 'FD') => {
+    const points = vertices.map(toPage);
+    const deltas = points.slice(1).map((point, i) => [point.x - points[i].x, point.y - points[i].y]);
+    doc.lines(deltas, points[0].x, points[0].y, [1, 1], style, true);
+  };
+  const envelope = hasSetbacks(formData)
+    ? getBuildableEnvelope({ plotLength, plotWidth, plotPolygon: formData.plotPolygon, setbacks: formData.setbacks })
+    : null;
+  if (envelope) {
+    doc.setFillColor(220, 242, 220);
+    fillPolygon(plotPolygon, 'F');
+    doc.setFillColor(255, 255, 255);
+    doc.setDrawColor(100, 116, 139);
+    doc.setLineWidth(0.3);
+    doc.setLineDashPattern([2, 1.5], 0);
+    fillPolygon(envelope, 'FD');
+    doc.setLineDashPattern([], 0);
+  }
+
+  // Road frontage
+  doc.setFontSize(7);
+  doc.setTextColor(100, 116, 139);
+  getRoadSides(formData).forEach((side) => {
+    const drawnWidth = plotLength * scale;
+    const drawnHeight = plotWidth * scale;
+    if (side === 'top') doc.text('ROAD', offsetX + drawnWidth / 2, offsetY - 9, { align: 'center' });
+    if (side === 'bottom') doc.text('ROAD', offsetX + drawnWidth / 2, offsetY + drawnHeight + 6, { align: 'center' });
+    if (side === 'left') doc.text('ROAD', offsetX - 9, offsetY + drawnHeight / 2 + 4, { angle: 90 });
+    if (side === 'right') doc.text('ROAD', offsetX + drawnWidth + 6, offsetY + drawnHeight / 2 - 4, { angle: -90 });
+  });
+
   // Plot outline
   doc.setDrawColor(30, 41, 59);
   doc.setLineWidth(0.8);
-  doc.rect(offsetX, offsetY, plotLength * scale, plotWidth * scale);
+  plotEdges.forEach(({ start, end }) => {
+    doc.line(offsetX + start.x * scale, offsetY + start.y * scale, offsetX + end.x * scale, offsetY + end.y * scale);
+  });
 
   // Draw rooms in architectural style (walls + openings)
   floorRooms.forEach((room) => {
@@ -301,13 +354,14 @@ export function generateBlueprintPDF(
     drawWall(rx + rw, ry, rx + rw, ry + rh, !adjacentRight);
 
     (room.doors ?? []).forEach((door) => {
-      drawDoorMarker(doc, {
+      drawOpeningMarker(doc, {
         x: rx,
         y: ry,
         width: rw,
         height: rh,
         scale,
-        door,
+        opening: door,
+        kind: 'door',
         isExteriorTop: !adjacentTop,
         isExteriorBottom: !adjacentBottom,
         isExteriorLeft: !adjacentLeft,
@@ -316,13 +370,14 @@ export function generateBlueprintPDF(
     });
 
     (room.windows ?? []).forEach((window) => {
-      drawWindowMarker(doc, {
+      drawOpeningMarker(doc, {
         x: rx,
         y: ry,
         width: rw,
         height: rh,
         scale,
-        window,
+        opening: window,
+        kind: 'window',
         isExteriorTop: !adjacentTop,
         isExteriorBottom: !adjacentBottom,
         isExteriorLeft: !adjacentLeft,
@@ -330,6 +385,10 @@ export function generateBlueprintPDF(
       });
     });
 
+    getRoomFurniture(room, layout.wallThickness, layout.rooms).forEach((piece) => {
+      drawFurnitureMarker(doc, { x: rx, y: ry, scale, room, piece });
+    });
+
     if (rw > 10 && rh > 8) {
       doc.setFontSize(6.5);
       doc.setTextColor(35, 45, 60);
@@ -348,46 +407,81 @@ export function generateBlueprintPDF(
   doc.setDrawColor(100, 100, 120);
   doc.setLineWidth(0.2);
   
-  // Horizontal dimension
-  const dimY = offsetY - 5;
-  doc.line(offsetX, dimY, offsetX + plotLength * scale, dimY);
-  doc.line(offsetX, dimY - 2, offsetX, dimY + 2);
-  doc.line(offsetX + plotLength * scale, dimY - 2, offsetX + plotLength * scale, dimY + 2);
-  
   doc.setFontSize(8);
   doc.setTextColor(60, 60, 80);
-  doc.text(`${plotLength} ft`, offsetX + (plotLength * scale) / 2, dimY - 2, { align: 'center' });
 
-  // Vertical dimension
-  const dimX = offsetX - 5;
-  doc.line(dimX, offsetY, dimX, offsetY + plotWidth * scale);
-  doc.line(dimX - 2, offsetY, dimX + 2, offsetY);
-  doc.line(dimX - 2, offsetY + plotWidth * scale, dimX + 2, offsetY + plotWidth * scale);
-  
-  // Draw vertical text manually
-  const verticalText = `${plotWidth} ft`;
-  const textY = offsetY + (plotWidth * scale) / 2;
-  doc.text(verticalText, dimX - 3, textY, { angle: 90 });
+  if (isRectangularPolygon(plotPolygon)) {
+    // Horizontal dimension
+    const dimY = offsetY - 5;
+    doc.line(offsetX, dimY, offsetX + plotLength * scale, dimY);
+    doc.line(offsetX, dimY - 2, offsetX, dimY + 2);
+    doc.line(offsetX + plotLength * scale, dimY - 2, offsetX + plotLength * scale, dimY + 2);
+
+    doc.text(`${plotLength} ft`, offsetX + (plotLength * scale) / 2, dimY - 2, { align: 'center' });
+
+    // Vertical dimension
+    const dimX = offsetX - 5;
+    doc.line(dimX, offsetY, dimX, offsetY + plotWidth * scale);
+    doc.line(dimX - 2, offsetY, dimX + 2, offsetY);
+    doc.line(dimX - 2, offsetY + plotWidth * scale, dimX + 2, offsetY + plotWidth * scale);
+
+    // Draw vertical text manually
+    const verticalText = `${plotWidth} ft`;
+    const textY = offsetY + (plotWidth * scale) / 2;
+    doc.text(verticalText, dimX - 3, textY, { angle: 90 });
+  } else {
+    // One label per boundary edge, just outside the plot and along the edge
+    plotEdges.forEach(({ start, end, length, normal }) => {
+      if (length === 0) return;
+      const ux = (end.x - start.x) / length;
+      const uy = (end.y - start.y) / length;
+      const midX = (start.x + end.x) / 2;
+      const midY = (start.y + end.y) / 2;
+      let angle = (-Math.atan2(uy, ux) * 180) / Math.PI;
+      if (angle > 90 || angle <= -90) angle += 180;
+
+      // Rotated text is anchored at its start, so back up half its width along the edge
+      const label = `${length.toFixed(1)} ft`;
+      const halfWidth = doc.getTextWidth(label) / 2;
+      const radians = (angle * Math.PI) / 180;
+      doc.text(
+        label,
+        offsetX + midX * scale + normal.x * 4 - Math.cos(radians) * halfWidth,
+        offsetY + midY * scale + normal.y * 4 + Math.sin(radians) * halfWidth,
+        { angle }
+      );
+    });
+  }
 
-  // North Arrow
+  // North Arrow, turned to the plot's facing around its center
   const arrowX = planX + planWidth - 15;
-  const arrowY = planY + 15;
+  const arrowY = planY + 13;
+  const northRadians = (getNorthAngle(formData) * Math.PI) / 180;
+  const turn = (dx: number, dy: number) => ({
+    x: arrowX + dx * Math.cos(northRadians) - dy * Math.sin(northRadians),
+    y: arrowY + dx * Math.sin(northRadians) + dy * Math.cos(northRadians),
+  });
+  const [tip, baseLeft, baseRight, label] = [turn(0, -6), turn(-4, 2), turn(4, 2), turn(0, 8)];
   doc.setFillColor(30, 41, 59);
-  doc.triangle(arrowX, arrowY - 8, arrowX - 4, arrowY, arrowX + 4, arrowY, 'F');
+  doc.triangle(tip.x, tip.y, baseLeft.x, baseLeft.y, baseRight.x, baseRight.y, 'F');
   doc.setFontSize(10);
   doc.setTextColor(30, 41, 59);
   doc.setFont('helvetica', 'bold');
-  doc.text('N', arrowX, arrowY + 6, { align: 'center' });
+  doc.text('N', label.x, label.y, { align: 'center', baseline: 'middle' });
 
   // Scale bar
   doc.setFontSize(7);
   doc.setFont('helvetica', 'normal');
   doc.text(`Scale: 1" = ${(25.4 / scale).toFixed(1)} ft`, planX + planWidth - 5, planY + planHeight + 5, { align: 'right' });
 
-  // Efficiency rating
+  // Area statement for the whole building
   doc.setFontSize(10);
   doc.setTextColor(30, 41, 59);
-  doc.text(`Space Efficiency: ${(layout.efficiency * 100).toFixed(0)}%`, margin, pageHeight - margin - 5);
+  doc.text(
+    `Carpet ${metrics.carpetArea} | Built-up ${metrics.builtUpArea} | Super built-up ${metrics.superBuiltUpArea} sq.ft | Efficiency ${(metrics.efficiency * 100).toFixed(0)}% | FSI ${metrics.fsi.toFixed(2)} | Ground coverage ${(metrics.groundCoverage * 100).toFixed(0)}% | Circulation ${(metrics.circulationRatio * 100).toFixed(0)}%`,
+    margin,
+    pageHeight - margin - 5
+  );
 
   // AI Suggestions
   if (layout.suggestions.length > 0) {
@@ -404,6 +498,27 @@ export function generateBlueprintPDF(
     });
   }
 
+  // Circulation check for the whole house
+  const circulationIssues = analyzeCirculation(layout.rooms);
+  const circulationY = scheduleY + 110;
+  doc.setTextColor(30, 41, 59);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text('CIRCULATION', margin, circulationY);
+  doc.line(margin, circulationY + 2, margin + 80, circulationY + 2);
+
+  doc.setFontSize(7);
+  doc.setFont('helvetica', 'normal');
+  const circulationLines = circulationIssues.length > 0
+    ? circulationIssues.flatMap((issue) => doc.splitTextToSize(`• ${issue.message}`, 95) as string[])
+    : ['Every room can be reached from the main entrance.'];
+  circulationLines.slice(0, 12).forEach((line, i) => {
+    doc.text(line, margin, circulationY + 10 + i * 4);
+  });
+  if (circulationLines.length > 12) {
+    doc.text(`…and ${circulationLines.length - 12} more line(s)`, margin, circulationY + 10 + 12 * 4);
+  }
+
   // Footer
   doc.setFillColor(30, 41, 59);
   doc.rect(margin, pageHeight - margin, pageWidth - margin * 2, 8, 'F');
@@ -411,6 +526,105 @@ export function generateBlueprintPDF(
   doc.setFontSize(7);
   doc.text('This is a computer-generated blueprint for conceptual purposes. Consult a licensed architect for construction.', pageWidth / 2, pageHeight - margin + 5, { align: 'center' });
 
+  // Vastu report on its own page
+  if (formData.vastuCompliant) {
+    const checks = buildVastuReport(layout.rooms, {
+      plotLength: parseFloat(formData.plotLength) || 60,
+      plotWidth: parseFloat(formData.plotWidth) || 40,
+      facing: formData.facing,
+      roadSides: formData.roadSides,
+    });
+    const resultColors: Record<VastuStatus, [number, number, number]> = { pass: [22, 163, 74], warn: [217, 119, 6], fail: [220, 38, 38] };
+
+    doc.addPage();
+    doc.setFillColor(30, 41, 59);
+    doc.rect(margin, margin, pageWidth - margin * 2, 25, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text('VASTU COMPLIANCE REPORT', margin + 10, margin + 16);
+
+    const reportY = margin + 40;
+    doc.setTextColor(30, 41, 59);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(describeVastuReport(checks), margin, reportY);
+    doc.text(`Facing: ${COMPASS_NAMES[getCompassPoint(getFacing(formData))]} (${getFacing(formData)}°). Zones are the nine padas of the plot.`, margin, reportY + 6);
+
+    const columns = [margin, margin + 20, margin + 70, margin + 130, margin + 160, margin + 200];
+    doc.setFont('helvetica', 'bold');
+    ['Floor', 'Item', 'Room', 'Zone', 'Recommended', 'Result'].forEach((title, i) => doc.text(title, columns[i], reportY + 18));
+    doc.line(margin, reportY + 20, margin + 230, reportY + 20);
+
+    doc.setFont('helvetica', 'normal');
+    checks.forEach((check, i) => {
+      const y = reportY + 27 + i * 6;
+      if (y > pageHeight - margin - 10) return;
+      const room = layout.rooms.find((candidate) => candidate.id === check.roomId);
+      doc.setTextColor(30, 41, 59);
+      doc.text(String(check.floor), columns[0], y);
+      doc.text(check.label, columns[1], y);
+      doc.text(room?.name ?? '', columns[2], y);
+      doc.text(check.zone, columns[3], y);
+      doc.text(check.preferred.join(' / '), columns[4], y);
+      doc.setTextColor(...resultColors[check.status]);
+      doc.text(check.status.toUpperCase(), columns[5], y);
+    });
+  }
+
+  // Cost estimate, at the rates edited in the viewer when given
+  const estimate = costEstimate ?? estimateCost(layout.rooms, formData);
+  doc.addPage();
+  doc.setFillColor(30, 41, 59);
+  doc.rect(margin, margin, pageWidth - margin * 2, 25, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text('CONSTRUCTION COST ESTIMATE', margin + 10, margin + 16);
+
+  const costY = margin + 40;
+  doc.setTextColor(30, 41, 59);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(
+    `${BUDGET_TIER_NAMES[estimate.tier]} budget, ${estimate.style} style: ${formatCost(estimate.total, estimate.currency)} (${formatCost(estimate.perSqFt, estimate.currency)} per sq.ft over ${estimate.quantities.total.floorArea} sq.ft)`,
+    margin,
+    costY
+  );
+
+  const costColumns = [margin, margin + 25, margin + 85, margin + 120, margin + 150];
+  doc.setFont('helvetica', 'bold');
+  ['Trade', 'Item', 'Quantity', 'Rate', 'Amount'].forEach((title, i) => doc.text(title, costColumns[i], costY + 12));
+  doc.line(margin, costY + 14, margin + 185, costY + 14);
+  doc.setFont('helvetica', 'normal');
+  estimate.lines.forEach((line, i) => {
+    const y = costY + 21 + i * 6;
+    doc.text(COST_CATEGORY_NAMES[line.category], costColumns[0], y);
+    doc.text(line.item, costColumns[1], y);
+    doc.text(`${line.quantity} ${line.unit}`, costColumns[2], y);
+    doc.text(formatCost(line.rate, estimate.currency), costColumns[3], y);
+    doc.text(formatCost(line.amount, estimate.currency), costColumns[4], y);
+  });
+
+  // Bar per trade, scaled to the largest
+  const chartX = margin + 215;
+  const chartWidth = pageWidth - margin - chartX;
+  const largest = Math.max(1, ...estimate.categories.map((entry) => entry.amount));
+  doc.setFont('helvetica', 'bold');
+  doc.text('BREAKDOWN BY TRADE', chartX, costY + 12);
+  doc.setFont('helvetica', 'normal');
+  estimate.categories.forEach((entry, i) => {
+    const y = costY + 20 + i * 14;
+    doc.setFillColor(30, 41, 59);
+    doc.rect(chartX, y, Math.max(0.5, ((chartWidth - 20) * entry.amount) / largest), 6, 'F');
+    doc.setTextColor(30, 41, 59);
+    doc.text(`${COST_CATEGORY_NAMES[entry.category]}: ${formatCost(entry.amount, estimate.currency)} (${estimate.total > 0 ? Math.round((entry.amount / estimate.total) * 100) : 0}%)`, chartX, y + 10);
+  });
+
+  doc.setFontSize(8);
+  doc.setTextColor(100, 116, 139);
+  doc.text('Indicative estimate from plan quantities. Excludes land, approvals, site works and taxes.', margin, pageHeight - margin - 5);
+
   // Save
   doc.save(`FloorPlan_${formData.plotLength}x${formData.plotWidth}_${Date.now()}.pdf`);
 }
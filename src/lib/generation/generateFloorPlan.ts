@@ -0,0 +1,153 @@
+import { GeneratedLayout, GenerationProgressEvent, GenerationRequestBody, GenerationResult } from '../../types/floorPlan.ts';
+import { getEfficiency } from '../layout/areaMetrics.ts';
+import { getBuildableEnvelope, getRoadSides, hasSetbacks } from '../layout/envelope.ts';
+import { fillGapsIn100Percent } from '../layout/fillGaps.ts';
+import { parseLayoutResponse } from '../layout/layoutSchema.ts';
+import { getLockedRooms, withoutLockedRooms } from '../layout/lockedRooms.ts';
+import { placeOpenings } from '../layout/openings.ts';
+import { fitRoomsToPolygon, getPlotPolygon, getPolygonArea, isRectangularPolygon } from '../layout/plotPolygon.ts';
+import { resolveOverlaps } from '../layout/resolveOverlaps.ts';
+import { buildVastuReport, describeVastuReport } from '../layout/vastu.ts';
+import { alignVerticalCores } from '../layout/verticalCores.ts';
+import { getVariantCount, rankVariants, solveLayoutVariants } from '../layout/variants.ts';
+import { ChatMessage, LlmProvider } from '../llm/provider.ts';
+import { SYSTEM_PROMPT, buildRepairPrompt, buildUserPrompt } from './prompts.ts';
+
+// Follow-up requests that send validation errors back to the model before falling back
+const MAX_REPAIR_ROUNDS = 2;
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  onProgress?: (event: GenerationProgressEvent) => void;
+}
+
+const emitFloors = (layout: GeneratedLayout, onProgress: GenerateOptions['onProgress']) => {
+  const floors = [...new Set(layout.rooms.map((room) => room.floor))].sort((a, b) => a - b);
+  floors.forEach((floor) => onProgress?.({ type: 'floor', floor, rooms: layout.rooms.filter((room) => room.floor === floor) }));
+};
+
+// Schema-valid layouts may still sit slightly past the plot edge, overlap or leave gaps.
+// Locked rooms from the request replace the model's copies and are never changed.
+function validateAndFixLayout(layout: GeneratedLayout, req: GenerationRequestBody): GeneratedLayout {
+  const plotW = req.plotLength;
+  const plotH = req.plotWidth;
+  const locked = getLockedRooms(req);
+  
+  // Ensure rooms don't exceed plot boundaries
+  const rooms = withoutLockedRooms(layout.rooms, locked).map((room) => {
+    if (room.x + room.width > plotW) {
+      room.width = plotW - room.x;
+    }
+    if (room.y + room.height > plotH) {
+      room.height = plotH - room.y;
+    }
+    return room;
+  });
+  
+  // Non-rectangular plots and setbacks: trim rooms that leave the buildable envelope
+  const polygon = getBuildableEnvelope(req) ?? getPlotPolygon(req);
+  const boundary = hasSetbacks(req) || !isRectangularPolygon(polygon) ? polygon : null;
+  const fitted = boundary ? fitRoomsToPolygon(rooms, boundary) : { rooms, changes: [] };
+  
+  // Line up staircases and plumbing stacks across floors; the moved rooms win any overlaps
+  const aligned = alignVerticalCores([...locked, ...fitted.rooms], plotW, plotH, boundary ?? undefined);
+  
+  // Overlapping rooms would be drawn with double walls, so settle them before filling gaps
+  const resolved = resolveOverlaps(aligned.rooms, plotW, plotH, aligned.pinned);
+  
+  // Fill gaps to ensure 100% coverage
+  const filled = fillGapsIn100Percent(resolved.rooms, plotW, plotH, req.floors, boundary ?? undefined);
+  
+  // Windows only on exterior walls, and a door into every room
+  const opened = placeOpenings(filled, { entranceSides: getRoadSides(req) });
+  layout.rooms = opened.rooms;
+  
+  const changes = [...fitted.changes, ...aligned.changes, ...resolved.changes, ...opened.changes];
+  if (changes.length > 0) {
+    console.log('Adjusted AI rooms:', changes);
+  }
+  
+  layout.totalArea = getPolygonArea(polygon);
+  layout.efficiency = getEfficiency(layout.rooms, layout.wallThickness);
+  if (layout.suggestions.length === 0) {
+    layout.suggestions = ['Layout generated with 100% area utilization'];
+  }
+  // The model's own claims about Vastu are replaced by the checked result
+  layout.suggestions = req.vastuCompliant
+    ? [...layout.suggestions.filter((suggestion) => !/vastu/i.test(suggestion)), describeVastuReport(buildVastuReport(layout.rooms, req)), ...changes]
+    : [...layout.suggestions, ...changes];
+  
+  return layout;
+}
+
+// Ask the model for a layout, repair it if needed, and rank it against solver variants.
+// Provider errors on the first call are rethrown so the caller can report quota problems.
+export async function generateFloorPlan(
+  request: GenerationRequestBody,
+  provider: LlmProvider,
+  options: GenerateOptions = {}
+): Promise<GenerationResult> {
+  const { signal, onProgress } = options;
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: buildUserPrompt(request) },
+  ];
+  onProgress?.({ type: 'step', step: 'prompt', message: 'Prompt built from your requirements' });
+
+  let aiLayout: GeneratedLayout | null = null;
+  for (let round = 0; round <= MAX_REPAIR_ROUNDS; round++) {
+    let content: string;
+    try {
+      content = await provider.complete(messages, { temperature: 0.4, json: true, signal });
+    } catch (error) {
+      // Quota errors on the first call go back to the client; later failures just end the repairs
+      if (round === 0 || signal?.aborted) throw error;
+      console.error(`AI repair round ${round} failed:`, error);
+      break;
+    }
+
+    console.log(`Raw AI response (round ${round}):`, content);
+    onProgress?.({
+      type: 'step',
+      step: 'model',
+      message: round === 0 ? 'Model responded' : `Model responded to repair round ${round}`,
+    });
+
+    const parsed = parseLayoutResponse(content, request);
+    if (parsed.layout) {
+      console.log(round === 0 ? 'AI layout passed validation on the first response' : `AI layout passed validation after repair round ${round}`);
+      onProgress?.({ type: 'step', step: 'validation', message: 'Layout passed validation' });
+      aiLayout = validateAndFixLayout(parsed.layout, request);
+      onProgress?.({ type: 'step', step: 'gap-fill', message: 'Overlaps resolved and gaps filled' });
+      emitFloors(aiLayout, onProgress);
+      break;
+    }
+
+    console.warn(`AI layout failed validation (round ${round}):`, parsed.errors);
+    if (round === MAX_REPAIR_ROUNDS) {
+      console.error(`AI layout still invalid after ${MAX_REPAIR_ROUNDS} repair rounds, using solver variants`);
+      onProgress?.({ type: 'step', step: 'validation', message: 'Model layout rejected, using the layout solver' });
+      break;
+    }
+    onProgress?.({
+      type: 'step',
+      step: 'repair',
+      message: `Layout failed validation with ${parsed.errors.length} problem(s), asking the model to repair it`,
+    });
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: buildRepairPrompt(parsed.errors) },
+    );
+  }
+
+  // The AI layout competes with solver variants; without it the solver fills every slot
+  const variantCount = getVariantCount(request, !!aiLayout);
+  const candidates = aiLayout
+    ? [{ label: 'AI', source: 'ai' as const, layout: aiLayout }, ...solveLayoutVariants(request, variantCount - 1)]
+    : solveLayoutVariants(request, variantCount);
+  const variants = rankVariants(candidates, request);
+  if (!aiLayout) emitFloors(variants[0].layout, onProgress);
+  onProgress?.({ type: 'step', step: 'variants', message: `Ranked ${variants.length} layout option(s)` });
+
+  return { variants };
+}
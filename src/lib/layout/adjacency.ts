@@ -0,0 +1,82 @@
+import { AdjacencyEdge, AdjacencyNode, ROOM_NAMES, Room } from '../../types/floorPlan.ts';
+import { findSharedWall } from './geometry.ts';
+
+// Nodes offered by the bubble-diagram editor
+export const ADJACENCY_NODES: AdjacencyNode[] = [
+  'master-bedroom',
+  'bedroom',
+  'bathroom',
+  'kitchen',
+  'dining',
+  'living',
+  'pooja',
+  'study',
+  'utility',
+  'store',
+  'staircase',
+  'garage',
+  'balcony',
+  'garden',
+];
+
+// Shared walls shorter than this do not count, as in the adjacency score
+const MIN_SHARED_WALL = 0.5;
+
+export interface AdjacencyCheck {
+  edge: AdjacencyEdge;
+  status: 'met' | 'unmet' | 'not-applicable'; // not applicable when no room matches `from`
+  problems: string[];
+}
+
+export const getAdjacencyNodeName = (node: AdjacencyNode): string => (node === 'master-bedroom' ? 'Master Bedroom' : ROOM_NAMES[node]);
+
+// The bedroom named master, or failing that the largest one among `rooms`
+export const isMasterBedroom = (room: Room, rooms: Room[]): boolean => {
+  if (room.type !== 'bedroom') return false;
+  const named = rooms.find((other) => other.type === 'bedroom' && /master/i.test(other.name));
+  if (named) return named.id === room.id;
+  const largest = rooms
+    .filter((other) => other.type === 'bedroom')
+    .sort((a, b) => b.width * b.height - a.width * a.height)[0];
+  return largest?.id === room.id;
+};
+
+// The house has one master bedroom, found the same way across all floors
+const matchesNode = (room: Room, node: AdjacencyNode, rooms: Room[]): boolean =>
+  node === 'master-bedroom' ? isMasterBedroom(room, rooms) : room.type === node;
+
+export const describeAdjacencyEdge = (edge: AdjacencyEdge): string => {
+  const from = getAdjacencyNodeName(edge.from);
+  const to = getAdjacencyNodeName(edge.to);
+  if (edge.kind === 'forbid') return `${from} must not share a wall with ${to}`;
+  return `${from} ${edge.kind === 'must' ? 'must' : 'should'} adjoin ${to}`;
+};
+
+// must and prefer edges need every matching `from` room to share a wall with
+// a `to` room on its floor; forbid edges need none of them to
+export const checkAdjacencyEdge = (rooms: Room[], edge: AdjacencyEdge): AdjacencyCheck => {
+  const problems: string[] = [];
+  let applicable = false;
+
+  for (const floor of [...new Set(rooms.map((room) => room.floor))].sort((a, b) => a - b)) {
+    const floorRooms = rooms.filter((room) => room.floor === floor);
+    const sources = floorRooms.filter((room) => matchesNode(room, edge.from, rooms));
+    applicable = applicable || sources.length > 0;
+
+    for (const source of sources) {
+      const neighbors = floorRooms.filter(
+        (other) => other.id !== source.id && matchesNode(other, edge.to, rooms) && findSharedWall(source, other, MIN_SHARED_WALL)
+      );
+      if (edge.kind === 'forbid' && neighbors.length > 0) {
+        problems.push(`Floor ${floor}: ${source.name} shares a wall with ${neighbors.map((neighbor) => neighbor.name).join(', ')}.`);
+      } else if (edge.kind !== 'forbid' && neighbors.length === 0) {
+        problems.push(`Floor ${floor}: ${source.name} does not adjoin any ${getAdjacencyNodeName(edge.to)}.`);
+      }
+    }
+  }
+
+  return { edge, status: !applicable ? 'not-applicable' : problems.length > 0 ? 'unmet' : 'met', problems };
+};
+
+export const checkAdjacency = (rooms: Room[], edges: AdjacencyEdge[] = []): AdjacencyCheck[] =>
+  edges.map((edge) => checkAdjacencyEdge(rooms, edge));
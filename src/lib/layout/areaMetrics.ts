@@ -0,0 +1,87 @@
+import { Room } from '../../types/floorPlan.ts';
+
+// Area figures as they appear on an Indian area statement. Rooms are drawn to
+// wall centre lines, so a room loses half a wall thickness on every side to
+// its walls: carpet area is what is left inside them, built-up area is the
+// footprint including walls, and super built-up adds a share of common areas.
+
+export const DEFAULT_WALL_THICKNESS = 0.5; // ft, what the solver draws
+
+// Share of common areas (lobbies, shafts, compound walls) that super
+// built-up area adds on top of built-up area
+export const DEFAULT_COMMON_AREA_LOADING = 0.2;
+
+export interface FloorAreaMetrics {
+  floor: number;
+  builtUpArea: number;
+  carpetArea: number;
+  circulationArea: number; // hallways and passages
+  circulationRatio: number; // circulation over built-up area
+  efficiency: number; // carpet over built-up area
+}
+
+export interface AreaMetrics {
+  plotArea: number;
+  floors: FloorAreaMetrics[];
+  builtUpArea: number;
+  carpetArea: number;
+  superBuiltUpArea: number;
+  circulationArea: number;
+  circulationRatio: number;
+  efficiency: number;
+  fsi: number; // floor space index (FAR): built-up area of all floors over plot area
+  groundCoverage: number; // ground floor built-up area over plot area
+}
+
+export interface AreaMetricOptions {
+  wallThickness?: number;
+  commonAreaLoading?: number;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+const ratio = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0);
+
+export const getCarpetArea = (room: Room, wallThickness = DEFAULT_WALL_THICKNESS): number =>
+  Math.max(0, room.width - wallThickness) * Math.max(0, room.height - wallThickness);
+
+// Carpet over built-up area, the figure layouts report as efficiency
+export const getEfficiency = (rooms: Room[], wallThickness = DEFAULT_WALL_THICKNESS): number => {
+  const builtUp = rooms.reduce((sum, room) => sum + room.width * room.height, 0);
+  return ratio(rooms.reduce((sum, room) => sum + getCarpetArea(room, wallThickness), 0), builtUp);
+};
+
+const measureFloor = (floor: number, rooms: Room[], wallThickness: number): FloorAreaMetrics => {
+  const builtUpArea = rooms.reduce((sum, room) => sum + room.width * room.height, 0);
+  const circulationArea = rooms.filter((room) => room.type === 'hallway').reduce((sum, room) => sum + room.width * room.height, 0);
+  return {
+    floor,
+    builtUpArea: round(builtUpArea),
+    carpetArea: round(rooms.reduce((sum, room) => sum + getCarpetArea(room, wallThickness), 0)),
+    circulationArea: round(circulationArea),
+    circulationRatio: ratio(circulationArea, builtUpArea),
+    efficiency: getEfficiency(rooms, wallThickness),
+  };
+};
+
+export const computeAreaMetrics = (rooms: Room[], plotArea: number, options: AreaMetricOptions = {}): AreaMetrics => {
+  const wallThickness = options.wallThickness ?? DEFAULT_WALL_THICKNESS;
+  const loading = options.commonAreaLoading ?? DEFAULT_COMMON_AREA_LOADING;
+  const floorNumbers = [...new Set(rooms.map((room) => room.floor))].sort((a, b) => a - b);
+  const floors = floorNumbers.map((floor) => measureFloor(floor, rooms.filter((room) => room.floor === floor), wallThickness));
+
+  const builtUpArea = round(floors.reduce((sum, floor) => sum + floor.builtUpArea, 0));
+  const circulationArea = round(floors.reduce((sum, floor) => sum + floor.circulationArea, 0));
+
+  return {
+    plotArea: round(plotArea),
+    floors,
+    builtUpArea,
+    carpetArea: round(floors.reduce((sum, floor) => sum + floor.carpetArea, 0)),
+    superBuiltUpArea: round(builtUpArea * (1 + loading)),
+    circulationArea,
+    circulationRatio: ratio(circulationArea, builtUpArea),
+    efficiency: getEfficiency(rooms, wallThickness),
+    fsi: ratio(builtUpArea, plotArea),
+    groundCoverage: ratio(floors[0]?.builtUpArea ?? 0, plotArea),
+  };
+};
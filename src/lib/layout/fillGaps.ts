@@ -0,0 +1,217 @@
+import { PlotVertex, ROOM_COLORS, Room } from '../../types/floorPlan.ts';
+import { Rect, getOverlap } from './geometry.ts';
+import { isRectInPolygon } from './plotPolygon.ts';
+
+// The room grown over an adjacent region, or null when it does not border it
+function expandTowards(room: Room, region: Rect): Rect | null {
+  const roomRight = room.x + room.width;
+  const roomBottom = room.y + room.height;
+  const rect = { x: room.x, y: room.y, width: room.width, height: room.height };
+  
+  // Expand right
+  if (Math.abs(roomRight - region.x) < 1 && 
+      room.y <= region.y && roomBottom >= region.y + region.height) {
+    return { ...rect, width: room.width + region.width };
+  }
+  // Expand bottom
+  if (Math.abs(roomBottom - region.y) < 1 && 
+      room.x <= region.x && roomRight >= region.x + region.width) {
+    return { ...rect, height: room.height + region.height };
+  }
+  // Expand left
+  if (Math.abs(room.x - (region.x + region.width)) < 1 && 
+      room.y <= region.y && roomBottom >= region.y + region.height) {
+    return { ...rect, x: region.x, width: room.width + region.width };
+  }
+  // Expand top
+  if (Math.abs(room.y - (region.y + region.height)) < 1 && 
+      room.x <= region.x && roomRight >= region.x + region.width) {
+    return { ...rect, y: region.y, height: room.height + region.height };
+  }
+  return null;
+}
+
+const MAX_FILL_PASSES = 4;
+
+// Rooms along one side of a gap, each grown across it over its own stretch,
+// when together they line the gap's whole length. A thin strip left beside a
+// locked room rarely has a single room running its full length.
+function expandRowTowards(floorRooms: Room[], region: Rect): Map<Room, Rect> | null {
+  const regionRight = region.x + region.width;
+  const regionBottom = region.y + region.height;
+  const rows: { horizontal: boolean; borders: (room: Room) => boolean }[] = [
+    { horizontal: true, borders: (room) => Math.abs(room.y + room.height - region.y) < 1 },
+    { horizontal: true, borders: (room) => Math.abs(room.y - regionBottom) < 1 },
+    { horizontal: false, borders: (room) => Math.abs(room.x + room.width - region.x) < 1 },
+    { horizontal: false, borders: (room) => Math.abs(room.x - regionRight) < 1 },
+  ];
+
+  for (const { horizontal, borders } of rows) {
+    const start = horizontal ? region.x : region.y;
+    const end = horizontal ? regionRight : regionBottom;
+    const row = floorRooms
+      .filter((room) => !room.locked && borders(room))
+      .map((room) => ({ room, from: horizontal ? room.x : room.y, to: horizontal ? room.x + room.width : room.y + room.height }))
+      .filter(({ from, to }) => from >= start - 0.01 && to <= end + 0.01)
+      .sort((a, b) => a.from - b.from);
+
+    // The rooms must meet edge to edge from one end of the gap to the other
+    let reached = start;
+    for (const { from, to } of row) {
+      if (from > reached + 0.01) break;
+      reached = Math.max(reached, to);
+    }
+    if (reached < end - 0.01) continue;
+
+    const grown = new Map<Room, Rect>();
+    for (const { room, from, to } of row) {
+      const piece = horizontal
+        ? { x: from, y: region.y, width: to - from, height: region.height }
+        : { x: region.x, y: from, width: region.width, height: to - from };
+      const rect = expandTowards(room, piece);
+      if (rect) grown.set(room, rect);
+    }
+    if (grown.size === row.length) return grown;
+  }
+  return null;
+}
+
+// Fill any gaps in the layout to achieve 100% coverage. With a plot polygon,
+// cells outside the boundary count as covered so nothing is built there.
+// Locked rooms are never expanded.
+export function fillGapsIn100Percent(rooms: Room[], plotW: number, plotH: number, floors: number, polygon?: PlotVertex[]): Room[] {
+  const result = [...rooms];
+  const gridResolution = 0.5; // Check every 0.5 feet
+  
+  for (let floor = 1; floor <= floors; floor++) {
+    // Growing one room can leave the rest of a gap for a neighbour, so look
+    // again until a pass changes nothing
+    for (let pass = 0; pass < MAX_FILL_PASSES; pass++) {
+      const floorRooms = result.filter(r => r.floor === floor);
+    
+      // Create a grid to track coverage
+      const gridW = Math.ceil(plotW / gridResolution);
+      const gridH = Math.ceil(plotH / gridResolution);
+      const covered: boolean[][] = Array(gridH).fill(null).map((_, y) =>
+        Array(gridW).fill(false).map((_, x) =>
+          !!polygon && !isRectInPolygon({ x: x * gridResolution, y: y * gridResolution, width: gridResolution, height: gridResolution }, polygon)
+        )
+      );
+    
+      // Mark covered cells
+      for (const room of floorRooms) {
+        const startX = Math.floor(room.x / gridResolution);
+        const startY = Math.floor(room.y / gridResolution);
+        const endX = Math.ceil((room.x + room.width) / gridResolution);
+        const endY = Math.ceil((room.y + room.height) / gridResolution);
+      
+        for (let y = startY; y < endY && y < gridH; y++) {
+          for (let x = startX; x < endX && x < gridW; x++) {
+            if (y >= 0 && x >= 0) {
+              covered[y][x] = true;
+            }
+          }
+        }
+      }
+    
+      // Find uncovered regions and expand adjacent rooms or create hallways
+      const uncoveredRegions = findUncoveredRegions(covered, gridW, gridH, gridResolution);
+      let filled = false;
+    
+      for (const region of uncoveredRegions) {
+        // Try to expand an adjacent room first
+        let expanded = false;
+      
+        for (const room of floorRooms) {
+          if (room.locked) continue;
+          const rect = expandTowards(room, region);
+          // Growing a room along its whole side must not cover another room
+          if (!rect || floorRooms.some((other) => other !== room && getOverlap(rect, other))) continue;
+          Object.assign(room, rect);
+          expanded = true;
+          break;
+        }
+      
+        if (!expanded) {
+          const row = expandRowTowards(floorRooms, region);
+          row?.forEach((rect, room) => Object.assign(room, rect));
+          expanded = !!row;
+        }
+        filled = filled || expanded;
+      
+        // If no room could be expanded, create a hallway
+        if (!expanded && region.width >= 3 && region.height >= 3) {
+          result.push({
+            id: `hallway-fill-${floor}-${result.length}`,
+            type: 'hallway',
+            name: 'Passage',
+            x: region.x,
+            y: region.y,
+            width: region.width,
+            height: region.height,
+            floor: floor,
+            color: ROOM_COLORS.hallway,
+            doors: [],
+            windows: [],
+          });
+          filled = true;
+        }
+      }
+      if (!filled) break;
+    }
+  }
+  
+  return result;
+}
+
+// Find uncovered rectangular regions
+function findUncoveredRegions(covered: boolean[][], gridW: number, gridH: number, resolution: number): 
+  { x: number; y: number; width: number; height: number }[] {
+  const regions: { x: number; y: number; width: number; height: number }[] = [];
+  const visited: boolean[][] = Array(gridH).fill(null).map(() => Array(gridW).fill(false));
+  
+  for (let y = 0; y < gridH; y++) {
+    for (let x = 0; x < gridW; x++) {
+      if (!covered[y][x] && !visited[y][x]) {
+        // Found an uncovered cell, find the extent of this region
+        let maxX = x;
+        let maxY = y;
+        
+        // Expand right
+        while (maxX < gridW - 1 && !covered[y][maxX + 1] && !visited[y][maxX + 1]) {
+          maxX++;
+        }
+        
+        // Expand down
+        let canExpandDown = true;
+        while (canExpandDown && maxY < gridH - 1) {
+          for (let checkX = x; checkX <= maxX; checkX++) {
+            if (covered[maxY + 1][checkX] || visited[maxY + 1][checkX]) {
+              canExpandDown = false;
+              break;
+            }
+          }
+          if (canExpandDown) {
+            maxY++;
+          }
+        }
+        
+        // Mark as visited
+        for (let vy = y; vy <= maxY; vy++) {
+          for (let vx = x; vx <= maxX; vx++) {
+            visited[vy][vx] = true;
+          }
+        }
+        
+        const regionX = x * resolution;
+        const regionY = y * resolution;
+        const regionW = (maxX - x + 1) * resolution;
+        const regionH = (maxY - y + 1) * resolution;
+        
+        regions.push({ x: regionX, y: regionY, width: regionW, height: regionH });
+      }
+    }
+  }
+  
+  return regions;
+}
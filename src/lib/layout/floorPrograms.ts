@@ -0,0 +1,71 @@
+import { FloorProgram, GenerationRequestBody, ROOM_NAMES, RoomType } from '../../types/floorPlan.ts';
+
+// Room types a floor program can ask for. Staircases, corridors and wardrobes
+// are added by the planner itself.
+export const PROGRAM_ROOM_TYPES: RoomType[] = [
+  'living',
+  'dining',
+  'kitchen',
+  'bedroom',
+  'bathroom',
+  'study',
+  'pooja',
+  'utility',
+  'store',
+  'garage',
+  'balcony',
+  'garden',
+];
+
+export const toFloorProgram = (types: RoomType[]): FloorProgram => {
+  const program: FloorProgram = {};
+  types
+    .filter((type) => PROGRAM_ROOM_TYPES.includes(type))
+    .forEach((type) => {
+      program[type] = (program[type] ?? 0) + 1;
+    });
+  return program;
+};
+
+// Room types of a program in PROGRAM_ROOM_TYPES order, one entry per room
+export const expandFloorProgram = (program: FloorProgram): RoomType[] =>
+  PROGRAM_ROOM_TYPES.flatMap((type) => Array.from({ length: Math.max(0, Math.round(program[type] ?? 0)) }, () => type));
+
+export const getProgramCount = (program: FloorProgram, type: RoomType): number => Math.max(0, Math.round(program[type] ?? 0));
+
+// The request's per-floor programs, one per floor, or null when the house
+// is planned from its whole-house counts
+export const getFloorPrograms = (request: Pick<GenerationRequestBody, 'floors' | 'floorPrograms'>): FloorProgram[] | null => {
+  if (!request.floorPrograms || request.floorPrograms.length === 0) return null;
+  return resizeFloorPrograms(request.floorPrograms, Math.max(1, request.floors));
+};
+
+// Drop programs above the top floor and give new floors an empty program
+export const resizeFloorPrograms = (programs: FloorProgram[], floors: number): FloorProgram[] =>
+  Array.from({ length: floors }, (_, index) => programs[index] ?? {});
+
+// Whole-house counts that match a set of floor programs
+export const getProgramTotals = (programs: FloorProgram[]): Pick<GenerationRequestBody, 'bedrooms' | 'bathrooms' | 'kitchens' | 'livingRooms' | 'diningRooms' | 'garage' | 'balcony' | 'garden'> => {
+  const total = (type: RoomType) => programs.reduce((sum, program) => sum + getProgramCount(program, type), 0);
+  return {
+    bedrooms: total('bedroom'),
+    bathrooms: total('bathroom'),
+    kitchens: total('kitchen'),
+    livingRooms: total('living'),
+    diningRooms: total('dining'),
+    garage: total('garage') > 0,
+    balcony: total('balcony') > 0,
+    garden: total('garden') > 0,
+  };
+};
+
+// "2 × Bedroom, Kitchen" style summary for prompts and schedules
+export const describeFloorProgram = (program: FloorProgram): string => {
+  const parts = PROGRAM_ROOM_TYPES
+    .filter((type) => getProgramCount(program, type) > 0)
+    .map((type) => {
+      const count = getProgramCount(program, type);
+      return count > 1 ? `${count} × ${ROOM_NAMES[type]}` : ROOM_NAMES[type];
+    });
+  return parts.length > 0 ? parts.join(', ') : 'no rooms';
+};
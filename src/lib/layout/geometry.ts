@@ -0,0 +1,176 @@
+import { Furniture, Room } from '../../types/floorPlan.ts';
+import { DEFAULT_WALL_THICKNESS } from './areaMetrics.ts';
+import { getFurnitureSize } from './furnitureCatalog.ts';
+
+// Modules in src/lib/layout, src/lib/llm and src/lib/generation are also
+// imported by the generate-floor-plan edge function (Deno), so they only use
+// relative imports and no browser APIs. The one package they may import is
+// zod, which the function maps in its deno.json.
+
+export type WallSide = 'top' | 'bottom' | 'left' | 'right';
+
+export interface SharedWall {
+  side: WallSide; // side of the first room
+  start: number; // absolute position along the wall axis (ft)
+  end: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const GEOMETRY_TOLERANCE = 0.05;
+
+export const rangesOverlap = (
+  startA: number,
+  endA: number,
+  startB: number,
+  endB: number,
+  tolerance = GEOMETRY_TOLERANCE
+): boolean => {
+  return Math.min(endA, endB) - Math.max(startA, startB) > tolerance;
+};
+
+// Find the wall segment two rooms on the same floor have in common, if any
+export const findSharedWall = (room: Room, other: Room, tolerance = GEOMETRY_TOLERANCE): SharedWall | null => {
+  if (room.id === other.id || room.floor !== other.floor) return null;
+
+  const xStart = Math.max(room.x, other.x);
+  const xEnd = Math.min(room.x + room.width, other.x + other.width);
+  if (xEnd - xStart > tolerance) {
+    if (Math.abs(other.y + other.height - room.y) <= tolerance) {
+      return { side: 'top', start: xStart, end: xEnd };
+    }
+    if (Math.abs(other.y - (room.y + room.height)) <= tolerance) {
+      return { side: 'bottom', start: xStart, end: xEnd };
+    }
+  }
+
+  const yStart = Math.max(room.y, other.y);
+  const yEnd = Math.min(room.y + room.height, other.y + other.height);
+  if (yEnd - yStart > tolerance) {
+    if (Math.abs(other.x + other.width - room.x) <= tolerance) {
+      return { side: 'left', start: yStart, end: yEnd };
+    }
+    if (Math.abs(other.x - (room.x + room.width)) <= tolerance) {
+      return { side: 'right', start: yStart, end: yEnd };
+    }
+  }
+
+  return null;
+};
+
+// Absolute start and length of a room wall along its own axis
+export const getWallSpan = (room: Room, side: WallSide): { start: number; length: number } => {
+  return side === 'top' || side === 'bottom'
+    ? { start: room.x, length: room.width }
+    : { start: room.y, length: room.height };
+};
+
+// Absolute start and end of a door or window along its wall
+export const getOpeningSpan = (room: Room, opening: { position: WallSide; offset: number; width: number }): { start: number; end: number } => {
+  const span = getWallSpan(room, opening.position);
+  const start = span.start + (opening.offset / 100) * span.length;
+  return { start, end: start + opening.width };
+};
+
+// Sides of a room that lie on the plot boundary
+export const getExteriorSides = (
+  room: Room,
+  plotLength: number,
+  plotWidth: number,
+  tolerance = GEOMETRY_TOLERANCE
+): WallSide[] => {
+  const sides: WallSide[] = [];
+  if (room.y <= tolerance) sides.push('top');
+  if (room.y + room.height >= plotWidth - tolerance) sides.push('bottom');
+  if (room.x <= tolerance) sides.push('left');
+  if (room.x + room.width >= plotLength - tolerance) sides.push('right');
+  return sides;
+};
+
+const MIRRORED_SIDES: Record<WallSide, WallSide> = { top: 'top', bottom: 'bottom', left: 'right', right: 'left' };
+
+export const mirrorSide = (side: WallSide): WallSide => MIRRORED_SIDES[side];
+
+// Flip a room left-to-right across the plot, keeping its openings on the same
+// walls and turning its furniture to face the other way
+export const mirrorRoom = (room: Room, plotLength: number): Room => {
+  const mirrorOpening = <T extends { position: WallSide; offset: number; width: number }>(opening: T): T => {
+    if (opening.position === 'left' || opening.position === 'right') {
+      return { ...opening, position: MIRRORED_SIDES[opening.position] };
+    }
+    return { ...opening, offset: Math.max(0, Math.round(100 - opening.offset - (opening.width / room.width) * 100)) };
+  };
+
+  return {
+    ...room,
+    x: plotLength - room.x - room.width,
+    doors: room.doors?.map(mirrorOpening),
+    windows: room.windows?.map(mirrorOpening),
+    furniture: room.furniture?.map((piece) => ({ ...piece, x: 100 - piece.x, rotation: piece.rotation ? (360 - piece.rotation) % 360 : piece.rotation })),
+  };
+};
+
+// Intersection of two rectangles, or null when they only touch
+export const getOverlap = (a: Rect, b: Rect, tolerance = GEOMETRY_TOLERANCE): Rect | null => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const width = Math.min(a.x + a.width, b.x + b.width) - x;
+  const height = Math.min(a.y + a.height, b.y + b.height) - y;
+  return width > tolerance && height > tolerance ? { x, y, width, height } : null;
+};
+
+export const containsRect = (outer: Rect, inner: Rect, tolerance = GEOMETRY_TOLERANCE): boolean =>
+  inner.x >= outer.x - tolerance &&
+  inner.y >= outer.y - tolerance &&
+  inner.x + inner.width <= outer.x + outer.width + tolerance &&
+  inner.y + inner.height <= outer.y + outer.height + tolerance;
+
+// Floor inside a room's walls, relative to its top-left corner (rooms are
+// drawn to wall centre lines)
+export const getRoomInterior = (room: { width: number; height: number }, wallThickness: number): Rect => ({
+  x: wallThickness / 2,
+  y: wallThickness / 2,
+  width: room.width - wallThickness,
+  height: room.height - wallThickness,
+});
+
+// Move or resize a room, keeping its openings at the same absolute position
+// along each wall and dropping the ones that no longer fit on it. Furniture
+// moves with a room that only moves; when the room changes size each piece
+// stays where it stood on the floor, pushed back inside the walls if a wall
+// came through it and dropped if the room is now too small for it.
+export const resizeRoom = (room: Room, rect: Rect, wallThickness = DEFAULT_WALL_THICKNESS): Room => {
+  const rebase = <T extends { position: WallSide; offset: number; width: number }>(openings: T[] | undefined): T[] | undefined => {
+    if (!openings) return openings;
+    return openings.flatMap((opening) => {
+      const horizontal = opening.position === 'top' || opening.position === 'bottom';
+      const oldSpan = horizontal ? { start: room.x, length: room.width } : { start: room.y, length: room.height };
+      const newSpan = horizontal ? { start: rect.x, length: rect.width } : { start: rect.y, length: rect.height };
+      const start = oldSpan.start + (opening.offset / 100) * oldSpan.length - newSpan.start;
+      if (start < -GEOMETRY_TOLERANCE || start + opening.width > newSpan.length + GEOMETRY_TOLERANCE) return [];
+      return [{ ...opening, offset: Math.round((Math.max(0, start) / newSpan.length) * 100) }];
+    });
+  };
+
+  const interior = getRoomInterior(rect, wallThickness);
+  const refit = (centre: number, size: number, start: number, length: number) =>
+    Math.min(Math.max(centre, start + size / 2), start + length - size / 2);
+  const rebaseFurniture = (furniture: Furniture[] | undefined) => {
+    const resized = Math.abs(rect.width - room.width) > GEOMETRY_TOLERANCE || Math.abs(rect.height - room.height) > GEOMETRY_TOLERANCE;
+    if (!furniture || !resized) return furniture;
+    return furniture.flatMap((piece) => {
+      const { width, height } = getFurnitureSize(piece);
+      if (width > interior.width + GEOMETRY_TOLERANCE || height > interior.height + GEOMETRY_TOLERANCE) return [];
+      const x = refit(room.x + (piece.x / 100) * room.width - rect.x, width, interior.x, interior.width);
+      const y = refit(room.y + (piece.y / 100) * room.height - rect.y, height, interior.y, interior.height);
+      return [{ ...piece, x: Math.round((x / rect.width) * 10000) / 100, y: Math.round((y / rect.height) * 10000) / 100 }];
+    });
+  };
+
+  return { ...room, ...rect, doors: rebase(room.doors), windows: rebase(room.windows), furniture: rebaseFurniture(room.furniture) };
+};
@@ -0,0 +1,29 @@
+import { FloorProgram, GenerationRequestBody, Room, RoomType } from '../../types/floorPlan.ts';
+import { toFloorProgram } from './floorPrograms.ts';
+
+// The request's locked rooms on floors that still exist, flagged so every
+// later step leaves them exactly where they are
+export const getLockedRooms = (request: Pick<GenerationRequestBody, 'floors' | 'lockedRooms'>): Room[] =>
+  (request.lockedRooms ?? [])
+    .filter((room) => room.floor >= 1 && room.floor <= Math.max(1, request.floors))
+    .map((room) => ({ ...room, locked: true }));
+
+// Rooms other than the locked ones; a returned room that reuses a locked id
+// is the model's copy of it and gets replaced by the original
+export const withoutLockedRooms = (rooms: Room[], locked: Room[]): Room[] => {
+  const ids = new Set(locked.map((room) => room.id));
+  return rooms.filter((room) => !ids.has(room.id));
+};
+
+// What is left to plan on each floor once the locked rooms are taken out of it
+export const subtractLockedRooms = (programs: RoomType[][], locked: Room[]): FloorProgram[] =>
+  programs.map((program, index) => {
+    const remaining = [...program];
+    locked
+      .filter((room) => room.floor === index + 1)
+      .forEach((room) => {
+        const position = remaining.indexOf(room.type);
+        if (position >= 0) remaining.splice(position, 1);
+      });
+    return toFloorProgram(remaining);
+  });
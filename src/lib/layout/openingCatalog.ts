@@ -0,0 +1,118 @@
+import { Door, DoorType, OpeningHinge, OpeningSwing, Window, WindowType } from '../../types/floorPlan.ts';
+
+// Catalog of door and window types. A door or window only records the fields
+// that differ from its catalog entry, so plans saved before types existed read
+// as single swing doors and casement windows at the usual heights. Heights
+// are in feet above the finished floor.
+
+export type OpeningOperation = 'swing' | 'slide' | 'pocket' | 'fixed' | 'bay';
+
+export interface OpeningSpec {
+  name: string;
+  operation: OpeningOperation;
+  leaves: number; // panels drawn across the opening
+  glazed: boolean;
+  sillHeight: number;
+  headHeight: number;
+  minWidth: number;
+  maxWidth: number;
+}
+
+export interface ResolvedOpening<T extends string> {
+  type: T;
+  spec: OpeningSpec;
+  hinge: OpeningHinge;
+  swing: OpeningSwing;
+  sillHeight: number;
+  headHeight: number;
+}
+
+// One panel of an opening, as fractions of its width along the wall. Swinging
+// leaves turn about `pivot`; sliding and pocket leaves move towards it.
+export interface OpeningLeaf {
+  from: number;
+  to: number;
+  pivot: number;
+}
+
+export const DEFAULT_DOOR_TYPE: DoorType = 'single-swing';
+export const DEFAULT_WINDOW_TYPE: WindowType = 'casement';
+
+// How far a bay window stands out from its wall
+export const BAY_PROJECTION = 1.5;
+
+export const DOOR_CATALOG: Record<DoorType, OpeningSpec> = {
+  'single-swing': { name: 'Single swing', operation: 'swing', leaves: 1, glazed: false, sillHeight: 0, headHeight: 7, minWidth: 2, maxWidth: 4 },
+  'double-swing': { name: 'Double swing', operation: 'swing', leaves: 2, glazed: false, sillHeight: 0, headHeight: 7, minWidth: 4, maxWidth: 8 },
+  sliding: { name: 'Sliding', operation: 'slide', leaves: 2, glazed: false, sillHeight: 0, headHeight: 7, minWidth: 4, maxWidth: 12 },
+  pocket: { name: 'Pocket', operation: 'pocket', leaves: 1, glazed: false, sillHeight: 0, headHeight: 7, minWidth: 2, maxWidth: 4 },
+  french: { name: 'French', operation: 'swing', leaves: 2, glazed: true, sillHeight: 0, headHeight: 7.5, minWidth: 4, maxWidth: 8 },
+};
+
+export const WINDOW_CATALOG: Record<WindowType, OpeningSpec> = {
+  casement: { name: 'Casement', operation: 'swing', leaves: 2, glazed: true, sillHeight: 3, headHeight: 7, minWidth: 2, maxWidth: 8 },
+  sliding: { name: 'Sliding', operation: 'slide', leaves: 2, glazed: true, sillHeight: 3, headHeight: 7, minWidth: 3, maxWidth: 10 },
+  ventilator: { name: 'Ventilator', operation: 'swing', leaves: 1, glazed: true, sillHeight: 6, headHeight: 7.5, minWidth: 1.5, maxWidth: 3 },
+  bay: { name: 'Bay', operation: 'bay', leaves: 3, glazed: true, sillHeight: 2, headHeight: 7, minWidth: 4, maxWidth: 10 },
+  fixed: { name: 'Fixed', operation: 'fixed', leaves: 1, glazed: true, sillHeight: 3, headHeight: 7, minWidth: 2, maxWidth: 12 },
+};
+
+export const resolveDoor = (door: Door): ResolvedOpening<DoorType> => {
+  const type = door.type ?? DEFAULT_DOOR_TYPE;
+  const spec = DOOR_CATALOG[type];
+  return {
+    type,
+    spec,
+    hinge: door.hinge ?? 'start',
+    swing: door.swing ?? 'in',
+    sillHeight: door.sillHeight ?? spec.sillHeight,
+    headHeight: door.headHeight ?? spec.headHeight,
+  };
+};
+
+// Windows open outwards unless told otherwise
+export const resolveWindow = (window: Window): ResolvedOpening<WindowType> => {
+  const type = window.type ?? DEFAULT_WINDOW_TYPE;
+  const spec = WINDOW_CATALOG[type];
+  return {
+    type,
+    spec,
+    hinge: window.hinge ?? 'start',
+    swing: window.swing ?? 'out',
+    sillHeight: window.sillHeight ?? spec.sillHeight,
+    headHeight: window.headHeight ?? spec.headHeight,
+  };
+};
+
+export const fitOpeningWidth = (width: number, spec: OpeningSpec): number =>
+  Math.min(spec.maxWidth, Math.max(spec.minWidth, width));
+
+// Panels of an opening. Pairs of swinging leaves meet in the middle and hang
+// from both jambs; sliding pairs overlap a little; a pocket leaf runs into the
+// wall on its hinge side.
+export const getOpeningLeaves = (opening: ResolvedOpening<string>): OpeningLeaf[] => {
+  const { spec, hinge } = opening;
+  const start = hinge === 'start' ? 0 : 1;
+
+  if (spec.operation === 'swing' && spec.leaves === 2) {
+    return [
+      { from: 0, to: 0.5, pivot: 0 },
+      { from: 0.5, to: 1, pivot: 1 },
+    ];
+  }
+  if (spec.operation === 'slide') {
+    return [
+      { from: 0, to: 0.55, pivot: 1 - start },
+      { from: 0.45, to: 1, pivot: start },
+    ];
+  }
+  if (spec.operation === 'swing' || spec.operation === 'pocket') {
+    return [{ from: 0, to: 1, pivot: start }];
+  }
+
+  return Array.from({ length: spec.leaves }, (_, index) => ({
+    from: index / spec.leaves,
+    to: (index + 1) / spec.leaves,
+    pivot: index / spec.leaves,
+  }));
+};
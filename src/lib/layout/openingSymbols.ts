@@ -0,0 +1,144 @@
+import { Door, Window } from '../../types/floorPlan.ts';
+import { WallSide } from './geometry.ts';
+import { BAY_PROJECTION, ResolvedOpening, getOpeningLeaves, resolveDoor, resolveWindow } from './openingCatalog.ts';
+
+// Plan symbols for doors and windows as plain lines and arcs, so the SVG view
+// and the PDF draw each catalog type the same way. Everything is in the
+// drawing's own units with y pointing down; `inward` distances run from the
+// wall into the room and negative ones out of it.
+
+export type Point = [number, number];
+
+// frame: jambs, sills and outlines; leaf: door and window panels; guide: swings and glazing
+export type SymbolStroke = 'frame' | 'leaf' | 'guide';
+
+export type OpeningPrimitive =
+  | { kind: 'line'; points: Point[]; stroke: SymbolStroke; dashed?: boolean }
+  | { kind: 'arc'; center: Point; from: Point; to: Point; radius: number; stroke: SymbolStroke; dashed?: boolean };
+
+export interface OpeningFrame {
+  side: WallSide;
+  x: number; // room rectangle in drawing units
+  y: number;
+  width: number;
+  height: number;
+  start: number; // distance along the wall to the opening
+  length: number; // opening width
+  unit: number; // drawing units per foot
+}
+
+// Half the depth of a wall as drawn, for jambs and offset panels
+const JAMB_DEPTH = 0.25;
+
+const toPoint = (frame: OpeningFrame) => (along: number, inward: number): Point => {
+  switch (frame.side) {
+    case 'top':
+      return [frame.x + frame.start + along, frame.y + inward];
+    case 'bottom':
+      return [frame.x + frame.start + along, frame.y + frame.height - inward];
+    case 'left':
+      return [frame.x + inward, frame.y + frame.start + along];
+    case 'right':
+      return [frame.x + frame.width - inward, frame.y + frame.start + along];
+  }
+};
+
+const jambs = (frame: OpeningFrame): OpeningPrimitive[] => {
+  const point = toPoint(frame);
+  const depth = JAMB_DEPTH * frame.unit;
+  return [0, frame.length].map((along) => ({ kind: 'line', points: [point(along, -depth), point(along, depth)], stroke: 'frame' }));
+};
+
+// Leaves drawn open at a right angle with the arc each one sweeps
+const swingLeaves = (opening: ResolvedOpening<string>, frame: OpeningFrame, dashed: boolean): OpeningPrimitive[] => {
+  const point = toPoint(frame);
+  const direction = opening.swing === 'in' ? 1 : -1;
+
+  return getOpeningLeaves(opening).flatMap((leaf): OpeningPrimitive[] => {
+    const size = (leaf.to - leaf.from) * frame.length;
+    const pivot = leaf.pivot * frame.length;
+    const free = (leaf.pivot === leaf.from ? leaf.to : leaf.from) * frame.length;
+    const open = point(pivot, direction * size);
+    const shapes: OpeningPrimitive[] = [
+      { kind: 'arc', center: point(pivot, 0), from: open, to: point(free, 0), radius: size, stroke: 'guide', dashed },
+    ];
+    if (!dashed) shapes.push({ kind: 'line', points: [point(pivot, 0), open], stroke: 'leaf' });
+    // Glass panels get a second line along the leaf
+    if (!dashed && opening.spec.glazed) {
+      const inset = Math.sign(free - pivot) * JAMB_DEPTH * frame.unit * 0.5;
+      shapes.push({ kind: 'line', points: [point(pivot + inset, 0), point(pivot + inset, direction * size)], stroke: 'guide' });
+    }
+    return shapes;
+  });
+};
+
+// Panels side by side in the depth of the wall
+const slidingLeaves = (opening: ResolvedOpening<string>, frame: OpeningFrame): OpeningPrimitive[] => {
+  const point = toPoint(frame);
+  const depth = JAMB_DEPTH * frame.unit * 0.5;
+  return getOpeningLeaves(opening).map((leaf, index) => ({
+    kind: 'line',
+    points: [point(leaf.from * frame.length, index === 0 ? -depth : depth), point(leaf.to * frame.length, index === 0 ? -depth : depth)],
+    stroke: 'leaf',
+  }));
+};
+
+// A pocket leaf is shown half drawn into the wall beside its hinge jamb
+const pocketLeaf = (opening: ResolvedOpening<string>, frame: OpeningFrame): OpeningPrimitive[] => {
+  const point = toPoint(frame);
+  const pivot = opening.hinge === 'start' ? 0 : frame.length;
+  const into = opening.hinge === 'start' ? -1 : 1;
+  return [
+    { kind: 'line', points: [point(pivot, 0), point(pivot + into * frame.length, 0)], stroke: 'guide', dashed: true },
+    { kind: 'line', points: [point(pivot + (into * frame.length) / 2, 0), point(pivot - (into * frame.length) / 2, 0)], stroke: 'leaf' },
+  ];
+};
+
+export const getDoorSymbol = (door: Door, frame: OpeningFrame): OpeningPrimitive[] => {
+  const opening = resolveDoor(door);
+  const leaves =
+    opening.spec.operation === 'slide'
+      ? slidingLeaves(opening, frame)
+      : opening.spec.operation === 'pocket'
+        ? pocketLeaf(opening, frame)
+        : swingLeaves(opening, frame, false);
+  return [...jambs(frame), ...leaves];
+};
+
+export const getWindowSymbol = (window: Window, frame: OpeningFrame): OpeningPrimitive[] => {
+  const opening = resolveWindow(window);
+  const point = toPoint(frame);
+  const depth = JAMB_DEPTH * frame.unit * 0.5;
+  const sill: OpeningPrimitive = { kind: 'line', points: [point(0, 0), point(frame.length, 0)], stroke: 'frame' };
+  const glazing: OpeningPrimitive[] = [-depth, depth].map((inward) => ({
+    kind: 'line',
+    points: [point(0, inward), point(frame.length, inward)],
+    stroke: 'guide',
+  }));
+
+  switch (opening.spec.operation) {
+    case 'slide':
+      return [sill, ...slidingLeaves(opening, frame)];
+    case 'fixed':
+      return [sill, ...glazing];
+    case 'bay': {
+      const projection = -BAY_PROJECTION * frame.unit;
+      const outline = (inward: number): Point[] => [
+        point(0, 0),
+        point(frame.length * 0.2, projection + inward),
+        point(frame.length * 0.8, projection + inward),
+        point(frame.length, 0),
+      ];
+      return [
+        { kind: 'line', points: outline(0), stroke: 'frame' },
+        { kind: 'line', points: outline(depth * 2), stroke: 'guide' },
+      ];
+    }
+    default:
+      return [sill, ...glazing, ...swingLeaves(opening, frame, true)];
+  }
+};
+
+// Whether an arc from `from` to `to` about `center` turns clockwise on a y-down drawing
+export const isClockwiseArc = (center: Point, from: Point, to: Point): boolean =>
+  (from[0] - center[0]) * (to[1] - center[1]) - (from[1] - center[1]) * (to[0] - center[0]) > 0;
@@ -0,0 +1,293 @@
+import { Door, Room, RoomType, Window, WindowType } from '../../types/floorPlan.ts';
+import { findReachableRooms, hasDoorBetween } from './circulation.ts';
+import { GEOMETRY_TOLERANCE, WallSide, findSharedWall, getOpeningSpan, getWallSpan } from './geometry.ts';
+
+// Door and window placement on any layout, solver or model. Doors follow the
+// shared-wall graph: every room gets a door into the room it is entered from,
+// corridors connect to each other and to the living area, the ground floor
+// gets a main door on a road-facing wall, and rooms still cut off from it get
+// one more door. Windows only go on exterior
+// wall segments, i.e. the parts of a wall no other room on the floor shares.
+
+export interface OpeningOptions {
+  entranceSides?: WallSide[]; // road-facing sides in order of preference (default bottom)
+  attachedTo?: Record<string, string>; // en-suite bathroom id → id of its bedroom
+}
+
+export interface OpeningPlacement {
+  rooms: Room[];
+  changes: string[];
+}
+
+interface Segment {
+  start: number;
+  end: number;
+}
+
+const WALL_SIDES: WallSide[] = ['top', 'right', 'bottom', 'left'];
+
+// Clear wall kept on either side of a door or window
+const DOOR_MARGIN = 0.5;
+const WINDOW_MARGIN = 1;
+const DEFAULT_DOOR_WIDTH = 3;
+const DEFAULT_WINDOW_WIDTH = 3;
+const MAIN_DOOR_WIDTH = 4;
+
+// Rooms a door should open into, in order of preference
+const CIRCULATION_PRIORITY: Partial<Record<RoomType, RoomType[]>> = {
+  bedroom: ['hallway', 'living', 'dining'],
+  bathroom: ['hallway', 'living', 'dining', 'bedroom'],
+  wardrobe: ['bedroom', 'hallway'],
+  study: ['hallway', 'living', 'dining'],
+  kitchen: ['dining', 'hallway', 'living'],
+  dining: ['living', 'hallway'],
+  utility: ['kitchen', 'hallway', 'dining', 'living'],
+  store: ['kitchen', 'hallway', 'dining', 'living'],
+  pooja: ['hallway', 'living', 'dining'],
+  staircase: ['hallway', 'living'],
+  garage: ['living', 'hallway', 'dining'],
+  garden: ['living', 'dining', 'hallway'],
+  balcony: ['living', 'dining', 'bedroom', 'hallway'],
+};
+
+// Rooms nobody should have to walk through to reach another room
+const DEAD_END_TYPES: RoomType[] = ['bathroom', 'wardrobe', 'store', 'pooja', 'utility'];
+
+// Rooms the main door may open into, in order of preference
+const ENTRANCE_ROOM_TYPES: RoomType[] = ['living', 'dining', 'hallway', 'garage', 'garden', 'balcony'];
+
+const DOOR_WIDTHS: Partial<Record<RoomType, number>> = {
+  bathroom: 2.5,
+  wardrobe: 2.5,
+  store: 2.5,
+  pooja: 2.5,
+  dining: 4,
+  garage: 8,
+  balcony: 4,
+};
+
+const WINDOW_WIDTHS: Partial<Record<RoomType, number>> = {
+  bedroom: 4,
+  living: 5,
+  dining: 4,
+  kitchen: 3,
+  study: 4,
+  bathroom: 2,
+  utility: 2,
+  pooja: 2,
+  wardrobe: 2,
+};
+
+// Most windows a room gets; rooms not listed get one on every free exterior
+// wall, and rooms without a window width (stores, stairs, corridors) get none
+const MAX_WINDOWS: Partial<Record<RoomType, number>> = {
+  kitchen: 2,
+  bathroom: 1,
+  utility: 1,
+  pooja: 1,
+  wardrobe: 1,
+};
+
+// Bathrooms get a small ventilator set high for privacy instead of a casement
+const WINDOW_TYPES: Partial<Record<RoomType, WindowType>> = {
+  bathroom: 'ventilator',
+};
+
+export const getDoorWidth = (type: RoomType): number => DOOR_WIDTHS[type] ?? DEFAULT_DOOR_WIDTH;
+
+export const getWindowWidth = (type: RoomType): number => WINDOW_WIDTHS[type] ?? DEFAULT_WINDOW_WIDTH;
+
+const toOffset = (room: Room, side: WallSide, start: number): number => {
+  const span = getWallSpan(room, side);
+  return Math.round(((start - span.start) / span.length) * 100);
+};
+
+const fitsWall = (room: Room, opening: Door | Window): boolean => {
+  const span = getWallSpan(room, opening.position);
+  const { start, end } = getOpeningSpan(room, opening);
+  return start >= span.start - GEOMETRY_TOLERANCE && end <= span.start + span.length + GEOMETRY_TOLERANCE;
+};
+
+// Parts of a wall that no other room on the same floor shares
+export const getExteriorSegments = (room: Room, side: WallSide, rooms: Room[]): Segment[] => {
+  const span = getWallSpan(room, side);
+  let segments: Segment[] = [{ start: span.start, end: span.start + span.length }];
+
+  for (const other of rooms) {
+    const wall = findSharedWall(room, other);
+    if (!wall || wall.side !== side) continue;
+    segments = segments.flatMap((segment) => [
+      { start: segment.start, end: Math.min(segment.end, wall.start) },
+      { start: Math.max(segment.start, wall.end), end: segment.end },
+    ]);
+  }
+
+  return segments.filter((segment) => segment.end - segment.start > GEOMETRY_TOLERANCE);
+};
+
+// Whether a door or window lies wholly on an outside stretch of its wall
+export const isOnExterior = (room: Room, opening: Door | Window, rooms: Room[]): boolean => {
+  const { start, end } = getOpeningSpan(room, opening);
+  return getExteriorSegments(room, opening.position, rooms).some(
+    (segment) => start >= segment.start - GEOMETRY_TOLERANCE && end <= segment.end + GEOMETRY_TOLERANCE
+  );
+};
+
+const doorOnSharedWall = (room: Room, neighbor: Room, width: number): Door | null => {
+  const wall = findSharedWall(room, neighbor);
+  if (!wall || wall.end - wall.start < width + DOOR_MARGIN) return null;
+  return { position: wall.side, offset: toOffset(room, wall.side, (wall.start + wall.end) / 2 - width / 2), width };
+};
+
+// Longest exterior segment of a wall with space for an opening, and where it is centered
+const centerOnExterior = (room: Room, side: WallSide, width: number, margin: number, rooms: Room[]): number | null => {
+  const segment = getExteriorSegments(room, side, rooms)
+    .filter(({ start, end }) => end - start >= width + margin * 2)
+    .sort((a, b) => b.end - b.start - (a.end - a.start))[0];
+  return segment ? toOffset(room, side, (segment.start + segment.end) / 2 - width / 2) : null;
+};
+
+const describeRoom = (room: Room) => `${room.name} on floor ${room.floor}`;
+
+// Drop openings past the ends of their wall and windows on shared walls
+const removeInvalidOpenings = (rooms: Room[], changes: string[]): Room[] =>
+  rooms.map((room) => {
+    if (room.locked) return room;
+    const doors = (room.doors ?? []).filter((door) => fitsWall(room, door));
+    const windows = (room.windows ?? []).filter((window) => fitsWall(room, window) && isOnExterior(room, window, rooms));
+    const removed = (room.doors ?? []).length - doors.length + (room.windows ?? []).length - windows.length;
+    if (removed === 0) return room;
+    changes.push(`Removed ${removed} opening(s) of ${describeRoom(room)} that were past the wall ends or had windows on shared walls.`);
+    return { ...room, doors, windows };
+  });
+
+// The neighbors a room needs doors to: every other corridor and a living
+// area for corridors, otherwise the first reachable neighbor in order of preference
+const getRequiredConnections = (room: Room, floorRooms: Room[], options: OpeningOptions): Room[] => {
+  const neighbors = floorRooms.filter((other) => findSharedWall(room, other));
+  const attached = options.attachedTo?.[room.id];
+  if (attached) return neighbors.filter((other) => other.id === attached);
+
+  if (room.type === 'hallway') {
+    const living = neighbors.find((other) => other.type === 'living' || other.type === 'dining');
+    return [...neighbors.filter((other) => other.type === 'hallway'), ...(living ? [living] : [])];
+  }
+
+  // Living rooms are entered through the main door and the corridors
+  if (!CIRCULATION_PRIORITY[room.type] || neighbors.some((other) => hasDoorBetween(room, other))) return [];
+  const width = getDoorWidth(room.type);
+  const preferred = (CIRCULATION_PRIORITY[room.type] ?? [])
+    .flatMap((type) => neighbors.filter((other) => other.type === type))
+    .find((other) => doorOnSharedWall(room, other, width));
+  const fallback = neighbors.find((other) => !DEAD_END_TYPES.includes(other.type) && doorOnSharedWall(room, other, width));
+  const target = preferred ?? fallback;
+  return target ? [target] : [];
+};
+
+const addDoors = (rooms: Room[], options: OpeningOptions, changes: string[]): Room[] => {
+  const result = new Map(rooms.map((room) => [room.id, room]));
+
+  for (const room of rooms) {
+    if (room.locked) continue;
+    const floorRooms = [...result.values()].filter((other) => other.floor === room.floor);
+    const current = result.get(room.id);
+    const width = getDoorWidth(room.type);
+
+    const doors = getRequiredConnections(current, floorRooms, options)
+      .filter((other) => !hasDoorBetween(current, other))
+      .map((other) => doorOnSharedWall(current, other, width))
+      .filter((door): door is Door => !!door);
+    if (doors.length === 0) continue;
+    result.set(room.id, { ...current, doors: [...(current.doors ?? []), ...doors] });
+    changes.push(`Added ${doors.length} door(s) to ${describeRoom(room)} so it connects to its neighbors.`);
+  }
+
+  return rooms.map((room) => result.get(room.id));
+};
+
+// Main door on the lowest floor, on a road-facing exterior wall
+const addMainDoor = (rooms: Room[], options: OpeningOptions, changes: string[]): Room[] => {
+  const groundFloor = Math.min(...rooms.map((room) => room.floor));
+  const groundRooms = rooms.filter((room) => room.floor === groundFloor);
+  if (groundRooms.some((room) => room.doors?.some((door) => door.isMain))) return rooms;
+
+  const entranceSides = options.entranceSides?.length ? options.entranceSides : ['bottom' as const];
+  const entrance = groundRooms
+    .filter((room) => !room.locked && ENTRANCE_ROOM_TYPES.includes(room.type))
+    .flatMap((room) => entranceSides.map((side) => ({ room, side, offset: centerOnExterior(room, side, MAIN_DOOR_WIDTH, DOOR_MARGIN, groundRooms) })))
+    .filter((candidate) => candidate.offset !== null)
+    .sort((a, b) =>
+      ENTRANCE_ROOM_TYPES.indexOf(a.room.type) - ENTRANCE_ROOM_TYPES.indexOf(b.room.type) ||
+      entranceSides.indexOf(a.side) - entranceSides.indexOf(b.side))[0];
+  if (!entrance) {
+    changes.push('No living area has a road-facing exterior wall long enough for the main door.');
+    return rooms;
+  }
+
+  const door: Door = { position: entrance.side, offset: entrance.offset, width: MAIN_DOOR_WIDTH, isMain: true };
+  return rooms.map((room) => (room.id === entrance.room.id ? { ...room, doors: [...(room.doors ?? []), door] } : room));
+};
+
+// Give rooms the main door cannot reach, and bedrooms it only reaches through
+// another bedroom, a door into the best neighbor it reaches directly. One door
+// at a time, since each new door can make more rooms reachable.
+const connectUnreachableRooms = (rooms: Room[], changes: string[]): Room[] => {
+  let result = rooms;
+
+  for (let attempt = 0; attempt < rooms.length; attempt++) {
+    const reached = findReachableRooms(result);
+    if (!reached) break;
+
+    const link = result
+      .filter((room) => !reached.reachable.has(room.id) || (room.type === 'bedroom' && !reached.direct.has(room.id)))
+      .flatMap((room) => {
+        const width = getDoorWidth(room.type);
+        const priority = CIRCULATION_PRIORITY[room.type] ?? ['hallway', 'living', 'dining'];
+        return result
+          .filter((other) => reached.direct.has(other.id) && other.type !== 'bedroom' && !DEAD_END_TYPES.includes(other.type))
+          .map((other) => {
+            const owner = room.locked ? other : room;
+            const door = owner.locked ? null : doorOnSharedWall(owner, owner === room ? other : room, width);
+            const rank = priority.includes(other.type) ? priority.indexOf(other.type) : priority.length;
+            return { room, other, owner, door, rank };
+          });
+      })
+      .filter((candidate) => candidate.door)
+      .sort((a, b) => a.rank - b.rank)[0];
+    if (!link) break;
+
+    result = result.map((room) => (room.id === link.owner.id ? { ...room, doors: [...(room.doors ?? []), link.door] } : room));
+    changes.push(`Added a door between ${link.room.name} and ${link.other.name} on floor ${link.room.floor} so it can be reached from the main entrance.`);
+  }
+
+  return result;
+};
+
+// Windows on the free exterior walls of rooms that have none yet, up to the
+// room type's limit
+const addWindows = (rooms: Room[]): Room[] =>
+  rooms.map((room) => {
+    const width = WINDOW_WIDTHS[room.type];
+    if (room.locked || !width || (room.windows ?? []).length > 0) return room;
+
+    const floorRooms = rooms.filter((other) => other.floor === room.floor);
+    const type = WINDOW_TYPES[room.type];
+    const windows: Window[] = WALL_SIDES
+      .filter((side) => !(room.doors ?? []).some((door) => door.position === side))
+      .flatMap((side) => {
+        const offset = centerOnExterior(room, side, width, WINDOW_MARGIN, floorRooms);
+        return offset === null ? [] : [{ position: side, offset, width, ...(type && { type }) }];
+      })
+      .slice(0, MAX_WINDOWS[room.type] ?? WALL_SIDES.length);
+    return { ...room, windows };
+  });
+
+// Clean up existing openings, then add the doors, main door and windows that
+// are missing. Locked rooms keep their openings as they are.
+export const placeOpenings = (rooms: Room[], options: OpeningOptions = {}): OpeningPlacement => {
+  if (rooms.length === 0) return { rooms, changes: [] };
+  const changes: string[] = [];
+  const valid = removeInvalidOpenings(rooms, changes);
+  const withDoors = connectUnreachableRooms(addMainDoor(addDoors(valid, options, changes), options, changes), changes);
+  return { rooms: addWindows(withDoors), changes };
+};
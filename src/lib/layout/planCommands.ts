@@ -0,0 +1,281 @@
+import { Door, DoorType, Furniture, GeneratedLayout, ROOM_COLORS, ROOM_NAMES, Room, RoomType, Window, WindowType } from '../../types/floorPlan.ts';
+import { DEFAULT_WALL_THICKNESS, getEfficiency } from './areaMetrics.ts';
+import { GEOMETRY_TOLERANCE, Rect, WallSide, findSharedWall, getWallSpan, resizeRoom } from './geometry.ts';
+import { getFurnitureFootprint, getRoomFurniture } from './furniture.ts';
+import { DOOR_CATALOG, WINDOW_CATALOG, fitOpeningWidth } from './openingCatalog.ts';
+import { getDoorWidth, getWindowWidth } from './openings.ts';
+import { MIN_EDIT_DIMENSION, snapToGrid } from './planEditing.ts';
+
+// Hand edits recorded as commands so they can be undone and redone. Every
+// command keeps the rooms it touched as they were before and after, so one
+// shape covers moves, resizes, door and window changes, renames, retypes,
+// splits and merges; a room only in `after` was added and one only in
+// `before` was removed.
+
+export type PlanCommandKind =
+  | 'move'
+  | 'resize'
+  | 'add-door'
+  | 'remove-door'
+  | 'add-window'
+  | 'remove-window'
+  | 'edit-opening'
+  | 'furniture'
+  | 'rename'
+  | 'retype'
+  | 'split'
+  | 'merge';
+
+export type SplitAxis = 'vertical' | 'horizontal'; // direction of the new wall
+
+export type OpeningKind = 'door' | 'window';
+
+export interface PlanCommand {
+  kind: PlanCommandKind;
+  label: string; // shown in the history panel
+  variantId: string;
+  before: Room[];
+  after: Room[];
+}
+
+const sameRoom = (a: Room, b: Room) => JSON.stringify(a) === JSON.stringify(b);
+
+// The command that turns one room list into another, or null when nothing changed
+export const createPlanCommand = (
+  kind: PlanCommandKind,
+  label: string,
+  variantId: string,
+  previous: Room[],
+  next: Room[]
+): PlanCommand | null => {
+  const previousById = new Map(previous.map((room) => [room.id, room]));
+  const nextById = new Map(next.map((room) => [room.id, room]));
+
+  const before = previous.filter((room) => !nextById.has(room.id) || !sameRoom(room, nextById.get(room.id)));
+  const after = next.filter((room) => !previousById.has(room.id) || !sameRoom(room, previousById.get(room.id)));
+  if (before.length === 0 && after.length === 0) return null;
+
+  return { kind, label, variantId, before, after };
+};
+
+// Replace the command's rooms in the layout, forwards for redo or backwards for undo
+export const applyPlanCommand = (layout: GeneratedLayout, command: PlanCommand, direction: 'redo' | 'undo'): GeneratedLayout => {
+  const from = direction === 'redo' ? command.before : command.after;
+  const to = direction === 'redo' ? command.after : command.before;
+  const removed = new Set(from.map((room) => room.id));
+  const replaced = new Map(to.map((room) => [room.id, room]));
+
+  // Changed rooms keep their place in the list; added ones go at the end
+  const rooms = [
+    ...layout.rooms.flatMap((room) => (replaced.has(room.id) ? [replaced.get(room.id)] : removed.has(room.id) ? [] : [room])),
+    ...to.filter((room) => !layout.rooms.some((existing) => existing.id === room.id)),
+  ];
+
+  return { ...layout, rooms, efficiency: getEfficiency(rooms, layout.wallThickness) };
+};
+
+const updateRoom = (rooms: Room[], roomId: string, update: (room: Room) => Room) =>
+  rooms.map((room) => (room.id === roomId ? update(room) : room));
+
+export const renameRoom = (rooms: Room[], roomId: string, name: string): Room[] =>
+  updateRoom(rooms, roomId, (room) => ({ ...room, name }));
+
+// A new type brings the colour of that type with it, and its name when the
+// room still has the old type's default name
+export const retypeRoom = (rooms: Room[], roomId: string, type: RoomType): Room[] =>
+  updateRoom(rooms, roomId, (room) => ({
+    ...room,
+    type,
+    name: room.name === ROOM_NAMES[room.type] ? ROOM_NAMES[type] : room.name,
+    color: ROOM_COLORS[type],
+  }));
+
+const centredOn = (room: Room, side: WallSide, width: number) => {
+  const span = getWallSpan(room, side);
+  const fitted = Math.min(width, span.length);
+  return { position: side, offset: Math.round(((span.length - fitted) / 2 / span.length) * 100), width: fitted };
+};
+
+// A door centred on one wall, at the usual width for the room type
+export const addDoor = (rooms: Room[], roomId: string, side: WallSide): Room[] =>
+  updateRoom(rooms, roomId, (room) => {
+    const door: Door = centredOn(room, side, getDoorWidth(room.type));
+    return { ...room, doors: [...(room.doors ?? []), door] };
+  });
+
+export const removeDoor = (rooms: Room[], roomId: string, doorIndex: number): Room[] =>
+  updateRoom(rooms, roomId, (room) => ({ ...room, doors: (room.doors ?? []).filter((_, index) => index !== doorIndex) }));
+
+export const addWindow = (rooms: Room[], roomId: string, side: WallSide): Room[] =>
+  updateRoom(rooms, roomId, (room) => {
+    const window: Window = centredOn(room, side, getWindowWidth(room.type));
+    return { ...room, windows: [...(room.windows ?? []), window] };
+  });
+
+export const removeWindow = (rooms: Room[], roomId: string, windowIndex: number): Room[] =>
+  updateRoom(rooms, roomId, (room) => ({ ...room, windows: (room.windows ?? []).filter((_, index) => index !== windowIndex) }));
+
+// Offsets stay whole percentages and keep the opening on its wall
+const clampOffset = (room: Room, opening: Door | Window, offset: number) => {
+  const span = getWallSpan(room, opening.position);
+  const maxOffset = Math.max(0, Math.floor(((span.length - opening.width) / span.length) * 100));
+  return Math.min(maxOffset, Math.max(0, Math.round(offset)));
+};
+
+const updateOpening = (
+  rooms: Room[],
+  roomId: string,
+  kind: OpeningKind,
+  index: number,
+  update: (opening: Door | Window, room: Room) => Door | Window
+): Room[] =>
+  updateRoom(rooms, roomId, (room) => {
+    const key = kind === 'door' ? 'doors' : 'windows';
+    return { ...room, [key]: (room[key] ?? []).map((opening, i) => (i === index ? update(opening, room) : opening)) };
+  });
+
+// A new type takes the catalog's heights and a width the type comes in
+export const setOpeningType = (rooms: Room[], roomId: string, kind: OpeningKind, index: number, type: DoorType | WindowType): Room[] =>
+  updateOpening(rooms, roomId, kind, index, (opening, room) => {
+    const spec = kind === 'door' ? DOOR_CATALOG[type as DoorType] : WINDOW_CATALOG[type as WindowType];
+    const { sillHeight, headHeight, ...rest } = opening;
+    const width = Math.min(fitOpeningWidth(opening.width, spec), getWallSpan(room, opening.position).length);
+    const typed = { ...rest, type, width } as Door | Window;
+    return { ...typed, offset: clampOffset(room, typed, opening.offset) };
+  });
+
+// Hang the leaves from the other jamb, or turn them to open the other way
+export const flipOpening = (rooms: Room[], roomId: string, kind: OpeningKind, index: number, part: 'hinge' | 'swing'): Room[] =>
+  updateOpening(rooms, roomId, kind, index, (opening) => {
+    if (part === 'hinge') return { ...opening, hinge: (opening.hinge ?? 'start') === 'start' ? 'end' : 'start' };
+    const swing = opening.swing ?? (kind === 'door' ? 'in' : 'out');
+    return { ...opening, swing: swing === 'in' ? 'out' : 'in' };
+  });
+
+export const slideOpening = (rooms: Room[], roomId: string, kind: OpeningKind, index: number, offset: number): Room[] =>
+  updateOpening(rooms, roomId, kind, index, (opening, room) => ({ ...opening, offset: clampOffset(room, opening, offset) }));
+
+const OPPOSITE_SIDES: Record<WallSide, WallSide> = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' };
+
+const dropOpeningsOn = <T extends { position: WallSide }>(openings: T[] | undefined, side: WallSide): T[] | undefined =>
+  openings?.filter((opening) => opening.position !== side);
+
+// Saved furniture that stands wholly inside part of a room, or none saved
+const furnitureWithin = (room: Room, rect: Rect): Furniture[] | undefined =>
+  room.furniture?.filter((piece) => {
+    const footprint = getFurnitureFootprint(room, piece);
+    const x = room.x + footprint.x;
+    const y = room.y + footprint.y;
+    return (
+      x >= rect.x - GEOMETRY_TOLERANCE &&
+      y >= rect.y - GEOMETRY_TOLERANCE &&
+      x + footprint.width <= rect.x + rect.width + GEOMETRY_TOLERANCE &&
+      y + footprint.height <= rect.y + rect.height + GEOMETRY_TOLERANCE
+    );
+  });
+
+const getUnusedId = (rooms: Room[], base: string) => {
+  let id = base;
+  for (let n = 2; rooms.some((room) => room.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+// Carve a room of another type out of one side of a room with a new wall
+// `at` ft from its left (vertical) or top (horizontal) edge, on the grid. The
+// room keeps the part before the wall and the new room takes the rest, with
+// its own door through the new wall; openings that would cross the wall are
+// dropped. Null when either part would be under the minimum size.
+export const splitRoom = (rooms: Room[], roomId: string, axis: SplitAxis, at: number, type: RoomType, grid: number): Room[] | null => {
+  const room = rooms.find((candidate) => candidate.id === roomId);
+  if (!room) return null;
+
+  const vertical = axis === 'vertical';
+  const start = vertical ? room.x : room.y;
+  const length = vertical ? room.width : room.height;
+  const line = snapToGrid(start + at, grid) - start;
+  if (line < MIN_EDIT_DIMENSION - GEOMETRY_TOLERANCE || length - line < MIN_EDIT_DIMENSION - GEOMETRY_TOLERANCE) return null;
+
+  const kept: Rect = vertical ? { x: room.x, y: room.y, width: line, height: room.height } : { x: room.x, y: room.y, width: room.width, height: line };
+  const carved: Rect = vertical
+    ? { x: room.x + line, y: room.y, width: room.width - line, height: room.height }
+    : { x: room.x, y: room.y + line, width: room.width, height: room.height - line };
+  // The wall after the line belongs to the new room, and the one before it to the old
+  const farSide: WallSide = vertical ? 'right' : 'bottom';
+  const nearSide = OPPOSITE_SIDES[farSide];
+
+  const first = resizeRoom(
+    { ...room, doors: dropOpeningsOn(room.doors, farSide), windows: dropOpeningsOn(room.windows, farSide), furniture: furnitureWithin(room, kept) },
+    kept
+  );
+  const second = resizeRoom(
+    { ...room, doors: dropOpeningsOn(room.doors, nearSide), windows: dropOpeningsOn(room.windows, nearSide), furniture: undefined },
+    carved
+  );
+  const added: Room = {
+    ...second,
+    id: getUnusedId(rooms, `${room.id}-${type}`),
+    type,
+    name: ROOM_NAMES[type],
+    color: ROOM_COLORS[type],
+    doors: [...(second.doors ?? []), centredOn(second, nearSide, getDoorWidth(type))],
+    locked: undefined,
+  };
+
+  return [...rooms.map((candidate) => (candidate.id === roomId ? first : candidate)), added];
+};
+
+// The wall two rooms share along the whole length of both, or null
+const getFullSharedWall = (room: Room, other: Room) => {
+  const wall = findSharedWall(room, other);
+  if (!wall) return null;
+  const own = getWallSpan(room, wall.side);
+  const theirs = getWallSpan(other, OPPOSITE_SIDES[wall.side]);
+  const covers = (span: { start: number; length: number }) =>
+    Math.abs(wall.start - span.start) <= GEOMETRY_TOLERANCE && Math.abs(wall.end - span.start - span.length) <= GEOMETRY_TOLERANCE;
+  return covers(own) && covers(theirs) ? wall : null;
+};
+
+// Rooms that can be merged into a room: those sharing one of its walls end to end
+export const getMergeCandidates = (rooms: Room[], roomId: string): Room[] => {
+  const room = rooms.find((candidate) => candidate.id === roomId);
+  return room ? rooms.filter((other) => getFullSharedWall(room, other)) : [];
+};
+
+// Take down the wall between two rooms that share it end to end. The first
+// room grows over the second, with the doors and windows of both except the
+// ones on the wall that is gone; a new type renames and recolours it.
+export const mergeRooms = (
+  rooms: Room[],
+  roomId: string,
+  otherId: string,
+  type?: RoomType,
+  wallThickness = DEFAULT_WALL_THICKNESS
+): Room[] | null => {
+  const room = rooms.find((candidate) => candidate.id === roomId);
+  const other = rooms.find((candidate) => candidate.id === otherId);
+  const wall = room && other ? getFullSharedWall(room, other) : null;
+  if (!wall) return null;
+
+  const rect: Rect = {
+    x: Math.min(room.x, other.x),
+    y: Math.min(room.y, other.y),
+    width: Math.max(room.x + room.width, other.x + other.width) - Math.min(room.x, other.x),
+    height: Math.max(room.y + room.height, other.y + other.height) - Math.min(room.y, other.y),
+  };
+  const grow = (part: Room, side: WallSide, furniture: Furniture[] | undefined) =>
+    resizeRoom({ ...part, doors: dropOpeningsOn(part.doors, side), windows: dropOpeningsOn(part.windows, side), furniture }, rect);
+
+  // Furniture is only carried over when one of the rooms was furnished by hand
+  const keepFurniture = !!(room.furniture || other.furniture);
+  const first = grow(room, wall.side, keepFurniture ? getRoomFurniture(room, wallThickness, rooms) : undefined);
+  const second = grow(other, OPPOSITE_SIDES[wall.side], keepFurniture ? getRoomFurniture(other, wallThickness, rooms) : undefined);
+  const merged: Room = {
+    ...first,
+    doors: [...(first.doors ?? []), ...(second.doors ?? [])],
+    windows: [...(first.windows ?? []), ...(second.windows ?? [])],
+    furniture: keepFurniture ? [...first.furniture, ...second.furniture] : undefined,
+  };
+  const typed = type && type !== room.type ? retypeRoom([merged], room.id, type)[0] : merged;
+
+  return rooms.flatMap((candidate) => (candidate.id === roomId ? [typed] : candidate.id === otherId ? [] : [candidate]));
+};
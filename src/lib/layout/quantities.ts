@@ -0,0 +1,91 @@
+import { Door, Room } from '../../types/floorPlan.ts';
+import { GEOMETRY_TOLERANCE, WallSide, findSharedWall, getOpeningSpan } from './geometry.ts';
+import { getExteriorSegments } from './openings.ts';
+import { WET_ROOM_TYPES } from './verticalCores.ts';
+
+// Quantities taken off a layout for estimating. Lengths are running feet of
+// wall centre line, so a wall between two rooms is counted once.
+
+export interface FloorQuantities {
+  floor: number;
+  floorArea: number; // sq ft
+  exteriorWallLength: number; // ft
+  interiorWallLength: number; // ft
+  doors: number;
+  windows: number;
+  wetRooms: number;
+}
+
+export interface LayoutQuantities {
+  floors: FloorQuantities[];
+  total: Omit<FloorQuantities, 'floor'>;
+}
+
+const SIDES: WallSide[] = ['top', 'bottom', 'left', 'right'];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// A door drawn on both sides of a shared wall is one door
+const isDuplicateDoor = (room: Room, door: Door, counted: Room[]): boolean => {
+  const { start, end } = getOpeningSpan(room, door);
+  return counted.some((other) => {
+    const wall = findSharedWall(room, other);
+    if (!wall || wall.side !== door.position) return false;
+    const mirrored = findSharedWall(other, room);
+    return (other.doors ?? []).some((otherDoor) => {
+      if (otherDoor.position !== mirrored?.side) return false;
+      const span = getOpeningSpan(other, otherDoor);
+      return Math.min(end, span.end) - Math.max(start, span.start) > GEOMETRY_TOLERANCE;
+    });
+  });
+};
+
+// Every door in the layout once, with the room it was drawn in
+export const getUniqueDoors = (rooms: Room[]): { room: Room; door: Door }[] =>
+  rooms.flatMap((room, index) => {
+    const counted = rooms.slice(0, index).filter((other) => other.floor === room.floor);
+    return (room.doors ?? []).filter((door) => !isDuplicateDoor(room, door, counted)).map((door) => ({ room, door }));
+  });
+
+const measureFloor = (floor: number, rooms: Room[]): FloorQuantities => {
+  let exteriorWallLength = 0;
+  let interiorWallLength = 0;
+
+  rooms.forEach((room, index) => {
+    for (const side of SIDES) {
+      exteriorWallLength += getExteriorSegments(room, side, rooms).reduce((sum, segment) => sum + segment.end - segment.start, 0);
+    }
+    for (const other of rooms.slice(index + 1)) {
+      const wall = findSharedWall(room, other);
+      if (wall) interiorWallLength += wall.end - wall.start;
+    }
+  });
+
+  return {
+    floor,
+    floorArea: round(rooms.reduce((sum, room) => sum + room.width * room.height, 0)),
+    exteriorWallLength: round(exteriorWallLength),
+    interiorWallLength: round(interiorWallLength),
+    doors: getUniqueDoors(rooms).length,
+    windows: rooms.reduce((sum, room) => sum + (room.windows?.length ?? 0), 0),
+    wetRooms: rooms.filter((room) => WET_ROOM_TYPES.includes(room.type)).length,
+  };
+};
+
+export const measureQuantities = (rooms: Room[]): LayoutQuantities => {
+  const floorNumbers = [...new Set(rooms.map((room) => room.floor))].sort((a, b) => a - b);
+  const floors = floorNumbers.map((floor) => measureFloor(floor, rooms.filter((room) => room.floor === floor)));
+
+  const sum = (key: keyof Omit<FloorQuantities, 'floor'>) => round(floors.reduce((total, floor) => total + floor[key], 0));
+  return {
+    floors,
+    total: {
+      floorArea: sum('floorArea'),
+      exteriorWallLength: sum('exteriorWallLength'),
+      interiorWallLength: sum('interiorWallLength'),
+      doors: sum('doors'),
+      windows: sum('windows'),
+      wetRooms: sum('wetRooms'),
+    },
+  };
+};
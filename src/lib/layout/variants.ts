@@ -0,0 +1,47 @@
+import { GeneratedLayout, GenerationRequestBody, LayoutVariant } from '../../types/floorPlan.ts';
+import { scoreLayout } from './scoreLayout.ts';
+import { SolverOptions, solveLayout } from './solveLayout.ts';
+
+export interface VariantCandidate {
+  label: string;
+  source: LayoutVariant['source'];
+  layout: GeneratedLayout;
+}
+
+export const DEFAULT_VARIANT_COUNT = 3;
+
+const SOLVER_STRATEGIES: { label: string; options: SolverOptions }[] = [
+  { label: 'Zoned', options: {} },
+  { label: 'Zoned, mirrored', options: { mirror: true } },
+  { label: 'Compact', options: { spareRooms: false } },
+  { label: 'Compact, mirrored', options: { mirror: true, spareRooms: false } },
+];
+
+// One variant per solver strategy, plus the AI layout when there is one
+export const MAX_VARIANT_COUNT = SOLVER_STRATEGIES.length + 1;
+
+export const getVariantCount = (request: GenerationRequestBody, withAiLayout = false): number => {
+  const max = withAiLayout ? MAX_VARIANT_COUNT : SOLVER_STRATEGIES.length;
+  return Math.max(1, Math.min(max, Math.round(request.variantCount ?? DEFAULT_VARIANT_COUNT)));
+};
+
+export function solveLayoutVariants(request: GenerationRequestBody, count: number): VariantCandidate[] {
+  return SOLVER_STRATEGIES.slice(0, Math.max(0, count)).map(({ label, options }) => ({
+    label,
+    source: 'solver',
+    layout: solveLayout(request, options),
+  }));
+}
+
+// Score every candidate and order them best first
+export function rankVariants(candidates: VariantCandidate[], request: GenerationRequestBody): LayoutVariant[] {
+  return candidates
+    .map((candidate, index) => ({
+      id: `variant-${index + 1}`,
+      label: candidate.label,
+      source: candidate.source,
+      layout: candidate.layout,
+      score: scoreLayout(candidate.layout, request),
+    }))
+    .sort((a, b) => b.score.total - a.score.total);
+}
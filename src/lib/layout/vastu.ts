@@ -0,0 +1,135 @@
+import { GenerationRequestBody, Room } from '../../types/floorPlan.ts';
+import { isMasterBedroom } from './adjacency.ts';
+import { Rect } from './geometry.ts';
+import { CompassPoint, getCompassPoint, getCompassPointAt, getCompassShift, getSideBearing } from './orientation.ts';
+
+// The nine padas of the plot: eight compass zones around the centre (Brahmasthan)
+export type CompassZone = CompassPoint | 'C';
+
+export type VastuStatus = 'pass' | 'warn' | 'fail';
+
+interface VastuRule {
+  label: string;
+  matches: (room: Room, floorRooms: Room[]) => boolean;
+  zones: CompassZone[];
+}
+
+export interface VastuCheck {
+  label: string; // what the rule is about, e.g. "Kitchen" or "Main entrance"
+  roomId: string;
+  floor: number;
+  zone: CompassZone; // where the room or entrance is
+  preferred: CompassZone[];
+  status: VastuStatus;
+  message: string;
+}
+
+export interface VastuZoneCell extends Rect {
+  zone: CompassZone;
+}
+
+export type VastuRequest = Pick<GenerationRequestBody, 'plotLength' | 'plotWidth' | 'facing' | 'roadSides'>;
+
+// Vastu placements from the generation prompt
+const VASTU_RULES: VastuRule[] = [
+  { label: 'Kitchen', matches: (room) => room.type === 'kitchen', zones: ['SE'] },
+  { label: 'Master bedroom', matches: isMasterBedroom, zones: ['SW'] },
+  { label: 'Pooja room', matches: (room) => room.type === 'pooja', zones: ['NE'] },
+  { label: 'Toilet', matches: (room) => room.type === 'bathroom', zones: ['NW', 'W'] },
+  { label: 'Living room', matches: (room) => room.type === 'living', zones: ['N', 'E', 'NE'] },
+  { label: 'Staircase', matches: (room) => room.type === 'staircase', zones: ['S', 'W', 'SW'] },
+];
+
+const ENTRANCE_ZONES: CompassZone[] = ['N', 'E', 'NE'];
+
+const STATUS_SCORES: Record<VastuStatus, number> = { pass: 1, warn: 0.5, fail: 0 };
+
+const DRAWING_ROWS = ['top', '', 'bottom'];
+const DRAWING_COLUMNS = ['left', '', 'right'];
+
+const getCellZone = (row: number, column: number, compassShift: number): CompassZone => {
+  const direction = [DRAWING_ROWS[row], DRAWING_COLUMNS[column]].filter(Boolean).join('-');
+  return direction ? getCompassPointAt(direction, compassShift) : 'C';
+};
+
+// The plot's 3x3 cell a room's center falls in, turned to the compass by
+// compassShift (see getCompassShift); 0 keeps north at the top (y = 0)
+export const getCompassZone = (room: Room, plotLength: number, plotWidth: number, compassShift = 0): CompassZone => {
+  const column = Math.min(2, Math.floor(((room.x + room.width / 2) / plotLength) * 3));
+  const row = Math.min(2, Math.floor(((room.y + room.height / 2) / plotWidth) * 3));
+  return getCellZone(row, column, compassShift);
+};
+
+// The nine padas in drawing coordinates, for overlays
+export const getVastuZones = (request: VastuRequest): VastuZoneCell[] => {
+  const compassShift = getCompassShift(request);
+  const width = request.plotLength / 3;
+  const height = request.plotWidth / 3;
+  return [0, 1, 2].flatMap((row) =>
+    [0, 1, 2].map((column) => ({ zone: getCellZone(row, column, compassShift), x: column * width, y: row * height, width, height })));
+};
+
+// Preferred zone passes; a zone sharing a direction with one (e.g. S for SE) warns
+const rateZone = (zone: CompassZone, preferred: CompassZone[]): VastuStatus => {
+  if (preferred.includes(zone)) return 'pass';
+  if (preferred.some((point) => [...point].some((letter) => zone.includes(letter)))) return 'warn';
+  return 'fail';
+};
+
+const describeCheck = (label: string, where: string, zone: CompassZone, preferred: CompassZone[], status: VastuStatus): string => {
+  const zoneName = zone === 'C' ? 'the centre' : zone;
+  if (status === 'pass') return `${label} ${where} ${zoneName} as recommended.`;
+  return `${label} ${where} ${zoneName}; ${preferred.join(' or ')} is recommended.`;
+};
+
+// One check per room a rule covers, plus the main entrance, across all floors
+export const buildVastuReport = (rooms: Room[], request: VastuRequest): VastuCheck[] => {
+  const compassShift = getCompassShift(request);
+  const checks: VastuCheck[] = [];
+
+  for (const room of rooms) {
+    const floorRooms = rooms.filter((other) => other.floor === room.floor);
+    const rule = VASTU_RULES.find((candidate) => candidate.matches(room, floorRooms));
+    if (!rule) continue;
+
+    const zone = getCompassZone(room, request.plotLength, request.plotWidth, compassShift);
+    const status = rateZone(zone, rule.zones);
+    checks.push({
+      label: rule.label,
+      roomId: room.id,
+      floor: room.floor,
+      zone,
+      preferred: rule.zones,
+      status,
+      message: `Floor ${room.floor}: ${describeCheck(room.name, 'is in the', zone, rule.zones, status)}`,
+    });
+  }
+
+  for (const room of rooms) {
+    for (const door of (room.doors ?? []).filter((candidate) => candidate.isMain)) {
+      const zone = getCompassPoint(getSideBearing(request, door.position));
+      const status = rateZone(zone, ENTRANCE_ZONES);
+      checks.push({
+        label: 'Main entrance',
+        roomId: room.id,
+        floor: room.floor,
+        zone,
+        preferred: ENTRANCE_ZONES,
+        status,
+        message: describeCheck('The main entrance', 'faces', zone, ENTRANCE_ZONES, status),
+      });
+    }
+  }
+
+  return checks;
+};
+
+// Average of the checks, 1 when no rule applies
+export const getVastuScore = (checks: VastuCheck[]): number =>
+  checks.length === 0 ? 1 : checks.reduce((sum, check) => sum + STATUS_SCORES[check.status], 0) / checks.length;
+
+// "5 of 7 Vastu placements pass, 1 warning, 1 fail (79%)" for suggestions and the PDF
+export const describeVastuReport = (checks: VastuCheck[]): string => {
+  const count = (status: VastuStatus) => checks.filter((check) => check.status === status).length;
+  return `${count('pass')} of ${checks.length} Vastu placements pass, ${count('warn')} warning(s), ${count('fail')} fail (${Math.round(getVastuScore(checks) * 100)}%).`;
+};
@@ -0,0 +1,45 @@
+import { ReplayFixture, createFixtureReplayProvider } from './fixtureReplay.ts';
+import { createLocalHttpProvider } from './localHttp.ts';
+import { createOpenAICompatibleProvider } from './openAICompatible.ts';
+import { LlmProvider } from './provider.ts';
+
+export type LlmProviderKind = 'openai-compatible' | 'local-http' | 'fixture-replay';
+
+export interface LlmProviderConfig {
+  provider?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  fixtures?: ReplayFixture[];
+}
+
+// The Lovable AI gateway is the default deployment target
+const DEFAULT_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1';
+const DEFAULT_GATEWAY_MODEL = 'google/gemini-3-flash-preview';
+const DEFAULT_LOCAL_URL = 'http://localhost:11434';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+export function createLlmProvider(config: LlmProviderConfig): LlmProvider {
+  const provider = (config.provider || 'openai-compatible') as LlmProviderKind;
+
+  switch (provider) {
+    case 'openai-compatible':
+      if (!config.apiKey) {
+        throw new Error('LLM API key is not configured');
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl: config.baseUrl || DEFAULT_GATEWAY_URL,
+        apiKey: config.apiKey,
+        model: config.model || DEFAULT_GATEWAY_MODEL,
+      });
+    case 'local-http':
+      return createLocalHttpProvider({
+        baseUrl: config.baseUrl || DEFAULT_LOCAL_URL,
+        model: config.model || DEFAULT_LOCAL_MODEL,
+      });
+    case 'fixture-replay':
+      return createFixtureReplayProvider(config.fixtures ?? []);
+    default:
+      throw new Error(`Unknown LLM provider "${config.provider}"`);
+  }
+}
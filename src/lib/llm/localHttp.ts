@@ -0,0 +1,32 @@
+import { ChatMessage, CompletionOptions, LlmProvider, requireContent, toProviderError } from './provider.ts';
+
+export interface LocalHttpConfig {
+  baseUrl: string; // e.g. http://localhost:11434
+  model: string;
+}
+
+// A model served on the local network through the Ollama-style /api/chat endpoint
+export const createLocalHttpProvider = ({ baseUrl, model }: LocalHttpConfig): LlmProvider => ({
+  name: 'local-http',
+  complete: async (messages: ChatMessage[], options: CompletionOptions = {}) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream: false,
+        ...(options.json ? { format: 'json' } : {}),
+        options: options.temperature === undefined ? undefined : { temperature: options.temperature },
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw await toProviderError('Local model', response);
+    }
+
+    const data = await response.json();
+    return requireContent('local model', data.message?.content);
+  },
+});
@@ -0,0 +1,35 @@
+import { ChatMessage, CompletionOptions, LlmProvider, requireContent, toProviderError } from './provider.ts';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // up to and including the version segment, e.g. https://api.openai.com/v1
+  apiKey: string;
+  model: string;
+}
+
+// Any /chat/completions API that follows the OpenAI request and response shape
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey, model }: OpenAICompatibleConfig): LlmProvider => ({
+  name: 'openai-compatible',
+  complete: async (messages: ChatMessage[], options: CompletionOptions = {}) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: options.temperature,
+        ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw await toProviderError('AI gateway', response);
+    }
+
+    const data = await response.json();
+    return requireContent('AI gateway', data.choices?.[0]?.message?.content);
+  },
+});
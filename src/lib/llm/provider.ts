@@ -0,0 +1,52 @@
+// Chat-completion providers shared by the generate-floor-plan edge function
+// and the tests. Implementations only rely on fetch.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  json?: boolean; // ask the model for a bare JSON object
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  name: string;
+  complete: (messages: ChatMessage[], options?: CompletionOptions) => Promise<string>;
+}
+
+export type LlmErrorKind = 'rate_limited' | 'quota_exhausted' | 'upstream' | 'empty_response';
+
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    public kind: LlmErrorKind,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+export const mapHttpStatus = (status: number): LlmErrorKind => {
+  if (status === 429) return 'rate_limited';
+  if (status === 402) return 'quota_exhausted';
+  return 'upstream';
+};
+
+// Turn a non-2xx provider response into a typed error
+export const toProviderError = async (providerName: string, response: Response): Promise<LlmProviderError> => {
+  const errorText = await response.text();
+  console.error(`${providerName} error:`, response.status, errorText);
+  return new LlmProviderError(`${providerName} error: ${response.status}`, mapHttpStatus(response.status), response.status);
+};
+
+export const requireContent = (providerName: string, content: unknown): string => {
+  if (typeof content !== 'string' || !content.trim()) {
+    console.error(`Empty ${providerName} response`);
+    throw new LlmProviderError(`Empty response from ${providerName}`, 'empty_response');
+  }
+  return content;
+};
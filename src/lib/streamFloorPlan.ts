@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+import { GenerationProgressEvent, GenerationRequestBody, GenerationResult } from '@/types/floorPlan';
+
+interface StreamFloorPlanOptions {
+  signal?: AbortSignal;
+  onEvent?: (event: GenerationProgressEvent) => void;
+}
+
+// Split buffered text/event-stream data into complete events, returning the unfinished tail
+export const parseServerSentEvents = (buffer: string): { events: GenerationProgressEvent[]; rest: string } => {
+  const blocks = buffer.split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events = blocks.flatMap((block) => {
+    const data = block
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trim())
+      .join('\n');
+    return data ? [JSON.parse(data) as GenerationProgressEvent] : [];
+  });
+  return { events, rest };
+};
+
+// Call generate-floor-plan and report its progress events as they arrive.
+// Aborting the signal closes the connection, which cancels the model request upstream.
+export async function streamFloorPlan(
+  requestBody: GenerationRequestBody,
+  { signal, onEvent }: StreamFloorPlanOptions = {}
+): Promise<GenerationResult> {
+  const functionUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-floor-plan`;
+  const anonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  // Signed-in users call the function as themselves; the anon key stands in otherwise
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token ?? anonKey;
+
+  const response = await fetch(functionUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      apikey: anonKey,
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(requestBody),
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Failed to generate plan');
+  }
+
+  // Deployments without streaming answer with the plain JSON result
+  if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    return (await response.json()) as GenerationResult;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    const parsed = parseServerSentEvents(buffer + decoder.decode(value, { stream: true }));
+    buffer = parsed.rest;
+
+    for (const event of parsed.events) {
+      onEvent?.(event);
+      if (event.type === 'error') throw new Error(event.error);
+      if (event.type === 'result') return event.result;
+    }
+  }
+
+  throw new Error('Generation ended before a plan was returned');
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { checkAdjacency } from "@/lib/layout/adjacency";
+import { scoreAdjacency } from "@/lib/layout/scoreLayout";
+import { buildUserPrompt } from "@/lib/generation/prompts";
+import { AdjacencyEdge, GenerationRequestBody, Room } from "@/types/floorPlan";
+import { makeRoom } from "./makeRoom";
+
+// Master bedroom | master bath | pooja, with the kitchen below the bedroom
+const rooms = [
+  makeRoom({ id: "master", type: "bedroom", name: "Master Bedroom", x: 0, y: 0, width: 14, height: 12 }),
+  makeRoom({ id: "bath", type: "bathroom", name: "Attached Bath", x: 14, y: 0, width: 6, height: 12 }),
+  makeRoom({ id: "pooja", type: "pooja", name: "Pooja", x: 20, y: 0, width: 6, height: 12 }),
+  makeRoom({ id: "bed2", type: "bedroom", name: "Bedroom 2", x: 26, y: 0, width: 12, height: 12 }),
+  makeRoom({ id: "kitchen", type: "kitchen", name: "Kitchen", x: 0, y: 12, width: 14, height: 10 }),
+  makeRoom({ id: "living", type: "living", name: "Living Room", x: 14, y: 12, width: 24, height: 10 }),
+];
+
+const edges: AdjacencyEdge[] = [
+  { from: "master-bedroom", to: "bathroom", kind: "must" },
+  { from: "pooja", to: "bathroom", kind: "forbid" },
+  { from: "kitchen", to: "dining", kind: "must" },
+  { from: "study", to: "living", kind: "prefer" },
+];
+
+describe("adjacency requirements", () => {
+  it("checks each edge against shared walls", () => {
+    const checks = checkAdjacency(rooms, edges);
+
+    expect(checks.map((check) => check.status)).toEqual(["met", "unmet", "unmet", "not-applicable"]);
+    expect(checks[1].problems).toEqual(["Floor 1: Pooja shares a wall with Attached Bath."]);
+    expect(checks[2].problems).toEqual(["Floor 1: Kitchen does not adjoin any Dining Room."]);
+  });
+
+  it("only treats the master bedroom as the master bedroom", () => {
+    const [check] = checkAdjacency(rooms, [{ from: "master-bedroom", to: "pooja", kind: "forbid" }]);
+    expect(check.status).toBe("met");
+  });
+
+  it("counts requested edges in the adjacency score", () => {
+    const layout = { rooms, totalArea: 0, efficiency: 1, suggestions: [] };
+    expect(scoreAdjacency(layout, [edges[1]])).toBeLessThan(scoreAdjacency(layout));
+    expect(scoreAdjacency(layout, [edges[0]])).toBeGreaterThan(scoreAdjacency(layout));
+  });
+
+  it("sends the requirements to the model", () => {
+    const request: GenerationRequestBody = {
+      plotLength: 40,
+      plotWidth: 30,
+      floors: 1,
+      bedrooms: 2,
+      bathrooms: 1,
+      kitchens: 1,
+      livingRooms: 1,
+      diningRooms: 1,
+      garage: false,
+      balcony: false,
+      garden: false,
+      style: "modern",
+      budgetRange: "medium",
+      vastuCompliant: false,
+      adjacency: edges,
+    };
+
+    const prompt = buildUserPrompt(request);
+    expect(prompt).toContain("- MUST: Master Bedroom must adjoin Bathroom");
+    expect(prompt).toContain("- FORBID: Pooja Room must not share a wall with Bathroom");
+    expect(prompt).toContain("- PREFER: Study should adjoin Living Room");
+  });
+});
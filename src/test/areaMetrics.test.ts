@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { computeAreaMetrics, getCarpetArea } from "@/lib/layout/areaMetrics";
+import { solveLayout } from "@/lib/layout/solveLayout";
+import { GenerationRequestBody } from "@/types/floorPlan";
+import { makeRoom } from "./makeRoom";
+
+describe("computeAreaMetrics", () => {
+  it("nets wall thickness out of carpet area and reports plot ratios", () => {
+    const rooms = [
+      makeRoom({ id: "bed", type: "bedroom", x: 0, width: 12 }),
+      makeRoom({ id: "hall", type: "hallway", x: 12, width: 4 }),
+      makeRoom({ id: "upper", type: "bedroom", x: 0, width: 16, floor: 2 }),
+    ];
+    const metrics = computeAreaMetrics(rooms, 400, { wallThickness: 0.5, commonAreaLoading: 0.25 });
+
+    expect(getCarpetArea(rooms[0], 0.5)).toBe(11.5 * 9.5);
+    expect(metrics.floors.map((floor) => floor.builtUpArea)).toEqual([160, 160]);
+    expect(metrics.floors[0].circulationRatio).toBe(0.25);
+    expect(metrics.builtUpArea).toBe(320);
+    expect(metrics.superBuiltUpArea).toBe(400);
+    expect(metrics.carpetArea).toBeCloseTo(11.5 * 9.5 + 3.5 * 9.5 + 15.5 * 9.5, 0);
+    expect(metrics.fsi).toBe(0.8);
+    expect(metrics.groundCoverage).toBe(0.4);
+  });
+
+  it("gives solver layouts a real efficiency instead of 100%", () => {
+    const request: GenerationRequestBody = {
+      plotLength: 50,
+      plotWidth: 40,
+      floors: 1,
+      bedrooms: 2,
+      bathrooms: 1,
+      kitchens: 1,
+      livingRooms: 1,
+      diningRooms: 1,
+      garage: false,
+      balcony: false,
+      garden: false,
+      style: "modern",
+      budgetRange: "medium",
+      vastuCompliant: false,
+    };
+    const layout = solveLayout(request);
+
+    expect(layout.efficiency).toBeGreaterThan(0.8);
+    expect(layout.efficiency).toBeLessThan(1);
+    expect(layout.efficiency).toBe(computeAreaMetrics(layout.rooms, 2000).efficiency);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { buildBillOfQuantities } from "@/lib/cost/billOfQuantities";
+import { boqToCsv, boqToSpreadsheet } from "@/lib/cost/boqExport";
+import { GeneratedLayout } from "@/types/floorPlan";
+import { makeRoom } from "./makeRoom";
+
+const layout: GeneratedLayout = {
+  rooms: [
+    makeRoom({
+      id: "bed",
+      type: "bedroom",
+      x: 0,
+      doors: [{ position: "right", offset: 30, width: 3 }],
+      windows: [{ position: "top", offset: 40, width: 4 }],
+    }),
+    makeRoom({
+      id: "bath",
+      type: "bathroom",
+      x: 10,
+      doors: [{ position: "left", offset: 30, width: 3 }],
+      windows: [{ position: "right", offset: 40, width: 2 }],
+    }),
+  ],
+  totalArea: 200,
+  efficiency: 1,
+  suggestions: [],
+  wallThickness: 0.5,
+};
+
+const quantity = (items: ReturnType<typeof buildBillOfQuantities>, description: string) =>
+  items.find((item) => item.description === description)?.quantity;
+
+describe("buildBillOfQuantities", () => {
+  it("deducts openings from walls and counts bricks at the layout's wall thickness", () => {
+    const items = buildBillOfQuantities(layout);
+
+    // 60 ft of outside wall less two windows, 10 ft of partition less the shared door
+    expect(quantity(items, 'Exterior walls, 6" thick')).toBe(288);
+    expect(quantity(items, 'Interior walls, 6" thick')).toBe(39.5);
+    expect(quantity(items, "Bricks, incl. 5% wastage")).toBe(4884);
+    expect(quantity(items, "Internal plaster")).toBe(734);
+    expect(quantity(items, "External plaster")).toBe(576);
+  });
+
+  it("groups flooring by room type and openings by size", () => {
+    const items = buildBillOfQuantities(layout, { floorHeight: 12 });
+
+    expect(items.filter((item) => item.section === "Flooring").map((item) => [item.description, item.quantity])).toEqual([
+      ["Bedroom", 100],
+      ["Bathroom", 100],
+    ]);
+    expect(quantity(items, "Door 3' x 7'")).toBe(1);
+    expect(items.filter((item) => item.section === "Windows").map((item) => item.description)).toEqual(["Window 4' x 4'", "Window 2' x 4'"]);
+    expect(quantity(items, "External plaster")).toBe(60 * 12 - 24);
+  });
+});
+
+describe("boq export", () => {
+  it("writes quoted CSV and numeric spreadsheet cells", () => {
+    const items = [{ section: "Doors" as const, description: 'Door 3\' x 7", "flush"', quantity: 2, unit: "nos" }];
+
+    expect(boqToCsv(items).split("\r\n")).toEqual(["Section,Description,Quantity,Unit", 'Doors,"Door 3\' x 7"", ""flush""",2,nos']);
+    expect(boqToSpreadsheet(items)).toContain('<Data ss:Type="Number">2</Data>');
+    expect(boqToSpreadsheet(items)).toContain("&quot;flush&quot;");
+  });
+});
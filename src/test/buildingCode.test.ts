@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { checkBuildingCode, parseCodePack } from "@/lib/codes/buildingCode";
+import { CODE_PACKS, getCodePack } from "@/lib/codes/codePacks";
+import { NBC_INDIA_PACK } from "@/lib/codes/nbcIndia";
+import { makeRoom } from "./makeRoom";
+
+describe("checkBuildingCode", () => {
+  it("flags rooms below the pack's minimum area and width", () => {
+    const violations = checkBuildingCode(
+      [makeRoom({ id: "small", type: "bedroom", width: 6, height: 15, windows: [{ position: "top", offset: 50, width: 6 }] })],
+      NBC_INDIA_PACK
+    );
+
+    expect(violations.map((violation) => violation.kind).sort()).toEqual(["min-area", "min-width"]);
+    expect(violations.find((violation) => violation.kind === "min-width")).toMatchObject({ required: 7.9, actual: 6 });
+  });
+
+  it("checks glazing in habitable rooms and ventilation in bathrooms", () => {
+    const violations = checkBuildingCode(
+      [
+        makeRoom({ id: "dark", type: "bedroom", width: 12, height: 12, windows: [{ position: "top", offset: 50, width: 2 }] }),
+        makeRoom({ id: "bright", type: "bedroom", width: 12, height: 12, windows: [{ position: "top", offset: 50, width: 4 }] }),
+        makeRoom({ id: "bath", type: "bathroom", width: 6, height: 8 }),
+      ],
+      NBC_INDIA_PACK
+    );
+
+    expect(violations.map((violation) => [violation.roomId, violation.kind])).toEqual([
+      ["dark", "glazing"],
+      ["bath", "bathroom-ventilation"],
+    ]);
+  });
+
+  it("loads custom packs from JSON and reports schema errors", () => {
+    const { pack, errors } = parseCodePack(JSON.stringify({ id: "local", name: "Local bylaws", rooms: { kitchen: { minArea: 80 } } }));
+    expect(errors).toEqual([]);
+    expect(checkBuildingCode([makeRoom({ id: "k", type: "kitchen", width: 8, height: 8 })], pack)).toHaveLength(1);
+
+    const invalid = parseCodePack(JSON.stringify({ id: "bad", name: "Bad", rooms: { attic: { minArea: 10 } } }));
+    expect(invalid.pack).toBeNull();
+    expect(invalid.errors[0]).toMatch(/^rooms\.attic/);
+    expect(parseCodePack("{").errors[0]).toMatch(/not valid JSON/);
+  });
+
+  it("falls back to the first built-in pack for unknown ids", () => {
+    expect(getCodePack("missing")).toBe(CODE_PACKS[0]);
+    expect(getCodePack("generic-residential").name).toMatch(/IRC/);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { analyzeCirculation, buildDoorGraph } from "@/lib/layout/circulation";
+import { placeOpenings } from "@/lib/layout/openings";
+import { solveLayoutVariants } from "@/lib/layout/variants";
+import { GenerationRequestBody } from "@/types/floorPlan";
+import { makeRoom } from "./makeRoom";
+
+// Living at the front with the main door, a corridor behind it and rooms off the corridor
+const rooms = [
+  makeRoom({ id: "living", type: "living", x: 0, y: 20, width: 30, height: 10, doors: [{ position: "bottom", offset: 40, width: 4, isMain: true }] }),
+  makeRoom({ id: "hall", type: "hallway", x: 0, y: 16, width: 30, height: 4, doors: [{ position: "bottom", offset: 40, width: 3 }] }),
+  makeRoom({ id: "bedroom-a", type: "bedroom", x: 0, y: 0, width: 12, height: 16, doors: [{ position: "bottom", offset: 40, width: 3 }] }),
+  makeRoom({ id: "bedroom-b", type: "bedroom", x: 12, y: 0, width: 10, height: 16, doors: [{ position: "left", offset: 40, width: 3 }] }),
+  makeRoom({ id: "kitchen", type: "kitchen", x: 22, y: 0, width: 8, height: 10, doors: [{ position: "bottom", offset: 30, width: 3 }] }),
+  makeRoom({ id: "bathroom", type: "bathroom", x: 22, y: 10, width: 8, height: 6, doors: [{ position: "top", offset: 30, width: 2.5 }] }),
+  makeRoom({ id: "store", type: "store", x: 30, y: 0, width: 5, height: 30 }),
+];
+
+describe("circulation", () => {
+  it("joins rooms that share a door", () => {
+    const graph = buildDoorGraph(rooms);
+    expect(graph.get("hall").sort()).toEqual(["bedroom-a", "living"]);
+    expect(graph.get("kitchen")).toEqual(["bathroom"]);
+  });
+
+  it("flags unreachable rooms, bedrooms behind bedrooms and bathrooms off the kitchen", () => {
+    const issues = analyzeCirculation(rooms).map((issue) => [issue.kind, issue.roomId]);
+
+    expect(issues).toContainEqual(["through-bedroom", "bedroom-b"]);
+    expect(issues).toContainEqual(["unreachable", "kitchen"]);
+    expect(issues).toContainEqual(["unreachable", "store"]);
+    expect(issues).toContainEqual(["bathroom-off-kitchen", "bathroom"]);
+    expect(issues.some(([, id]) => id === "bedroom-a" || id === "living")).toBe(false);
+  });
+
+  it("reports a missing main door", () => {
+    const issues = analyzeCirculation(rooms.map((current) => ({ ...current, doors: [] })));
+    expect(issues.map((issue) => issue.kind)).toEqual(["no-entrance"]);
+  });
+
+  it("leaves solver layouts and placed doors fully connected", () => {
+    const request: GenerationRequestBody = {
+      plotLength: 60,
+      plotWidth: 40,
+      floors: 2,
+      bedrooms: 4,
+      bathrooms: 3,
+      kitchens: 1,
+      livingRooms: 1,
+      diningRooms: 1,
+      garage: true,
+      balcony: true,
+      garden: false,
+      style: "modern",
+      budgetRange: "medium",
+      vastuCompliant: false,
+    };
+    solveLayoutVariants(request, 3).forEach((variant) => expect(analyzeCirculation(variant.layout.rooms)).toEqual([]));
+
+    const reconnected = placeOpenings(rooms.map((current) => ({ ...current, doors: current.id === "living" ? current.doors : [] }))).rooms;
+    expect(analyzeCirculation(reconnected).filter((issue) => issue.kind !== "bathroom-off-kitchen")).toEqual([]);
+  });
+});
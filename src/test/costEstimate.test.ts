@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { estimateCost } from "@/lib/cost/costEstimate";
+import { DEFAULT_RATE_TABLES } from "@/lib/cost/rateTables";
+import { measureQuantities } from "@/lib/layout/quantities";
+import { makeRoom } from "./makeRoom";
+
+// A bedroom and bathroom side by side, with the connecting door drawn in both
+const rooms = [
+  makeRoom({
+    id: "bed",
+    type: "bedroom",
+    x: 0,
+    doors: [{ position: "right", offset: 30, width: 3 }],
+    windows: [{ position: "top", offset: 40, width: 4 }],
+  }),
+  makeRoom({
+    id: "bath",
+    type: "bathroom",
+    x: 10,
+    doors: [{ position: "left", offset: 30, width: 3 }],
+    windows: [{ position: "right", offset: 40, width: 2 }],
+  }),
+];
+
+describe("measureQuantities", () => {
+  it("splits walls into exterior and interior and counts shared doors once", () => {
+    expect(measureQuantities(rooms).total).toEqual({
+      floorArea: 200,
+      exteriorWallLength: 60,
+      interiorWallLength: 10,
+      doors: 1,
+      windows: 2,
+      wetRooms: 1,
+    });
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices each trade at the rates of the budget range", () => {
+    const estimate = estimateCost(rooms, { budgetRange: "medium", style: "modern" });
+    const rates = DEFAULT_RATE_TABLES.medium;
+
+    expect(estimate.categories.find((entry) => entry.category === "structure")?.amount).toBe(200 * rates.structure);
+    expect(estimate.categories.find((entry) => entry.category === "mep")?.amount).toBe(200 * rates.electrical + rates.plumbing);
+    expect(estimate.total).toBe(estimate.lines.reduce((sum, line) => sum + line.amount, 0));
+    expect(estimate.perSqFt).toBe(Math.round(estimate.total / 200));
+  });
+
+  it("uses edited rates, style factors and falls back to medium for unknown budgets", () => {
+    const tables = { ...DEFAULT_RATE_TABLES, luxury: { ...DEFAULT_RATE_TABLES.luxury, door: 100000 } };
+    const luxury = estimateCost(rooms, { budgetRange: "luxury", style: "modern" }, tables);
+    expect(luxury.lines.find((line) => line.item === "Doors")?.amount).toBe(100000);
+
+    const traditional = estimateCost(rooms, { budgetRange: "luxury", style: "traditional" }, tables);
+    expect(traditional.categories.find((entry) => entry.category === "finishes")?.amount).toBeGreaterThan(
+      luxury.categories.find((entry) => entry.category === "finishes")?.amount
+    );
+
+    expect(estimateCost(rooms, { budgetRange: "", style: "modern" }).tier).toBe("medium");
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { solveLayout } from "@/lib/layout/solveLayout";
+import { getBuildableEnvelope } from "@/lib/layout/envelope";
+import { getPolygonArea, isRectInPolygon } from "@/lib/layout/plotPolygon";
+import { GenerationRequestBody } from "@/types/floorPlan";
+
+const request: GenerationRequestBody = {
+  plotLength: 60,
+  plotWidth: 40,
+  setbacks: { top: 5, bottom: 10, left: 3, right: 3 },
+  roadSides: ["bottom"],
+  floors: 1,
+  bedrooms: 2,
+  bathrooms: 2,
+  kitchens: 1,
+  livingRooms: 1,
+  diningRooms: 1,
+  garage: false,
+  balcony: false,
+  garden: false,
+  style: "modern",
+  budgetRange: "medium",
+  vastuCompliant: false,
+};
+
+describe("buildable envelope", () => {
+  it("insets each plot side by its own setback", () => {
+    expect(getBuildableEnvelope(request)).toEqual([
+      { x: 3, y: 5 },
+      { x: 57, y: 5 },
+      { x: 57, y: 30 },
+      { x: 3, y: 30 },
+    ]);
+  });
+
+  it("insets slanted and re-entrant edges of polygon plots", () => {
+    const lShape = [
+      { x: 0, y: 0 },
+      { x: 30, y: 0 },
+      { x: 30, y: 20 },
+      { x: 60, y: 20 },
+      { x: 60, y: 40 },
+      { x: 0, y: 40 },
+    ];
+    const envelope = getBuildableEnvelope({ ...request, plotPolygon: lShape, setbacks: { top: 2, bottom: 2, left: 2, right: 2 } });
+
+    expect(envelope).toEqual([
+      { x: 2, y: 2 },
+      { x: 28, y: 2 },
+      { x: 28, y: 22 },
+      { x: 58, y: 22 },
+      { x: 58, y: 38 },
+      { x: 2, y: 38 },
+    ]);
+  });
+
+  it("returns null when the setbacks cover the plot", () => {
+    expect(getBuildableEnvelope({ ...request, setbacks: { top: 20, bottom: 25, left: 0, right: 0 } })).toBeNull();
+  });
+
+  it("keeps solver rooms inside the envelope with the entrance on a road side", () => {
+    const envelope = getBuildableEnvelope(request);
+
+    for (const mirror of [false, true]) {
+      const layout = solveLayout({ ...request, roadSides: ["left"] }, { mirror });
+
+      expect(layout.totalArea).toBe(getPolygonArea(envelope));
+      layout.rooms.forEach((room) => expect(isRectInPolygon(room, envelope)).toBe(true));
+      const entrance = layout.rooms.flatMap((room) => (room.doors ?? []).filter((door) => door.isMain).map((door) => ({ room, door })));
+      expect(entrance).toHaveLength(1);
+      expect(entrance[0].door.position).toBe("left");
+      expect(entrance[0].room.x).toBe(3);
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  addFurniture,
+  findFurnitureClashes,
+  furnishRoom,
+  getDoorClearanceZone,
+  getFurnitureFootprint,
+  getRoomDoors,
+  getRoomFurniture,
+  moveFurniture,
+  rotateFurniture,
+} from "@/lib/layout/furniture";
+import { resizeRoom } from "@/lib/layout/geometry";
+import { ROOM_COLORS, Room } from "@/types/floorPlan";
+
+const bedroom: Room = {
+  id: "bedroom",
+  type: "bedroom",
+  name: "Bedroom",
+  x: 10,
+  y: 0,
+  width: 12,
+  height: 12,
+  floor: 1,
+  color: ROOM_COLORS.bedroom,
+  doors: [{ position: "bottom", offset: 10, width: 3 }],
+  windows: [],
+};
+
+describe("furniture", () => {
+  it("furnishes a room from the catalog clear of walls, doors and each other", () => {
+    const furniture = furnishRoom(bedroom);
+
+    expect(furniture.map((piece) => piece.item)).toEqual(["king-bed", "three-door-wardrobe"]);
+    const bed = getFurnitureFootprint(bedroom, furniture[0]);
+    expect(bed).toMatchObject({ x: 3, width: 6, height: 6.75 });
+    expect(bed.y).toBeCloseTo(0.25);
+    furniture.forEach((_, index) => expect(findFurnitureClashes(bedroom, furniture, index)).toEqual([]));
+    expect(furnishRoom({ ...bedroom, width: 6, height: 6 }).map((piece) => piece.item)).toEqual(["three-door-wardrobe"]);
+  });
+
+  it("reports what a move or turn runs into and keeps saved furniture", () => {
+    const rooms = [{ ...bedroom, furniture: furnishRoom(bedroom) }];
+
+    const intoDoor = moveFurniture(rooms, "bedroom", 0, -3, 4, 1);
+    expect(intoDoor.clashes.map((clash) => clash.kind)).toEqual(expect.arrayContaining(["wall", "door"]));
+    expect(intoDoor.clashes.find((clash) => clash.kind === "door").message).toBe("King bed blocks the door on the bottom wall");
+
+    const turned = rotateFurniture(rooms, "bedroom", 0);
+    expect(turned.rooms[0].furniture[0].rotation).toBe(90);
+    expect(getRoomFurniture(turned.rooms[0])).toBe(turned.rooms[0].furniture);
+  });
+
+  it("adds pieces where they fit and keeps furniture in place when a room grows", () => {
+    const rooms = addFurniture([{ ...bedroom, furniture: [] }], "bedroom", "study-desk");
+    expect(rooms[0].furniture).toHaveLength(1);
+    expect(addFurniture([{ ...bedroom, width: 3, height: 3, furniture: [] }], "bedroom", "king-bed")).toBeNull();
+
+    const piece = rooms[0].furniture[0];
+    const grown = resizeRoom(rooms[0], { x: 4, y: 0, width: 18, height: 12 });
+    expect(getFurnitureFootprint(grown, grown.furniture[0]).x + 4).toBeCloseTo(getFurnitureFootprint(rooms[0], piece).x + 10);
+  });
+
+  it("carries furniture with a moved room and keeps it inside a shrunk one", () => {
+    const furnished = { ...bedroom, furniture: furnishRoom(bedroom) };
+
+    expect(resizeRoom(furnished, { x: 30, y: 5, width: 12, height: 12 }).furniture).toEqual(furnished.furniture);
+
+    const narrowed = resizeRoom(furnished, { x: 10, y: 0, width: 8, height: 12 });
+    expect(narrowed.furniture.map((piece) => piece.item)).toEqual(["king-bed", "three-door-wardrobe"]);
+    narrowed.furniture.forEach((_, index) =>
+      expect(findFurnitureClashes(narrowed, narrowed.furniture, index).map((clash) => clash.kind)).not.toContain("wall")
+    );
+    expect(resizeRoom(furnished, { x: 10, y: 0, width: 5, height: 12 }).furniture.map((piece) => piece.item)).toEqual(["three-door-wardrobe"]);
+  });
+
+  it("keeps clear of doors a neighbour keeps on a shared wall, on this side of it", () => {
+    const room = { ...bedroom, doors: [] };
+    const hall: Room = { ...bedroom, id: "hall", type: "hallway", y: 12, height: 4, doors: [{ position: "top", offset: 50, width: 3, swing: "out" }] };
+    const rooms = [room, hall];
+
+    const [door] = getRoomDoors(room, rooms);
+    expect(door).toMatchObject({ position: "bottom", offset: 50, swing: "in" });
+    expect(getDoorClearanceZone(room, door)).toEqual({ x: 6, y: 9, width: 3, height: 3 });
+
+    const wardrobe = [{ type: "wardrobe" as const, item: "two-door-wardrobe" as const, x: 62.5, y: 89.58, rotation: 180 }];
+    expect(findFurnitureClashes(room, wardrobe, 0).map((clash) => clash.kind)).not.toContain("door");
+    expect(findFurnitureClashes(room, wardrobe, 0, undefined, rooms).find((clash) => clash.kind === "door").message).toBe(
+      "Two-door wardrobe blocks the door on the bottom wall"
+    );
+    expect(furnishRoom(room, undefined, rooms).every((_, index, all) => findFurnitureClashes(room, all, index, undefined, rooms).length === 0)).toBe(true);
+  });
+});
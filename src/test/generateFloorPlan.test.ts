@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { generateFloorPlan } from "@/lib/generation/generateFloorPlan";
+import { createFixtureReplayProvider } from "@/lib/llm/fixtureReplay";
+import { LlmProviderError } from "@/lib/llm/provider";
+import { GenerationProgressEvent, GenerationRequestBody } from "@/types/floorPlan";
+
+const request: GenerationRequestBody = {
+  plotLength: 40,
+  plotWidth: 30,
+  floors: 1,
+  bedrooms: 1,
+  bathrooms: 1,
+  kitchens: 1,
+  livingRooms: 1,
+  diningRooms: 0,
+  garage: false,
+  balcony: false,
+  garden: false,
+  style: "modern",
+  budgetRange: "medium",
+  vastuCompliant: false,
+  variantCount: 2,
+};
+
+const validLayout = JSON.stringify({
+  rooms: [
+    { id: "living", type: "living", name: "Living Room", x: 0, y: 0, width: 20, height: 30, floor: 1 },
+    { id: "kitchen", type: "kitchen", name: "Kitchen", x: 20, y: 0, width: 20, height: 15, floor: 1 },
+    { id: "bedroom", type: "bedroom", name: "Bedroom", x: 20, y: 15, width: 20, height: 15, floor: 1 },
+  ],
+  suggestions: ["Compact plan"],
+});
+
+describe("generateFloorPlan", () => {
+  it("repairs an invalid response and ranks the AI layout with solver variants", async () => {
+    const provider = createFixtureReplayProvider([{ content: "not json" }, { content: validLayout }]);
+    const result = await generateFloorPlan(request, provider);
+
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].at(-1).content).toMatch(/did not pass validation/);
+    expect(result.variants).toHaveLength(2);
+    expect(result.variants.map((variant) => variant.source).sort()).toEqual(["ai", "solver"]);
+  });
+
+  it("falls back to solver variants when repairs run out", async () => {
+    const provider = createFixtureReplayProvider([{ content: "{}" }, { content: "{}" }, { content: "{}" }]);
+    const result = await generateFloorPlan(request, provider);
+
+    expect(provider.requests).toHaveLength(3);
+    expect(result.variants.every((variant) => variant.source === "solver")).toBe(true);
+  });
+
+  it("surfaces rate limits from the first call", async () => {
+    const provider = createFixtureReplayProvider([{ status: 429 }]);
+    await expect(generateFloorPlan(request, provider)).rejects.toMatchObject({ kind: "rate_limited" });
+    await expect(generateFloorPlan(request, createFixtureReplayProvider([{ status: 402 }]))).rejects.toBeInstanceOf(LlmProviderError);
+  });
+
+  it("reports progress steps and each finished floor", async () => {
+    const events: GenerationProgressEvent[] = [];
+    const provider = createFixtureReplayProvider([{ content: validLayout }]);
+    await generateFloorPlan(request, provider, { onProgress: (event) => events.push(event) });
+
+    const steps = events.flatMap((event) => (event.type === "step" ? [event.step] : []));
+    expect(steps).toEqual(["prompt", "model", "validation", "gap-fill", "variants"]);
+    expect(events.filter((event) => event.type === "floor")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { parseLayoutResponse } from "@/lib/layout/layoutSchema";
+import { GenerationRequestBody } from "@/types/floorPlan";
+
+const request: GenerationRequestBody = {
+  plotLength: 40,
+  plotWidth: 30,
+  floors: 1,
+  bedrooms: 1,
+  bathrooms: 1,
+  kitchens: 1,
+  livingRooms: 1,
+  diningRooms: 0,
+  garage: false,
+  balcony: false,
+  garden: false,
+  style: "modern",
+  budgetRange: "medium",
+  vastuCompliant: false,
+};
+
+const rooms = [
+  { id: "living", type: "living", name: "Living Room", x: 0, y: 0, width: 20, height: 30, floor: 1 },
+  { id: "kitchen", type: "kitchen", name: "Kitchen", x: 20, y: 0, width: 20, height: 15, floor: 1 },
+  {
+    id: "bedroom",
+    type: "bedroom",
+    name: "Bedroom",
+    x: 20,
+    y: 15,
+    width: 20,
+    height: 15,
+    floor: 1,
+    doors: [{ position: "left", offset: 40, width: 3 }],
+  },
+];
+
+describe("parseLayoutResponse", () => {
+  it("accepts a fenced layout and fills in colors and openings", () => {
+    const result = parseLayoutResponse("```json\n" + JSON.stringify({ rooms }) + "\n```", request);
+    expect(result.errors).toEqual([]);
+    expect(result.layout.rooms[0].color).toBeTruthy();
+    expect(result.layout.rooms[0].doors).toEqual([]);
+    expect(result.layout.totalArea).toBe(1200);
+  });
+
+  it("reports unknown room types, bad offsets and rooms outside the plot", () => {
+    const invalid = [
+      { ...rooms[0], type: "ballroom" },
+      { ...rooms[1], width: 30 },
+      { ...rooms[2], doors: [{ position: "left", offset: 140, width: 3 }] },
+    ];
+    const result = parseLayoutResponse(JSON.stringify({ rooms: invalid }), request);
+    expect(result.layout).toBeNull();
+    expect(result.errors.some((error) => error.startsWith("rooms[0].type"))).toBe(true);
+    expect(result.errors.some((error) => error.startsWith("rooms[1].width"))).toBe(true);
+    expect(result.errors.some((error) => error.startsWith("rooms[2].doors[0].offset"))).toBe(true);
+  });
+
+  it("keeps catalog door and window types and rejects unknown ones", () => {
+    const typed = [...rooms.slice(0, 2), { ...rooms[2], doors: [{ position: "left", offset: 40, width: 3, type: "pocket", hinge: "end" }] }];
+    expect(parseLayoutResponse(JSON.stringify({ rooms: typed }), request).layout.rooms[2].doors[0]).toMatchObject({ type: "pocket", hinge: "end" });
+
+    const unknown = [...rooms.slice(0, 2), { ...rooms[2], windows: [{ position: "right", offset: 40, width: 4, type: "skylight" }] }];
+    const result = parseLayoutResponse(JSON.stringify({ rooms: unknown }), request);
+    expect(result.errors.some((error) => error.startsWith("rooms[2].windows[0].type"))).toBe(true);
+  });
+
+  it("rejects openings that run past the end of their wall", () => {
+    const overhanging = [...rooms.slice(0, 2), { ...rooms[2], doors: [{ position: "left", offset: 90, width: 3 }] }];
+    const result = parseLayoutResponse(JSON.stringify({ rooms: overhanging }), request);
+    expect(result.layout).toBeNull();
+    expect(result.errors.some((error) => error.startsWith("rooms[2].doors[0].offset"))).toBe(true);
+
+    const flush = [...rooms.slice(0, 2), { ...rooms[2], doors: [{ position: "left", offset: 80, width: 3 }] }];
+    expect(parseLayoutResponse(JSON.stringify({ rooms: flush }), request).errors).toEqual([]);
+  });
+
+  it("explains responses that are not JSON", () => {
+    const result = parseLayoutResponse("Here is your plan!", request);
+    expect(result.layout).toBeNull();
+    expect(result.errors[0]).toMatch(/not valid JSON/);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { generateFloorPlan } from "@/lib/generation/generateFloorPlan";
+import { getOverlap } from "@/lib/layout/geometry";
+import { solveLayout } from "@/lib/layout/solveLayout";
+import { createFixtureReplayProvider } from "@/lib/llm/fixtureReplay";
+import { GenerationRequestBody, Room } from "@/types/floorPlan";
+
+const request: GenerationRequestBody = {
+  plotLength: 40,
+  plotWidth: 30,
+  floors: 1,
+  bedrooms: 2,
+  bathrooms: 1,
+  kitchens: 1,
+  livingRooms: 1,
+  diningRooms: 0,
+  garage: false,
+  balcony: false,
+  garden: false,
+  style: "modern",
+  budgetRange: "medium",
+  vastuCompliant: false,
+  variantCount: 2,
+};
+
+const lockedBedroom: Room = {
+  id: "locked-bedroom",
+  type: "bedroom",
+  name: "Master Bedroom",
+  x: 26,
+  y: 0,
+  width: 14,
+  height: 13,
+  floor: 1,
+  color: "#fff",
+  doors: [{ position: "left", offset: 50, width: 3 }],
+};
+
+const expectKept = (rooms: Room[]) => {
+  const kept = rooms.find((room) => room.id === lockedBedroom.id);
+  expect(kept).toMatchObject({ ...lockedBedroom, locked: true });
+  expect(rooms.filter((room) => room.id !== kept.id && room.floor === kept.floor && getOverlap(room, kept))).toEqual([]);
+};
+
+describe("locked rooms", () => {
+  it("solves the rest of the plan around locked rooms", () => {
+    const layout = solveLayout({ ...request, lockedRooms: [lockedBedroom] });
+
+    expectKept(layout.rooms);
+    // The locked bedroom is one of the two requested, and the other is not named after it
+    expect(layout.rooms.filter((room) => room.type === "bedroom").map((room) => room.name)).toEqual(["Master Bedroom", "Bedroom 2"]);
+  });
+
+  it("leaves no gaps on any floor around a locked room off the solver's grid", () => {
+    const twoFloors = { ...request, plotLength: 60, plotWidth: 40, floors: 2, bedrooms: 3, bathrooms: 2, diningRooms: 1, balcony: true };
+    const kitchen = solveLayout(twoFloors).rooms.find((room) => room.type === "kitchen");
+    const layout = solveLayout({ ...twoFloors, lockedRooms: [kitchen] });
+
+    [1, 2].forEach((floor) => {
+      const rooms = layout.rooms.filter((room) => room.floor === floor);
+      expect(rooms.reduce((total, room) => total + room.width * room.height, 0)).toBeCloseTo(60 * 40);
+      rooms.forEach((room, index) => rooms.slice(index + 1).forEach((other) => expect(getOverlap(room, other)).toBeFalsy()));
+    });
+  });
+
+  it("restores locked rooms the model moved", async () => {
+    const moved = JSON.stringify({
+      rooms: [
+        { id: "living", type: "living", name: "Living Room", x: 0, y: 0, width: 20, height: 30, floor: 1 },
+        { id: "locked-bedroom", type: "bedroom", name: "Master Bedroom", x: 20, y: 0, width: 20, height: 15, floor: 1 },
+        { id: "kitchen", type: "kitchen", name: "Kitchen", x: 20, y: 15, width: 20, height: 15, floor: 1 },
+      ],
+      suggestions: [],
+    });
+    const provider = createFixtureReplayProvider([{ content: moved }]);
+    const result = await generateFloorPlan({ ...request, lockedRooms: [lockedBedroom] }, provider);
+
+    expect(provider.requests[0].at(-1).content).toMatch(/LOCKED ROOMS[\s\S]*"locked-bedroom"/);
+    result.variants.forEach((variant) => expectKept(variant.layout.rooms));
+  });
+});
@@ -0,0 +1,22 @@
+import { ROOM_COLORS, Room } from "@/types/floorPlan";
+
+// A 10 x 10 ft ground-floor bedroom at the origin with no openings, named
+// after its id; tests override whatever they care about
+export const makeRoom = (overrides: Partial<Room> = {}): Room => {
+  const type = overrides.type ?? "bedroom";
+  const id = overrides.id ?? type;
+  return {
+    id,
+    type,
+    name: id,
+    x: 0,
+    y: 0,
+    width: 10,
+    height: 10,
+    floor: 1,
+    color: ROOM_COLORS[type],
+    doors: [],
+    windows: [],
+    ...overrides,
+  };
+};
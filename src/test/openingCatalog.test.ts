@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { getOpeningLeaves, resolveDoor, resolveWindow } from "@/lib/layout/openingCatalog";
+import { OpeningFrame, getDoorSymbol, getWindowSymbol } from "@/lib/layout/openingSymbols";
+import { flipOpening, setOpeningType, slideOpening } from "@/lib/layout/planCommands";
+import { ROOM_COLORS, Room } from "@/types/floorPlan";
+
+const room: Room = {
+  id: "bedroom",
+  type: "bedroom",
+  name: "Bedroom",
+  x: 0,
+  y: 0,
+  width: 12,
+  height: 10,
+  floor: 1,
+  color: ROOM_COLORS.bedroom,
+  doors: [{ position: "bottom", offset: 25, width: 3 }],
+  windows: [{ position: "top", offset: 40, width: 4, sillHeight: 2.5 }],
+};
+
+const frame: OpeningFrame = { side: "top", x: 0, y: 0, width: 12, height: 10, start: 2, length: 3, unit: 1 };
+
+describe("opening catalog", () => {
+  it("reads untyped openings as single swing doors and casement windows", () => {
+    expect(resolveDoor(room.doors[0])).toMatchObject({ type: "single-swing", hinge: "start", swing: "in", sillHeight: 0, headHeight: 7 });
+    expect(resolveWindow(room.windows[0])).toMatchObject({ type: "casement", swing: "out", sillHeight: 2.5, headHeight: 7 });
+    expect(getOpeningLeaves(resolveDoor({ ...room.doors[0], type: "french" })).map((leaf) => leaf.pivot)).toEqual([0, 1]);
+  });
+
+  it("draws swings on the side and from the jamb they are set to", () => {
+    const arc = (door: Parameters<typeof getDoorSymbol>[0]) => getDoorSymbol(door, frame).find((shape) => shape.kind === "arc");
+
+    expect(arc({ position: "top", offset: 0, width: 3 })).toMatchObject({ center: [2, 0], from: [2, 3], to: [5, 0] });
+    expect(arc({ position: "top", offset: 0, width: 3, swing: "out", hinge: "end" })).toMatchObject({ center: [5, 0], from: [5, -3], to: [2, 0] });
+    expect(getDoorSymbol({ position: "top", offset: 0, width: 3, type: "sliding" }, frame).some((shape) => shape.kind === "arc")).toBe(false);
+
+    const bay = getWindowSymbol({ position: "top", offset: 0, width: 3, type: "bay" }, frame)[0];
+    expect(bay.kind === "line" && bay.points.every(([, y]) => y <= 0)).toBe(true);
+  });
+
+  it("edits the type, hinge, swing and place of an opening", () => {
+    const rooms = [room];
+    const sliding = setOpeningType(rooms, "bedroom", "door", 0, "sliding")[0].doors[0];
+    expect(sliding).toMatchObject({ type: "sliding", width: 4, offset: 25 });
+
+    const window = setOpeningType(rooms, "bedroom", "window", 0, "ventilator")[0].windows[0];
+    expect(window).toEqual({ position: "top", offset: 40, width: 3, type: "ventilator" });
+
+    const flipped = flipOpening(flipOpening(rooms, "bedroom", "door", 0, "hinge"), "bedroom", "door", 0, "swing")[0].doors[0];
+    expect(flipped).toMatchObject({ hinge: "end", swing: "out" });
+
+    expect(slideOpening(rooms, "bedroom", "window", 0, 95)[0].windows[0].offset).toBe(66);
+    expect(slideOpening(rooms, "bedroom", "door", 0, -10)[0].doors[0].offset).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { getWallSpan } from "@/lib/layout/geometry";
+import { getExteriorSegments, placeOpenings } from "@/lib/layout/openings";
+import { solveLayout } from "@/lib/layout/solveLayout";
+import { Room } from "@/types/floorPlan";
+import { makeRoom } from "./makeRoom";
+
+// Every window sits inside a stretch of wall no other room shares
+const expectExteriorWindows = (rooms: Room[]) => {
+  for (const current of rooms) {
+    for (const window of current.windows ?? []) {
+      const span = getWallSpan(current, window.position);
+      const start = span.start + (window.offset / 100) * span.length;
+      const segments = getExteriorSegments(current, window.position, rooms.filter((other) => other.floor === current.floor));
+      expect(segments.some((segment) => start >= segment.start - 0.05 && start + window.width <= segment.end + 0.05)).toBe(true);
+    }
+  }
+};
+
+describe("openings", () => {
+  it("removes windows on shared walls and openings past the wall end", () => {
+    const rooms = [
+      makeRoom({
+        id: "living",
+        type: "living",
+        x: 0,
+        y: 0,
+        width: 20,
+        height: 20,
+        windows: [
+          { position: "right", offset: 40, width: 4 },
+          { position: "left", offset: 40, width: 4 },
+        ],
+        doors: [{ position: "top", offset: 95, width: 3 }],
+      }),
+      makeRoom({ id: "kitchen", type: "kitchen", x: 20, y: 0, width: 12, height: 20 }),
+    ];
+    const { rooms: result, changes } = placeOpenings(rooms);
+    const living = result.find((current) => current.id === "living");
+
+    expect(living.windows.filter((window) => window.position === "right")).toEqual([]);
+    expect(living.windows).toContainEqual({ position: "left", offset: 40, width: 4 });
+    expect(living.doors.some((door) => door.position === "top" && !door.isMain)).toBe(false);
+    expect(changes.some((change) => change.startsWith("Removed 2 opening(s) of living"))).toBe(true);
+  });
+
+  it("connects every room and puts the main door on the road side", () => {
+    const rooms = [
+      makeRoom({ id: "bedroom", type: "bedroom", x: 0, y: 0, width: 15, height: 12 }),
+      makeRoom({ id: "bathroom", type: "bathroom", x: 15, y: 0, width: 8, height: 12 }),
+      makeRoom({ id: "hall", type: "hallway", x: 0, y: 12, width: 23, height: 4 }),
+      makeRoom({ id: "kitchen", type: "kitchen", x: 0, y: 16, width: 10, height: 14 }),
+      makeRoom({ id: "living", type: "living", x: 10, y: 16, width: 13, height: 14 }),
+    ];
+    const result = placeOpenings(rooms, { entranceSides: ["left", "bottom"] }).rooms;
+    const byId = new Map(result.map((current) => [current.id, current]));
+
+    ["bedroom", "bathroom", "kitchen"].forEach((id) => expect(byId.get(id).doors.length).toBeGreaterThan(0));
+    expect(byId.get("hall").doors.map((door) => door.position)).toEqual(["bottom"]);
+    expect(byId.get("living").doors).toContainEqual(expect.objectContaining({ position: "bottom", isMain: true }));
+    expectExteriorWindows(result);
+  });
+
+  it("limits windows by room type", () => {
+    // Three rooms in a row, each with exterior walls above and below it
+    const rooms = [
+      makeRoom({ id: "bedroom", type: "bedroom", x: 0, y: 0, width: 12, height: 12 }),
+      makeRoom({ id: "bathroom", type: "bathroom", x: 12, y: 0, width: 8, height: 12 }),
+      makeRoom({ id: "store", type: "store", x: 20, y: 0, width: 6, height: 12 }),
+    ];
+    const byId = new Map(placeOpenings(rooms).rooms.map((current) => [current.id, current]));
+
+    expect(byId.get("bedroom").windows.map((window) => window.position).sort()).toEqual(["bottom", "left", "top"]);
+    expect(byId.get("bathroom").windows).toEqual([{ position: "top", offset: 38, width: 2, type: "ventilator" }]);
+    expect(byId.get("store").windows).toEqual([]);
+  });
+
+  it("keeps solver windows on exterior walls inside setbacks", () => {
+    const layout = solveLayout({
+      plotLength: 50,
+      plotWidth: 40,
+      floors: 2,
+      bedrooms: 3,
+      bathrooms: 2,
+      kitchens: 1,
+      livingRooms: 1,
+      diningRooms: 1,
+      garage: false,
+      balcony: true,
+      garden: false,
+      style: "modern",
+      budgetRange: "medium",
+      vastuCompliant: false,
+      setbacks: { top: 3, bottom: 6, left: 3, right: 3 },
+    });
+
+    expectExteriorWindows(layout.rooms);
+    expect(layout.rooms.filter((current) => current.doors?.some((door) => door.isMain))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { getFacing, getNorthAngle, getSideBearing, getCompassShift } from "@/lib/layout/orientation";
+import { getCompassZone } from "@/lib/layout/vastu";
+import { buildUserPrompt } from "@/lib/generation/prompts";
+import { GenerationRequestBody, Room } from "@/types/floorPlan";
+
+const request: GenerationRequestBody = {
+  plotLength: 60,
+  plotWidth: 40,
+  floors: 1,
+  bedrooms: 2,
+  bathrooms: 2,
+  kitchens: 1,
+  livingRooms: 1,
+  diningRooms: 1,
+  garage: false,
+  balcony: false,
+  garden: false,
+  style: "modern",
+  budgetRange: "medium",
+  vastuCompliant: true,
+};
+
+const kitchen: Room = { id: "kitchen", type: "kitchen", name: "Kitchen", x: 45, y: 30, width: 15, height: 10, floor: 1, color: "" };
+
+describe("plot orientation", () => {
+  it("keeps north up when no facing is given", () => {
+    expect(getFacing(request)).toBe(180);
+    expect(getNorthAngle(request)).toBe(0);
+    expect(getCompassZone(kitchen, 60, 40, getCompassShift(request))).toBe("SE");
+  });
+
+  it("turns the compass when the road side faces east", () => {
+    const eastFacing = { ...request, facing: 90 };
+
+    expect(getNorthAngle(eastFacing)).toBe(90);
+    expect(getSideBearing(eastFacing, "top")).toBe(270);
+    expect(getSideBearing(eastFacing, "right")).toBe(0);
+    expect(getCompassZone(kitchen, 60, 40, getCompassShift(eastFacing))).toBe("NE");
+  });
+
+  it("measures the facing from the first road side", () => {
+    const leftRoad = { ...request, roadSides: ["left" as const], facing: 0 };
+
+    expect(getNorthAngle(leftRoad)).toBe(270);
+    expect(getSideBearing(leftRoad, "bottom")).toBe(270);
+  });
+
+  it("maps Vastu directions onto the drawing in the prompt", () => {
+    const prompt = buildUserPrompt({ ...request, facing: 90 });
+
+    expect(prompt).toContain("the bottom (largest y) side faces East (90°)");
+    expect(prompt).toContain("the Southeast corner is the bottom-left corner of the drawing");
+  });
+});
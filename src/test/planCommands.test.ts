@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  addDoor,
+  applyPlanCommand,
+  createPlanCommand,
+  getMergeCandidates,
+  mergeRooms,
+  removeDoor,
+  renameRoom,
+  retypeRoom,
+  splitRoom,
+} from "@/lib/layout/planCommands";
+import { moveRoomBy } from "@/lib/layout/planEditing";
+import { GeneratedLayout, ROOM_COLORS } from "@/types/floorPlan";
+import { makeRoom } from "./makeRoom";
+
+const layout: GeneratedLayout = {
+  rooms: [makeRoom({ id: "a", x: 0 }), makeRoom({ id: "b", x: 20 })],
+  totalArea: 600,
+  efficiency: 1,
+  suggestions: [],
+  wallThickness: 0.5,
+};
+
+describe("plan commands", () => {
+  it("records only the rooms an edit touched and undoes it exactly", () => {
+    const moved = moveRoomBy(layout.rooms, "b", -5, 0, { plotLength: 30, plotWidth: 10, grid: 1 });
+    const command = createPlanCommand("move", "Move b", "v1", layout.rooms, moved);
+
+    expect(command.before.map((entry) => entry.id)).toEqual(["b"]);
+    const redone = applyPlanCommand(layout, command, "redo");
+    expect(redone.rooms.find((entry) => entry.id === "b").x).toBe(15);
+    expect(redone.efficiency).toBeLessThan(1);
+    expect(applyPlanCommand(redone, command, "undo").rooms).toEqual(layout.rooms);
+    expect(createPlanCommand("move", "No-op", "v1", layout.rooms, layout.rooms)).toBeNull();
+  });
+
+  it("adds and removes rooms that only one side of a command has", () => {
+    const command = createPlanCommand("move", "Add c", "v1", layout.rooms, [...layout.rooms, makeRoom({ id: "c", x: 10 })]);
+
+    expect(applyPlanCommand(layout, command, "redo").rooms.map((entry) => entry.id)).toEqual(["a", "b", "c"]);
+    expect(applyPlanCommand(applyPlanCommand(layout, command, "redo"), command, "undo").rooms.map((entry) => entry.id)).toEqual(["a", "b"]);
+  });
+
+  it("renames, retypes and edits doors", () => {
+    const retyped = retypeRoom(renameRoom(layout.rooms, "a", "Study"), "a", "study");
+    expect(retyped[0]).toMatchObject({ name: "Study", type: "study", color: ROOM_COLORS.study });
+
+    const withDoor = addDoor(layout.rooms, "a", "right");
+    expect(withDoor[0].doors).toEqual([{ position: "right", offset: 35, width: 3 }]);
+    expect(removeDoor(withDoor, "a", 0)[0].doors).toEqual([]);
+  });
+
+  it("splits a room with a door through the new wall and drops openings it would cross", () => {
+    const living = makeRoom({
+      id: "living",
+      type: "living",
+      name: "Living Room",
+      width: 20,
+      doors: [{ position: "right", offset: 40, width: 3, isMain: true }],
+      windows: [{ position: "top", offset: 45, width: 4 }, { position: "top", offset: 10, width: 3 }],
+    });
+    const rooms = splitRoom([living], "living", "vertical", 11.7, "study", 1);
+
+    expect(rooms.map(({ id, x, width }) => [id, x, width])).toEqual([["living", 0, 12], ["living-study", 12, 8]]);
+    expect(rooms[0]).toMatchObject({ doors: [], windows: [{ position: "top", offset: 17, width: 3 }] });
+    expect(rooms[1]).toMatchObject({ type: "study", name: "Study", color: ROOM_COLORS.study, windows: [] });
+    expect(rooms[1].doors).toEqual([{ position: "right", offset: 40, width: 3, isMain: true }, { position: "left", offset: 35, width: 3 }]);
+    expect(splitRoom([living], "living", "horizontal", 8, "study", 1)).toBeNull();
+  });
+
+  it("merges rooms sharing a whole wall and cleans up openings on the wall taken down", () => {
+    const rooms = [
+      makeRoom({ id: "a", x: 0, doors: [{ position: "right", offset: 30, width: 3 }, { position: "bottom", offset: 10, width: 3 }] }),
+      makeRoom({ id: "b", x: 10, doors: [{ position: "left", offset: 30, width: 3 }], windows: [{ position: "right", offset: 20, width: 4 }] }),
+      makeRoom({ id: "c", x: 20, height: 6 }),
+    ];
+
+    expect(getMergeCandidates(rooms, "b").map((candidate) => candidate.id)).toEqual(["a"]);
+    const merged = mergeRooms(rooms, "a", "b", "living");
+    expect(merged.map((entry) => entry.id)).toEqual(["a", "c"]);
+    expect(merged[0]).toMatchObject({ x: 0, width: 20, type: "living", color: ROOM_COLORS.living });
+    expect(merged[0].doors).toEqual([{ position: "bottom", offset: 5, width: 3 }]);
+    expect(merged[0].windows).toEqual([{ position: "right", offset: 20, width: 4 }]);
+    expect(mergeRooms(rooms, "b", "c")).toBeNull();
+  });
+});
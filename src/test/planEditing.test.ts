@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { getOverlap } from "@/lib/layout/geometry";
+import { moveRoomBy, resizeRoomWall } from "@/lib/layout/planEditing";
+import { solveLayout } from "@/lib/layout/solveLayout";
+import { GenerationRequestBody, Room } from "@/types/floorPlan";
+import { makeRoom } from "./makeRoom";
+
+const request: GenerationRequestBody = {
+  plotLength: 60,
+  plotWidth: 40,
+  floors: 1,
+  bedrooms: 3,
+  bathrooms: 2,
+  kitchens: 1,
+  livingRooms: 1,
+  diningRooms: 1,
+  garage: false,
+  balcony: true,
+  garden: false,
+  style: "modern",
+  budgetRange: "medium",
+  vastuCompliant: false,
+};
+
+const bounds = { plotLength: 20, plotWidth: 20, grid: 1 };
+const grid = [
+  makeRoom({ id: "a", x: 0, y: 0 }),
+  makeRoom({ id: "b", x: 10, y: 0 }),
+  makeRoom({ id: "c", x: 0, y: 10 }),
+  makeRoom({ id: "d", x: 10, y: 10 }),
+  makeRoom({ id: "upper", x: 10, y: 0, floor: 2 }),
+];
+
+// A hallway along the bottom of two rooms, both of which move with its top wall
+const band = [
+  makeRoom({ id: "left", x: 0, y: 0 }),
+  makeRoom({ id: "right", x: 10, y: 0 }),
+  makeRoom({ id: "hall", x: 0, y: 10, width: 20, height: 4 }),
+];
+const rect = (rooms: Room[], id: string) => {
+  const { x, y, width, height } = rooms.find((candidate) => candidate.id === id);
+  return [x, y, width, height];
+};
+
+describe("resizeRoomWall", () => {
+  it("moves the shared wall so the neighbour across it shrinks instead of overlapping", () => {
+    const rooms = resizeRoomWall(grid, "a", "right", 2.3, bounds);
+
+    expect(rect(rooms, "a")).toEqual([0, 0, 12, 10]);
+    expect(rect(rooms, "b")).toEqual([12, 0, 8, 10]);
+    expect(rect(rooms, "c")).toEqual([0, 10, 10, 10]);
+    expect(rect(rooms, "d")).toEqual([10, 10, 10, 10]);
+    expect(rect(rooms, "upper")).toEqual([10, 0, 10, 10]);
+  });
+
+  it("carries every room that shares the wall line", () => {
+    const rooms = resizeRoomWall(band, "hall", "top", -2, bounds);
+
+    expect(rect(rooms, "hall")).toEqual([0, 8, 20, 6]);
+    expect(rect(rooms, "left")).toEqual([0, 0, 10, 8]);
+    expect(rect(rooms, "right")).toEqual([10, 0, 10, 8]);
+  });
+
+  it("stops before a neighbour drops under the minimum size or the wall leaves the plot", () => {
+    expect(rect(resizeRoomWall(grid, "a", "right", 9, bounds), "b")).toEqual([17, 0, 3, 10]);
+    expect(resizeRoomWall(grid, "b", "right", 4, bounds)).toBe(grid);
+  });
+});
+
+describe("moveRoomBy", () => {
+  const rooms = [makeRoom({ id: "a", x: 0, y: 0 }), makeRoom({ id: "e", x: 15, y: 0, width: 5, height: 5 })];
+
+  it("snaps the moved room to the grid", () => {
+    expect(rect(moveRoomBy(rooms, "e", -3.3, 0.4, bounds), "e")).toEqual([12, 0, 5, 5]);
+  });
+
+  it("carries its walls onto a neighbour, which shrinks while the one behind grows", () => {
+    const row = [
+      makeRoom({ id: "a", x: 0, y: 0 }),
+      makeRoom({ id: "f", x: 10, y: 0, width: 5, height: 10 }),
+      makeRoom({ id: "g", x: 15, y: 0, width: 5, height: 10 }),
+    ];
+    const moved = moveRoomBy(row, "f", -3, 0, bounds);
+
+    expect(rect(moved, "a")).toEqual([0, 0, 7, 10]);
+    expect(rect(moved, "f")).toEqual([7, 0, 5, 10]);
+    expect(rect(moved, "g")).toEqual([12, 0, 8, 10]);
+  });
+
+  it("trades places with a neighbour the same size", () => {
+    const moved = moveRoomBy(grid, "a", 9, 0, bounds);
+
+    expect(rect(moved, "a")).toEqual([10, 0, 10, 10]);
+    expect(rect(moved, "b")).toEqual([0, 0, 10, 10]);
+    expect(rect(moved, "upper")).toEqual([10, 0, 10, 10]);
+  });
+
+  it("refuses a move onto a neighbour that cannot give up any space", () => {
+    const hemmed = [makeRoom({ id: "a", x: 0, y: 0 }), makeRoom({ id: "b", x: 10, y: 0, width: 3 })];
+    expect(moveRoomBy(hemmed, "a", 2, 0, bounds)).toBeNull();
+  });
+
+  it("moves a room of a generated plan, resizing the rooms either side", () => {
+    const solved = solveLayout(request).rooms;
+    const bath = solved.find((candidate) => candidate.type === "bathroom");
+    const moved = moveRoomBy(solved, bath.id, 2.5, 0, { plotLength: request.plotLength, plotWidth: request.plotWidth, grid: 1 });
+
+    expect(moved).not.toBeNull();
+    expect(rect(moved, bath.id)).toEqual([bath.x + 2.5, bath.y, bath.width, bath.height]);
+    moved.forEach((a, i) => moved.slice(i + 1).forEach((b) => expect(a.floor === b.floor && getOverlap(a, b)).toBeFalsy()));
+    const area = (plan: Room[]) => plan.reduce((total, candidate) => total + candidate.width * candidate.height, 0);
+    expect(area(moved)).toBeCloseTo(area(solved));
+  });
+});
+
+describe("edits on an L-shaped plot", () => {
+  // The top right quarter of the plot is cut away
+  const lBounds = {
+    ...bounds,
+    boundary: [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 20, y: 10 },
+      { x: 20, y: 20 },
+      { x: 0, y: 20 },
+    ],
+  };
+  const rooms = [
+    makeRoom({ id: "a", x: 0, y: 0 }),
+    makeRoom({ id: "c", x: 0, y: 10 }),
+    makeRoom({ id: "e", x: 0, y: 0, width: 5, height: 5, floor: 2 }),
+  ];
+
+  it("refuses a move that leaves the buildable area", () => {
+    expect(moveRoomBy(rooms, "e", 8, 0, lBounds)).toBeNull();
+    expect(rect(moveRoomBy(rooms, "e", 8, 12, lBounds), "e")).toEqual([8, 12, 5, 5]);
+  });
+
+  it("stops a wall at the edge of the buildable area", () => {
+    expect(resizeRoomWall(rooms, "a", "right", 5, lBounds)).toBe(rooms);
+    expect(rect(resizeRoomWall(rooms, "c", "right", 5, lBounds), "c")).toEqual([0, 10, 15, 10]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { solveLayout } from "@/lib/layout/solveLayout";
+import { fillGapsIn100Percent } from "@/lib/layout/fillGaps";
+import { fitRectToPolygon, getPolygonArea, isRectInPolygon } from "@/lib/layout/plotPolygon";
+import { GenerationRequestBody, PlotVertex } from "@/types/floorPlan";
+
+// 60 × 40 plot with the back-right quarter missing
+const lShape: PlotVertex[] = [
+  { x: 0, y: 0 },
+  { x: 30, y: 0 },
+  { x: 30, y: 20 },
+  { x: 60, y: 20 },
+  { x: 60, y: 40 },
+  { x: 0, y: 40 },
+];
+
+const request: GenerationRequestBody = {
+  plotLength: 60,
+  plotWidth: 40,
+  plotPolygon: lShape,
+  floors: 2,
+  bedrooms: 3,
+  bathrooms: 2,
+  kitchens: 1,
+  livingRooms: 1,
+  diningRooms: 1,
+  garage: false,
+  balcony: true,
+  garden: false,
+  style: "modern",
+  budgetRange: "medium",
+  vastuCompliant: false,
+};
+
+describe("plot polygons", () => {
+  it("measures the polygon and finds the largest rectangle inside it", () => {
+    expect(getPolygonArea(lShape)).toBe(1800);
+    expect(isRectInPolygon({ x: 20, y: 10, width: 20, height: 20 }, lShape)).toBe(false);
+    expect(fitRectToPolygon({ x: 20, y: 10, width: 24, height: 20 }, lShape)).toEqual({ x: 20, y: 20, width: 24, height: 10 });
+  });
+
+  it("keeps solver rooms inside the boundary and reports the plot area", () => {
+    const layout = solveLayout(request);
+
+    expect(layout.totalArea).toBe(1800);
+    expect(layout.rooms.length).toBeGreaterThan(0);
+    layout.rooms.forEach((room) => expect(isRectInPolygon(room, lShape)).toBe(true));
+  });
+
+  it("does not fill gaps outside the boundary", () => {
+    const rooms = fillGapsIn100Percent([], 60, 40, 1, lShape);
+    const area = rooms.reduce((sum, room) => sum + room.width * room.height, 0);
+
+    expect(area).toBeLessThanOrEqual(1800);
+    rooms.forEach((room) => expect(isRectInPolygon(room, lShape)).toBe(true));
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { resolveOverlaps } from "@/lib/layout/resolveOverlaps";
+import { getOverlap } from "@/lib/layout/geometry";
+import { makeRoom } from "./makeRoom";
+
+describe("resolveOverlaps", () => {
+  it("trims the lower-priority room and reports the change", () => {
+    const { rooms, changes } = resolveOverlaps(
+      [
+        makeRoom({ id: "Store", type: "store", x: 0, y: 0, width: 12, height: 10 }),
+        makeRoom({ id: "Kitchen", type: "kitchen", x: 10, y: 0, width: 12, height: 10 }),
+      ],
+      22,
+      10
+    );
+    const store = rooms.find((r) => r.id === "Store")!;
+    const kitchen = rooms.find((r) => r.id === "Kitchen")!;
+    expect(kitchen).toMatchObject({ x: 10, width: 12 });
+    expect(store).toMatchObject({ x: 0, width: 10 });
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatch(/Trimmed Store/);
+  });
+
+  it("leaves every floor overlap-free and ignores rooms on other floors", () => {
+    const input = [
+      makeRoom({ id: "Living", type: "living", x: 0, y: 0, width: 20, height: 20 }),
+      makeRoom({ id: "Hall", type: "hallway", x: 5, y: 5, width: 30, height: 4 }),
+      makeRoom({ id: "Bedroom", type: "bedroom", x: 15, y: 10, width: 20, height: 10 }),
+      makeRoom({ id: "Upper", type: "bedroom", x: 0, y: 0, width: 20, height: 20, floor: 2 }),
+    ];
+    const { rooms } = resolveOverlaps(input, 40, 20);
+    expect(rooms.find((r) => r.id === "Upper")).toMatchObject({ x: 0, y: 0, width: 20, height: 20 });
+    rooms.forEach((a, i) => rooms.slice(i + 1).forEach((b) => {
+      if (a.floor === b.floor) expect(getOverlap(a, b)).toBeNull();
+    }));
+  });
+});
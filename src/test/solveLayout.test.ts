@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { solveLayout } from "@/lib/layout/solveLayout";
+import { findSharedWall } from "@/lib/layout/geometry";
+import { MAX_VARIANT_COUNT, getVariantCount, rankVariants, solveLayoutVariants } from "@/lib/layout/variants";
+import { GenerationRequestBody, Room } from "@/types/floorPlan";
+
+const baseRequest: GenerationRequestBody = {
+  plotLength: 60,
+  plotWidth: 40,
+  floors: 1,
+  bedrooms: 3,
+  bathrooms: 2,
+  kitchens: 1,
+  livingRooms: 1,
+  diningRooms: 1,
+  garage: false,
+  balcony: true,
+  garden: false,
+  style: "modern",
+  budgetRange: "medium",
+  vastuCompliant: false,
+};
+
+const overlapArea = (a: Room, b: Room) =>
+  Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)) *
+  Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+
+describe("solveLayout", () => {
+  it("covers every floor without gaps or overlaps", () => {
+    const request = { ...baseRequest, floors: 2, garage: true };
+    const layout = solveLayout(request);
+
+    for (let floor = 1; floor <= request.floors; floor++) {
+      const rooms = layout.rooms.filter((room) => room.floor === floor);
+      const area = rooms.reduce((sum, room) => sum + room.width * room.height, 0);
+      expect(area).toBeCloseTo(request.plotLength * request.plotWidth, 5);
+
+      rooms.forEach((room, i) => {
+        expect(room.x + room.width).toBeLessThanOrEqual(request.plotLength + 1e-6);
+        expect(room.y + room.height).toBeLessThanOrEqual(request.plotWidth + 1e-6);
+        rooms.slice(i + 1).forEach((other) => expect(overlapArea(room, other)).toBe(0));
+      });
+    }
+  });
+
+  it("keeps kitchen next to dining and baths next to their bedrooms", () => {
+    const rooms = solveLayout(baseRequest).rooms;
+    const kitchen = rooms.find((room) => room.type === "kitchen")!;
+    const dining = rooms.find((room) => room.type === "dining")!;
+    expect(findSharedWall(kitchen, dining)).not.toBeNull();
+
+    const attachedBaths = rooms.filter((room) => room.name === "Attached Bath");
+    expect(attachedBaths).toHaveLength(2);
+    attachedBaths.forEach((bath) => {
+      expect(rooms.some((room) => room.type === "bedroom" && findSharedWall(bath, room))).toBe(true);
+    });
+  });
+
+  it("stacks the staircase in the same position on every floor", () => {
+    const stairs = solveLayout({ ...baseRequest, floors: 3 }).rooms.filter((room) => room.type === "staircase");
+    expect(stairs).toHaveLength(3);
+    stairs.forEach((stair) => {
+      expect([stair.x, stair.y, stair.width, stair.height]).toEqual([stairs[0].x, stairs[0].y, stairs[0].width, stairs[0].height]);
+    });
+  });
+
+  it("follows per-floor programs instead of repeating the ground floor", () => {
+    const request = {
+      ...baseRequest,
+      floors: 2,
+      floorPrograms: [
+        { living: 1, kitchen: 1, dining: 1, garage: 1 },
+        { bedroom: 3, bathroom: 2, living: 1 },
+      ],
+    };
+    const rooms = solveLayout(request).rooms;
+    const count = (floor: number, type: Room["type"]) => rooms.filter((room) => room.floor === floor && room.type === type).length;
+
+    expect([count(1, "garage"), count(1, "kitchen"), count(1, "bedroom")]).toEqual([1, 1, 0]);
+    expect([count(2, "bedroom"), count(2, "kitchen"), count(2, "garage")]).toEqual([3, 0, 0]);
+    expect(rooms.some((room) => room.floor === 2 && room.name === "Family Lounge")).toBe(true);
+    expect([count(1, "staircase"), count(2, "staircase")]).toEqual([1, 1]);
+  });
+
+  it("is deterministic and places a main entrance", () => {
+    const first = solveLayout(baseRequest);
+    expect(solveLayout(baseRequest)).toEqual(first);
+    expect(first.rooms.some((room) => room.doors?.some((door) => door.isMain))).toBe(true);
+  });
+
+  it("ranks solver variants best first with a score breakdown", () => {
+    const variants = rankVariants(solveLayoutVariants(baseRequest, 3), baseRequest);
+    expect(variants).toHaveLength(3);
+    expect(new Set(variants.map((variant) => variant.id)).size).toBe(3);
+    variants.forEach((variant, i) => {
+      [variant.score.areaUtilization, variant.score.adjacency, variant.score.vastu].forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThanOrEqual(1);
+      });
+      if (i > 0) expect(variant.score.total).toBeLessThanOrEqual(variants[i - 1].score.total);
+    });
+  });
+
+  it("never promises more variants than there are strategies to solve them", () => {
+    const request = { ...baseRequest, variantCount: 9 };
+    const count = getVariantCount(request);
+
+    expect(solveLayoutVariants(request, count)).toHaveLength(count);
+    expect(getVariantCount(request, true)).toBe(MAX_VARIANT_COUNT);
+    expect(count).toBe(MAX_VARIANT_COUNT - 1);
+  });
+});
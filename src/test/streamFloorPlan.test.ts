@@ -0,0 +1,107 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { parseServerSentEvents, streamFloorPlan } from "@/lib/streamFloorPlan";
+import { GenerationProgressEvent, GenerationRequestBody } from "@/types/floorPlan";
+
+const request: GenerationRequestBody = {
+  plotLength: 60,
+  plotWidth: 40,
+  floors: 1,
+  bedrooms: 2,
+  bathrooms: 1,
+  kitchens: 1,
+  livingRooms: 1,
+  diningRooms: 0,
+  garage: false,
+  balcony: false,
+  garden: false,
+  style: "modern",
+  budgetRange: "medium",
+  vastuCompliant: false,
+};
+
+const encode = (event: GenerationProgressEvent) => new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`);
+
+// A fetch answering with the given chunks of an event stream, erroring the
+// body the way a real connection does when the request's signal is aborted
+const mockEventStream = (chunks: Uint8Array[], { hold = false } = {}) =>
+  vi.fn((_url: string, init: RequestInit) => {
+    if (init.signal?.aborted) return Promise.reject(new DOMException("The operation was aborted.", "AbortError"));
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk));
+        init.signal?.addEventListener("abort", () => controller.error(new DOMException("The operation was aborted.", "AbortError")));
+        if (!hold) controller.close();
+      },
+    });
+    return Promise.resolve(new Response(body, { headers: { "Content-Type": "text/event-stream" } }));
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("parseServerSentEvents", () => {
+  it("returns complete events and keeps a partial one buffered", () => {
+    const step = { type: "step", step: "prompt", message: "Prompt built" };
+    const { events, rest } = parseServerSentEvents(`data: ${JSON.stringify(step)}\n\ndata: {"type":"fl`);
+    expect(events).toEqual([step]);
+    expect(rest).toBe('data: {"type":"fl');
+  });
+});
+
+describe("streamFloorPlan", () => {
+  it("reports steps and floors as they arrive and resolves with the result", async () => {
+    const step: GenerationProgressEvent = { type: "step", step: "model", message: "Asking the model" };
+    const floor: GenerationProgressEvent = { type: "floor", floor: 1, rooms: [] };
+    const result = { variants: [] };
+    const bytes = new Uint8Array([...encode(step), ...encode(floor), ...encode({ type: "result", result })]);
+    // Split mid-event so the parser has to carry a partial event over
+    vi.stubGlobal("fetch", mockEventStream([bytes.slice(0, 30), bytes.slice(30)]));
+    const onEvent = vi.fn();
+
+    await expect(streamFloorPlan(request, { onEvent })).resolves.toEqual(result);
+    expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual(["step", "floor", "result"]);
+    expect(onEvent).toHaveBeenCalledWith(floor);
+  });
+
+  it("sends the signed-in user's access token and the anon key when signed out", async () => {
+    const fetch = mockEventStream([encode({ type: "result", result: { variants: [] } })]);
+    vi.stubGlobal("fetch", fetch);
+    const authorization = () => (fetch.mock.lastCall[1].headers as Record<string, string>).Authorization;
+
+    await streamFloorPlan(request);
+    expect(authorization()).toBe(`Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`);
+
+    vi.spyOn(supabase.auth, "getSession").mockResolvedValue({
+      data: { session: { access_token: "user-jwt" } as Session },
+      error: null,
+    });
+    await streamFloorPlan(request);
+    expect(authorization()).toBe("Bearer user-jwt");
+  });
+
+  it("rejects with the message of an error event", async () => {
+    vi.stubGlobal("fetch", mockEventStream([encode({ type: "error", error: "Model unavailable", status: 503 })]));
+
+    await expect(streamFloorPlan(request)).rejects.toThrow("Model unavailable");
+  });
+
+  it("rejects when a stream ends without a result", async () => {
+    vi.stubGlobal("fetch", mockEventStream([encode({ type: "step", step: "prompt", message: "Prompt built" })]));
+
+    await expect(streamFloorPlan(request)).rejects.toThrow("Generation ended before a plan was returned");
+  });
+
+  it("rejects when the signal is aborted mid-stream or before the request", async () => {
+    vi.stubGlobal("fetch", mockEventStream([encode({ type: "step", step: "model", message: "Asking the model" })], { hold: true }));
+    const controller = new AbortController();
+    const onEvent = vi.fn(() => controller.abort());
+
+    await expect(streamFloorPlan(request, { signal: controller.signal, onEvent })).rejects.toThrow(/aborted/);
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    await expect(streamFloorPlan(request, { signal: controller.signal })).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { generateFloorPlan } from "@/lib/generation/generateFloorPlan";
+import { createFixtureReplayProvider } from "@/lib/llm/fixtureReplay";
+import { buildVastuReport, getVastuScore, getVastuZones } from "@/lib/layout/vastu";
+import { GenerationRequestBody, Room } from "@/types/floorPlan";
+import { makeRoom } from "./makeRoom";
+
+const request: GenerationRequestBody = {
+  plotLength: 60,
+  plotWidth: 45,
+  floors: 1,
+  bedrooms: 1,
+  bathrooms: 1,
+  kitchens: 1,
+  livingRooms: 1,
+  diningRooms: 0,
+  garage: false,
+  balcony: false,
+  garden: false,
+  style: "modern",
+  budgetRange: "medium",
+  vastuCompliant: true,
+  variantCount: 1,
+};
+
+describe("vastu report", () => {
+  it("passes, warns and fails rooms by their zone", () => {
+    const checks = buildVastuReport(
+      [
+        makeRoom({ id: "kitchen-se", type: "kitchen", x: 45, y: 32 }),
+        makeRoom({ id: "kitchen-s", type: "kitchen", x: 25, y: 32 }),
+        makeRoom({ id: "pooja-sw", type: "pooja", x: 5, y: 32 }),
+      ],
+      request
+    );
+
+    expect(checks.map((check) => [check.roomId, check.zone, check.status])).toEqual([
+      ["kitchen-se", "SE", "pass"],
+      ["kitchen-s", "S", "warn"],
+      ["pooja-sw", "SW", "fail"],
+    ]);
+    expect(getVastuScore(checks)).toBeCloseTo(0.5);
+  });
+
+  it("turns the zones and the entrance with the facing", () => {
+    const eastFacing = { ...request, facing: 90 };
+    expect(getVastuZones(eastFacing).find((cell) => cell.x === 40 && cell.y === 30).zone).toBe("NE");
+
+    const living = makeRoom({ id: "living", type: "living", x: 25, y: 35, doors: [{ position: "bottom", offset: 40, width: 4, isMain: true }] });
+    const entrance = (facing: number) => buildVastuReport([living], { ...request, facing }).find((check) => check.label === "Main entrance");
+    expect(entrance(180)).toMatchObject({ zone: "S", status: "fail" });
+    expect(entrance(90)).toMatchObject({ zone: "E", status: "pass" });
+  });
+
+  it("replaces the model's Vastu claims with the checked result", async () => {
+    const layout = JSON.stringify({
+      rooms: [
+        { id: "living", type: "living", name: "Living Room", x: 0, y: 0, width: 30, height: 45, floor: 1 },
+        { id: "kitchen", type: "kitchen", name: "Kitchen", x: 30, y: 0, width: 30, height: 20, floor: 1 },
+        { id: "bedroom", type: "bedroom", name: "Bedroom", x: 30, y: 20, width: 30, height: 25, floor: 1 },
+      ],
+      suggestions: ["Fully Vastu compliant layout"],
+    });
+    const result = await generateFloorPlan(request, createFixtureReplayProvider([{ content: layout }]));
+    const suggestions = result.variants.find((variant) => variant.source === "ai").layout.suggestions;
+
+    expect(suggestions).not.toContain("Fully Vastu compliant layout");
+    expect(suggestions.some((suggestion) => /Vastu placements pass/.test(suggestion))).toBe(true);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { alignVerticalCores, findCoreViolations } from "@/lib/layout/verticalCores";
+import { resolveOverlaps } from "@/lib/layout/resolveOverlaps";
+import { solveLayout } from "@/lib/layout/solveLayout";
+import { makeRoom } from "./makeRoom";
+
+describe("vertical cores", () => {
+  it("finds nothing wrong with solver layouts' staircases", () => {
+    const layout = solveLayout({
+      plotLength: 60,
+      plotWidth: 40,
+      floors: 3,
+      bedrooms: 4,
+      bathrooms: 3,
+      kitchens: 1,
+      livingRooms: 1,
+      diningRooms: 1,
+      garage: false,
+      balcony: false,
+      garden: false,
+      style: "modern",
+      budgetRange: "medium",
+      vastuCompliant: false,
+    });
+
+    expect(findCoreViolations(layout.rooms).filter((violation) => violation.kind !== "wet-unstacked")).toEqual([]);
+  });
+
+  it("snaps drifted staircases into line and wins the overlap", () => {
+    const rooms = [
+      makeRoom({ id: "stair-1", type: "staircase", floor: 1, x: 20, y: 10, width: 6, height: 12 }),
+      makeRoom({ id: "living-1", type: "living", floor: 1, x: 0, y: 0, width: 20, height: 30 }),
+      makeRoom({ id: "stair-2", type: "staircase", floor: 2, x: 23, y: 10, width: 6, height: 12 }),
+      makeRoom({ id: "bed-2", type: "bedroom", floor: 2, x: 0, y: 0, width: 23, height: 30 }),
+    ];
+
+    expect(findCoreViolations(rooms)).toMatchObject([{ kind: "core-misaligned", floor: 2, roomId: "stair-2" }]);
+
+    const aligned = alignVerticalCores(rooms, 40, 30);
+    expect(aligned.pinned).toEqual(["stair-2"]);
+    const resolved = resolveOverlaps(aligned.rooms, 40, 30, aligned.pinned);
+    const stair = resolved.rooms.find((candidate) => candidate.id === "stair-2");
+    const bedroom = resolved.rooms.find((candidate) => candidate.id === "bed-2");
+    expect([stair.x, stair.y]).toEqual([20, 10]);
+    expect(bedroom.x + bedroom.width).toBeLessThanOrEqual(20);
+  });
+
+  it("adds a staircase missing from an upper floor", () => {
+    const rooms = [
+      makeRoom({ id: "stair-1", type: "staircase", floor: 1, x: 20, y: 10, width: 6, height: 12 }),
+      makeRoom({ id: "bed-2", type: "bedroom", floor: 2, x: 0, y: 0, width: 40, height: 30 }),
+    ];
+    const aligned = alignVerticalCores(rooms, 40, 30);
+
+    expect(aligned.rooms.find((candidate) => candidate.id === "stair-1-floor-2")).toMatchObject({ floor: 2, x: 20, y: 10 });
+    expect(findCoreViolations(aligned.rooms)).toEqual([]);
+  });
+
+  it("pulls nearby wet rooms over the one below and reports the rest", () => {
+    const rooms = [
+      makeRoom({ id: "bath-1", type: "bathroom", floor: 1, x: 0, y: 0, width: 6, height: 8 }),
+      makeRoom({ id: "bath-2", type: "bathroom", floor: 2, x: 7, y: 0, width: 6, height: 8 }),
+      makeRoom({ id: "kitchen-2", type: "kitchen", floor: 2, x: 30, y: 20, width: 10, height: 10 }),
+    ];
+    const aligned = alignVerticalCores(rooms, 40, 30);
+
+    expect(aligned.rooms.find((candidate) => candidate.id === "bath-2").x).toBe(4);
+    expect(findCoreViolations(aligned.rooms)).toMatchObject([{ kind: "wet-unstacked", roomId: "kitchen-2" }]);
+  });
+});
@@ -3,24 +3,85 @@ export type RoomType = 'bedroom' | 'bathroom' | 'kitchen' | 'living' | 'dining'
 export type DoorPosition = 'top' | 'bottom' | 'left' | 'right';
 export type WindowPosition = 'top' | 'bottom' | 'left' | 'right';
 
+export type DoorType = 'single-swing' | 'double-swing' | 'sliding' | 'pocket' | 'french';
+export type WindowType = 'casement' | 'sliding' | 'ventilator' | 'bay' | 'fixed';
+export type OpeningHinge = 'start' | 'end'; // end of the opening along the wall the leaf hangs or slides from
+export type OpeningSwing = 'in' | 'out'; // into the room or out of it
+
 export interface Door {
   position: DoorPosition;
   offset: number; // percentage from start of wall (0-100)
   width: number; // door width in feet
   isMain?: boolean;
+  type?: DoorType; // single swing when not set
+  hinge?: OpeningHinge;
+  swing?: OpeningSwing;
+  sillHeight?: number; // feet above the floor, catalog default when not set
+  headHeight?: number;
 }
 
 export interface Window {
   position: WindowPosition;
   offset: number; // percentage from start of wall
   width: number; // window width in feet
+  type?: WindowType; // casement when not set
+  hinge?: OpeningHinge;
+  swing?: OpeningSwing;
+  sillHeight?: number;
+  headHeight?: number;
 }
 
+export type FurnitureType =
+  | 'bed'
+  | 'sofa'
+  | 'dining-table'
+  | 'kitchen-counter'
+  | 'toilet'
+  | 'shower'
+  | 'bathtub'
+  | 'sink'
+  | 'wardrobe'
+  | 'desk'
+  | 'car'
+  | 'plants'
+  | 'tv'
+  | 'mandir'
+  | 'washing-machine'
+  | 'shelves';
+
+export type FurnitureItem =
+  | 'single-bed'
+  | 'double-bed'
+  | 'queen-bed'
+  | 'king-bed'
+  | 'two-seater-sofa'
+  | 'three-seater-sofa'
+  | 'two-door-wardrobe'
+  | 'three-door-wardrobe'
+  | 'four-door-wardrobe'
+  | 'counter-6'
+  | 'counter-8'
+  | 'counter-10'
+  | 'toilet'
+  | 'wash-basin'
+  | 'shower'
+  | 'bathtub'
+  | 'four-seater-dining'
+  | 'six-seater-dining'
+  | 'study-desk'
+  | 'tv-unit'
+  | 'car'
+  | 'planter'
+  | 'mandir'
+  | 'washing-machine'
+  | 'storage-rack';
+
 export interface Furniture {
-  type: 'bed' | 'sofa' | 'dining-table' | 'kitchen-counter' | 'toilet' | 'shower' | 'sink' | 'wardrobe' | 'desk' | 'car' | 'plants' | 'tv';
-  x: number; // relative position in room (0-100)
-  y: number;
-  rotation?: number; // degrees
+  type: FurnitureType;
+  item?: FurnitureItem; // catalog size; the usual one for the type when not set
+  x: number; // centre of the piece as a percentage of the room's width (0-100)
+  y: number; // and of its depth
+  rotation?: number; // degrees clockwise, in quarter turns; 0 puts the back of the piece to the top wall
 }
 
 export interface Room {
@@ -36,6 +97,34 @@ export interface Room {
   doors?: Door[];
   windows?: Window[];
   furniture?: Furniture[];
+  locked?: boolean; // kept exactly as is when the rest of the plan is regenerated
+}
+
+// Plot boundary corner in feet, same axes as Room.x / Room.y
+export interface PlotVertex {
+  x: number;
+  y: number;
+}
+
+export type PlotSide = 'top' | 'bottom' | 'left' | 'right';
+
+// Open margins in feet kept free of building along each plot side
+export type PlotSetbacks = Record<PlotSide, number>;
+
+// Rooms wanted on one floor, by type. Staircases and corridors are added by the planner.
+export type FloorProgram = Partial<Record<RoomType, number>>;
+
+// Bubble-diagram node: a room type, or the master bedroom on its own
+export type AdjacencyNode = RoomType | 'master-bedroom';
+
+// must and forbid are hard requirements, prefer is a wish
+export type AdjacencyKind = 'must' | 'prefer' | 'forbid';
+
+// Whether rooms of one kind share a wall with rooms of another
+export interface AdjacencyEdge {
+  from: AdjacencyNode;
+  to: AdjacencyNode;
+  kind: AdjacencyKind;
 }
 
 export interface GeneratedLayout {
@@ -61,8 +150,70 @@ export interface FormData {
   style: string;
   budgetRange: string;
   vastuCompliant: boolean;
+  plotPolygon?: PlotVertex[]; // non-rectangular plots; plotLength/plotWidth are its bounding box
+  setbacks?: PlotSetbacks;
+  roadSides?: PlotSide[]; // plot sides that face a road, bottom when unset
+  facing?: number; // compass bearing (degrees from north) the first road side faces
+  floorPrograms?: FloorProgram[]; // index 0 is the ground floor; replaces the whole-house counts when set
+  adjacency?: AdjacencyEdge[]; // bubble-diagram requirements, checked after generation
+}
+
+// Request payload shared by the client and the generate-floor-plan edge function
+export interface GenerationRequestBody {
+  plotLength: number;
+  plotWidth: number;
+  floors: number;
+  bedrooms: number;
+  bathrooms: number;
+  kitchens: number;
+  livingRooms: number;
+  diningRooms: number;
+  garage: boolean;
+  balcony: boolean;
+  garden: boolean;
+  style: string;
+  budgetRange: string;
+  vastuCompliant: boolean;
+  plotPolygon?: PlotVertex[];
+  setbacks?: PlotSetbacks;
+  roadSides?: PlotSide[];
+  facing?: number;
+  floorPrograms?: FloorProgram[];
+  adjacency?: AdjacencyEdge[];
+  lockedRooms?: Room[];
+  variantCount?: number;
+}
+
+// Scores are fractions between 0 and 1
+export interface LayoutScore {
+  areaUtilization: number;
+  adjacency: number;
+  vastu: number;
+  total: number;
+}
+
+export interface LayoutVariant {
+  id: string;
+  label: string;
+  source: 'ai' | 'solver';
+  layout: GeneratedLayout;
+  score: LayoutScore;
+}
+
+// Response of the generate-floor-plan edge function, best variant first
+export interface GenerationResult {
+  variants: LayoutVariant[];
 }
 
+export type GenerationStep = 'prompt' | 'model' | 'validation' | 'repair' | 'gap-fill' | 'variants';
+
+// Server-sent events streamed by generate-floor-plan when the client accepts text/event-stream
+export type GenerationProgressEvent =
+  | { type: 'step'; step: GenerationStep; message: string }
+  | { type: 'floor'; floor: number; rooms: Room[] }
+  | { type: 'result'; result: GenerationResult }
+  | { type: 'error'; error: string; status: number };
+
 export interface SavedPlan {
   id: string;
   user_id: string;
@@ -82,6 +233,12 @@ export interface SavedPlan {
   budget_range: string;
   vastu_compliant: boolean;
   generated_layout: GeneratedLayout | null;
+  plot_polygon: PlotVertex[] | null;
+  setbacks: PlotSetbacks | null;
+  road_sides: PlotSide[] | null;
+  facing: number | null;
+  floor_programs: FloorProgram[] | null;
+  adjacency: AdjacencyEdge[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -105,6 +262,25 @@ export const ROOM_COLORS: Record<RoomType, string> = {
   wardrobe: 'hsl(280, 30%, 88%)',
 };
 
+// Display names used when a generator has to name rooms itself
+export const ROOM_NAMES: Record<RoomType, string> = {
+  bedroom: 'Bedroom',
+  bathroom: 'Bathroom',
+  kitchen: 'Kitchen',
+  living: 'Living Room',
+  dining: 'Dining Room',
+  garage: 'Garage',
+  balcony: 'Balcony',
+  garden: 'Garden',
+  hallway: 'Hallway',
+  staircase: 'Staircase',
+  pooja: 'Pooja Room',
+  study: 'Study',
+  utility: 'Utility',
+  store: 'Store',
+  wardrobe: 'Wardrobe',
+};
+
 // Minimum room sizes (in sq ft) for validation
 export const MIN_ROOM_SIZES: Record<RoomType, number> = {
   bedroom: 100,
@@ -0,0 +1,239 @@
+import { AdjacencyKind, GenerationRequestBody, PlotSide } from '../../types/floorPlan.ts';
+import { describeAdjacencyEdge } from '../layout/adjacency.ts';
+import { getBuildableEnvelope, getRoadSides, hasSetbacks } from '../layout/envelope.ts';
+import { describeFloorProgram, getFloorPrograms } from '../layout/floorPrograms.ts';
+import { getLockedRooms } from '../layout/lockedRooms.ts';
+import {
+  COMPASS_NAMES,
+  COMPASS_POINTS,
+  getCompassPoint,
+  getCompassShift,
+  getDrawingDirection,
+  getFacing,
+  getFrontSide,
+} from '../layout/orientation.ts';
+import { getPlotPolygon, getPolygonArea, getPolygonBounds, isRectangularPolygon } from '../layout/plotPolygon.ts';
+
+const MAX_REPORTED_ERRORS = 20;
+
+// Enhanced system prompt based on professional architect's layout style
+export const SYSTEM_PROMPT = `You are an expert residential architect AI. Generate professional floor plans like real architects do.
+
+CRITICAL LAYOUT PRINCIPLES (based on professional architectural standards):
+1. **100% ENVELOPE COVERAGE**: ALL of the buildable envelope (the plot less any setbacks) MUST be used. No empty/unused spaces inside it. Setback margins stay open.
+2. **ZERO GAPS**: All rooms MUST share walls directly. Rooms fill the entire envelope edge-to-edge.
+3. **GRID-BASED LAYOUT**: Use a grid system where rooms align perfectly edge-to-edge.
+4. **WALL THICKNESS**: Standard 6-inch (0.5ft) walls are implicit - room dimensions are interior.
+5. **ROOM ADJACENCY**: Rooms that connect must share a common wall segment.
+
+CRITICAL RULE FOR 100% COVERAGE:
+- Sum of room widths in each row = envelope width
+- Sum of room heights in each column = envelope height
+- No leftover space - if there's unused area, expand adjacent rooms to fill it
+- Every pixel of the envelope must be assigned to a room; nothing is built in the setbacks
+
+PROFESSIONAL ROOM SIZE STANDARDS (Interior dimensions - can be adjusted to fill space):
+- Master Bedroom: 14'-18' wide x 16'-20' deep (flexible to fill available space)
+- Regular Bedroom: 10'-14' wide x 12'-16' deep
+- Living Room: 14'-20' wide (largest room, near entrance)
+- Dining Room: 10'-14' wide (adjacent to kitchen)
+- Kitchen: 10'-16' wide (with utility area)
+- Bathroom (attached): 5'-8' wide x 6'-8' deep
+- Common Bathroom: 5'-8' wide x 6'-8' deep
+- Store Room: 5'-8' both dimensions
+- Pooja Room: 5'-8' both dimensions
+- Staircase: 4'-6' wide x 8'-12' deep
+- Balcony: 4'-8' wide (extending from living/dining, only exterior walls are railings)
+- Utility/Wash: 6'-10' wide
+- Hallway: Variable (use to connect spaces and fill gaps)
+- Garden: Exterior area with railings on open sides
+
+LAYOUT ZONING (like professional architects):
+1. **PUBLIC ZONE** (near entrance): Living room, Dining, Guest toilet
+2. **SERVICE ZONE**: Kitchen, Utility, Store, Staircase
+3. **PRIVATE ZONE**: Bedrooms with attached bathrooms, Wardrobes
+4. **SEMI-PRIVATE**: Pooja room, Study
+
+CONNECTIVITY RULES:
+- Main entrance → Living room (via small foyer if space permits)
+- Living room → Dining room (open or with wide opening)
+- Dining room → Kitchen (direct access)
+- Kitchen → Utility/Wash area
+- Bedrooms → Attached bathroom/Wardrobe (en-suite)
+- Staircase accessible from living/hallway area
+
+VASTU COMPLIANCE (when requested):
+- Main entrance: North or East facing
+- Master bedroom: Southwest corner
+- Kitchen: Southeast corner (Agni direction)
+- Pooja room: Northeast corner (Ishan)
+- Toilets: Northwest or West
+- Living room: North or East
+- Staircase: South or West
+
+OUTPUT FORMAT - Return ONLY valid JSON:
+{
+  "rooms": [
+    {
+      "id": "unique_id",
+      "type": "bedroom|bathroom|kitchen|living|dining|garage|balcony|garden|hallway|staircase|pooja|study|utility|store|wardrobe",
+      "name": "Display Name",
+      "x": <number - left edge position in feet from plot left>,
+      "y": <number - top edge position in feet from plot top>,
+      "width": <number - room width in feet>,
+      "height": <number - room height/depth in feet>,
+      "floor": <number - 1 for ground, 2 for first floor>,
+      "color": "hsl(hue, saturation%, lightness%)",
+      "doors": [{"position": "top|bottom|left|right", "offset": <0-100>, "width": 3, "isMain": false}],
+      "windows": [{"position": "top|bottom|left|right", "offset": <0-100>, "width": 4}]
+    }
+  ],
+  "totalArea": <buildable area>,
+  "efficiency": 1.0,
+  "suggestions": ["recommendation 1", "recommendation 2"]
+}`;
+
+// Extra plot lines for boundaries that are not the plain bounding rectangle
+const describePlotBoundary = (request: GenerationRequestBody): string => {
+  const polygon = getPlotPolygon(request);
+  if (isRectangularPolygon(polygon)) return '';
+
+  const vertices = polygon.map((vertex) => `(${vertex.x}, ${vertex.y})`).join(' → ');
+  return `
+- Plot Shape: NON-RECTANGULAR. The dimensions above are its bounding box; the boundary runs through ${vertices} (x, y in feet)
+- Every room must lie completely inside this boundary. Leave the bounding-box area outside it empty`;
+};
+
+const SIDE_NAMES: Record<PlotSide, string> = {
+  top: 'top (y = 0)',
+  bottom: 'bottom (largest y)',
+  left: 'left (x = 0)',
+  right: 'right (largest x)',
+};
+
+// Setbacks, the envelope they leave and the road frontage
+const describeSite = (request: GenerationRequestBody): string => {
+  const roads = getRoadSides(request).map((side) => SIDE_NAMES[side]).join(', ');
+  const lines = [`- Road Frontage: ${roads} side(s). Put the main entrance on a road-facing wall`];
+
+  if (hasSetbacks(request)) {
+    const envelope = getBuildableEnvelope(request);
+    const { top, bottom, left, right } = request.setbacks;
+    lines.push(`- Setbacks (open margins, no rooms): top ${top} ft, bottom ${bottom} ft, left ${left} ft, right ${right} ft`);
+    if (envelope) {
+      const bounds = getPolygonBounds(envelope);
+      lines.push(isRectangularPolygon(envelope)
+        ? `- BUILDABLE ENVELOPE: x from ${bounds.x} to ${bounds.x + bounds.width} ft, y from ${bounds.y} to ${bounds.y + bounds.height} ft`
+        : `- BUILDABLE ENVELOPE: the polygon ${envelope.map((vertex) => `(${vertex.x}, ${vertex.y})`).join(' → ')}`);
+    }
+  }
+
+  return `\n${lines.join('\n')}`;
+};
+
+// Which way the plot faces and where each compass direction lies on the drawing
+const describeOrientation = (request: GenerationRequestBody): string => {
+  const facing = getFacing(request);
+  const shift = getCompassShift(request);
+  const directions = COMPASS_POINTS.map((point) => `${COMPASS_NAMES[point]} = ${getDrawingDirection(point, shift)}`).join(', ');
+
+  return `
+- Orientation: the ${SIDE_NAMES[getFrontSide(request)]} side faces ${COMPASS_NAMES[getCompassPoint(facing)]} (${facing}°)
+- Compass directions on the drawing: ${directions}`;
+};
+
+// Per-floor programs are listed floor by floor; otherwise the planner spreads the totals
+const describeRoomRequirements = (request: GenerationRequestBody): string => {
+  const programs = getFloorPrograms(request);
+  if (programs) {
+    const floors = programs.map((program, index) =>
+      `- Floor ${index + 1}${index === 0 ? ' (ground)' : ''}: ${describeFloorProgram(program)}`);
+    return `ROOM REQUIREMENTS PER FLOOR (place exactly these rooms on each floor; do not repeat the ground floor program upstairs):
+${floors.join('\n')}${programs.length > 1 ? '\n- Staircase: on every floor, in the same position' : ''}
+- Hallways may be added for circulation; a living room on an upper floor is a family lounge`;
+  }
+
+  return `ROOM REQUIREMENTS:
+- Bedrooms: ${request.bedrooms} (include attached bathroom for master bedroom)
+- Bathrooms: ${request.bathrooms}
+- Kitchen: ${request.kitchens} (with utility area nearby)
+- Living Room: ${request.livingRooms}
+- Dining Room: ${request.diningRooms}
+${request.garage ? "- Garage: Yes (minimum 12'x20')" : ''}
+${request.balcony ? "- Balcony: Yes (attached to living/dining, with railings not walls on exterior)" : ''}
+${request.garden ? "- Garden/Sit-out: Yes (with railings not walls on exterior)" : ''}
+- Include: Store room, Pooja room, Utility area`;
+};
+
+// Bubble-diagram edges, hard requirements first
+const describeAdjacency = (request: GenerationRequestBody): string => {
+  const edges = request.adjacency ?? [];
+  if (edges.length === 0) return '';
+
+  const order: AdjacencyKind[] = ['must', 'forbid', 'prefer'];
+  const lines = [...edges]
+    .sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind))
+    .map((edge) => `- ${edge.kind.toUpperCase()}: ${describeAdjacencyEdge(edge)}`);
+  return `
+
+ADJACENCY REQUIREMENTS (adjoin = share a wall segment on the same floor; MUST and FORBID are checked after generation):
+${lines.join('\n')}`;
+};
+
+const describeLockedRooms = (request: GenerationRequestBody): string => {
+  const locked = getLockedRooms(request);
+  if (locked.length === 0) return '';
+
+  const lines = locked.map((room) =>
+    `- Floor ${room.floor}: "${room.id}" ${room.name} (${room.type}) at x=${room.x}, y=${room.y}, ${room.width}' × ${room.height}'`);
+  return `
+
+LOCKED ROOMS (already fixed by the client; copy each one into "rooms" with the same id, type, floor and geometry, and plan the other rooms only in the space left around them. They count towards the rooms requested above):
+${lines.join('\n')}`;
+};
+
+const getPlotArea = (request: GenerationRequestBody): number => Math.round(getPolygonArea(getPlotPolygon(request)));
+
+const getBuildableArea = (request: GenerationRequestBody): number =>
+  Math.round(getPolygonArea(getBuildableEnvelope(request) ?? getPlotPolygon(request)));
+
+export const buildUserPrompt = (request: GenerationRequestBody): string => `Design a professional floor plan for a ${request.plotLength}'x${request.plotWidth}' plot:
+
+PLOT DETAILS:
+- Plot Width (X-axis): ${request.plotLength} feet
+- Plot Depth (Y-axis): ${request.plotWidth} feet  
+- Total Plot Area: ${getPlotArea(request)} sq.ft${describePlotBoundary(request)}${describeSite(request)}${describeOrientation(request)}
+- Buildable Area: ${getBuildableArea(request)} sq.ft
+- Number of Floors: ${request.floors}
+
+${describeRoomRequirements(request)}${describeAdjacency(request)}${describeLockedRooms(request)}
+
+DESIGN REQUIREMENTS:
+- Style: ${request.style}
+- Budget: ${request.budgetRange}
+${request.vastuCompliant ? `- VASTU COMPLIANT: Yes - strictly follow Vastu principles for room placement, reading every direction through the compass directions above (e.g. the Southeast corner is the ${getDrawingDirection('SE', getCompassShift(request))} corner of the drawing)` : ''}
+
+CRITICAL INSTRUCTIONS FOR 100% AREA USAGE:
+1. ALL rooms must share walls - NO gaps between rooms
+2. Rooms MUST fill the ENTIRE buildable envelope - efficiency must be 100%
+3. Place rooms edge-to-edge like a professional architect
+4. If there's leftover space, expand adjacent rooms OR add hallway/utility
+5. Master bedroom should have attached bathroom and walk-in wardrobe
+6. Kitchen adjacent to dining with utility area
+7. Include staircase if multiple floors (same position on each floor); stack upper-floor bathrooms and kitchens over wet areas below
+8. Add doors where rooms connect (offset 30-70% along wall)
+9. Windows only on EXTERIOR walls (walls at the envelope boundary); windows on shared walls are removed after generation
+10. VERIFY: Sum of all room areas on each floor = ${getBuildableArea(request)} sq.ft
+
+Return ONLY the JSON object.`;
+
+// Follow-up message listing the validation errors of the previous response
+export function buildRepairPrompt(errors: string[]): string {
+  const listed = errors.slice(0, MAX_REPORTED_ERRORS).map((error) => `- ${error}`).join('\n');
+  const more = errors.length > MAX_REPORTED_ERRORS ? `\n- ...and ${errors.length - MAX_REPORTED_ERRORS} more` : '';
+
+  return `Your previous response did not pass validation:
+${listed}${more}
+
+Fix these problems and return the complete corrected layout. Return ONLY the JSON object.`;
+}
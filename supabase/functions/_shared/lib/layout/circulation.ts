@@ -0,0 +1,119 @@
+import { Room, RoomType } from '../../types/floorPlan.ts';
+import { GEOMETRY_TOLERANCE, findSharedWall, getOpeningSpan, getOverlap } from './geometry.ts';
+
+export interface CirculationIssue {
+  kind: 'no-entrance' | 'unreachable' | 'through-bedroom' | 'bathroom-off-kitchen';
+  floor: number;
+  roomId?: string; // a missing entrance has no room
+  message: string;
+}
+
+// Rooms a bathroom door should not open into
+const FOOD_ROOM_TYPES: RoomType[] = ['kitchen', 'dining'];
+
+const getFloors = (rooms: Room[]): number[] => [...new Set(rooms.map((room) => room.floor))].sort((a, b) => a - b);
+
+// Whether either room has a door on the wall between them
+export const hasDoorBetween = (room: Room, other: Room): boolean => {
+  const doorsOn = (owner: Room, neighbor: Room) => {
+    const wall = findSharedWall(owner, neighbor);
+    return !!wall && (owner.doors ?? []).some((door) => {
+      if (door.position !== wall.side) return false;
+      const { start, end } = getOpeningSpan(owner, door);
+      return Math.min(end, wall.end) - Math.max(start, wall.start) > GEOMETRY_TOLERANCE;
+    });
+  };
+  return doorsOn(room, other) || doorsOn(other, room);
+};
+
+// Rooms joined by a door on their shared wall, plus staircases that overlap
+// the staircase on the floor below
+export const buildDoorGraph = (rooms: Room[]): Map<string, string[]> => {
+  const graph = new Map<string, string[]>(rooms.map((room) => [room.id, []]));
+  const connect = (a: Room, b: Room) => {
+    graph.get(a.id).push(b.id);
+    graph.get(b.id).push(a.id);
+  };
+
+  rooms.forEach((room, index) => {
+    rooms.slice(index + 1)
+      .filter((other) => other.floor === room.floor && hasDoorBetween(room, other))
+      .forEach((other) => connect(room, other));
+  });
+
+  const floors = getFloors(rooms);
+  floors.slice(1).forEach((floor, index) => {
+    const below = rooms.filter((room) => room.floor === floors[index] && room.type === 'staircase');
+    rooms
+      .filter((room) => room.floor === floor && room.type === 'staircase')
+      .forEach((stair) => below.filter((other) => getOverlap(stair, other)).forEach((other) => connect(stair, other)));
+  });
+
+  return graph;
+};
+
+// Rooms reachable from `starts`, only walking on through rooms `canPass` allows
+const reach = (graph: Map<string, string[]>, starts: string[], canPass: (id: string) => boolean = () => true): Set<string> => {
+  const reached = new Set(starts);
+  const queue = [...starts];
+  while (queue.length > 0) {
+    const id = queue.shift();
+    if (!starts.includes(id) && !canPass(id)) continue;
+    for (const next of graph.get(id) ?? []) {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return reached;
+};
+
+// Rooms reachable from the main entrance, and those reachable without
+// walking through a bedroom; null when no room has a main door
+export const findReachableRooms = (rooms: Room[], graph = buildDoorGraph(rooms)): { reachable: Set<string>; direct: Set<string> } | null => {
+  const entrances = rooms.filter((room) => room.doors?.some((door) => door.isMain)).map((room) => room.id);
+  if (entrances.length === 0) return null;
+  const types = new Map(rooms.map((room) => [room.id, room.type]));
+  return {
+    reachable: reach(graph, entrances),
+    direct: reach(graph, entrances, (id) => types.get(id) !== 'bedroom'),
+  };
+};
+
+// Walk the door graph from the main entrance: every room should be reachable,
+// bedrooms without passing through another bedroom, and bathrooms should not
+// open into the kitchen or dining room
+export const analyzeCirculation = (rooms: Room[]): CirculationIssue[] => {
+  if (rooms.length === 0) return [];
+  const graph = buildDoorGraph(rooms);
+  const byId = new Map(rooms.map((room) => [room.id, room]));
+  const issues: CirculationIssue[] = [];
+
+  const reached = findReachableRooms(rooms, graph);
+  if (!reached) {
+    issues.push({ kind: 'no-entrance', floor: getFloors(rooms)[0], message: 'No room has a main entrance door, so no room can be reached.' });
+  } else {
+    for (const room of rooms) {
+      if (!reached.reachable.has(room.id)) {
+        issues.push({ kind: 'unreachable', floor: room.floor, roomId: room.id, message: `Floor ${room.floor}: ${room.name} cannot be reached from the main entrance.` });
+      } else if (room.type === 'bedroom' && !reached.direct.has(room.id)) {
+        issues.push({ kind: 'through-bedroom', floor: room.floor, roomId: room.id, message: `Floor ${room.floor}: ${room.name} can only be reached through another bedroom.` });
+      }
+    }
+  }
+
+  for (const room of rooms.filter((candidate) => candidate.type === 'bathroom')) {
+    const food = graph.get(room.id).map((id) => byId.get(id)).filter((other) => FOOD_ROOM_TYPES.includes(other.type));
+    if (food.length > 0) {
+      issues.push({
+        kind: 'bathroom-off-kitchen',
+        floor: room.floor,
+        roomId: room.id,
+        message: `Floor ${room.floor}: ${room.name} opens into ${food.map((other) => other.name).join(' and ')}.`,
+      });
+    }
+  }
+
+  return issues;
+};
@@ -0,0 +1,66 @@
+import { GenerationRequestBody, PlotSide, PlotVertex } from '../../types/floorPlan.ts';
+import { GEOMETRY_TOLERANCE } from './geometry.ts';
+import { PolygonEdge, getPlotPolygon, getPolygonArea, getPolygonEdges } from './plotPolygon.ts';
+
+type PlotRequest = Pick<GenerationRequestBody, 'plotLength' | 'plotWidth' | 'plotPolygon' | 'setbacks' | 'roadSides'>;
+
+export const DEFAULT_ROAD_SIDES: PlotSide[] = ['bottom'];
+
+export const PLOT_SIDES: PlotSide[] = ['top', 'bottom', 'left', 'right'];
+
+export const getRoadSides = (request: Pick<GenerationRequestBody, 'roadSides'>): PlotSide[] =>
+  request.roadSides && request.roadSides.length > 0 ? request.roadSides : DEFAULT_ROAD_SIDES;
+
+export const hasSetbacks = (request: Pick<GenerationRequestBody, 'setbacks'>): boolean =>
+  !!request.setbacks && PLOT_SIDES.some((side) => (request.setbacks[side] ?? 0) > 0);
+
+// The plot side a boundary edge faces, from its outward normal; slanted
+// edges count towards the closer axis
+export const getEdgeSide = (edge: PolygonEdge): PlotSide => {
+  const { x, y } = edge.normal;
+  if (Math.abs(y) >= Math.abs(x)) return y < 0 ? 'top' : 'bottom';
+  return x < 0 ? 'left' : 'right';
+};
+
+const cross = (a: PlotVertex, b: PlotVertex): number => a.x * b.y - a.y * b.x;
+
+// Move every edge inwards by its own distance and rejoin the corners. Returns
+// null when the distances leave nothing, or turn the polygon inside out.
+export const insetPolygon = (vertices: PlotVertex[], distanceFor: (edge: PolygonEdge) => number): PlotVertex[] | null => {
+  const edges = getPolygonEdges(vertices).filter((edge) => edge.length > GEOMETRY_TOLERANCE);
+  if (edges.length < 3) return null;
+
+  const lines = edges.map((edge) => {
+    const distance = distanceFor(edge);
+    return {
+      point: { x: edge.start.x - edge.normal.x * distance, y: edge.start.y - edge.normal.y * distance },
+      direction: { x: edge.end.x - edge.start.x, y: edge.end.y - edge.start.y },
+    };
+  });
+
+  const inset = lines.map((line, index) => {
+    const previous = lines[(index + lines.length - 1) % lines.length];
+    const denominator = cross(previous.direction, line.direction);
+    // Collinear neighbors: the corner is simply where this edge starts
+    if (Math.abs(denominator) < 1e-9) return line.point;
+    const t = cross({ x: line.point.x - previous.point.x, y: line.point.y - previous.point.y }, line.direction) / denominator;
+    return { x: previous.point.x + previous.direction.x * t, y: previous.point.y + previous.direction.y * t };
+  });
+
+  const insetEdges = getPolygonEdges(inset);
+  const keepsShape = insetEdges.every((edge, index) => {
+    const original = lines[index].direction;
+    return (edge.end.x - edge.start.x) * original.x + (edge.end.y - edge.start.y) * original.y > 0;
+  });
+  if (!keepsShape || getPolygonArea(inset) <= GEOMETRY_TOLERANCE) return null;
+
+  return inset.map((vertex) => ({ x: Math.round(vertex.x * 100) / 100, y: Math.round(vertex.y * 100) / 100 }));
+};
+
+// Where the building may go: the plot less its setbacks. Null when the
+// setbacks leave no buildable area at all.
+export const getBuildableEnvelope = (request: PlotRequest): PlotVertex[] | null => {
+  const plot = getPlotPolygon(request);
+  if (!hasSetbacks(request)) return plot;
+  return insetPolygon(plot, (edge) => request.setbacks[getEdgeSide(edge)] ?? 0);
+};
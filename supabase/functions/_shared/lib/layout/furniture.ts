@@ -0,0 +1,276 @@
+import { Door, Furniture, FurnitureItem, Room } from '../../types/floorPlan.ts';
+import { DEFAULT_WALL_THICKNESS } from './areaMetrics.ts';
+import { GEOMETRY_TOLERANCE, Rect, WallSide, containsRect, findSharedWall, getOpeningSpan, getOverlap, getRoomInterior, getWallSpan } from './geometry.ts';
+import { FURNITURE_CATALOG, ROOM_FURNISHINGS, getFurnitureSize, getFurnitureSpec, normalizeRotation } from './furnitureCatalog.ts';
+import { getOpeningLeaves, resolveDoor } from './openingCatalog.ts';
+import { snapToGrid } from './planEditing.ts';
+
+// Furniture placement inside a room. Pieces stand on the room's floor inside
+// its walls (rooms are drawn to wall centre lines), turn in quarter turns,
+// and must keep clear of door swings, of each other and of the floor each one
+// needs in front. A door between two rooms is stored on one of them, so the
+// doors of neighbours count too. Rooms without saved furniture are furnished
+// from the catalog, so every view draws the same pieces in the same places.
+
+export type FurnitureClashKind = 'wall' | 'door' | 'furniture' | 'clearance';
+
+export interface FurnitureClash {
+  kind: FurnitureClashKind;
+  message: string;
+}
+
+// The rooms after an edit and what is wrong with the edited piece there
+export interface FurnitureEdit {
+  rooms: Room[];
+  clashes: FurnitureClash[];
+}
+
+// Floor kept clear inside a door that does not swing into the room
+const DOORWAY_CLEARANCE = 2.5;
+
+const QUARTER_TURNS = [0, 90, 180, 270];
+
+const BACK_SIDES: Record<number, WallSide> = { 0: 'top', 90: 'right', 180: 'bottom', 270: 'left' };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// The wall side a piece has its back to
+export const getFurnitureBackSide = (piece: Furniture): WallSide => BACK_SIDES[normalizeRotation(piece.rotation)];
+
+// Floor a piece covers, in feet from the room's top-left corner
+export const getFurnitureFootprint = (room: Room, piece: Furniture): Rect => {
+  const { width, height } = getFurnitureSize(piece);
+  return { x: (piece.x / 100) * room.width - width / 2, y: (piece.y / 100) * room.height - height / 2, width, height };
+};
+
+const getClearanceZone = (room: Room, piece: Furniture): Rect | null => {
+  const { clearance } = getFurnitureSpec(piece);
+  if (clearance <= 0) return null;
+  const footprint = getFurnitureFootprint(room, piece);
+  switch (getFurnitureBackSide(piece)) {
+    case 'top':
+      return { ...footprint, y: footprint.y + footprint.height, height: clearance };
+    case 'bottom':
+      return { ...footprint, y: footprint.y - clearance, height: clearance };
+    case 'left':
+      return { ...footprint, x: footprint.x + footprint.width, width: clearance };
+    case 'right':
+      return { ...footprint, x: footprint.x - clearance, width: clearance };
+  }
+};
+
+// Floor inside a door that must stay clear: the sweep of leaves that open into
+// the room, or a strip to walk through for every other door
+export const getDoorClearanceZone = (room: Room, door: Door): Rect => {
+  const opening = resolveDoor(door);
+  const depth =
+    opening.spec.operation === 'swing' && opening.swing === 'in'
+      ? Math.max(...getOpeningLeaves(opening).map((leaf) => (leaf.to - leaf.from) * door.width))
+      : DOORWAY_CLEARANCE;
+  const start = (door.offset / 100) * (door.position === 'top' || door.position === 'bottom' ? room.width : room.height);
+
+  switch (door.position) {
+    case 'top':
+      return { x: start, y: 0, width: door.width, height: depth };
+    case 'bottom':
+      return { x: start, y: room.height - depth, width: door.width, height: depth };
+    case 'left':
+      return { x: 0, y: start, width: depth, height: door.width };
+    case 'right':
+      return { x: room.width - depth, y: start, width: depth, height: door.width };
+  }
+};
+
+const OPPOSITE_SIDES: Record<WallSide, WallSide> = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' };
+
+// Every door in the room's walls as seen from inside the room: its own, and
+// the ones neighbours keep on a shared wall, moved onto this room's wall and
+// turned to swing the other way
+export const getRoomDoors = (room: Room, rooms: Room[]): Door[] => {
+  const borrowed = rooms.flatMap((other) => {
+    const wall = findSharedWall(room, other);
+    if (!wall) return [];
+    const span = getWallSpan(room, wall.side);
+    return (other.doors ?? [])
+      .filter((door) => door.position === OPPOSITE_SIDES[wall.side])
+      .flatMap((door): Door[] => {
+        const { start, end } = getOpeningSpan(other, door);
+        if (start < wall.start - GEOMETRY_TOLERANCE || end > wall.end + GEOMETRY_TOLERANCE) return [];
+        const swing = resolveDoor(door).swing === 'in' ? 'out' : 'in';
+        return [{ ...door, position: wall.side, offset: ((start - span.start) / span.length) * 100, swing }];
+      });
+  });
+  return [...(room.doors ?? []), ...borrowed];
+};
+
+// Everything wrong with one piece where it stands among the room's furniture,
+// with `rooms` the plan's rooms for the doors neighbours keep
+export const findFurnitureClashes = (
+  room: Room,
+  furniture: Furniture[],
+  index: number,
+  wallThickness = DEFAULT_WALL_THICKNESS,
+  rooms: Room[] = []
+): FurnitureClash[] => {
+  const piece = furniture[index];
+  const { name, clearance } = getFurnitureSpec(piece);
+  const footprint = getFurnitureFootprint(room, piece);
+  const interior = getRoomInterior(room, wallThickness);
+  const zone = getClearanceZone(room, piece);
+  const others = furniture.filter((_, i) => i !== index);
+  const clashes: FurnitureClash[] = [];
+
+  if (!containsRect(interior, footprint)) clashes.push({ kind: 'wall', message: `${name} runs into a wall` });
+
+  for (const door of getRoomDoors(room, rooms)) {
+    if (getOverlap(footprint, getDoorClearanceZone(room, door))) {
+      clashes.push({ kind: 'door', message: `${name} blocks the door on the ${door.position} wall` });
+    }
+  }
+
+  for (const other of others) {
+    const otherName = getFurnitureSpec(other).name.toLowerCase();
+    if (getOverlap(footprint, getFurnitureFootprint(room, other))) {
+      clashes.push({ kind: 'furniture', message: `${name} overlaps the ${otherName}` });
+    }
+    const otherZone = getClearanceZone(room, other);
+    if (otherZone && getOverlap(footprint, otherZone)) {
+      clashes.push({ kind: 'clearance', message: `${name} stands in front of the ${otherName}` });
+    }
+  }
+
+  if (zone && (!containsRect(interior, zone) || others.some((other) => getOverlap(zone, getFurnitureFootprint(room, other))))) {
+    clashes.push({ kind: 'clearance', message: `${name} needs ${clearance}' clear in front` });
+  }
+
+  return clashes;
+};
+
+const toPiece = (room: Room, item: FurnitureItem, centerX: number, centerY: number, rotation: number): Furniture => ({
+  type: FURNITURE_CATALOG[item].type,
+  item,
+  x: round((centerX / room.width) * 100),
+  y: round((centerY / room.height) * 100),
+  rotation,
+});
+
+// Spots to try for a new piece: free-standing pieces in the middle of the
+// room first, then each piece with its back to each wall in turn, at the
+// middle of the wall and then at either end
+const getCandidates = (room: Room, item: FurnitureItem, wallThickness: number): Furniture[] => {
+  const spec = FURNITURE_CATALOG[item];
+  const interior = getRoomInterior(room, wallThickness);
+  const middleX = interior.x + interior.width / 2;
+  const middleY = interior.y + interior.height / 2;
+  const candidates: Furniture[] = spec.againstWall
+    ? []
+    : [toPiece(room, item, middleX, middleY, 0), toPiece(room, item, middleX, middleY, 90)];
+
+  for (const rotation of QUARTER_TURNS) {
+    const turned = rotation % 180 === 90;
+    const width = turned ? spec.depth : spec.width;
+    const height = turned ? spec.width : spec.depth;
+    const side = BACK_SIDES[rotation];
+
+    if (side === 'top' || side === 'bottom') {
+      const y = side === 'top' ? interior.y + height / 2 : interior.y + interior.height - height / 2;
+      for (const x of [middleX, interior.x + width / 2, interior.x + interior.width - width / 2]) {
+        candidates.push(toPiece(room, item, x, y, rotation));
+      }
+    } else {
+      const x = side === 'left' ? interior.x + width / 2 : interior.x + interior.width - width / 2;
+      for (const y of [middleY, interior.y + height / 2, interior.y + interior.height - height / 2]) {
+        candidates.push(toPiece(room, item, x, y, rotation));
+      }
+    }
+  }
+
+  return candidates;
+};
+
+// The first spot where a new piece fits without a clash, or null
+export const findFurniturePlacement = (
+  room: Room,
+  furniture: Furniture[],
+  item: FurnitureItem,
+  wallThickness = DEFAULT_WALL_THICKNESS,
+  rooms: Room[] = []
+): Furniture | null =>
+  getCandidates(room, item, wallThickness).find(
+    (candidate) => findFurnitureClashes(room, [...furniture, candidate], furniture.length, wallThickness, rooms).length === 0
+  ) ?? null;
+
+// Catalog furniture for the room's type, leaving out pieces with no room for them
+export const furnishRoom = (room: Room, wallThickness = DEFAULT_WALL_THICKNESS, rooms: Room[] = []): Furniture[] =>
+  (ROOM_FURNISHINGS[room.type] ?? []).reduce<Furniture[]>((placed, sizes) => {
+    for (const item of sizes) {
+      const piece = findFurniturePlacement(room, placed, item, wallThickness, rooms);
+      if (piece) return [...placed, piece];
+    }
+    return placed;
+  }, []);
+
+// Saved furniture, or the catalog's until the room is furnished by hand
+export const getRoomFurniture = (room: Room, wallThickness = DEFAULT_WALL_THICKNESS, rooms: Room[] = []): Furniture[] =>
+  room.furniture ?? furnishRoom(room, wallThickness, rooms);
+
+const editFurniture = (
+  rooms: Room[],
+  roomId: string,
+  index: number,
+  wallThickness: number,
+  update: (piece: Furniture, room: Room) => Furniture
+): FurnitureEdit => {
+  let clashes: FurnitureClash[] = [];
+  const edited = rooms.map((room) => {
+    if (room.id !== roomId) return room;
+    const furniture = getRoomFurniture(room, wallThickness, rooms).map((piece, i) => (i === index ? update(piece, room) : piece));
+    clashes = findFurnitureClashes(room, furniture, index, wallThickness, rooms);
+    return { ...room, furniture };
+  });
+  return { rooms: edited, clashes };
+};
+
+// Move a piece by a distance in feet, with its centre on the grid
+export const moveFurniture = (
+  rooms: Room[],
+  roomId: string,
+  index: number,
+  dx: number,
+  dy: number,
+  grid: number,
+  wallThickness = DEFAULT_WALL_THICKNESS
+): FurnitureEdit =>
+  editFurniture(rooms, roomId, index, wallThickness, (piece, room) => ({
+    ...piece,
+    x: round((snapToGrid((piece.x / 100) * room.width + dx, grid) / room.width) * 100),
+    y: round((snapToGrid((piece.y / 100) * room.height + dy, grid) / room.height) * 100),
+  }));
+
+// A quarter turn clockwise about the piece's centre
+export const rotateFurniture = (rooms: Room[], roomId: string, index: number, wallThickness = DEFAULT_WALL_THICKNESS): FurnitureEdit =>
+  editFurniture(rooms, roomId, index, wallThickness, (piece) => ({ ...piece, rotation: normalizeRotation((piece.rotation ?? 0) + 90) }));
+
+// Swap a piece for another size of the same kind, centred where it stood
+export const resizeFurniture = (
+  rooms: Room[],
+  roomId: string,
+  index: number,
+  item: FurnitureItem,
+  wallThickness = DEFAULT_WALL_THICKNESS
+): FurnitureEdit => editFurniture(rooms, roomId, index, wallThickness, (piece) => ({ ...piece, type: FURNITURE_CATALOG[item].type, item }));
+
+// Room for a new piece wherever it first fits, or null when it fits nowhere
+export const addFurniture = (rooms: Room[], roomId: string, item: FurnitureItem, wallThickness = DEFAULT_WALL_THICKNESS): Room[] | null => {
+  const room = rooms.find((candidate) => candidate.id === roomId);
+  if (!room) return null;
+  const furniture = getRoomFurniture(room, wallThickness, rooms);
+  const piece = findFurniturePlacement(room, furniture, item, wallThickness, rooms);
+  if (!piece) return null;
+  return rooms.map((candidate) => (candidate.id === roomId ? { ...candidate, furniture: [...furniture, piece] } : candidate));
+};
+
+export const removeFurniture = (rooms: Room[], roomId: string, index: number, wallThickness = DEFAULT_WALL_THICKNESS): Room[] =>
+  rooms.map((room) =>
+    room.id === roomId ? { ...room, furniture: getRoomFurniture(room, wallThickness, rooms).filter((_, i) => i !== index) } : room
+  );
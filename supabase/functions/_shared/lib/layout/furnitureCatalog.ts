@@ -0,0 +1,101 @@
+import { Furniture, FurnitureItem, FurnitureType, RoomType } from '../../types/floorPlan.ts';
+
+// Furniture at real sizes, in feet. Width runs along the back of a piece and
+// depth out from it; clearance is the free floor a piece needs in front to be
+// used, such as the space to open a wardrobe or stand at a counter.
+
+export interface FurnitureSpec {
+  name: string;
+  type: FurnitureType;
+  width: number;
+  depth: number;
+  height: number;
+  clearance: number;
+  againstWall: boolean; // false for pieces that stand free, like a dining table
+}
+
+export const FURNITURE_CATALOG: Record<FurnitureItem, FurnitureSpec> = {
+  'single-bed': { name: 'Single bed', type: 'bed', width: 3, depth: 6.5, height: 1.8, clearance: 2, againstWall: true },
+  'double-bed': { name: 'Double bed', type: 'bed', width: 4.5, depth: 6.5, height: 1.8, clearance: 2, againstWall: true },
+  'queen-bed': { name: 'Queen bed', type: 'bed', width: 5, depth: 6.75, height: 1.8, clearance: 2, againstWall: true },
+  'king-bed': { name: 'King bed', type: 'bed', width: 6, depth: 6.75, height: 1.8, clearance: 2, againstWall: true },
+  'two-seater-sofa': { name: 'Two-seater sofa', type: 'sofa', width: 5, depth: 3, height: 2.8, clearance: 2.5, againstWall: true },
+  'three-seater-sofa': { name: 'Three-seater sofa', type: 'sofa', width: 7, depth: 3, height: 2.8, clearance: 2.5, againstWall: true },
+  'two-door-wardrobe': { name: 'Two-door wardrobe', type: 'wardrobe', width: 3, depth: 2, height: 7, clearance: 2, againstWall: true },
+  'three-door-wardrobe': { name: 'Three-door wardrobe', type: 'wardrobe', width: 4.5, depth: 2, height: 7, clearance: 2, againstWall: true },
+  'four-door-wardrobe': { name: 'Four-door wardrobe', type: 'wardrobe', width: 6, depth: 2, height: 7, clearance: 2, againstWall: true },
+  'counter-6': { name: "Kitchen counter, 6'", type: 'kitchen-counter', width: 6, depth: 2, height: 3, clearance: 3, againstWall: true },
+  'counter-8': { name: "Kitchen counter, 8'", type: 'kitchen-counter', width: 8, depth: 2, height: 3, clearance: 3, againstWall: true },
+  'counter-10': { name: "Kitchen counter, 10'", type: 'kitchen-counter', width: 10, depth: 2, height: 3, clearance: 3, againstWall: true },
+  toilet: { name: 'Toilet', type: 'toilet', width: 1.5, depth: 2.3, height: 2.6, clearance: 1.5, againstWall: true },
+  'wash-basin': { name: 'Wash basin', type: 'sink', width: 2, depth: 1.5, height: 2.8, clearance: 1.5, againstWall: true },
+  shower: { name: 'Shower', type: 'shower', width: 3, depth: 3, height: 7, clearance: 1.5, againstWall: true },
+  bathtub: { name: 'Bathtub', type: 'bathtub', width: 5.5, depth: 2.5, height: 1.8, clearance: 1.5, againstWall: true },
+  'four-seater-dining': { name: 'Four-seater dining', type: 'dining-table', width: 6, depth: 5.5, height: 2.5, clearance: 0, againstWall: false },
+  'six-seater-dining': { name: 'Six-seater dining', type: 'dining-table', width: 8, depth: 5.5, height: 2.5, clearance: 0, againstWall: false },
+  'study-desk': { name: 'Study desk', type: 'desk', width: 4, depth: 4, height: 2.5, clearance: 0, againstWall: true },
+  'tv-unit': { name: 'TV unit', type: 'tv', width: 5, depth: 1.5, height: 1.8, clearance: 0, againstWall: true },
+  car: { name: 'Car', type: 'car', width: 6, depth: 14, height: 5, clearance: 2, againstWall: false },
+  planter: { name: 'Planter', type: 'plants', width: 2, depth: 2, height: 3, clearance: 0, againstWall: true },
+  mandir: { name: 'Mandir', type: 'mandir', width: 3, depth: 2, height: 4.5, clearance: 2.5, againstWall: true },
+  'washing-machine': { name: 'Washing machine', type: 'washing-machine', width: 2, depth: 2, height: 3, clearance: 2, againstWall: true },
+  'storage-rack': { name: 'Storage rack', type: 'shelves', width: 3, depth: 1.5, height: 6.5, clearance: 2, againstWall: true },
+};
+
+// The size a piece of each type has when it does not name one
+export const DEFAULT_FURNITURE_ITEMS: Record<FurnitureType, FurnitureItem> = {
+  bed: 'queen-bed',
+  sofa: 'three-seater-sofa',
+  'dining-table': 'four-seater-dining',
+  'kitchen-counter': 'counter-8',
+  toilet: 'toilet',
+  shower: 'shower',
+  bathtub: 'bathtub',
+  sink: 'wash-basin',
+  wardrobe: 'three-door-wardrobe',
+  desk: 'study-desk',
+  car: 'car',
+  plants: 'planter',
+  tv: 'tv-unit',
+  mandir: 'mandir',
+  'washing-machine': 'washing-machine',
+  shelves: 'storage-rack',
+};
+
+// What each room is furnished with, one piece per entry; where an entry lists
+// several sizes the first that fits is used
+export const ROOM_FURNISHINGS: Partial<Record<RoomType, FurnitureItem[][]>> = {
+  bedroom: [
+    ['king-bed', 'queen-bed', 'double-bed', 'single-bed'],
+    ['three-door-wardrobe', 'two-door-wardrobe'],
+  ],
+  bathroom: [['toilet'], ['wash-basin'], ['shower']],
+  kitchen: [['counter-10', 'counter-8', 'counter-6']],
+  living: [['three-seater-sofa', 'two-seater-sofa'], ['tv-unit'], ['planter']],
+  dining: [['six-seater-dining', 'four-seater-dining']],
+  garage: [['car']],
+  study: [['study-desk'], ['storage-rack']],
+  garden: [['planter'], ['planter'], ['planter']],
+  balcony: [['planter'], ['planter']],
+  pooja: [['mandir']],
+  utility: [['washing-machine']],
+  store: [['storage-rack'], ['storage-rack']],
+  wardrobe: [['four-door-wardrobe', 'three-door-wardrobe', 'two-door-wardrobe']],
+};
+
+export const getFurnitureItem = (piece: Furniture): FurnitureItem => piece.item ?? DEFAULT_FURNITURE_ITEMS[piece.type];
+
+export const getFurnitureSpec = (piece: Furniture): FurnitureSpec => FURNITURE_CATALOG[getFurnitureItem(piece)];
+
+export const normalizeRotation = (rotation = 0): number => (((Math.round(rotation / 90) * 90) % 360) + 360) % 360;
+
+// Floor size of a piece as it is turned: width across the plan, height down it
+export const getFurnitureSize = (piece: Furniture): { width: number; height: number } => {
+  const spec = getFurnitureSpec(piece);
+  const turned = normalizeRotation(piece.rotation) % 180 === 90;
+  return turned ? { width: spec.depth, height: spec.width } : { width: spec.width, height: spec.depth };
+};
+
+// Other sizes of the same kind of piece, for swapping one for another
+export const getFurnitureSizes = (type: FurnitureType): FurnitureItem[] =>
+  (Object.keys(FURNITURE_CATALOG) as FurnitureItem[]).filter((item) => FURNITURE_CATALOG[item].type === type);
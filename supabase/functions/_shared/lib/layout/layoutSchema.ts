@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import {
+  Door,
+  DoorType,
+  FurnitureItem,
+  FurnitureType,
+  GeneratedLayout,
+  GenerationRequestBody,
+  ROOM_COLORS,
+  Room,
+  RoomType,
+  Window,
+  WindowType,
+} from '../../types/floorPlan.ts';
+import { getBuildableEnvelope, hasSetbacks } from './envelope.ts';
+import { DEFAULT_FURNITURE_ITEMS, FURNITURE_CATALOG } from './furnitureCatalog.ts';
+import { Rect, getOpeningSpan, getWallSpan } from './geometry.ts';
+import { DOOR_CATALOG, WINDOW_CATALOG } from './openingCatalog.ts';
+import { getPlotPolygon, getPolygonArea, isRectInPolygon, isRectangularPolygon } from './plotPolygon.ts';
+
+// layout is null whenever errors is non-empty
+export interface LayoutParseResult {
+  layout: GeneratedLayout | null;
+  errors: string[];
+}
+
+const ROOM_TYPES = Object.keys(ROOM_COLORS) as [RoomType, ...RoomType[]];
+const DOOR_TYPES = Object.keys(DOOR_CATALOG) as [DoorType, ...DoorType[]];
+const WINDOW_TYPES = Object.keys(WINDOW_CATALOG) as [WindowType, ...WindowType[]];
+const FURNITURE_TYPES = Object.keys(DEFAULT_FURNITURE_ITEMS) as [FurnitureType, ...FurnitureType[]];
+const FURNITURE_ITEMS = Object.keys(FURNITURE_CATALOG) as [FurnitureItem, ...FurnitureItem[]];
+const BOUNDARY_TOLERANCE = 0.5;
+
+const wallSideSchema = z.enum(['top', 'bottom', 'left', 'right']);
+const feetSchema = z.number().finite();
+
+// Type, hinge, swing and heights are optional; the opening catalog fills them in
+const openingFields = {
+  position: wallSideSchema,
+  offset: z.number().finite().min(0).max(100),
+  width: feetSchema.positive(),
+  hinge: z.enum(['start', 'end']).optional(),
+  swing: z.enum(['in', 'out']).optional(),
+  sillHeight: feetSchema.min(0).optional(),
+  headHeight: feetSchema.positive().optional(),
+};
+
+export const doorSchema = z.object({
+  ...openingFields,
+  isMain: z.boolean().optional(),
+  type: z.enum(DOOR_TYPES).optional(),
+});
+
+export const windowSchema = z.object({
+  ...openingFields,
+  type: z.enum(WINDOW_TYPES).optional(),
+});
+
+export const furnitureSchema = z.object({
+  type: z.enum(FURNITURE_TYPES),
+  item: z.enum(FURNITURE_ITEMS).optional(),
+  x: z.number().finite().min(0).max(100),
+  y: z.number().finite().min(0).max(100),
+  rotation: z.number().finite().optional(),
+});
+
+const roomShape = z.object({
+  id: z.string().min(1),
+  type: z.enum(ROOM_TYPES),
+  name: z.string().min(1),
+  x: feetSchema.min(0),
+  y: feetSchema.min(0),
+  width: feetSchema.positive(),
+  height: feetSchema.positive(),
+  floor: z.number().int().min(1),
+  color: z.string().optional(),
+  doors: z.array(doorSchema).default([]),
+  windows: z.array(windowSchema).default([]),
+  furniture: z.array(furnitureSchema).optional(),
+});
+
+// Room checks that depend on the requested plot run per room, so one bad room
+// does not hide the problems of the others
+export const createRoomSchema = (request: GenerationRequestBody) => {
+  // Rooms must stay inside the plot less its setbacks; a plain rectangle is
+  // already covered by the plot-length and plot-depth checks
+  const envelope = getBuildableEnvelope(request);
+  const boundary = envelope && (hasSetbacks(request) || !isRectangularPolygon(envelope)) ? envelope : null;
+
+  return roomShape.superRefine((room, ctx) => {
+    if (room.floor > request.floors) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['floor'],
+        message: `Floor ${room.floor} exceeds the requested ${request.floors} floor(s)`,
+      });
+    }
+    if (room.x + room.width > request.plotLength + BOUNDARY_TOLERANCE) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['width'],
+        message: `Room extends to x = ${room.x + room.width} ft, past the ${request.plotLength} ft plot length`,
+      });
+    }
+    if (room.y + room.height > request.plotWidth + BOUNDARY_TOLERANCE) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['height'],
+        message: `Room extends to y = ${room.y + room.height} ft, past the ${request.plotWidth} ft plot depth`,
+      });
+    }
+    if (boundary && !isRectInPolygon(room as Rect, boundary, BOUNDARY_TOLERANCE)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [],
+        message: `Room at (${room.x}, ${room.y}) sized ${room.width} × ${room.height} ft crosses the buildable envelope (plot boundary less setbacks)`,
+      });
+    }
+
+    const openings = [
+      ...room.doors.map((opening, index) => ({ opening, path: ['doors', index] })),
+      ...room.windows.map((opening, index) => ({ opening, path: ['windows', index] })),
+    ];
+    openings.forEach(({ opening, path }) => {
+      const wall = getWallSpan(room as Room, opening.position);
+      const { end } = getOpeningSpan(room as Room, opening as Door | Window);
+      if (opening.width > wall.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [...path, 'width'],
+          message: `${opening.width} ft opening does not fit the ${wall.length} ft ${opening.position} wall`,
+        });
+      } else if (end > wall.start + wall.length + BOUNDARY_TOLERANCE) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [...path, 'offset'],
+          message: `${opening.width} ft opening at ${opening.offset}% runs ${Math.round((end - wall.start - wall.length) * 10) / 10} ft past the end of the ${opening.position} wall`,
+        });
+      }
+    });
+  });
+};
+
+export const createLayoutSchema = (request: GenerationRequestBody) =>
+  z
+    .object({
+      rooms: z.array(createRoomSchema(request)).min(3),
+      totalArea: z.number().finite().optional(),
+      efficiency: z.number().finite().optional(),
+      suggestions: z.array(z.string()).default([]),
+    })
+    .superRefine((layout, ctx) => {
+      const seenIds = new Set<string>();
+      layout.rooms.forEach((room, index) => {
+        if (seenIds.has(room.id)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rooms', index, 'id'], message: `Duplicate room id "${room.id}"` });
+        }
+        seenIds.add(room.id);
+      });
+    });
+
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>((result, key) => (typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${key}` : key), '');
+
+const stripCodeFences = (content: string): string => {
+  let cleanContent = content.trim();
+  if (cleanContent.startsWith('```json')) {
+    cleanContent = cleanContent.slice(7);
+  } else if (cleanContent.startsWith('```')) {
+    cleanContent = cleanContent.slice(3);
+  }
+  if (cleanContent.endsWith('```')) {
+    cleanContent = cleanContent.slice(0, -3);
+  }
+  return cleanContent.trim();
+};
+
+// Parse a model response into a layout, or explain why it cannot be used
+export function parseLayoutResponse(content: string, request: GenerationRequestBody): LayoutParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(stripCodeFences(content));
+  } catch (error) {
+    return { layout: null, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = createLayoutSchema(request).safeParse(data);
+  if (!result.success) {
+    return {
+      layout: null,
+      errors: result.error.issues.map((issue) => `${formatPath(issue.path) || 'layout'}: ${issue.message}`),
+    };
+  }
+
+  const { rooms, totalArea, efficiency, suggestions } = result.data;
+  return {
+    layout: {
+      rooms: rooms.map((room) => ({ ...room, color: room.color ?? ROOM_COLORS[room.type] }) as Room),
+      totalArea: totalArea ?? getPolygonArea(getBuildableEnvelope(request) ?? getPlotPolygon(request)),
+      efficiency: efficiency ?? 1,
+      suggestions,
+    },
+    errors: [],
+  };
+}
@@ -0,0 +1,62 @@
+import { GenerationRequestBody, PlotSide } from '../../types/floorPlan.ts';
+import { getRoadSides } from './envelope.ts';
+
+// Plans are drawn with the back of the plot (y = 0) at the top. Where north
+// actually lies follows from the compass bearing the front road side faces.
+
+export type CompassPoint = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+// Clockwise from north, 45° apart
+export const COMPASS_POINTS: CompassPoint[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const COMPASS_NAMES: Record<CompassPoint, string> = {
+  N: 'North',
+  NE: 'Northeast',
+  E: 'East',
+  SE: 'Southeast',
+  S: 'South',
+  SW: 'Southwest',
+  W: 'West',
+  NW: 'Northwest',
+};
+
+// Directions on the drawing, clockwise from up, in the same 45° steps
+export const DRAWING_DIRECTIONS = ['top', 'top-right', 'right', 'bottom-right', 'bottom', 'bottom-left', 'left', 'top-left'];
+
+// Drawing angle each plot side faces, clockwise from up
+const SIDE_ANGLES: Record<PlotSide, number> = { top: 0, right: 90, bottom: 180, left: 270 };
+
+type OrientationRequest = Pick<GenerationRequestBody, 'facing' | 'roadSides'>;
+
+export const normalizeBearing = (degrees: number): number => ((Math.round(degrees) % 360) + 360) % 360;
+
+// The road side the facing refers to: the first one, bottom by default
+export const getFrontSide = (request: Pick<GenerationRequestBody, 'roadSides'>): PlotSide => getRoadSides(request)[0];
+
+// Compass bearing the front faces. Without one north is straight up, which
+// is how plans were drawn before the facing could be set.
+export const getFacing = (request: OrientationRequest): number =>
+  normalizeBearing(request.facing ?? SIDE_ANGLES[getFrontSide(request)]);
+
+// Angle of the north arrow on the drawing, clockwise from up
+export const getNorthAngle = (request: OrientationRequest): number =>
+  normalizeBearing(SIDE_ANGLES[getFrontSide(request)] - getFacing(request));
+
+// Compass bearing a plot side faces
+export const getSideBearing = (request: OrientationRequest, side: PlotSide): number =>
+  normalizeBearing(SIDE_ANGLES[side] - getNorthAngle(request));
+
+// Nearest of the eight compass points to a bearing
+export const getCompassPoint = (bearing: number): CompassPoint => COMPASS_POINTS[Math.round(normalizeBearing(bearing) / 45) % 8];
+
+// How many 45° steps the compass ring is turned against the drawing. Plots
+// that face in between are mapped to the nearest step.
+export const getCompassShift = (request: OrientationRequest): number => Math.round(getNorthAngle(request) / 45) % 8;
+
+// Drawing direction of a compass point, e.g. 'bottom-right' for SE on a north-up plan
+export const getDrawingDirection = (point: CompassPoint, shift: number): string =>
+  DRAWING_DIRECTIONS[(COMPASS_POINTS.indexOf(point) + shift) % 8];
+
+// Compass point of a drawing direction, the inverse of getDrawingDirection
+export const getCompassPointAt = (direction: string, shift: number): CompassPoint =>
+  COMPASS_POINTS[(DRAWING_DIRECTIONS.indexOf(direction) - shift + 8) % 8];
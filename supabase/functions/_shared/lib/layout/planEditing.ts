@@ -0,0 +1,196 @@
+import { PlotVertex, Room } from '../../types/floorPlan.ts';
+import { GEOMETRY_TOLERANCE, Rect, WallSide, findSharedWall, getOverlap, resizeRoom } from './geometry.ts';
+import { isRectInPolygon } from './plotPolygon.ts';
+
+// Hand edits made in the 2D viewer. Rooms snap to a grid, stay inside the
+// plot (and inside its buildable area when the plot is not a plain rectangle
+// or has setbacks) and never overlap. Dragging a wall moves every room edge on
+// that wall line together, so neighbours give up or take the space; a room
+// moved onto a neighbour trades places with it when they are the same size and
+// otherwise carries its walls along the same way.
+
+export interface EditBounds {
+  plotLength: number;
+  plotWidth: number;
+  grid: number; // ft
+  boundary?: PlotVertex[]; // buildable area, when rooms must stay inside more than the plot rectangle
+}
+
+export const MIN_EDIT_DIMENSION = 3; // ft, the narrowest room an edit may leave
+
+const OPPOSITE_SIDES: Record<WallSide, WallSide> = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' };
+
+export const snapToGrid = (value: number, grid: number): number =>
+  grid > 0 ? Math.round(Math.round(value / grid) * grid * 1000) / 1000 : value;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const overlapsOthers = (rect: Rect, floorRooms: Room[], ignore: Set<string>) =>
+  floorRooms.some((other) => !ignore.has(other.id) && getOverlap(rect, other));
+
+const isInsideBoundary = (rect: Rect, bounds: EditBounds) => !bounds.boundary || isRectInPolygon(rect, bounds.boundary);
+
+// The room at its new position, or null when there is no room for it there.
+// A generated plan fills the plot, so most moves land on a neighbour: the two
+// trade places when they are the same size, otherwise both walls across the
+// move are dragged so the rooms either side resize around it
+export const moveRoomBy = (rooms: Room[], roomId: string, dx: number, dy: number, bounds: EditBounds): Room[] | null => {
+  const room = rooms.find((candidate) => candidate.id === roomId);
+  if (!room) return null;
+
+  const moved = {
+    ...room,
+    x: clamp(snapToGrid(room.x + dx, bounds.grid), 0, Math.max(0, bounds.plotLength - room.width)),
+    y: clamp(snapToGrid(room.y + dy, bounds.grid), 0, Math.max(0, bounds.plotWidth - room.height)),
+  };
+  const floorRooms = rooms.filter((other) => other.floor === room.floor);
+  if (!overlapsOthers(moved, floorRooms, new Set([room.id]))) {
+    return isInsideBoundary(moved, bounds) ? rooms.map((candidate) => (candidate.id === roomId ? moved : candidate)) : null;
+  }
+
+  return swapWithNeighbour(rooms, room, moved, floorRooms) ?? shiftRoomWalls(rooms, room, dx, dy, bounds);
+};
+
+const isSameSize = (a: Rect, b: Rect) =>
+  Math.abs(a.width - b.width) <= GEOMETRY_TOLERANCE && Math.abs(a.height - b.height) <= GEOMETRY_TOLERANCE;
+
+// Trade places with the same-size room under the moved room's centre
+const swapWithNeighbour = (rooms: Room[], room: Room, moved: Rect, floorRooms: Room[]): Room[] | null => {
+  const centerX = moved.x + moved.width / 2;
+  const centerY = moved.y + moved.height / 2;
+  const neighbour = floorRooms.find(
+    (other) =>
+      other.id !== room.id &&
+      isSameSize(other, room) &&
+      centerX > other.x &&
+      centerX < other.x + other.width &&
+      centerY > other.y &&
+      centerY < other.y + other.height
+  );
+  if (!neighbour) return null;
+
+  return rooms.map((candidate) =>
+    candidate.id === room.id
+      ? { ...room, x: neighbour.x, y: neighbour.y }
+      : candidate.id === neighbour.id
+        ? { ...neighbour, x: room.x, y: room.y }
+        : candidate
+  );
+};
+
+// Drag the wall the room moves towards, then the one behind it by as much, so
+// the room keeps its size and the rooms either side give up or take the space.
+// Null when the wall behind cannot follow all the way
+const shiftRoomWalls = (rooms: Room[], room: Room, dx: number, dy: number, bounds: EditBounds): Room[] | null => {
+  const moves: [number, WallSide][] = [
+    [dx, dx > 0 ? 'right' : 'left'],
+    [dy, dy > 0 ? 'bottom' : 'top'],
+  ];
+
+  let shifted = rooms;
+  for (const [delta, leading] of moves) {
+    if (delta === 0) continue;
+    const before = shifted.find((candidate) => candidate.id === room.id);
+    const grown = resizeRoomWall(shifted, room.id, leading, delta, bounds);
+    const amount = getEdge(grown.find((candidate) => candidate.id === room.id), leading) - getEdge(before, leading);
+    if (Math.abs(amount) <= GEOMETRY_TOLERANCE) continue;
+    // The trailing wall follows exactly, wherever the grid puts it
+    shifted = resizeRoomWall(grown, room.id, OPPOSITE_SIDES[leading], amount, { ...bounds, grid: 0 });
+  }
+
+  const result = shifted.find((candidate) => candidate.id === room.id);
+  if (!isSameSize(result, room)) return null;
+  if (Math.abs(result.x - room.x) <= GEOMETRY_TOLERANCE && Math.abs(result.y - room.y) <= GEOMETRY_TOLERANCE) return null;
+
+  // The room itself only moved, so its doors, windows and furniture go with it
+  return shifted.map((candidate) => (candidate.id === room.id ? { ...room, x: result.x, y: result.y } : candidate));
+};
+
+// Rooms with an edge on the dragged wall line: those on the dragged room's
+// side of it and those across it, following shared walls along the line
+const collectWallLine = (room: Room, side: WallSide, floorRooms: Room[]) => {
+  const same = new Set([room.id]);
+  const opposite = new Set<string>();
+
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const a of floorRooms) {
+      for (const b of floorRooms) {
+        const wall = findSharedWall(a, b);
+        if (!wall) continue;
+        if (same.has(a.id) && wall.side === side && !opposite.has(b.id)) {
+          opposite.add(b.id);
+          grew = true;
+        }
+        if (opposite.has(a.id) && wall.side === OPPOSITE_SIDES[side] && !same.has(b.id)) {
+          same.add(b.id);
+          grew = true;
+        }
+      }
+    }
+  }
+
+  return { same, opposite };
+};
+
+const moveEdge = (rect: Rect, side: WallSide, delta: number): Rect => {
+  switch (side) {
+    case 'right':
+      return { ...rect, width: rect.width + delta };
+    case 'left':
+      return { ...rect, x: rect.x + delta, width: rect.width - delta };
+    case 'bottom':
+      return { ...rect, height: rect.height + delta };
+    case 'top':
+      return { ...rect, y: rect.y + delta, height: rect.height - delta };
+  }
+};
+
+const getEdge = (room: Room, side: WallSide) =>
+  side === 'left' ? room.x : side === 'right' ? room.x + room.width : side === 'top' ? room.y : room.y + room.height;
+
+// Drag one wall of a room by delta ft. The wall stops short of the plot edge
+// and the buildable area's, of any room it would run into and of leaving a
+// room under the minimum size.
+export const resizeRoomWall = (rooms: Room[], roomId: string, side: WallSide, delta: number, bounds: EditBounds): Room[] => {
+  const room = rooms.find((candidate) => candidate.id === roomId);
+  if (!room) return rooms;
+
+  const floorRooms = rooms.filter((other) => other.floor === room.floor);
+  const { same, opposite } = collectWallLine(room, side, floorRooms);
+  const affected = new Set([...same, ...opposite]);
+
+  const apply = (amount: number) =>
+    new Map(
+      floorRooms
+        .filter((other) => affected.has(other.id))
+        .map((other) => [other.id, moveEdge(other, same.has(other.id) ? side : OPPOSITE_SIDES[side], amount)])
+    );
+
+  const isValid = (rects: Map<string, Rect>) =>
+    [...rects.values()].every(
+      (rect) =>
+        rect.width >= MIN_EDIT_DIMENSION - GEOMETRY_TOLERANCE &&
+        rect.height >= MIN_EDIT_DIMENSION - GEOMETRY_TOLERANCE &&
+        rect.x >= -GEOMETRY_TOLERANCE &&
+        rect.y >= -GEOMETRY_TOLERANCE &&
+        rect.x + rect.width <= bounds.plotLength + GEOMETRY_TOLERANCE &&
+        rect.y + rect.height <= bounds.plotWidth + GEOMETRY_TOLERANCE &&
+        isInsideBoundary(rect, bounds) &&
+        !overlapsOthers(rect, floorRooms, affected)
+    );
+
+  // Land the wall on the grid, then back off one grid step at a time until it fits
+  const edge = getEdge(room, side);
+  const step = bounds.grid > 0 ? bounds.grid : 0.5;
+  let amount = snapToGrid(edge + delta, bounds.grid) - edge;
+  let rects = apply(amount);
+  while (Math.abs(amount) > GEOMETRY_TOLERANCE && !isValid(rects)) {
+    amount = Math.abs(amount) <= step ? 0 : amount - Math.sign(amount) * step;
+    rects = apply(amount);
+  }
+  if (Math.abs(amount) <= GEOMETRY_TOLERANCE) return rooms;
+
+  return rooms.map((candidate) => (rects.has(candidate.id) ? resizeRoom(candidate, rects.get(candidate.id)) : candidate));
+};
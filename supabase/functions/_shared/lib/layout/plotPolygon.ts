@@ -0,0 +1,177 @@
+import { PlotVertex, Room } from '../../types/floorPlan.ts';
+import { GEOMETRY_TOLERANCE, Rect, resizeRoom } from './geometry.ts';
+
+export interface PolygonEdge {
+  start: PlotVertex;
+  end: PlotVertex;
+  length: number;
+  normal: PlotVertex; // unit vector pointing out of the polygon
+}
+
+const FIT_RESOLUTION = 0.5;
+const MIN_FITTED_DIMENSION = 3;
+
+// The plot boundary, falling back to the plotLength × plotWidth rectangle
+export const getPlotPolygon = (plot: { plotLength: number; plotWidth: number; plotPolygon?: PlotVertex[] }): PlotVertex[] => {
+  if (plot.plotPolygon && plot.plotPolygon.length >= 3) return plot.plotPolygon;
+  return [
+    { x: 0, y: 0 },
+    { x: plot.plotLength, y: 0 },
+    { x: plot.plotLength, y: plot.plotWidth },
+    { x: 0, y: plot.plotWidth },
+  ];
+};
+
+const getSignedArea = (vertices: PlotVertex[]): number =>
+  vertices.reduce((sum, vertex, index) => {
+    const next = vertices[(index + 1) % vertices.length];
+    return sum + vertex.x * next.y - next.x * vertex.y;
+  }, 0) / 2;
+
+// Shoelace formula; vertex order does not matter
+export const getPolygonArea = (vertices: PlotVertex[]): number => Math.abs(getSignedArea(vertices));
+
+export const getPolygonEdges = (vertices: PlotVertex[]): PolygonEdge[] => {
+  // With y pointing down, a positive signed area means the outside is to the left of each edge
+  const winding = getSignedArea(vertices) >= 0 ? 1 : -1;
+  return vertices.map((start, index) => {
+    const end = vertices[(index + 1) % vertices.length];
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    const normal = length === 0
+      ? { x: 0, y: 0 }
+      : { x: (winding * (end.y - start.y)) / length, y: (winding * (start.x - end.x)) / length };
+    return { start, end, length, normal };
+  });
+};
+
+export const getPolygonBounds = (vertices: PlotVertex[]): Rect => {
+  const xs = vertices.map((vertex) => vertex.x);
+  const ys = vertices.map((vertex) => vertex.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// A polygon is only worth special handling when it is not its own bounding box
+export const isRectangularPolygon = (vertices: PlotVertex[]): boolean => {
+  const bounds = getPolygonBounds(vertices);
+  return Math.abs(getPolygonArea(vertices) - bounds.width * bounds.height) <= GEOMETRY_TOLERANCE;
+};
+
+const distanceToSegment = (point: PlotVertex, start: PlotVertex, end: PlotVertex): number => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+};
+
+// Points on the boundary count as inside
+export const isPointInPolygon = (point: PlotVertex, vertices: PlotVertex[], tolerance = GEOMETRY_TOLERANCE): boolean => {
+  if (getPolygonEdges(vertices).some(({ start, end }) => distanceToSegment(point, start, end) <= tolerance)) return true;
+
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// All corners inside and no boundary corner poking into the rectangle, which
+// covers the re-entrant corner of L-shaped plots
+export const isRectInPolygon = (rect: Rect, vertices: PlotVertex[], tolerance = GEOMETRY_TOLERANCE): boolean => {
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+  ];
+  if (!corners.every((corner) => isPointInPolygon(corner, vertices, tolerance))) return false;
+
+  return !vertices.some(
+    (vertex) =>
+      vertex.x > rect.x + tolerance &&
+      vertex.x < rect.x + rect.width - tolerance &&
+      vertex.y > rect.y + tolerance &&
+      vertex.y < rect.y + rect.height - tolerance
+  );
+};
+
+// Largest axis-aligned rectangle inside both `rect` and the polygon, found on
+// a grid with the classic histogram method for maximal rectangles
+export const fitRectToPolygon = (rect: Rect, vertices: PlotVertex[], resolution = FIT_RESOLUTION): Rect | null => {
+  const columns = Math.floor(rect.width / resolution + GEOMETRY_TOLERANCE);
+  const rows = Math.floor(rect.height / resolution + GEOMETRY_TOLERANCE);
+  const heights = new Array<number>(columns).fill(0);
+  let best: { area: number; column: number; row: number; width: number; height: number } | null = null;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const cell = { x: rect.x + column * resolution, y: rect.y + row * resolution, width: resolution, height: resolution };
+      heights[column] = isRectInPolygon(cell, vertices) ? heights[column] + 1 : 0;
+    }
+
+    const stack: number[] = [];
+    for (let column = 0; column <= columns; column++) {
+      const height = column < columns ? heights[column] : 0;
+      while (stack.length > 0 && heights[stack[stack.length - 1]] >= height) {
+        const top = stack.pop()!;
+        const left = stack.length > 0 ? stack[stack.length - 1] + 1 : 0;
+        const width = column - left;
+        const area = width * heights[top];
+        if (area > 0 && (!best || area > best.area)) {
+          best = { area, column: left, row: row - heights[top] + 1, width, height: heights[top] };
+        }
+      }
+      stack.push(column);
+    }
+  }
+
+  if (!best) return null;
+  return {
+    x: rect.x + best.column * resolution,
+    y: rect.y + best.row * resolution,
+    width: best.width * resolution,
+    height: best.height * resolution,
+  };
+};
+
+// Shrink rooms that cross the boundary to the largest part inside it
+export function fitRoomsToPolygon(rooms: Room[], vertices: PlotVertex[]): { rooms: Room[]; changes: string[] } {
+  const changes: string[] = [];
+
+  const fitted = rooms.flatMap((room) => {
+    if (isRectInPolygon(room, vertices)) return [room];
+
+    const inside = fitRectToPolygon(room, vertices);
+    if (!inside || inside.width < MIN_FITTED_DIMENSION || inside.height < MIN_FITTED_DIMENSION) {
+      changes.push(`Removed ${room.name} on floor ${room.floor} because it falls outside the buildable area.`);
+      return [];
+    }
+    changes.push(`Trimmed ${room.name} on floor ${room.floor} to ${inside.width}' × ${inside.height}' to stay inside the buildable area.`);
+    return [resizeRoom(room, inside)];
+  });
+
+  return { rooms: fitted, changes };
+}
+
+// Shift the vertices so the bounding box starts at the plot origin
+export const normalizePolygon = (vertices: PlotVertex[]): PlotVertex[] => {
+  const bounds = getPolygonBounds(vertices);
+  return vertices.map((vertex) => ({ x: vertex.x - bounds.x, y: vertex.y - bounds.y }));
+};
+
+// Stretch the polygon so its bounding box becomes length × width
+export const scalePolygon = (vertices: PlotVertex[], length: number, width: number): PlotVertex[] => {
+  const bounds = getPolygonBounds(vertices);
+  const scaleX = bounds.width > 0 ? length / bounds.width : 1;
+  const scaleY = bounds.height > 0 ? width / bounds.height : 1;
+  return vertices.map((vertex) => ({
+    x: Math.round((vertex.x - bounds.x) * scaleX * 2) / 2,
+    y: Math.round((vertex.y - bounds.y) * scaleY * 2) / 2,
+  }));
+};
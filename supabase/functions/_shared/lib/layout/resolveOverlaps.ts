@@ -0,0 +1,131 @@
+import { Room, RoomType } from '../../types/floorPlan.ts';
+import { Rect, getOverlap, resizeRoom } from './geometry.ts';
+
+export interface OverlapResolution {
+  rooms: Room[];
+  changes: string[];
+}
+
+type Direction = 'left' | 'right' | 'up' | 'down';
+
+// When two rooms overlap, the one with the lower priority shrinks or moves
+const OVERLAP_PRIORITY: Record<RoomType, number> = {
+  staircase: 10,
+  living: 9,
+  kitchen: 8,
+  bedroom: 8,
+  dining: 7,
+  bathroom: 7,
+  garage: 6,
+  study: 5,
+  pooja: 5,
+  utility: 4,
+  store: 3,
+  wardrobe: 3,
+  balcony: 3,
+  garden: 2,
+  hallway: 1,
+};
+
+const MIN_TRIMMED_DIMENSION = 3;
+
+const area = (rect: Rect) => rect.width * rect.height;
+const feet = (value: number) => `${Math.round(value * 10) / 10}'`;
+
+// What is left of a room after cutting away everything on the far side of the
+// other room's edge, one candidate per direction
+const trimCandidates = (room: Rect, other: Rect): Rect[] => [
+  { ...room, width: other.x - room.x },
+  { ...room, x: other.x + other.width, width: room.x + room.width - (other.x + other.width) },
+  { ...room, height: other.y - room.y },
+  { ...room, y: other.y + other.height, height: room.y + room.height - (other.y + other.height) },
+];
+
+const shiftCandidates = (room: Rect, other: Rect): { rect: Rect; direction: Direction; distance: number }[] => {
+  const left = room.x + room.width - other.x;
+  const right = other.x + other.width - room.x;
+  const up = room.y + room.height - other.y;
+  const down = other.y + other.height - room.y;
+  return [
+    { rect: { ...room, x: room.x - left }, direction: 'left' as const, distance: left },
+    { rect: { ...room, x: room.x + right }, direction: 'right' as const, distance: right },
+    { rect: { ...room, y: room.y - up }, direction: 'up' as const, distance: up },
+    { rect: { ...room, y: room.y + down }, direction: 'down' as const, distance: down },
+  ].sort((a, b) => a.distance - b.distance);
+};
+
+// Make `room` clear `blocker`: move it if there is free space nearby,
+// otherwise keep the largest piece that does not overlap, otherwise drop it
+const yieldTo = (
+  room: Room,
+  blocker: Room,
+  placed: Room[],
+  plotLength: number,
+  plotWidth: number,
+  changes: string[]
+): Room | null => {
+  const label = `${room.name} on floor ${room.floor}`;
+
+  const shift = shiftCandidates(room, blocker).find(
+    ({ rect }) =>
+      rect.x >= 0 &&
+      rect.y >= 0 &&
+      rect.x + rect.width <= plotLength &&
+      rect.y + rect.height <= plotWidth &&
+      placed.every((other) => !getOverlap(rect, other))
+  );
+  if (shift) {
+    changes.push(`Moved ${label} ${feet(shift.distance)} ${shift.direction} so it no longer overlaps ${blocker.name}.`);
+    return resizeRoom(room, shift.rect);
+  }
+
+  const trim = trimCandidates(room, blocker)
+    .filter((rect) => rect.width >= MIN_TRIMMED_DIMENSION && rect.height >= MIN_TRIMMED_DIMENSION)
+    .sort((a, b) => area(b) - area(a))[0];
+  if (trim) {
+    changes.push(`Trimmed ${label} to ${feet(trim.width)} × ${feet(trim.height)} where it overlapped ${blocker.name}.`);
+    return resizeRoom(room, trim);
+  }
+
+  changes.push(`Removed ${label} because ${blocker.name} covered almost all of it.`);
+  return null;
+};
+
+// Settle rooms strongest first, so each room only has to yield to rooms that
+// are already final and the result on every floor is overlap-free. Locked
+// rooms never yield; pinned rooms (by id) come right after them.
+export function resolveOverlaps(rooms: Room[], plotLength: number, plotWidth: number, pinned: string[] = []): OverlapResolution {
+  const changes: string[] = [];
+  const settled = new Map<Room, Room | null>();
+
+  const ranked = rooms
+    .map((room, index) => ({ room, index }))
+    .sort(
+      (a, b) =>
+        Number(!!b.room.locked) - Number(!!a.room.locked) ||
+        Number(pinned.includes(b.room.id)) - Number(pinned.includes(a.room.id)) ||
+        OVERLAP_PRIORITY[b.room.type] - OVERLAP_PRIORITY[a.room.type] ||
+        area(b.room) - area(a.room) ||
+        a.index - b.index
+    );
+
+  for (const { room } of ranked) {
+    const placed = [...settled.values()].filter((other): other is Room => other !== null && other.floor === room.floor);
+    let current: Room | null = room;
+
+    // Trims only shrink a room and moves only land on free space, so each
+    // settled room blocks at most once
+    for (let attempt = 0; current && attempt <= placed.length; attempt++) {
+      const blocker = placed.find((other) => getOverlap(current, other));
+      if (!blocker) break;
+      current = yieldTo(current, blocker, placed, plotLength, plotWidth, changes);
+    }
+
+    settled.set(room, current);
+  }
+
+  return {
+    rooms: rooms.map((room) => settled.get(room)).filter((room): room is Room => room !== null),
+    changes,
+  };
+}
@@ -0,0 +1,103 @@
+import { AdjacencyEdge, GeneratedLayout, GenerationRequestBody, LayoutScore, Room, RoomType } from '../../types/floorPlan.ts';
+import { checkAdjacency } from './adjacency.ts';
+import { getBuildableEnvelope } from './envelope.ts';
+import { findSharedWall } from './geometry.ts';
+import { getPlotPolygon, getPolygonArea } from './plotPolygon.ts';
+import { VastuRequest, buildVastuReport, getVastuScore } from './vastu.ts';
+
+interface AdjacencyRule {
+  from: RoomType;
+  to: RoomType[];
+  perRoom: boolean; // every room of `from` needs a neighbor, not just one per floor
+}
+
+// Connectivity rules from the generation prompt
+const ADJACENCY_RULES: AdjacencyRule[] = [
+  { from: 'kitchen', to: ['dining'], perRoom: false },
+  { from: 'dining', to: ['living'], perRoom: false },
+  { from: 'bedroom', to: ['bathroom'], perRoom: true },
+  { from: 'utility', to: ['kitchen'], perRoom: false },
+  { from: 'staircase', to: ['hallway', 'living'], perRoom: true },
+];
+
+const groupByFloor = (rooms: Room[]): Room[][] => {
+  const floors = new Map<number, Room[]>();
+  rooms.forEach((room) => floors.set(room.floor, [...(floors.get(room.floor) ?? []), room]));
+  return [...floors.values()];
+};
+
+// Share of the built floors taken by rooms other than corridors. plotArea is
+// the buildable area, smaller than the bounding box for non-rectangular plots
+// and setbacks.
+export const scoreAreaUtilization = (
+  layout: GeneratedLayout,
+  plotLength: number,
+  plotWidth: number,
+  plotArea = plotLength * plotWidth
+): number => {
+  const floors = groupByFloor(layout.rooms);
+  if (floors.length === 0) return 0;
+
+  const usable = layout.rooms
+    .filter((room) => room.type !== 'hallway')
+    .reduce((sum, room) => {
+      const width = Math.max(0, Math.min(room.x + room.width, plotLength) - Math.max(room.x, 0));
+      const height = Math.max(0, Math.min(room.y + room.height, plotWidth) - Math.max(room.y, 0));
+      return sum + width * height;
+    }, 0);
+  return Math.min(1, usable / (plotArea * floors.length));
+};
+
+// Built-in connectivity rules plus the requested bubble-diagram edges, one
+// point each
+export const scoreAdjacency = (layout: GeneratedLayout, edges: AdjacencyEdge[] = []): number => {
+  let applicable = 0;
+  let satisfied = 0;
+
+  for (const check of checkAdjacency(layout.rooms, edges)) {
+    if (check.status === 'not-applicable') continue;
+    applicable += 1;
+    satisfied += check.status === 'met' ? 1 : 0;
+  }
+
+  for (const floorRooms of groupByFloor(layout.rooms)) {
+    for (const rule of ADJACENCY_RULES) {
+      const sources = floorRooms.filter((room) => room.type === rule.from);
+      if (sources.length === 0) continue;
+
+      const hasNeighbor = (room: Room) =>
+        floorRooms.some((other) => rule.to.includes(other.type) && findSharedWall(room, other, 0.5));
+
+      if (rule.perRoom) {
+        applicable += sources.length;
+        satisfied += sources.filter(hasNeighbor).length;
+      } else {
+        applicable += 1;
+        satisfied += sources.some(hasNeighbor) ? 1 : 0;
+      }
+    }
+  }
+
+  return applicable === 0 ? 1 : satisfied / applicable;
+};
+
+// Full marks for each Vastu check that passes, half marks for warnings
+export const scoreVastu = (layout: GeneratedLayout, request: VastuRequest): number =>
+  getVastuScore(buildVastuReport(layout.rooms, request));
+
+export function scoreLayout(layout: GeneratedLayout, request: GenerationRequestBody): LayoutScore {
+  const buildable = getBuildableEnvelope(request) ?? getPlotPolygon(request);
+  const areaUtilization = scoreAreaUtilization(layout, request.plotLength, request.plotWidth, getPolygonArea(buildable));
+  const adjacency = scoreAdjacency(layout, request.adjacency);
+  const vastu = scoreVastu(layout, request);
+  const weights = request.vastuCompliant
+    ? { areaUtilization: 0.3, adjacency: 0.35, vastu: 0.35 }
+    : { areaUtilization: 0.4, adjacency: 0.45, vastu: 0.15 };
+
+  return {
+    areaUtilization,
+    adjacency,
+    vastu,
+    total: areaUtilization * weights.areaUtilization + adjacency * weights.adjacency + vastu * weights.vastu,
+  };
+}
@@ -0,0 +1,644 @@
+import {
+  GeneratedLayout,
+  GenerationRequestBody,
+  MIN_ROOM_SIZES,
+  PlotVertex,
+  ROOM_COLORS,
+  ROOM_NAMES,
+  Room,
+  RoomType,
+} from '../../types/floorPlan.ts';
+import { DEFAULT_WALL_THICKNESS, getEfficiency } from './areaMetrics.ts';
+import { getBuildableEnvelope, getRoadSides, hasSetbacks } from './envelope.ts';
+import { Rect, mirrorRoom } from './geometry.ts';
+import { fillGapsIn100Percent } from './fillGaps.ts';
+import { expandFloorProgram, getFloorPrograms } from './floorPrograms.ts';
+import { getLockedRooms, subtractLockedRooms } from './lockedRooms.ts';
+import { placeOpenings } from './openings.ts';
+import { fitRectToPolygon, fitRoomsToPolygon, getPlotPolygon, getPolygonArea, getPolygonBounds, isRectangularPolygon } from './plotPolygon.ts';
+import { resolveOverlaps } from './resolveOverlaps.ts';
+import { alignVerticalCores } from './verticalCores.ts';
+
+// Deterministic constraint-based layout solver.
+//
+// Each floor is cut into bands from the back of the plot (top, y = 0) to the
+// road-facing front (bottom): private rooms, a corridor, service rooms and
+// public rooms. Bands have the same depth on every floor so the staircase
+// stacks vertically. Within a band, rooms are sliced edge-to-edge in
+// proportion to their target area, so the result never has gaps.
+// Non-rectangular plots are solved on their bounding box and the rooms are
+// then trimmed to the boundary, or solved inside the largest rectangle that
+// fits when trimming would drop rooms. Setbacks shrink the plot to its
+// buildable envelope before any of this. Locked rooms are taken out of the
+// program and put back over the result, which then gives way around them.
+
+type Zone = 'private' | 'service' | 'public';
+
+
+interface LayoutItem {
+  key: string;
+  type: RoomType;
+  name: string;
+  weight: number; // target area in sq ft
+  attachedTo?: string; // key of the bedroom an en-suite bath belongs to
+}
+
+type ProgramRequest = Pick<
+  GenerationRequestBody,
+  'floors' | 'bedrooms' | 'bathrooms' | 'kitchens' | 'livingRooms' | 'diningRooms' | 'garage' | 'balcony' | 'garden' | 'floorPrograms'
+>;
+
+// Rooms that must stay next to each other in a row (bedroom + attached bath)
+type Unit = LayoutItem[];
+
+interface PlacedItem extends Rect {
+  item: LayoutItem;
+}
+
+interface FloorUnits {
+  private: Unit[];
+  service: Unit[];
+  public: Unit[];
+  kitchen?: Unit;
+  living?: Unit;
+  dining?: Unit;
+  staircase?: LayoutItem;
+  dropped: RoomType[];
+  createItem: (type: RoomType, name?: string) => LayoutItem;
+}
+
+export interface SolverOptions {
+  mirror?: boolean; // flip the layout left-to-right
+  spareRooms?: boolean; // add wardrobes, studies and stores to oversized bands (default true)
+  takenNames?: string[]; // names rooms kept from the plan already use, so new bedrooms skip them
+}
+
+interface PackOptions {
+  trailing?: Unit;
+  anchorRow: 'first' | 'last';
+}
+
+const GRID = 0.5;
+const MIN_ROOM_DIMENSION = 7;
+const CORRIDOR_DEPTH = 3.5;
+const LOBBY_WIDTH = 4;
+const MIN_CORRIDOR_PLOT_DEPTH = 30;
+const MASTER_BEDROOM_FACTOR = 1.3;
+const SPARE_CAPACITY_FACTOR = 1.5;
+
+// Target areas (sq ft) the solver sizes rooms towards
+const PREFERRED_ROOM_AREAS: Record<RoomType, number> = {
+  bedroom: 150,
+  bathroom: 45,
+  kitchen: 100,
+  living: 220,
+  dining: 120,
+  garage: 240,
+  balcony: 50,
+  garden: 120,
+  hallway: 40,
+  staircase: 90,
+  pooja: 30,
+  study: 100,
+  utility: 40,
+  store: 30,
+  wardrobe: 40,
+};
+
+export const ROOM_ZONES: Record<RoomType, Zone | null> = {
+  bedroom: 'private',
+  bathroom: 'private',
+  wardrobe: 'private',
+  study: 'private',
+  kitchen: 'service',
+  utility: 'service',
+  store: 'service',
+  staircase: 'service',
+  pooja: 'service',
+  living: 'public',
+  dining: 'public',
+  garage: 'public',
+  balcony: 'public',
+  garden: 'public',
+  hallway: null,
+};
+
+// Extras the solver adds on its own, dropped in this order when a floor is too small
+const OPTIONAL_ROOM_TYPES: RoomType[] = ['store', 'utility', 'pooja'];
+
+// Extras offered to a band that is much larger than its program needs
+const SPARE_ROOM_TYPES: Record<Zone, RoomType[]> = {
+  private: ['wardrobe', 'study'],
+  service: ['utility', 'store'],
+  public: [],
+};
+
+const snap = (value: number): number => Math.round(value / GRID) * GRID;
+
+const targetArea = (type: RoomType): number => Math.max(MIN_ROOM_SIZES[type], PREFERRED_ROOM_AREAS[type]);
+
+const unitWeight = (unit: Unit): number => unit.reduce((sum, item) => sum + item.weight, 0);
+
+const repeat = <T>(value: T, count: number): T[] => Array.from({ length: Math.max(0, count) }, () => value);
+
+const distributeAcrossFloors = (count: number, floors: number, remainderToUpper: boolean): number[] => {
+  const counts = repeat(Math.floor(count / floors), floors);
+  for (let i = 0; i < count % floors; i++) {
+    counts[remainderToUpper ? floors - 1 - i : i] += 1;
+  }
+  return counts;
+};
+
+// Room types requested on each floor; index 0 is the ground floor. Floor
+// programs from the form are taken as given; otherwise the whole-house counts
+// are spread with the shared rooms on the ground floor.
+export const buildFloorPrograms = (request: ProgramRequest): RoomType[][] => {
+  const floors = Math.max(1, request.floors);
+  const custom = getFloorPrograms(request);
+  if (custom) {
+    return custom.map((program) => [...expandFloorProgram(program), ...(floors > 1 ? ['staircase' as const] : [])]);
+  }
+
+  const bedrooms = distributeAcrossFloors(Math.max(1, request.bedrooms), floors, true);
+  const bathrooms = distributeAcrossFloors(Math.max(1, request.bathrooms), floors, false);
+
+  return Array.from({ length: floors }, (_, index) => {
+    const program: RoomType[] = [];
+
+    if (index === 0) {
+      program.push(...repeat<RoomType>('living', Math.max(1, request.livingRooms)));
+      program.push(...repeat<RoomType>('dining', Math.max(1, request.diningRooms)));
+      program.push(...repeat<RoomType>('kitchen', Math.max(1, request.kitchens)));
+      if (request.garage) program.push('garage');
+      if (request.garden) program.push('garden');
+      if (request.balcony && floors === 1) program.push('balcony');
+      program.push('pooja', 'utility', 'store');
+    } else {
+      program.push('living');
+      if (request.balcony) program.push('balcony');
+    }
+
+    if (floors > 1) program.push('staircase');
+    program.push(...repeat<RoomType>('bedroom', bedrooms[index]));
+    program.push(...repeat<RoomType>('bathroom', bathrooms[index]));
+
+    return program;
+  });
+};
+
+// Drop solver-added extras until the minimum room sizes fit in the floor
+const fitProgramToCapacity = (program: RoomType[], capacity: number): { program: RoomType[]; dropped: RoomType[] } => {
+  const result = [...program];
+  const dropped: RoomType[] = [];
+  const required = () => result.reduce((sum, type) => sum + MIN_ROOM_SIZES[type], 0);
+
+  for (const optional of OPTIONAL_ROOM_TYPES) {
+    if (required() <= capacity) break;
+    const index = result.indexOf(optional);
+    if (index >= 0) {
+      result.splice(index, 1);
+      dropped.push(optional);
+    }
+  }
+
+  return { program: result, dropped };
+};
+
+const buildFloorUnits = (
+  program: RoomType[],
+  dropped: RoomType[],
+  floorIndex: number,
+  floors: number,
+  bedroomCounter: { value: number },
+  takenNames: Set<string>
+): FloorUnits => {
+  const typeCounts = new Map<RoomType, number>();
+  const totals = program.reduce((acc, type) => acc.set(type, (acc.get(type) ?? 0) + 1), new Map<RoomType, number>());
+
+  const makeItem = (type: RoomType, name?: string): LayoutItem => {
+    const count = (typeCounts.get(type) ?? 0) + 1;
+    typeCounts.set(type, count);
+    const numbered = (totals.get(type) ?? 0) > 1 ? `${ROOM_NAMES[type]} ${count}` : ROOM_NAMES[type];
+    return { key: `${type}-${count}`, type, name: name ?? numbered, weight: targetArea(type) };
+  };
+
+  const units: FloorUnits = { private: [], service: [], public: [], dropped, createItem: makeItem };
+  const bedrooms = program.filter((type) => type === 'bedroom').length;
+  const bathrooms = program.filter((type) => type === 'bathroom').length;
+
+  // Bedrooms take the first bathrooms as en-suites; the rest are common baths
+  const bedroomName = (number: number) => (number === 1 ? 'Master Bedroom' : `Bedroom ${number}`);
+  for (let i = 0; i < bedrooms; i++) {
+    do {
+      bedroomCounter.value += 1;
+    } while (takenNames.has(bedroomName(bedroomCounter.value)));
+    const isMaster = bedroomCounter.value === 1;
+    const bedroom = makeItem('bedroom', bedroomName(bedroomCounter.value));
+    if (isMaster) bedroom.weight *= MASTER_BEDROOM_FACTOR;
+
+    const unit: Unit = [bedroom];
+    if (i < bathrooms) {
+      unit.push({ ...makeItem('bathroom', 'Attached Bath'), attachedTo: bedroom.key });
+    }
+    units.private.push(unit);
+  }
+  for (let i = bedrooms; i < bathrooms; i++) {
+    units.service.push([makeItem('bathroom', 'Common Bath')]);
+  }
+
+  for (const type of program) {
+    if (type === 'bedroom' || type === 'bathroom') continue;
+
+    if (type === 'staircase') {
+      const isTop = floorIndex === floors - 1;
+      units.staircase = makeItem('staircase', floorIndex === 0 ? 'Staircase UP' : isTop ? 'Staircase DOWN' : 'Staircase');
+      continue;
+    }
+
+    const name = type === 'living' && floorIndex > 0 ? 'Family Lounge' : undefined;
+    const unit: Unit = [makeItem(type, name)];
+
+    if (type === 'kitchen' && !units.kitchen) units.kitchen = unit;
+    else if (type === 'living' && !units.living) units.living = unit;
+    else if (type === 'dining' && !units.dining) units.dining = unit;
+    else units[ROOM_ZONES[type] ?? 'service'].push(unit);
+  }
+
+  // The private band needs at least one room so the floor stays gap-free
+  if (units.private.length === 0) units.private.push([makeItem('study')]);
+
+  return units;
+};
+
+// Cut a span into pieces proportional to the weights, snapped to the grid
+const sliceSpan = (start: number, length: number, weights: number[]): [number, number][] => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const end = start + length;
+  const spans: [number, number][] = [];
+  let cursor = start;
+  let accumulated = 0;
+
+  weights.forEach((weight, index) => {
+    accumulated += weight;
+    const next = index === weights.length - 1
+      ? end
+      : Math.min(end, Math.max(cursor + GRID, snap(start + (length * accumulated) / total)));
+    spans.push([cursor, next]);
+    cursor = next;
+  });
+
+  return spans;
+};
+
+// Lay units out in one or more rows filling the rect exactly. The trailing unit
+// goes at the end of the anchor row, which borders the neighboring band.
+const packBand = (units: Unit[], rect: Rect, options: PackOptions): PlacedItem[] => {
+  const middle = units.filter((unit) => unit !== options.trailing);
+  const pinned = options.trailing ? [options.trailing] : [];
+  const itemCount = [...middle, ...pinned].reduce((sum, unit) => sum + unit.length, 0);
+  if (itemCount === 0) return [];
+
+  let rowCount = 1;
+  while (
+    rowCount < middle.length + Math.min(1, pinned.length) &&
+    rect.width / Math.ceil(itemCount / rowCount) < MIN_ROOM_DIMENSION &&
+    rect.height / (rowCount + 1) >= MIN_ROOM_DIMENSION
+  ) {
+    rowCount++;
+  }
+
+  const anchorIndex = options.anchorRow === 'first' ? 0 : rowCount - 1;
+  const rows: Unit[][] = Array.from({ length: rowCount }, () => []);
+  const rowWeights = repeat(0, rowCount);
+  rowWeights[anchorIndex] = pinned.reduce((sum, unit) => sum + unitWeight(unit), 0);
+  const rowTarget = (rowWeights[anchorIndex] + middle.reduce((sum, unit) => sum + unitWeight(unit), 0)) / rowCount;
+
+  let row = 0;
+  for (const unit of middle) {
+    while (row < rowCount - 1 && rowWeights[row] > 0 && rowWeights[row] + unitWeight(unit) / 2 > rowTarget) {
+      row++;
+    }
+    rows[row].push(unit);
+    rowWeights[row] += unitWeight(unit);
+  }
+
+  if (options.trailing) rows[anchorIndex].push(options.trailing);
+
+  const filledRows = rows.filter((units) => units.length > 0);
+  const rowSpans = sliceSpan(rect.y, rect.height, filledRows.map((units) => units.reduce((sum, unit) => sum + unitWeight(unit), 0)));
+
+  return filledRows.flatMap((rowUnits, index) => {
+    const [y, yEnd] = rowSpans[index];
+    const items = rowUnits.flat();
+    const columnSpans = sliceSpan(rect.x, rect.width, items.map((item) => item.weight));
+    return items.map((item, itemIndex) => {
+      const [x, xEnd] = columnSpans[itemIndex];
+      return { item, x, y, width: xEnd - x, height: yEnd - y };
+    });
+  });
+};
+
+// Split the plot depth between bands in proportion to demand, keeping each usable
+const allocateBandHeights = (demands: number[], depth: number): number[] => {
+  const total = demands.reduce((sum, demand) => sum + demand, 0) || 1;
+  const heights = demands.map((demand) => Math.max(MIN_ROOM_DIMENSION, (depth * demand) / total));
+  const excess = heights.reduce((sum, height) => sum + height, 0) - depth;
+
+  if (excess > 0) {
+    const slack = heights.reduce((sum, height) => sum + (height - MIN_ROOM_DIMENSION), 0);
+    if (slack > excess) {
+      heights.forEach((height, index) => {
+        heights[index] = height - (excess * (height - MIN_ROOM_DIMENSION)) / slack;
+      });
+    }
+  }
+
+  return sliceSpan(0, depth, heights).map(([start, end]) => end - start);
+};
+
+const zoneUnitsOf = (units: FloorUnits, zone: Zone): Unit[] => {
+  if (zone === 'service') {
+    return [...units.service, ...(units.kitchen ? [units.kitchen] : []), ...(units.staircase ? [[units.staircase]] : [])];
+  }
+  if (zone === 'public') {
+    return [...units.public, ...(units.living ? [units.living] : []), ...(units.dining ? [units.dining] : [])];
+  }
+  return units.private;
+};
+
+// Preferred band depth: deep enough for the largest room to be roughly square
+// and for all of the zone's area to fit across the plot
+const zoneDepthDemand = (zoneUnits: Unit[], plotLength: number): number => {
+  const items = zoneUnits.flat();
+  if (items.length === 0) return 0;
+  const area = items.reduce((sum, item) => sum + item.weight, 0);
+  return Math.max(Math.sqrt(Math.max(...items.map((item) => item.weight))), area / plotLength);
+};
+
+const addSpareRooms = (units: FloorUnits, zone: Zone, bandArea: number): void => {
+  for (const type of SPARE_ROOM_TYPES[zone]) {
+    const demand = zoneUnitsOf(units, zone).reduce((sum, unit) => sum + unitWeight(unit), 0);
+    if (bandArea <= demand * SPARE_CAPACITY_FACTOR) return;
+
+    if (type === 'wardrobe') {
+      const master = units.private.flat().find((item) => item.name === 'Master Bedroom');
+      const suite = units.private.find((unit) => master && unit.includes(master));
+      if (suite) suite.unshift({ ...units.createItem('wardrobe', 'Walk-in Wardrobe'), attachedTo: master.key });
+      continue;
+    }
+    units[zone].push([units.createItem(type)]);
+  }
+};
+
+// Spread units over the rects left to right in proportion to rect width
+const splitUnits = (units: Unit[], widths: number[]): Unit[][] => {
+  const totalWidth = widths.reduce((sum, width) => sum + width, 0) || 1;
+  const totalWeight = units.reduce((sum, unit) => sum + unitWeight(unit), 0);
+  const groups: Unit[][] = widths.map(() => []);
+  let group = 0;
+  let accumulated = 0;
+  let boundary = (totalWeight * widths[0]) / totalWidth;
+
+  for (const unit of units) {
+    while (group < widths.length - 1 && (widths[group] === 0 || (groups[group].length > 0 && accumulated + unitWeight(unit) / 2 > boundary))) {
+      group++;
+      boundary += (totalWeight * widths[group]) / totalWidth;
+    }
+    groups[group].push(unit);
+    accumulated += unitWeight(unit);
+  }
+
+  return groups;
+};
+
+const makeHallway = (key: string, name: string): LayoutItem => ({ key, type: 'hallway', name, weight: targetArea('hallway') });
+
+// Solve the largest rectangle inside the plot, then grow rooms into the rest
+const solveInsidePolygon = (request: GenerationRequestBody, polygon: PlotVertex[], options: SolverOptions): GeneratedLayout | null => {
+  const inner = fitRectToPolygon(getPolygonBounds(polygon), polygon);
+  if (!inner || inner.width < MIN_ROOM_DIMENSION * 2 || inner.height < MIN_ROOM_DIMENSION * 2) return null;
+
+  const layout = solveLayout({ ...request, plotLength: inner.width, plotWidth: inner.height, plotPolygon: undefined }, options);
+  const shifted = layout.rooms.map((room) => ({ ...room, x: room.x + inner.x, y: room.y + inner.y }));
+
+  const rooms = placeOpenings(
+    fillGapsIn100Percent(shifted, request.plotLength, request.plotWidth, Math.max(1, request.floors), polygon),
+    { entranceSides: getRoadSides(request) }
+  ).rooms;
+
+  return {
+    ...layout,
+    rooms,
+    totalArea: getPolygonArea(polygon),
+    efficiency: getEfficiency(rooms),
+    suggestions: [
+      ...layout.suggestions,
+      `Rooms were planned in the ${inner.width}' × ${inner.height}' rectangle inside the plot and extended into the remaining corners.`,
+    ],
+  };
+};
+
+// Solve the buildable envelope as if it were the plot, then move it into place
+const solveInsideSetbacks = (request: GenerationRequestBody, options: SolverOptions): GeneratedLayout => {
+  const envelope = getBuildableEnvelope(request);
+  if (!envelope) {
+    const layout = solveLayout({ ...request, setbacks: undefined }, options);
+    return {
+      ...layout,
+      suggestions: [...layout.suggestions, 'The setbacks leave no buildable area, so this layout ignores them. Reduce the setbacks to keep the margins open.'],
+    };
+  }
+
+  const bounds = getPolygonBounds(envelope);
+  const layout = solveLayout({
+    ...request,
+    plotLength: bounds.width,
+    plotWidth: bounds.height,
+    plotPolygon: isRectangularPolygon(envelope) ? undefined : envelope.map((vertex) => ({ x: vertex.x - bounds.x, y: vertex.y - bounds.y })),
+    setbacks: undefined,
+  }, options);
+
+  return {
+    ...layout,
+    rooms: layout.rooms.map((room) => ({ ...room, x: room.x + bounds.x, y: room.y + bounds.y })),
+  };
+};
+
+// Plan what the locked rooms leave of the program on the whole plot, then put
+// the locked rooms back on top; the solver's rooms yield to them and grow
+// into whatever is left
+const solveAroundLockedRooms = (request: GenerationRequestBody, options: SolverOptions): GeneratedLayout => {
+  const locked = getLockedRooms(request);
+  const layout = solveLayout({
+    ...request,
+    floorPrograms: locked.length > 0 ? subtractLockedRooms(buildFloorPrograms(request), locked) : request.floorPrograms,
+    lockedRooms: undefined,
+  }, { ...options, takenNames: locked.map((room) => room.name) });
+  if (locked.length === 0) return layout;
+
+  // A locked staircase takes the place of the solver's one on its floor
+  const lockedStairFloors = new Set(locked.filter((room) => room.type === 'staircase').map((room) => room.floor));
+  // The solver numbers its rooms afresh, so one may come back under a locked room's id
+  const lockedIds = new Set(locked.map((room) => room.id));
+  const solved = layout.rooms
+    .filter((room) => room.type !== 'staircase' || !lockedStairFloors.has(room.floor))
+    .map((room) => (lockedIds.has(room.id) ? { ...room, id: `${room.id}-replanned` } : room));
+
+  const polygon = getBuildableEnvelope(request) ?? getPlotPolygon(request);
+  const boundary = hasSetbacks(request) || !isRectangularPolygon(polygon) ? polygon : undefined;
+  const aligned = alignVerticalCores([...locked, ...solved], request.plotLength, request.plotWidth, boundary);
+  const resolved = resolveOverlaps(aligned.rooms, request.plotLength, request.plotWidth, aligned.pinned);
+  const filled = fillGapsIn100Percent(resolved.rooms, request.plotLength, request.plotWidth, Math.max(1, request.floors), boundary);
+
+  const rooms = placeOpenings(filled, { entranceSides: getRoadSides(request) }).rooms;
+
+  return {
+    ...layout,
+    rooms,
+    efficiency: getEfficiency(rooms),
+    suggestions: [...layout.suggestions, `Kept ${locked.length} locked room(s) in place and planned the rest around them.`],
+  };
+};
+
+export function solveLayout(request: GenerationRequestBody, options: SolverOptions = {}): GeneratedLayout {
+  if (request.lockedRooms?.length) return solveAroundLockedRooms(request, options);
+  if (hasSetbacks(request)) return solveInsideSetbacks(request, options);
+
+  const plotLength = request.plotLength;
+  const plotWidth = request.plotWidth;
+  const floors = Math.max(1, request.floors);
+  const hasCorridor = plotWidth >= MIN_CORRIDOR_PLOT_DEPTH;
+  const corridorDepth = hasCorridor ? CORRIDOR_DEPTH : 0;
+  const polygon = getPlotPolygon(request);
+  const plotArea = getPolygonArea(polygon);
+
+  const bedroomCounter = { value: 0 };
+  const takenNames = new Set(options.takenNames);
+  const floorUnits = buildFloorPrograms(request).map((program, index) => {
+    const reserved = plotLength * corridorDepth + (floors > 1 ? targetArea('staircase') : 0) + LOBBY_WIDTH * MIN_ROOM_DIMENSION;
+    const fitted = fitProgramToCapacity(program.filter((type) => type !== 'staircase'), plotArea - reserved);
+    const fittedProgram = floors > 1 ? [...fitted.program, 'staircase' as const] : fitted.program;
+    return buildFloorUnits(fittedProgram, fitted.dropped, index, floors, bedroomCounter, takenNames);
+  });
+
+  // Band depths come from the most demanding floor so they match on every level
+  const zones: Zone[] = ['private', 'service', 'public'];
+  const [privateDepth, serviceDepth, publicDepth] = allocateBandHeights(
+    zones.map((zone) => Math.max(...floorUnits.map((units) => zoneDepthDemand(
+      zone === 'service' ? [...zoneUnitsOf(units, zone), [makeHallway('lobby', 'Lobby')]] : zoneUnitsOf(units, zone),
+      plotLength
+    )))),
+    plotWidth - corridorDepth
+  );
+
+  const privateRect: Rect = { x: 0, y: 0, width: plotLength, height: privateDepth };
+  const corridorRect: Rect = { x: 0, y: privateDepth, width: plotLength, height: corridorDepth };
+  const serviceY = privateDepth + corridorDepth;
+  const publicRect: Rect = { x: 0, y: serviceY + serviceDepth, width: plotLength, height: publicDepth };
+  const stairWidth = floors > 1 ? snap(Math.min(10, Math.max(4, targetArea('staircase') / serviceDepth))) : 0;
+
+  const rooms: Room[] = [];
+  const attachedTo: Record<string, string> = {};
+  const suggestions: string[] = [];
+  let lobbyX: number | null = null;
+
+  floorUnits.forEach((units, index) => {
+    const floor = index + 1;
+    const placed: PlacedItem[] = [];
+
+    if (options.spareRooms !== false) {
+      addSpareRooms(units, 'private', privateRect.width * privateRect.height);
+      addSpareRooms(units, 'service', plotLength * serviceDepth - (LOBBY_WIDTH + stairWidth) * serviceDepth);
+    }
+
+    placed.push(...packBand(units.private, privateRect, { anchorRow: 'last' }));
+    if (hasCorridor) placed.push({ ...corridorRect, item: makeHallway('passage', 'Passage') });
+
+    // Living and dining end the front row so dining sits under the kitchen
+    const livingAndDining = [...(units.living ?? []), ...(units.dining ?? [])];
+    const publicPlaced = packBand(
+      [...units.public, livingAndDining].filter((unit) => unit.length > 0),
+      publicRect,
+      { trailing: livingAndDining.length > 0 ? livingAndDining : undefined, anchorRow: 'first' }
+    );
+    placed.push(...publicPlaced);
+
+    // The lobby drops from the corridor to the ground-floor living room; it
+    // and the staircase keep that position on every floor
+    if (lobbyX === null) {
+      const living = publicPlaced.find((placedItem) => placedItem.item.type === 'living');
+      const maxX = Math.max(0, plotLength - LOBBY_WIDTH - stairWidth - MIN_ROOM_DIMENSION);
+      lobbyX = Math.min(maxX, living && living.x >= MIN_ROOM_DIMENSION ? living.x : 0);
+    }
+
+    const rightX = lobbyX + LOBBY_WIDTH + stairWidth;
+    const [leftUnits, rightUnits] = splitUnits(units.service, [lobbyX, plotLength - rightX - (units.kitchen ? targetArea('kitchen') / serviceDepth : 0)]);
+    const lobbyStart = leftUnits.length > 0 ? lobbyX : 0;
+
+    placed.push(...packBand(leftUnits, { x: 0, y: serviceY, width: lobbyStart, height: serviceDepth }, { anchorRow: 'last' }));
+    placed.push({ x: lobbyStart, y: serviceY, width: lobbyX + LOBBY_WIDTH - lobbyStart, height: serviceDepth, item: makeHallway('lobby', 'Lobby') });
+    if (units.staircase) {
+      placed.push({ x: lobbyX + LOBBY_WIDTH, y: serviceY, width: stairWidth, height: serviceDepth, item: units.staircase });
+    }
+    const rightBand = units.kitchen ? [...rightUnits, units.kitchen] : rightUnits;
+    placed.push(...packBand(
+      rightBand.length > 0 ? rightBand : [[makeHallway('landing', 'Landing')]],
+      { x: rightX, y: serviceY, width: plotLength - rightX, height: serviceDepth },
+      { trailing: units.kitchen, anchorRow: 'last' }
+    ));
+
+    const floorRooms = placed.map(({ item, x, y, width, height }) => {
+      const id = `solver-${floor}-${item.key}`;
+      if (item.attachedTo) attachedTo[id] = `solver-${floor}-${item.attachedTo}`;
+      return {
+        id,
+        type: item.type,
+        name: item.name,
+        x,
+        y,
+        width,
+        height,
+        floor,
+        color: ROOM_COLORS[item.type],
+        doors: [],
+        windows: [],
+      } as Room;
+    });
+
+    rooms.push(...floorRooms);
+
+    if (units.dropped.length > 0) {
+      suggestions.push(`Floor ${floor}: skipped ${units.dropped.map((type) => ROOM_NAMES[type]).join(', ')} to keep rooms above minimum sizes.`);
+    }
+    for (const room of floorRooms) {
+      const area = room.width * room.height;
+      if (room.type !== 'hallway' && area < MIN_ROOM_SIZES[room.type]) {
+        suggestions.push(`Floor ${floor}: ${room.name} is ${area.toFixed(0)} sq.ft, below the ${MIN_ROOM_SIZES[room.type]} sq.ft minimum. Consider a larger plot or fewer rooms.`);
+      }
+    }
+  });
+
+  const oriented = options.mirror ? rooms.map((room) => mirrorRoom(room, plotLength)) : rooms;
+  const fitted = isRectangularPolygon(polygon) ? { rooms: oriented, changes: [] } : fitRoomsToPolygon(oriented, polygon);
+
+  // Trimming that costs whole rooms means the plot is too far from its bounding box
+  if (fitted.rooms.length < oriented.length) {
+    const inner = solveInsidePolygon(request, polygon, options);
+    if (inner) return inner;
+  }
+
+  const placed = placeOpenings(fitted.rooms, { entranceSides: getRoadSides(request), attachedTo }).rooms;
+
+  return {
+    rooms: placed,
+    totalArea: plotArea,
+    efficiency: getEfficiency(placed),
+    wallThickness: DEFAULT_WALL_THICKNESS,
+    suggestions: [
+      'Public rooms face the road, service rooms sit in the middle and bedrooms are at the back.',
+      'Kitchen opens to dining and bedrooms have attached baths where bathroom count allows.',
+      ...suggestions,
+      ...fitted.changes,
+    ],
+  };
+}
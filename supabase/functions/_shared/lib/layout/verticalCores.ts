@@ -0,0 +1,159 @@
+import { PlotVertex, ROOM_NAMES, Room, RoomType } from '../../types/floorPlan.ts';
+import { GEOMETRY_TOLERANCE, Rect, getOverlap } from './geometry.ts';
+import { isRectInPolygon } from './plotPolygon.ts';
+
+// Vertical cores run through every floor at the same position. Only
+// staircases for now; lifts and service shafts join this list once rooms
+// can have those types.
+export const CORE_ROOM_TYPES: RoomType[] = ['staircase'];
+
+// Rooms with plumbing, which should sit over another wet room so drains share a stack
+export const WET_ROOM_TYPES: RoomType[] = ['bathroom', 'kitchen', 'utility'];
+
+// Largest move that snaps a wet room onto the one below it
+const WET_SNAP_DISTANCE = 4;
+// Overlap in both directions that leaves room for a shared stack
+const MIN_STACK_OVERLAP = 2;
+
+export interface CoreViolation {
+  kind: 'core-misaligned' | 'core-missing' | 'wet-unstacked';
+  floor: number;
+  roomId?: string; // missing cores have no room
+  expected?: Rect; // where a core should be
+  message: string;
+}
+
+export interface CoreAlignment {
+  rooms: Room[];
+  changes: string[];
+  pinned: string[]; // ids of moved or added rooms, which other rooms should yield to
+}
+
+const feet = (value: number) => `${Math.round(value * 10) / 10}'`;
+
+const getFloors = (rooms: Room[]): number[] => [...new Set(rooms.map((room) => room.floor))].sort((a, b) => a - b);
+
+const sameRect = (a: Rect, b: Rect): boolean =>
+  Math.abs(a.x - b.x) <= GEOMETRY_TOLERANCE &&
+  Math.abs(a.y - b.y) <= GEOMETRY_TOLERANCE &&
+  Math.abs(a.width - b.width) <= GEOMETRY_TOLERANCE &&
+  Math.abs(a.height - b.height) <= GEOMETRY_TOLERANCE;
+
+// Cores of one type on a floor, back to front and left to right so they pair up between floors
+const getCores = (rooms: Room[], type: RoomType, floor: number): Room[] =>
+  rooms.filter((room) => room.type === type && room.floor === floor).sort((a, b) => a.y - b.y || a.x - b.x);
+
+const isStacked = (room: Room, below: Room[]): boolean =>
+  below.some((other) => WET_ROOM_TYPES.includes(other.type) && getOverlap(room, other, MIN_STACK_OVERLAP - GEOMETRY_TOLERANCE));
+
+// Shortest move along one axis that gives MIN_STACK_OVERLAP with the span below
+const stackShift = (start: number, length: number, otherStart: number, otherLength: number): number => {
+  if (start + length < otherStart + MIN_STACK_OVERLAP) return otherStart + MIN_STACK_OVERLAP - (start + length);
+  if (start > otherStart + otherLength - MIN_STACK_OVERLAP) return otherStart + otherLength - MIN_STACK_OVERLAP - start;
+  return 0;
+};
+
+// Each core on the lowest floor that has one is the reference for that core
+// on every floor above it
+export const findCoreViolations = (rooms: Room[]): CoreViolation[] => {
+  const floors = getFloors(rooms);
+  if (floors.length < 2) return [];
+  const violations: CoreViolation[] = [];
+
+  for (const type of CORE_ROOM_TYPES) {
+    const baseIndex = floors.findIndex((floor) => getCores(rooms, type, floor).length > 0);
+    if (baseIndex < 0) continue;
+    const references = getCores(rooms, type, floors[baseIndex]);
+
+    for (const floor of floors.slice(baseIndex + 1)) {
+      const cores = getCores(rooms, type, floor);
+      references.forEach((reference, index) => {
+        const core = cores[index];
+        const expected = { x: reference.x, y: reference.y, width: reference.width, height: reference.height };
+        if (!core) {
+          violations.push({ kind: 'core-missing', floor, expected, message: `Floor ${floor}: no ${ROOM_NAMES[type].toLowerCase()} above the one on floor ${reference.floor}.` });
+        } else if (!sameRect(core, reference)) {
+          const offset = Math.max(Math.abs(core.x - reference.x), Math.abs(core.y - reference.y));
+          violations.push({
+            kind: 'core-misaligned',
+            floor,
+            roomId: core.id,
+            expected,
+            message: offset > GEOMETRY_TOLERANCE
+              ? `Floor ${floor}: ${core.name} is ${feet(offset)} off the ${ROOM_NAMES[type].toLowerCase()} on floor ${reference.floor}.`
+              : `Floor ${floor}: ${core.name} is a different size from the ${ROOM_NAMES[type].toLowerCase()} on floor ${reference.floor}.`,
+          });
+        }
+      });
+    }
+  }
+
+  floors.slice(1).forEach((floor, index) => {
+    const below = rooms.filter((room) => room.floor === floors[index]);
+    rooms
+      .filter((room) => room.floor === floor && WET_ROOM_TYPES.includes(room.type) && !isStacked(room, below))
+      .forEach((room) => {
+        violations.push({
+          kind: 'wet-unstacked',
+          floor,
+          roomId: room.id,
+          message: `Floor ${floor}: ${room.name} is not above a wet area on floor ${floors[index]}, so it needs its own plumbing stack.`,
+        });
+      });
+  });
+
+  return violations;
+};
+
+// Snap cores onto their reference position (adding missing ones) and pull
+// wet rooms that nearly line up over the wet room below. The moved rooms
+// overlap their new neighbors until resolveOverlaps settles them as pinned.
+// Locked rooms are never moved and nothing is moved onto them.
+export const alignVerticalCores = (rooms: Room[], plotLength: number, plotWidth: number, boundary?: PlotVertex[]): CoreAlignment => {
+  let result = [...rooms];
+  const changes: string[] = [];
+  const pinned: string[] = [];
+
+  for (const violation of findCoreViolations(result)) {
+    if (violation.kind === 'core-misaligned' && !result.find((room) => room.id === violation.roomId)?.locked) {
+      result = result.map((room) => (room.id === violation.roomId ? { ...room, ...violation.expected } : room));
+      pinned.push(violation.roomId);
+      changes.push(`${violation.message.replace(/\.$/, '')}; moved it into line.`);
+    } else if (violation.kind === 'core-missing') {
+      const reference = result.find((room) => CORE_ROOM_TYPES.includes(room.type) && room.floor < violation.floor && sameRect(room, violation.expected));
+      const id = `${reference.id}-floor-${violation.floor}`;
+      result.push({ ...reference, id, floor: violation.floor, doors: [], windows: [], furniture: [] });
+      pinned.push(id);
+      changes.push(`${violation.message.replace(/\.$/, '')}; added one in line with it.`);
+    }
+  }
+
+  const floors = getFloors(result);
+  floors.slice(1).forEach((floor, index) => {
+    const below = result.filter((room) => room.floor === floors[index] && WET_ROOM_TYPES.includes(room.type));
+    const upstairs = result.filter((room) => room.floor === floor && WET_ROOM_TYPES.includes(room.type) && !room.locked && !isStacked(room, below));
+
+    for (const room of upstairs) {
+      const move = below
+        .map((other) => ({ other, dx: stackShift(room.x, room.width, other.x, other.width), dy: stackShift(room.y, room.height, other.y, other.height) }))
+        .map((candidate) => ({ ...candidate, rect: { x: room.x + candidate.dx, y: room.y + candidate.dy, width: room.width, height: room.height } }))
+        .filter(({ dx, dy, rect }) =>
+          Math.abs(dx) + Math.abs(dy) <= WET_SNAP_DISTANCE &&
+          rect.x >= -GEOMETRY_TOLERANCE &&
+          rect.y >= -GEOMETRY_TOLERANCE &&
+          rect.x + rect.width <= plotLength + GEOMETRY_TOLERANCE &&
+          rect.y + rect.height <= plotWidth + GEOMETRY_TOLERANCE &&
+          (!boundary || isRectInPolygon(rect, boundary)) &&
+          // Never push into a room that is already pinned or locked on this floor
+          !result.some((other) => other.floor === floor && other.id !== room.id && (pinned.includes(other.id) || other.locked) && getOverlap(rect, other)))
+        .sort((a, b) => Math.abs(a.dx) + Math.abs(a.dy) - (Math.abs(b.dx) + Math.abs(b.dy)))[0];
+      if (!move) continue;
+
+      result = result.map((other) => (other.id === room.id ? { ...other, ...move.rect } : other));
+      pinned.push(room.id);
+      changes.push(`Moved ${room.name} on floor ${floor} ${feet(Math.abs(move.dx) + Math.abs(move.dy))} to sit over ${move.other.name} on floor ${move.other.floor} for a shared plumbing stack.`);
+    }
+  });
+
+  return { rooms: result, changes, pinned };
+};
@@ -0,0 +1,30 @@
+import { ChatMessage, LlmProvider, LlmProviderError, mapHttpStatus } from './provider.ts';
+
+// A recorded model reply, or an HTTP failure to simulate
+export type ReplayFixture = { content: string } | { status: number };
+
+export interface FixtureReplayProvider extends LlmProvider {
+  requests: ChatMessage[][]; // every conversation sent so far, for assertions
+}
+
+// Plays back fixtures in order, one per call, so the generation path can run without network
+export const createFixtureReplayProvider = (fixtures: ReplayFixture[]): FixtureReplayProvider => {
+  const requests: ChatMessage[][] = [];
+
+  return {
+    name: 'fixture-replay',
+    requests,
+    complete: async (messages: ChatMessage[]) => {
+      requests.push(messages.map((message) => ({ ...message })));
+      const fixture = fixtures[requests.length - 1];
+
+      if (!fixture) {
+        throw new LlmProviderError(`No fixture recorded for call ${requests.length}`, 'upstream');
+      }
+      if ('status' in fixture) {
+        throw new LlmProviderError(`Replayed error: ${fixture.status}`, mapHttpStatus(fixture.status), fixture.status);
+      }
+      return fixture.content;
+    },
+  };
+};
@@ -1,4 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { GenerationProgressEvent, GenerationRequestBody } from "../_shared/types/floorPlan.ts";
+import { generateFloorPlan } from "../_shared/lib/generation/generateFloorPlan.ts";
+import { createLlmProvider } from "../_shared/lib/llm/createLlmProvider.ts";
+import { LlmProviderError, type LlmProvider } from "../_shared/lib/llm/provider.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,22 +10,63 @@ const corsHeaders = {
   "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
 };
 
-interface FloorPlanRequest {
-  plotLength: number;
-  plotWidth: number;
-  floors: number;
-  bedrooms: number;
-  bathrooms: number;
-  kitchens: number;
-  livingRooms: number;
-  diningRooms: number;
-  garage: boolean;
-  balcony: boolean;
-  garden: boolean;
-  style: string;
-  budgetRange: string;
-  vastuCompliant: boolean;
-}
+// LLM_PROVIDER picks openai-compatible (default, Lovable AI gateway), local-http
+// or fixture-replay; LLM_FIXTURES holds the replayed responses as a JSON array
+const createProviderFromEnv = () => {
+  const fixtures = Deno.env.get("LLM_FIXTURES");
+  return createLlmProvider({
+    provider: Deno.env.get("LLM_PROVIDER"),
+    baseUrl: Deno.env.get("LLM_BASE_URL"),
+    model: Deno.env.get("LLM_MODEL"),
+    apiKey: Deno.env.get("LLM_API_KEY") ?? Deno.env.get("LOVABLE_API_KEY"),
+    fixtures: fixtures ? JSON.parse(fixtures) : undefined,
+  });
+};
+
+// User-facing status and message for a failed generation
+const describeError = (error: unknown): { status: number; message: string } => {
+  if (error instanceof LlmProviderError && error.kind === "rate_limited") {
+    return { status: 429, message: "Rate limit exceeded. Please try again in a moment." };
+  }
+  if (error instanceof LlmProviderError && error.kind === "quota_exhausted") {
+    return { status: 402, message: "AI credits exhausted. Please add credits to continue." };
+  }
+  return { status: 500, message: error instanceof Error ? error.message : "Unknown error" };
+};
+
+// Progress events as server-sent events; the last one is either the result or an error.
+// A client that disconnects aborts req.signal, which cancels the upstream model request.
+const streamGeneration = (requestData: GenerationRequestBody, provider: LlmProvider, signal: AbortSignal) => {
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+  signal.addEventListener("abort", () => upstream.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: GenerationProgressEvent) => {
+        if (!upstream.signal.aborted) controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        const result = await generateFloorPlan(requestData, provider, { signal: upstream.signal, onProgress: send });
+        send({ type: "result", result });
+      } catch (error) {
+        console.error("Error generating floor plan:", error);
+        const { status, message } = describeError(error);
+        send({ type: "error", error: message, status });
+      } finally {
+        if (!upstream.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+};
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -29,841 +74,29 @@ serve(async (req) => {
   }
 
   try {
-    const requestData: FloorPlanRequest = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      console.error("LOVABLE_API_KEY is not configured");
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
-    console.log("Generating floor plan with requirements:", requestData);
-
-    // Enhanced system prompt based on professional architect's layout style
-    const systemPrompt = `You are an expert residential architect AI. Generate professional floor plans like real architects do.
-
-CRITICAL LAYOUT PRINCIPLES (based on professional architectural standards):
-1. **100% AREA COVERAGE**: ALL plot area MUST be used. No empty/unused spaces. Every square foot must belong to a room.
-2. **ZERO GAPS**: All rooms MUST share walls directly. Rooms fill the entire plot edge-to-edge.
-3. **GRID-BASED LAYOUT**: Use a grid system where rooms align perfectly edge-to-edge.
-4. **WALL THICKNESS**: Standard 6-inch (0.5ft) walls are implicit - room dimensions are interior.
-5. **ROOM ADJACENCY**: Rooms that connect must share a common wall segment.
+    const requestData: GenerationRequestBody = await req.json();
+    const provider = createProviderFromEnv();
 
-CRITICAL RULE FOR 100% COVERAGE:
-- Sum of room widths in each row = plot width
-- Sum of room heights in each column = plot height
-- No leftover space - if there's unused area, expand adjacent rooms to fill it
-- Every pixel of the plot must be assigned to a room
+    console.log(`Generating floor plan with ${provider.name} and requirements:`, requestData);
 
-PROFESSIONAL ROOM SIZE STANDARDS (Interior dimensions - can be adjusted to fill space):
-- Master Bedroom: 14'-18' wide x 16'-20' deep (flexible to fill available space)
-- Regular Bedroom: 10'-14' wide x 12'-16' deep
-- Living Room: 14'-20' wide (largest room, near entrance)
-- Dining Room: 10'-14' wide (adjacent to kitchen)
-- Kitchen: 10'-16' wide (with utility area)
-- Bathroom (attached): 5'-8' wide x 6'-8' deep
-- Common Bathroom: 5'-8' wide x 6'-8' deep
-- Store Room: 5'-8' both dimensions
-- Pooja Room: 5'-8' both dimensions
-- Staircase: 4'-6' wide x 8'-12' deep
-- Balcony: 4'-8' wide (extending from living/dining, only exterior walls are railings)
-- Utility/Wash: 6'-10' wide
-- Hallway: Variable (use to connect spaces and fill gaps)
-- Garden: Exterior area with railings on open sides
-
-LAYOUT ZONING (like professional architects):
-1. **PUBLIC ZONE** (near entrance): Living room, Dining, Guest toilet
-2. **SERVICE ZONE**: Kitchen, Utility, Store, Staircase
-3. **PRIVATE ZONE**: Bedrooms with attached bathrooms, Wardrobes
-4. **SEMI-PRIVATE**: Pooja room, Study
-
-CONNECTIVITY RULES:
-- Main entrance → Living room (via small foyer if space permits)
-- Living room → Dining room (open or with wide opening)
-- Dining room → Kitchen (direct access)
-- Kitchen → Utility/Wash area
-- Bedrooms → Attached bathroom/Wardrobe (en-suite)
-- Staircase accessible from living/hallway area
-
-VASTU COMPLIANCE (when requested):
-- Main entrance: North or East facing
-- Master bedroom: Southwest corner
-- Kitchen: Southeast corner (Agni direction)
-- Pooja room: Northeast corner (Ishan)
-- Toilets: Northwest or West
-- Living room: North or East
-- Staircase: South or West
-
-OUTPUT FORMAT - Return ONLY valid JSON:
-{
-  "rooms": [
-    {
-      "id": "unique_id",
-      "type": "bedroom|bathroom|kitchen|living|dining|garage|balcony|garden|hallway|staircase|pooja|study|utility|store|wardrobe",
-      "name": "Display Name",
-      "x": <number - left edge position in feet from plot left>,
-      "y": <number - top edge position in feet from plot top>,
-      "width": <number - room width in feet>,
-      "height": <number - room height/depth in feet>,
-      "floor": <number - 1 for ground, 2 for first floor>,
-      "color": "hsl(hue, saturation%, lightness%)",
-      "doors": [{"position": "top|bottom|left|right", "offset": <0-100>, "width": 3, "isMain": false}],
-      "windows": [{"position": "top|bottom|left|right", "offset": <0-100>, "width": 4}]
+    if (req.headers.get("Accept")?.includes("text/event-stream")) {
+      return streamGeneration(requestData, provider, req.signal);
     }
-  ],
-  "totalArea": <plot area>,
-  "efficiency": 1.0,
-  "suggestions": ["recommendation 1", "recommendation 2"]
-}`;
-
-    const userPrompt = `Design a professional floor plan for a ${requestData.plotLength}'x${requestData.plotWidth}' plot:
-
-PLOT DETAILS:
-- Plot Width (X-axis): ${requestData.plotLength} feet
-- Plot Depth (Y-axis): ${requestData.plotWidth} feet  
-- Total Plot Area: ${requestData.plotLength * requestData.plotWidth} sq.ft
-- Number of Floors: ${requestData.floors}
-
-ROOM REQUIREMENTS:
-- Bedrooms: ${requestData.bedrooms} (include attached bathroom for master bedroom)
-- Bathrooms: ${requestData.bathrooms}
-- Kitchen: ${requestData.kitchens} (with utility area nearby)
-- Living Room: ${requestData.livingRooms}
-- Dining Room: ${requestData.diningRooms}
-${requestData.garage ? "- Garage: Yes (minimum 12'x20')" : ""}
-${requestData.balcony ? "- Balcony: Yes (attached to living/dining, with railings not walls on exterior)" : ""}
-${requestData.garden ? "- Garden/Sit-out: Yes (with railings not walls on exterior)" : ""}
-- Include: Store room, Pooja room, Utility area
-
-DESIGN REQUIREMENTS:
-- Style: ${requestData.style}
-- Budget: ${requestData.budgetRange}
-${requestData.vastuCompliant ? "- VASTU COMPLIANT: Yes - strictly follow Vastu principles for room placement" : ""}
 
-CRITICAL INSTRUCTIONS FOR 100% AREA USAGE:
-1. ALL rooms must share walls - NO gaps between rooms
-2. Rooms MUST fill the ENTIRE plot area - efficiency must be 100%
-3. Place rooms edge-to-edge like a professional architect
-4. If there's leftover space, expand adjacent rooms OR add hallway/utility
-5. Master bedroom should have attached bathroom and walk-in wardrobe
-6. Kitchen adjacent to dining with utility area
-7. Include staircase if multiple floors (same position on each floor)
-8. Add doors where rooms connect (offset 30-70% along wall)
-9. Windows only on EXTERIOR walls (walls at plot boundary)
-10. VERIFY: Sum of all room areas on each floor = ${requestData.plotLength * requestData.plotWidth} sq.ft
+    const result = await generateFloorPlan(requestData, provider, { signal: req.signal });
 
-Return ONLY the JSON object.`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        temperature: 0.4, // Lower temperature for more consistent layouts
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
-
-    const aiResponse = await response.json();
-    const content = aiResponse.choices?.[0]?.message?.content;
-    
-    if (!content) {
-      console.error("Empty AI response");
-      throw new Error("Empty response from AI");
-    }
-
-    console.log("Raw AI response:", content);
-
-    let layoutData;
-    try {
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith("```json")) {
-        cleanContent = cleanContent.slice(7);
-      } else if (cleanContent.startsWith("```")) {
-        cleanContent = cleanContent.slice(3);
-      }
-      if (cleanContent.endsWith("```")) {
-        cleanContent = cleanContent.slice(0, -3);
-      }
-      layoutData = JSON.parse(cleanContent.trim());
-      
-      // Validate and fix the layout
-      layoutData = validateAndFixLayout(layoutData, requestData);
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", parseError);
-      layoutData = generateProfessionalLayout(requestData);
-    }
-
-    console.log("Generated layout:", layoutData);
+    console.log("Generated variants:", result.variants.map((variant) => `${variant.label}: ${variant.score.total.toFixed(2)}`));
 
     return new Response(
-      JSON.stringify(layoutData),
+      JSON.stringify(result),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("Error generating floor plan:", error);
+    const { status, message } = describeError(error);
     return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify({ error: message }),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
-
-function validateAndFixLayout(layout: any, req: FloorPlanRequest) {
-  if (!layout.rooms || !Array.isArray(layout.rooms) || layout.rooms.length < 3) {
-    return generateProfessionalLayout(req);
-  }
-  
-  const plotW = req.plotLength;
-  const plotH = req.plotWidth;
-  
-  // Validate and fix each room
-  layout.rooms = layout.rooms.map((room: any, index: number) => ({
-    id: room.id || `room-${index}`,
-    type: room.type || 'hallway',
-    name: room.name || `Room ${index + 1}`,
-    x: Math.max(0, Math.min(room.x || 0, plotW - 5)),
-    y: Math.max(0, Math.min(room.y || 0, plotH - 5)),
-    width: Math.max(5, Math.min(room.width || 10, plotW)),
-    height: Math.max(5, Math.min(room.height || 10, plotH)),
-    floor: room.floor || 1,
-    color: room.color || getDefaultColor(room.type),
-    doors: Array.isArray(room.doors) ? room.doors : [],
-    windows: Array.isArray(room.windows) ? room.windows : [],
-  }));
-  
-  // Ensure rooms don't exceed plot boundaries
-  layout.rooms = layout.rooms.map((room: any) => {
-    if (room.x + room.width > plotW) {
-      room.width = plotW - room.x;
-    }
-    if (room.y + room.height > plotH) {
-      room.height = plotH - room.y;
-    }
-    return room;
-  });
-  
-  // Fill gaps to ensure 100% coverage
-  layout.rooms = fillGapsIn100Percent(layout.rooms, plotW, plotH, req.floors);
-  
-  layout.totalArea = plotW * plotH;
-  layout.efficiency = 1.0;
-  layout.suggestions = layout.suggestions || ["Layout generated with 100% area utilization"];
-  
-  return layout;
-}
-
-// Fill any gaps in the layout to achieve 100% coverage
-function fillGapsIn100Percent(rooms: any[], plotW: number, plotH: number, floors: number): any[] {
-  const result = [...rooms];
-  const gridResolution = 0.5; // Check every 0.5 feet
-  
-  for (let floor = 1; floor <= floors; floor++) {
-    const floorRooms = result.filter(r => r.floor === floor);
-    
-    // Create a grid to track coverage
-    const gridW = Math.ceil(plotW / gridResolution);
-    const gridH = Math.ceil(plotH / gridResolution);
-    const covered: boolean[][] = Array(gridH).fill(null).map(() => Array(gridW).fill(false));
-    
-    // Mark covered cells
-    for (const room of floorRooms) {
-      const startX = Math.floor(room.x / gridResolution);
-      const startY = Math.floor(room.y / gridResolution);
-      const endX = Math.ceil((room.x + room.width) / gridResolution);
-      const endY = Math.ceil((room.y + room.height) / gridResolution);
-      
-      for (let y = startY; y < endY && y < gridH; y++) {
-        for (let x = startX; x < endX && x < gridW; x++) {
-          if (y >= 0 && x >= 0) {
-            covered[y][x] = true;
-          }
-        }
-      }
-    }
-    
-    // Find uncovered regions and expand adjacent rooms or create hallways
-    const uncoveredRegions = findUncoveredRegions(covered, gridW, gridH, gridResolution);
-    
-    for (const region of uncoveredRegions) {
-      // Try to expand an adjacent room first
-      let expanded = false;
-      
-      for (const room of floorRooms) {
-        // Check if room is adjacent to this region
-        const roomRight = room.x + room.width;
-        const roomBottom = room.y + room.height;
-        
-        // Expand right
-        if (Math.abs(roomRight - region.x) < 1 && 
-            room.y <= region.y && roomBottom >= region.y + region.height) {
-          room.width += region.width;
-          expanded = true;
-          break;
-        }
-        // Expand bottom
-        if (Math.abs(roomBottom - region.y) < 1 && 
-            room.x <= region.x && roomRight >= region.x + region.width) {
-          room.height += region.height;
-          expanded = true;
-          break;
-        }
-        // Expand left
-        if (Math.abs(room.x - (region.x + region.width)) < 1 && 
-            room.y <= region.y && roomBottom >= region.y + region.height) {
-          room.x = region.x;
-          room.width += region.width;
-          expanded = true;
-          break;
-        }
-        // Expand top
-        if (Math.abs(room.y - (region.y + region.height)) < 1 && 
-            room.x <= region.x && roomRight >= region.x + region.width) {
-          room.y = region.y;
-          room.height += region.height;
-          expanded = true;
-          break;
-        }
-      }
-      
-      // If no room could be expanded, create a hallway
-      if (!expanded && region.width >= 3 && region.height >= 3) {
-        result.push({
-          id: `hallway-fill-${floor}-${result.length}`,
-          type: 'hallway',
-          name: 'Passage',
-          x: region.x,
-          y: region.y,
-          width: region.width,
-          height: region.height,
-          floor: floor,
-          color: getDefaultColor('hallway'),
-          doors: [],
-          windows: [],
-        });
-      }
-    }
-  }
-  
-  return result;
-}
-
-// Find uncovered rectangular regions
-function findUncoveredRegions(covered: boolean[][], gridW: number, gridH: number, resolution: number): 
-  { x: number; y: number; width: number; height: number }[] {
-  const regions: { x: number; y: number; width: number; height: number }[] = [];
-  const visited: boolean[][] = Array(gridH).fill(null).map(() => Array(gridW).fill(false));
-  
-  for (let y = 0; y < gridH; y++) {
-    for (let x = 0; x < gridW; x++) {
-      if (!covered[y][x] && !visited[y][x]) {
-        // Found an uncovered cell, find the extent of this region
-        let maxX = x;
-        let maxY = y;
-        
-        // Expand right
-        while (maxX < gridW - 1 && !covered[y][maxX + 1] && !visited[y][maxX + 1]) {
-          maxX++;
-        }
-        
-        // Expand down
-        let canExpandDown = true;
-        while (canExpandDown && maxY < gridH - 1) {
-          for (let checkX = x; checkX <= maxX; checkX++) {
-            if (covered[maxY + 1][checkX] || visited[maxY + 1][checkX]) {
-              canExpandDown = false;
-              break;
-            }
-          }
-          if (canExpandDown) {
-            maxY++;
-          }
-        }
-        
-        // Mark as visited
-        for (let vy = y; vy <= maxY; vy++) {
-          for (let vx = x; vx <= maxX; vx++) {
-            visited[vy][vx] = true;
-          }
-        }
-        
-        const regionX = x * resolution;
-        const regionY = y * resolution;
-        const regionW = (maxX - x + 1) * resolution;
-        const regionH = (maxY - y + 1) * resolution;
-        
-        if (regionW >= 2 && regionH >= 2) {
-          regions.push({ x: regionX, y: regionY, width: regionW, height: regionH });
-        }
-      }
-    }
-  }
-  
-  return regions;
-}
-
-function getDefaultColor(type: string): string {
-  const colors: Record<string, string> = {
-    bedroom: 'hsl(270, 40%, 88%)',
-    bathroom: 'hsl(195, 55%, 88%)',
-    kitchen: 'hsl(40, 65%, 88%)',
-    living: 'hsl(150, 35%, 88%)',
-    dining: 'hsl(30, 45%, 88%)',
-    garage: 'hsl(0, 0%, 82%)',
-    balcony: 'hsl(80, 45%, 88%)',
-    garden: 'hsl(120, 45%, 82%)',
-    hallway: 'hsl(0, 0%, 92%)',
-    staircase: 'hsl(0, 0%, 78%)',
-    pooja: 'hsl(45, 65%, 88%)',
-    study: 'hsl(220, 35%, 88%)',
-    utility: 'hsl(200, 30%, 88%)',
-    store: 'hsl(25, 30%, 85%)',
-    wardrobe: 'hsl(280, 30%, 88%)',
-  };
-  return colors[type] || 'hsl(0, 0%, 88%)';
-}
-
-// Professional layout generator based on architect's design principles
-function generateProfessionalLayout(req: FloorPlanRequest) {
-  const rooms: any[] = [];
-  const plotW = req.plotLength; // Width (X-axis)
-  const plotH = req.plotWidth;  // Depth (Y-axis)
-  let roomId = 1;
-  
-  // Calculate zones based on plot size
-  // Professional layouts typically divide into columns and rows
-  
-  for (let floor = 1; floor <= req.floors; floor++) {
-    const isGroundFloor = floor === 1;
-    
-    // For a typical residential plot, divide into main sections
-    // Left column: Bedrooms with attached bath/wardrobe
-    // Center: Staircase, Hallway
-    // Right column: Living, Dining, Kitchen
-    
-    if (plotW >= 30 && plotH >= 40) {
-      // Standard residential layout (30'+ x 40'+)
-      
-      const leftColWidth = Math.min(18, plotW * 0.45);
-      const rightColWidth = plotW - leftColWidth;
-      
-      // === LEFT COLUMN (Private Zone) ===
-      
-      // Master Bedroom with attached Bath and Wardrobe
-      const masterBedWidth = leftColWidth;
-      const masterBedHeight = Math.min(20, plotH * 0.4);
-      
-      rooms.push({
-        id: `master-bed-${floor}`,
-        type: 'bedroom',
-        name: 'Master Bedroom',
-        x: 0,
-        y: 0,
-        width: masterBedWidth - 8, // Leave space for attached rooms
-        height: masterBedHeight,
-        floor: floor,
-        color: getDefaultColor('bedroom'),
-        doors: [
-          { position: 'right', offset: 80, width: 3, isMain: false },
-        ],
-        windows: [
-          { position: 'left', offset: 50, width: 5 },
-          { position: 'top', offset: 50, width: 4 },
-        ],
-      });
-      
-      // Walk-in Wardrobe (attached to master)
-      rooms.push({
-        id: `wardrobe-${floor}`,
-        type: 'wardrobe',
-        name: 'Walk-in Wardrobe',
-        x: masterBedWidth - 8,
-        y: 0,
-        width: 8,
-        height: masterBedHeight * 0.45,
-        floor: floor,
-        color: getDefaultColor('wardrobe'),
-        doors: [
-          { position: 'left', offset: 50, width: 2.5 },
-        ],
-        windows: [],
-      });
-      
-      // Master Bathroom (attached to master)
-      rooms.push({
-        id: `master-bath-${floor}`,
-        type: 'bathroom',
-        name: 'Toilet',
-        x: masterBedWidth - 8,
-        y: masterBedHeight * 0.45,
-        width: 8,
-        height: masterBedHeight * 0.55,
-        floor: floor,
-        color: getDefaultColor('bathroom'),
-        doors: [
-          { position: 'left', offset: 40, width: 2.5 },
-        ],
-        windows: [
-          { position: 'top', offset: 50, width: 2 },
-        ],
-      });
-      
-      // Pooja Room
-      const poojaHeight = Math.min(8, plotH * 0.15);
-      rooms.push({
-        id: `pooja-${floor}`,
-        type: 'pooja',
-        name: 'Pooja Room',
-        x: 0,
-        y: masterBedHeight,
-        width: leftColWidth * 0.5,
-        height: poojaHeight,
-        floor: floor,
-        color: getDefaultColor('pooja'),
-        doors: [
-          { position: 'right', offset: 50, width: 3 },
-        ],
-        windows: [],
-      });
-      
-      // Staircase
-      const stairWidth = Math.min(4.5, leftColWidth * 0.3);
-      const stairHeight = 10;
-      rooms.push({
-        id: `staircase-${floor}`,
-        type: 'staircase',
-        name: isGroundFloor ? 'Staircase UP' : 'Staircase DOWN',
-        x: leftColWidth * 0.5,
-        y: masterBedHeight,
-        width: stairWidth,
-        height: stairHeight,
-        floor: floor,
-        color: getDefaultColor('staircase'),
-        doors: [
-          { position: 'bottom', offset: 50, width: 3 },
-        ],
-        windows: [],
-      });
-      
-      // === RIGHT COLUMN (Public/Service Zone) ===
-      
-      // Living Room (largest, near entrance)
-      const livingHeight = plotH * 0.45;
-      rooms.push({
-        id: `living-${floor}`,
-        type: 'living',
-        name: 'Living Room',
-        x: leftColWidth,
-        y: 0,
-        width: rightColWidth,
-        height: livingHeight,
-        floor: floor,
-        color: getDefaultColor('living'),
-        doors: [
-          { position: 'bottom', offset: 20, width: 4, isMain: isGroundFloor },
-          { position: 'left', offset: 50, width: 3 },
-        ],
-        windows: [
-          { position: 'right', offset: 30, width: 5 },
-          { position: 'right', offset: 70, width: 5 },
-          { position: 'top', offset: 50, width: 6 },
-        ],
-      });
-      
-      // Balcony (attached to living)
-      if (req.balcony) {
-        const balconyWidth = 5;
-        rooms[rooms.length - 1].width -= balconyWidth; // Reduce living room width
-        rooms.push({
-          id: `balcony-${floor}`,
-          type: 'balcony',
-          name: 'Balcony',
-          x: plotW - balconyWidth,
-          y: 0,
-          width: balconyWidth,
-          height: Math.min(12, livingHeight * 0.6),
-          floor: floor,
-          color: getDefaultColor('balcony'),
-          doors: [
-            { position: 'left', offset: 50, width: 5 },
-          ],
-          windows: [],
-        });
-      }
-      
-      // Dining Room
-      const diningHeight = plotH * 0.25;
-      rooms.push({
-        id: `dining-${floor}`,
-        type: 'dining',
-        name: 'Dining',
-        x: leftColWidth,
-        y: livingHeight,
-        width: rightColWidth * 0.55,
-        height: diningHeight,
-        floor: floor,
-        color: getDefaultColor('dining'),
-        doors: [
-          { position: 'top', offset: 50, width: 4 },
-          { position: 'right', offset: 50, width: 3 },
-        ],
-        windows: [],
-      });
-      
-      // Kitchen
-      const kitchenStartY = livingHeight;
-      rooms.push({
-        id: `kitchen-${floor}`,
-        type: 'kitchen',
-        name: 'Kitchen',
-        x: leftColWidth + rightColWidth * 0.55,
-        y: kitchenStartY,
-        width: rightColWidth * 0.45,
-        height: diningHeight + 4,
-        floor: floor,
-        color: getDefaultColor('kitchen'),
-        doors: [
-          { position: 'left', offset: 30, width: 3 },
-        ],
-        windows: [
-          { position: 'right', offset: 50, width: 4 },
-        ],
-      });
-      
-      // Store Room
-      const storeY = masterBedHeight + poojaHeight;
-      rooms.push({
-        id: `store-${floor}`,
-        type: 'store',
-        name: 'Store',
-        x: 0,
-        y: storeY,
-        width: 6,
-        height: 6,
-        floor: floor,
-        color: getDefaultColor('store'),
-        doors: [
-          { position: 'right', offset: 50, width: 2.5 },
-        ],
-        windows: [],
-      });
-      
-      // Utility Area
-      rooms.push({
-        id: `utility-${floor}`,
-        type: 'utility',
-        name: 'Utility',
-        x: 6,
-        y: storeY,
-        width: leftColWidth - 6,
-        height: 6,
-        floor: floor,
-        color: getDefaultColor('utility'),
-        doors: [
-          { position: 'top', offset: 50, width: 3 },
-        ],
-        windows: [
-          { position: 'left', offset: 50, width: 3 },
-        ],
-      });
-      
-      // Additional bedrooms on second floor or if required
-      if (req.bedrooms > 1) {
-        const bed2Y = livingHeight + diningHeight;
-        const bed2Height = plotH - bed2Y;
-        
-        if (bed2Height >= 10) {
-          rooms.push({
-            id: `bedroom2-${floor}`,
-            type: 'bedroom',
-            name: `Bedroom ${roomId++}`,
-            x: leftColWidth,
-            y: bed2Y,
-            width: rightColWidth * 0.6,
-            height: bed2Height,
-            floor: floor,
-            color: getDefaultColor('bedroom'),
-            doors: [
-              { position: 'top', offset: 30, width: 3 },
-            ],
-            windows: [
-              { position: 'bottom', offset: 50, width: 4 },
-              { position: 'right', offset: 50, width: 4 },
-            ],
-          });
-          
-          // Attached bathroom for bedroom 2
-          if (req.bathrooms > 1) {
-            rooms.push({
-              id: `bath2-${floor}`,
-              type: 'bathroom',
-              name: 'Bathroom',
-              x: leftColWidth + rightColWidth * 0.6,
-              y: bed2Y,
-              width: rightColWidth * 0.4,
-              height: Math.min(6, bed2Height * 0.5),
-              floor: floor,
-              color: getDefaultColor('bathroom'),
-              doors: [
-                { position: 'left', offset: 50, width: 2.5 },
-              ],
-              windows: [
-                { position: 'right', offset: 50, width: 2 },
-              ],
-            });
-          }
-        }
-      }
-      
-    } else {
-      // Smaller plot - compact layout
-      // Simple two-column layout
-      
-      const colWidth = plotW / 2;
-      
-      // Left: Bedroom + Bath
-      rooms.push({
-        id: `bedroom-${floor}`,
-        type: 'bedroom',
-        name: 'Bedroom',
-        x: 0,
-        y: 0,
-        width: colWidth,
-        height: plotH * 0.6,
-        floor: floor,
-        color: getDefaultColor('bedroom'),
-        doors: [
-          { position: 'right', offset: 80, width: 3 },
-        ],
-        windows: [
-          { position: 'left', offset: 50, width: 4 },
-          { position: 'top', offset: 50, width: 4 },
-        ],
-      });
-      
-      rooms.push({
-        id: `bathroom-${floor}`,
-        type: 'bathroom',
-        name: 'Bathroom',
-        x: 0,
-        y: plotH * 0.6,
-        width: colWidth * 0.5,
-        height: plotH * 0.4,
-        floor: floor,
-        color: getDefaultColor('bathroom'),
-        doors: [
-          { position: 'top', offset: 50, width: 2.5 },
-        ],
-        windows: [
-          { position: 'left', offset: 50, width: 2 },
-        ],
-      });
-      
-      rooms.push({
-        id: `kitchen-${floor}`,
-        type: 'kitchen',
-        name: 'Kitchen',
-        x: colWidth * 0.5,
-        y: plotH * 0.6,
-        width: colWidth * 0.5,
-        height: plotH * 0.4,
-        floor: floor,
-        color: getDefaultColor('kitchen'),
-        doors: [
-          { position: 'right', offset: 50, width: 3 },
-        ],
-        windows: [
-          { position: 'bottom', offset: 50, width: 3 },
-        ],
-      });
-      
-      // Right: Living + Dining
-      rooms.push({
-        id: `living-${floor}`,
-        type: 'living',
-        name: 'Living Room',
-        x: colWidth,
-        y: 0,
-        width: colWidth,
-        height: plotH * 0.55,
-        floor: floor,
-        color: getDefaultColor('living'),
-        doors: [
-          { position: 'left', offset: 50, width: 3 },
-          { position: 'bottom', offset: 50, width: 4, isMain: true },
-        ],
-        windows: [
-          { position: 'right', offset: 30, width: 4 },
-          { position: 'right', offset: 70, width: 4 },
-        ],
-      });
-      
-      rooms.push({
-        id: `dining-${floor}`,
-        type: 'dining',
-        name: 'Dining',
-        x: colWidth,
-        y: plotH * 0.55,
-        width: colWidth,
-        height: plotH * 0.45,
-        floor: floor,
-        color: getDefaultColor('dining'),
-        doors: [
-          { position: 'top', offset: 50, width: 3 },
-          { position: 'left', offset: 50, width: 3 },
-        ],
-        windows: [
-          { position: 'bottom', offset: 50, width: 4 },
-        ],
-      });
-    }
-  }
-
-  // Fill any remaining gaps to ensure 100% coverage
-  const filledRooms = fillGapsIn100Percent(rooms, plotW, plotH, req.floors);
-  
-  // Calculate actual used area after filling
-  const usedArea = filledRooms
-    .filter(r => r.floor === 1)
-    .reduce((sum, r) => sum + r.width * r.height, 0);
-  const totalPlotArea = plotW * plotH;
-
-  return {
-    rooms: filledRooms,
-    totalArea: totalPlotArea,
-    efficiency: 1.0,
-    suggestions: [
-      "Layout uses 100% of plot area with no wasted space.",
-      req.vastuCompliant ? "Layout follows Vastu principles with proper room orientations." : "Consider Vastu compliance for better energy flow.",
-      "Master bedroom includes attached bathroom and walk-in wardrobe.",
-      "Kitchen is adjacent to dining for easy serving access.",
-    ],
-  };
-}
@@ -0,0 +1,2 @@
+-- Boundary vertices (feet) for non-rectangular plots; NULL means the plot_length × plot_width rectangle
+ALTER TABLE public.saved_plans ADD COLUMN plot_polygon JSONB;
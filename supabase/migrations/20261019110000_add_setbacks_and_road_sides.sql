@@ -0,0 +1,3 @@
+-- Open margins (feet) per plot side and the sides that face a road; NULL means none / bottom
+ALTER TABLE public.saved_plans ADD COLUMN setbacks JSONB;
+ALTER TABLE public.saved_plans ADD COLUMN road_sides TEXT[];
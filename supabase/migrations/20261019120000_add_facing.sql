@@ -0,0 +1,2 @@
+-- Compass bearing (degrees from north) the first road side faces; NULL means north is up
+ALTER TABLE public.saved_plans ADD COLUMN facing NUMERIC;
@@ -0,0 +1,2 @@
+-- Rooms wanted on each floor (index 0 is the ground floor); NULL means the whole-house counts are used
+ALTER TABLE public.saved_plans ADD COLUMN floor_programs JSONB;
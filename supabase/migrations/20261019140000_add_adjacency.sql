@@ -0,0 +1,2 @@
+-- Bubble-diagram requirements ({ from, to, kind } edges); NULL means none
+ALTER TABLE public.saved_plans ADD COLUMN adjacency JSONB;